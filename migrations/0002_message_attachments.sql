@@ -0,0 +1,2 @@
+-- Images sent with a message
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachments JSONB;
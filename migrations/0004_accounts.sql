@@ -0,0 +1,41 @@
+-- Every row belongs to the user who created it
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE concept_cards ADD COLUMN IF NOT EXISTS user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE todos ADD COLUMN IF NOT EXISTS user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_chats_user_id ON chats(user_id);
+CREATE INDEX IF NOT EXISTS idx_messages_user_id ON messages(user_id);
+CREATE INDEX IF NOT EXISTS idx_concept_cards_user_id ON concept_cards(user_id);
+CREATE INDEX IF NOT EXISTS idx_todos_user_id ON todos(user_id);
+
+-- Row-level security: users only see and change their own rows
+ALTER TABLE chats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE concept_cards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE todos ENABLE ROW LEVEL SECURITY;
+
+-- The old todos setup let anyone read and write every todo
+DROP POLICY IF EXISTS "Allow read access" ON todos;
+DROP POLICY IF EXISTS "Allow insert access" ON todos;
+DROP POLICY IF EXISTS "Allow update access" ON todos;
+DROP POLICY IF EXISTS "Allow delete access" ON todos;
+
+DROP POLICY IF EXISTS "Users manage their own chats" ON chats;
+CREATE POLICY "Users manage their own chats" ON chats
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users manage their own messages" ON messages;
+CREATE POLICY "Users manage their own messages" ON messages
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users manage their own concept cards" ON concept_cards;
+CREATE POLICY "Users manage their own concept cards" ON concept_cards
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users manage their own todos" ON todos;
+CREATE POLICY "Users manage their own todos" ON todos
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- Rows created before accounts have no owner and are hidden from everyone.
+-- To give them to a user: UPDATE chats SET user_id = '<user id>' WHERE user_id IS NULL; (and the same for the other tables)
@@ -0,0 +1,11 @@
+-- Images sent with messages, stored under <user id>/<chat id>/ and read through signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('attachments', 'attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Users only see and change the files in their own folder
+DROP POLICY IF EXISTS "Users manage their own attachments" ON storage.objects;
+CREATE POLICY "Users manage their own attachments" ON storage.objects
+  FOR ALL
+  USING (bucket_id = 'attachments' AND auth.uid()::text = (storage.foldername(name))[1])
+  WITH CHECK (bucket_id = 'attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
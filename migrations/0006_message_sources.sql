@@ -0,0 +1,2 @@
+-- The concept cards and earlier answers a response was given as context
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS sources JSONB;
@@ -0,0 +1,60 @@
+-- Full-text search over chat titles and message text
+
+-- The words of a message: its text parts, without inline data or the text of attached files
+CREATE OR REPLACE FUNCTION message_search_text(content TEXT) RETURNS TEXT
+LANGUAGE plpgsql IMMUTABLE AS $$
+BEGIN
+  IF left(ltrim(content), 1) <> '[' THEN
+    RETURN content;
+  END IF;
+  RETURN coalesce((
+    SELECT string_agg(part->>'text', E'\n')
+    FROM jsonb_array_elements(content::jsonb) AS part
+    WHERE part->>'text' IS NOT NULL AND part->>'file' IS NULL
+  ), '');
+EXCEPTION WHEN others THEN
+  -- Plain text that happens to start with a bracket
+  RETURN content;
+END;
+$$;
+
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('english', title)) STORED;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('english', message_search_text(content))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_chats_search_vector ON chats USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_messages_search_vector ON messages USING GIN (search_vector);
+
+-- Chats and messages containing every word of the query, each as a prefix so
+-- results follow along while typing. Matched words in the snippet are wrapped
+-- in chr(2) and chr(3). Runs as the caller, so it only sees their own rows.
+CREATE OR REPLACE FUNCTION search_messages(search_query TEXT, result_limit INT DEFAULT 20)
+RETURNS TABLE (chat_id UUID, chat_title TEXT, message_id UUID, role TEXT, snippet TEXT, created_at TIMESTAMPTZ)
+LANGUAGE sql STABLE SECURITY INVOKER AS $$
+  WITH query AS (
+    SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & ')) AS q
+    FROM regexp_split_to_table(lower(search_query), '[^[:alnum:]]+') AS word
+    WHERE word <> ''
+  ),
+  hits AS (
+    SELECT c.id AS chat_id, c.title AS chat_title, NULL::UUID AS message_id, NULL::TEXT AS role,
+      c.title AS text, c.created_at, ts_rank(c.search_vector, query.q) * 2 AS rank
+    FROM chats c, query
+    WHERE c.search_vector @@ query.q
+    UNION ALL
+    SELECT m.chat_id, c.title, m.id, m.role,
+      message_search_text(m.content), m.created_at, ts_rank(m.search_vector, query.q)
+    FROM messages m JOIN chats c ON c.id = m.chat_id, query
+    WHERE m.search_vector @@ query.q
+    ORDER BY rank DESC, created_at DESC
+    LIMIT result_limit
+  )
+  -- Snippets only for the results returned
+  SELECT hits.chat_id, hits.chat_title, hits.message_id, hits.role,
+    ts_headline('english', hits.text, query.q,
+      'MaxFragments=1, MinWords=10, MaxWords=30, FragmentDelimiter=" … ", StartSel=' || chr(2) || ', StopSel=' || chr(3)),
+    hits.created_at
+  FROM hits, query
+  ORDER BY hits.rank DESC, hits.created_at DESC;
+$$;
@@ -0,0 +1,25 @@
+-- Folders, pinning, tags and archiving for chats
+CREATE TABLE IF NOT EXISTS chat_folders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_folders_user_id ON chat_folders(user_id);
+
+ALTER TABLE chat_folders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their own chat folders" ON chat_folders;
+CREATE POLICY "Users manage their own chat folders" ON chat_folders
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- Chats left in a deleted folder move out of it
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS folder_id UUID REFERENCES chat_folders(id) ON DELETE SET NULL;
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS pinned BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS archived BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_chats_folder_id ON chats(folder_id);
+CREATE INDEX IF NOT EXISTS idx_chats_tags ON chats USING GIN (tags);
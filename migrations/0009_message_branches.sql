@@ -0,0 +1,22 @@
+-- Branching chats: every message records the message it follows, so a
+-- regenerated answer or an edited question sits next to the one it replaces
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'messages' AND column_name = 'parent_id'
+  ) THEN
+    ALTER TABLE messages ADD COLUMN parent_id UUID REFERENCES messages(id) ON DELETE CASCADE;
+
+    -- Existing chats are a single path: each message follows the one before it
+    UPDATE messages m SET parent_id = ordered.previous_id
+    FROM (
+      SELECT id, lag(id) OVER (PARTITION BY chat_id ORDER BY created_at, id) AS previous_id
+      FROM messages
+    ) ordered
+    WHERE m.id = ordered.id AND ordered.previous_id IS NOT NULL;
+  END IF;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_messages_parent_id ON messages(parent_id);
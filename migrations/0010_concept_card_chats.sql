@@ -0,0 +1,4 @@
+-- The chat a concept card was generated in, so it can be exported with the chat
+ALTER TABLE concept_cards ADD COLUMN IF NOT EXISTS chat_id UUID REFERENCES chats(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_concept_cards_chat_id ON concept_cards(chat_id);
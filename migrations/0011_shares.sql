@@ -0,0 +1,87 @@
+-- Read-only public links to a chat or a deck of concept cards
+CREATE TABLE IF NOT EXISTS shares (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  token TEXT NOT NULL UNIQUE,
+  kind TEXT NOT NULL CHECK (kind IN ('chat', 'cards')),
+  chat_id UUID REFERENCES chats(id) ON DELETE CASCADE,
+  card_ids UUID[],
+  title TEXT NOT NULL,
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_shares_user_id ON shares(user_id);
+CREATE INDEX IF NOT EXISTS idx_shares_chat_id ON shares(chat_id);
+
+ALTER TABLE shares ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their own shares" ON shares;
+CREATE POLICY "Users manage their own shares" ON shares
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- What a share link shows, for anyone with its token, signed in or not, while
+-- the link is neither revoked nor expired. Only the owner's own rows are shown.
+CREATE OR REPLACE FUNCTION get_shared_content(share_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  shared shares;
+BEGIN
+  SELECT * INTO shared FROM shares
+  WHERE token = share_token
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > NOW());
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'share', jsonb_build_object(
+      'kind', shared.kind,
+      'title', shared.title,
+      'created_at', shared.created_at,
+      'expires_at', shared.expires_at
+    ),
+    'chat', (
+      SELECT jsonb_build_object('title', c.title, 'model', c.model, 'created_at', c.created_at)
+      FROM chats c
+      WHERE shared.kind = 'chat' AND c.id = shared.chat_id AND c.user_id = shared.user_id
+    ),
+    'messages', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', m.id,
+        'role', m.role,
+        'content', m.content,
+        'chat_id', m.chat_id,
+        'created_at', m.created_at,
+        'parent_id', m.parent_id,
+        'attachments', m.attachments
+      ) ORDER BY m.created_at)
+      FROM messages m
+      WHERE shared.kind = 'chat' AND m.chat_id = shared.chat_id AND m.user_id = shared.user_id
+    ), '[]'::jsonb),
+    'cards', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', k.id,
+        'title', k.title,
+        'content', k.content,
+        'category', k.category,
+        'color_gradient', k.color_gradient,
+        'created_at', k.created_at
+      ) ORDER BY k.created_at)
+      FROM concept_cards k
+      WHERE shared.kind = 'cards' AND k.id = ANY(shared.card_ids) AND k.user_id = shared.user_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_shared_content(TEXT) TO anon, authenticated;
@@ -0,0 +1,22 @@
+-- Spaced-repetition progress of concept cards: one row per card, sharing its id
+CREATE TABLE IF NOT EXISTS card_reviews (
+  id UUID PRIMARY KEY REFERENCES concept_cards(id) ON DELETE CASCADE,
+  ease REAL NOT NULL DEFAULT 2.5,
+  interval INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  due_at TIMESTAMPTZ NOT NULL,
+  last_reviewed_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_card_reviews_user_id ON card_reviews(user_id);
+CREATE INDEX IF NOT EXISTS idx_card_reviews_due_at ON card_reviews(due_at);
+
+ALTER TABLE card_reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their own card reviews" ON card_reviews;
+CREATE POLICY "Users manage their own card reviews" ON card_reviews
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
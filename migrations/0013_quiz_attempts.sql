@@ -0,0 +1,23 @@
+-- Quizzes taken on concept cards or chats, with the questions, the answers given and the score
+CREATE TABLE IF NOT EXISTS quiz_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  title TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('cards', 'chat')),
+  category TEXT NOT NULL,
+  chat_id UUID REFERENCES chats(id) ON DELETE SET NULL,
+  questions JSONB NOT NULL DEFAULT '[]',
+  answers JSONB NOT NULL DEFAULT '[]',
+  score INTEGER NOT NULL DEFAULT 0,
+  total INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_user_id ON quiz_attempts(user_id);
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_category ON quiz_attempts(category);
+
+ALTER TABLE quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their own quiz attempts" ON quiz_attempts;
+CREATE POLICY "Users manage their own quiz attempts" ON quiz_attempts
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
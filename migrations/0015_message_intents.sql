@@ -0,0 +1,3 @@
+-- What a question asks for (casual, educational, image_generation, code or
+-- summary), with its subject, topic and confidence, as classified when it was sent
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS intent JSONB;
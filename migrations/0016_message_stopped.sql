@@ -0,0 +1,2 @@
+-- Answers the user stopped part way, kept with the text that had arrived
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS stopped BOOLEAN;
@@ -1,34 +1,57 @@
 import React from "react";
-import { BrowserRouter as Router, Routes, Route, Navigate } from "react-router-dom";
+import { BrowserRouter as Router, Routes, Route, Navigate, Outlet } from "react-router-dom";
 import ChatPage from "./pages/ChatPage";
 import ConceptCardsPage from "./pages/ConceptCardsPage";
+import StudyPage from "./pages/StudyPage";
+import QuizPage from "./pages/QuizPage";
 import TodoPage from "./pages/TodoPage";
+import SignInPage from "./pages/SignInPage";
+import SharedPage from "./pages/SharedPage";
+import ProtectedRoute from "./components/ProtectedRoute";
 import { AppProvider } from "./context/AppContext";
 import { AnimationProvider } from "./context/AnimationContext";
+import { AuthProvider, useAuth } from "./context/AuthContext";
+import { getRepository } from "./services/repository";
 import './App.css';
 
-// Check if we're in offline mode (no Supabase)
-const isOfflineMode = !import.meta.env.VITE_SUPABASE_URL || 
-                      import.meta.env.VITE_SUPABASE_URL === 'your-supabase-url.supabase.co';
+// The app for the signed-in user; remounted when the user changes so no data carries over
+function SignedInApp() {
+  const { user } = useAuth();
+  const storageBackend = getRepository().backend;
+
+  return (
+    <AppProvider key={user?.id ?? 'local'}>
+      {storageBackend !== 'supabase' && (
+        <div className="fixed top-0 left-0 right-0 bg-yellow-500 text-black text-xs md:text-sm text-center py-0.5 z-50">
+          {storageBackend === 'memory'
+            ? 'Running in memory — your data will be lost when you reload'
+            : 'Running in offline mode — your data is saved in this browser only'}
+        </div>
+      )}
+      <Outlet />
+    </AppProvider>
+  );
+}
 
 function App() {
   return (
     <AnimationProvider>
-      <AppProvider>
-        {isOfflineMode && (
-          <div className="fixed top-0 left-0 right-0 bg-yellow-500 text-black text-xs md:text-sm text-center py-0.5 z-50">
-            Running in offline mode — data will not be saved between sessions
-          </div>
-        )}
+      <AuthProvider>
         <Router>
           <Routes>
-            <Route path="/" element={<ChatPage />} />
-            <Route path="/concept-cards" element={<ConceptCardsPage />} />
-            <Route path="/todos" element={<TodoPage />} />
-            <Route path="*" element={<Navigate to="/" replace />} />
+            <Route path="/sign-in" element={<SignInPage />} />
+            <Route path="/share/:token" element={<SharedPage />} />
+            <Route element={<ProtectedRoute><SignedInApp /></ProtectedRoute>}>
+              <Route path="/" element={<ChatPage />} />
+              <Route path="/concept-cards" element={<ConceptCardsPage />} />
+              <Route path="/study" element={<StudyPage />} />
+              <Route path="/quiz" element={<QuizPage />} />
+              <Route path="/todos" element={<TodoPage />} />
+              <Route path="*" element={<Navigate to="/" replace />} />
+            </Route>
           </Routes>
         </Router>
-      </AppProvider>
+      </AuthProvider>
     </AnimationProvider>
   );
 }
@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import { X, KeyRound } from 'lucide-react';
+import * as credentials from '../services/credentials';
+
+interface ApiSettingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+/**
+ * Dialog for entering a personal Gemini API key and an optional proxy base URL.
+ * Values are stored locally in the browser and override the environment defaults.
+ */
+const ApiSettingsDialog: React.FC<ApiSettingsDialogProps> = ({ isOpen, onClose, onSaved }) => {
+  const [apiKey, setApiKey] = useState('');
+  const [proxyBaseUrl, setProxyBaseUrl] = useState('');
+
+  // Load the saved settings each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      const settings = credentials.getApiSettings();
+      setApiKey(settings.apiKey || '');
+      setProxyBaseUrl(settings.proxyBaseUrl || '');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    credentials.saveApiSettings({ apiKey, proxyBaseUrl });
+    onSaved?.();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <form
+        onSubmit={handleSave}
+        onClick={e => e.stopPropagation()}
+        className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden"
+      >
+        <div className="p-4 bg-gradient-to-r from-indigo-600 to-purple-600 flex justify-between items-center">
+          <h3 className="text-white font-medium flex items-center">
+            <KeyRound className="h-5 w-5 mr-2" />
+            API Settings
+          </h3>
+          <button type="button" onClick={onClose} className="text-white hover:text-gray-200">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Gemini API key</label>
+            <input
+              type="password"
+              value={apiKey}
+              onChange={e => setApiKey(e.target.value)}
+              placeholder={import.meta.env.VITE_GOOGLE_API_KEY ? 'Using VITE_GOOGLE_API_KEY' : 'Paste your API key'}
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-100 focus:border-indigo-400"
+              autoComplete="off"
+            />
+            <p className="mt-1 text-xs text-gray-500">Stored only in this browser.</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Proxy base URL (optional)</label>
+            <input
+              type="text"
+              value={proxyBaseUrl}
+              onChange={e => setProxyBaseUrl(e.target.value)}
+              placeholder={credentials.GEMINI_API_BASE_URL}
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-100 focus:border-indigo-400"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Requests are sent here instead of Google. The proxy can add the API key itself.
+            </p>
+          </div>
+        </div>
+
+        <div className="p-4 bg-gray-50 flex justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded mr-2 text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded hover:opacity-90 text-sm"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ApiSettingsDialog;
@@ -0,0 +1,64 @@
+import React, { useEffect, useMemo } from 'react';
+import { X, FileText, FileSpreadsheet } from 'lucide-react';
+import { useAppContext } from '../context/AppContext';
+import { ATTACHMENT_BUDGET, formatFileSize, getAttachmentKind } from '../services/attachments';
+
+/**
+ * The files attached to the message being written, each with a preview and a
+ * button to remove it, and how much of the message's budget they use
+ */
+const AttachmentTray: React.FC = () => {
+  const { pendingAttachments, removeAttachment } = useAppContext();
+
+  // Previews for the images, released when the files change
+  const previews = useMemo(
+    () => pendingAttachments.map(file => getAttachmentKind(file) === 'image' ? URL.createObjectURL(file) : null),
+    [pendingAttachments]
+  );
+  useEffect(() => () => {
+    previews.forEach(url => url && URL.revokeObjectURL(url));
+  }, [previews]);
+
+  if (pendingAttachments.length === 0) return null;
+
+  const totalBytes = pendingAttachments.reduce((sum, file) => sum + file.size, 0);
+
+  return (
+    <div className="px-5 py-3 bg-indigo-50/70 backdrop-blur-sm">
+      <div className="flex flex-wrap gap-3 items-end">
+        {pendingAttachments.map((file, i) => (
+          <div key={`${file.name}-${i}`} className="relative">
+            {previews[i] ? (
+              <div className="rounded-lg overflow-hidden shadow-md border-2 border-white">
+                <img src={previews[i]!} alt={file.name} className="h-20 w-auto object-cover" />
+              </div>
+            ) : (
+              <div className="h-20 w-36 rounded-lg shadow-md border-2 border-white bg-white flex flex-col justify-center px-3">
+                {file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv' ? (
+                  <FileSpreadsheet className="h-5 w-5 text-green-600 mb-1" />
+                ) : (
+                  <FileText className={`h-5 w-5 mb-1 ${getAttachmentKind(file) === 'pdf' ? 'text-red-500' : 'text-indigo-500'}`} />
+                )}
+                <span className="text-xs font-medium text-gray-800 truncate" title={file.name}>{file.name}</span>
+                <span className="text-[10px] text-gray-500">{formatFileSize(file.size)}</span>
+              </div>
+            )}
+            <button
+              type="button"
+              onClick={() => removeAttachment(i)}
+              className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1 shadow-md border border-white hover:bg-red-600 transition-colors"
+              aria-label={`Remove ${file.name}`}
+            >
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 text-xs text-gray-500">
+        {pendingAttachments.length}/{ATTACHMENT_BUDGET.maxFiles} files · {formatFileSize(totalBytes)} of {formatFileSize(ATTACHMENT_BUDGET.maxTotalBytes)}
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentTray;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import type { BranchPosition } from '../services/messageTree';
+
+type BranchNavigatorProps = {
+  position?: BranchPosition;
+  disabled?: boolean;
+  onSwitch: (messageId: string) => void;
+};
+
+/**
+ * "< 2/3 >" under a message that has alternatives (regenerated answers or
+ * edited questions), to step between them
+ */
+const BranchNavigator: React.FC<BranchNavigatorProps> = ({ position, disabled, onSwitch }) => {
+  if (!position) return null;
+
+  const { index, count, siblingIds } = position;
+
+  return (
+    <span className="inline-flex items-center ml-2 text-gray-500 select-none">
+      <button
+        type="button"
+        onClick={() => onSwitch(siblingIds[index - 1])}
+        disabled={disabled || index === 0}
+        className="p-0.5 rounded hover:text-indigo-600 disabled:opacity-30 disabled:hover:text-gray-500"
+        aria-label="Previous alternative"
+      >
+        <ChevronLeft className="h-3 w-3" />
+      </button>
+      <span className="tabular-nums">{index + 1}/{count}</span>
+      <button
+        type="button"
+        onClick={() => onSwitch(siblingIds[index + 1])}
+        disabled={disabled || index === count - 1}
+        className="p-0.5 rounded hover:text-indigo-600 disabled:opacity-30 disabled:hover:text-gray-500"
+        aria-label="Next alternative"
+      >
+        <ChevronRight className="h-3 w-3" />
+      </button>
+    </span>
+  );
+};
+
+export default BranchNavigator;
@@ -1,29 +1,81 @@
-import React, { useState, useRef } from 'react';
-import { Edit, Trash2, MessageSquare, AlertCircle } from 'lucide-react';
-import * as supabaseService from '../services/supabase';
+import React, { useState, useRef, useMemo } from 'react';
+import {
+  Edit, Trash2, MessageSquare, AlertCircle, Pin, PinOff, Tag, Folder, FolderPlus, ChevronDown, ChevronRight,
+  Archive, ArchiveRestore, CheckSquare, Square, X, Download, Upload, Link2
+} from 'lucide-react';
+import { normalizeTags } from '../services/repository';
+import type { Chat } from '../services/repository';
+import type { ExportFormat } from '../services/chatExport';
 import { formatDistanceToNow } from 'date-fns';
 import { useChatHistory } from '../hooks/useChatHistory';
+import { chatTags, groupChats } from '../services/chatOrganisation';
+import SyncStatusBadge from './SyncStatusBadge';
+import ShareDialog from './ShareDialog';
 
 interface ChatHistoryProps {
   onChatSelected?: () => void; // Optional callback for when a chat is selected (e.g., to close mobile menu)
 }
 
+// Where chats can be dropped: a folder, or out of every folder
+type DropTarget = string | null;
+const UNFILED = 'unfiled';
+
 const ChatHistory: React.FC<ChatHistoryProps> = ({ onChatSelected }) => {
-  const { 
-    chatHistory, 
-    currentChatId, 
-    isLoading, 
+  const {
+    chatHistory,
+    chatFolders,
+    currentChatId,
+    isLoading,
     error,
-    loadChatMessages, 
-    renameChatConversation, 
+    loadChatMessages,
+    renameChatConversation,
     deleteChatConversation,
-    createNewChatConversation
+    togglePinned,
+    setChatTags,
+    moveChats,
+    setChatsArchived,
+    deleteChatConversations,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+    exportChatAs,
+    importChatFile
   } = useChatHistory();
-  
+
   const [editingChatId, setEditingChatId] = useState<string | null>(null);
   const [newChatTitle, setNewChatTitle] = useState('');
   const editInputRef = useRef<HTMLInputElement>(null);
 
+  // Organisation state
+  const [taggingChatId, setTaggingChatId] = useState<string | null>(null);
+  const [tagInput, setTagInput] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(new Set());
+  const [newFolderName, setNewFolderName] = useState<string | null>(null);
+  const [editingFolderId, setEditingFolderId] = useState<string | null>(null);
+  const [folderName, setFolderName] = useState('');
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  // Export and import
+  const [exportingChatId, setExportingChatId] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Share links
+  const [sharingChat, setSharingChat] = useState<Chat | null>(null);
+  const shareTarget = useMemo(() => (sharingChat ? { chatId: sharingChat.id } : null), [sharingChat]);
+
+  // Bulk selection
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const tags = useMemo(() => chatTags(chatHistory), [chatHistory]);
+  const groups = useMemo(
+    () => groupChats(chatHistory, chatFolders, { tag: activeTag, archived: showArchived }),
+    [chatHistory, chatFolders, activeTag, showArchived]
+  );
+  const archivedCount = chatHistory.filter(chat => chat.archived).length;
+
   // Handle chat edit submit
   const handleChatRename = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -37,7 +89,7 @@ const ChatHistory: React.FC<ChatHistoryProps> = ({ onChatSelected }) => {
   };
 
   // Start editing a chat title
-  const startEditingChat = (chat: supabaseService.Chat) => {
+  const startEditingChat = (chat: Chat) => {
     setEditingChatId(chat.id);
     setNewChatTitle(chat.title);
     // Focus the input after a short delay to allow rendering
@@ -46,6 +98,21 @@ const ChatHistory: React.FC<ChatHistoryProps> = ({ onChatSelected }) => {
     }, 50);
   };
 
+  const handleExport = async (chatId: string, format: ExportFormat) => {
+    if (await exportChatAs(chatId, format)) {
+      setExportingChatId(null);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again
+    e.target.value = '';
+    if (file && await importChatFile(file)) {
+      onChatSelected?.();
+    }
+  };
+
   // Handle chat deletion with confirmation
   const handleChatDelete = async (chatId: string) => {
     if (window.confirm('Are you sure you want to delete this chat? This action cannot be undone.')) {
@@ -63,101 +130,523 @@ const ChatHistory: React.FC<ChatHistoryProps> = ({ onChatSelected }) => {
   };
 
   const handleSelectChat = async (chatId: string) => {
+    if (isSelecting) {
+      toggleSelected(chatId);
+      return;
+    }
     const success = await loadChatMessages(chatId);
     if (success && onChatSelected) {
       onChatSelected();
     }
   };
 
+  // Tags are edited as a comma-separated list
+  const startTagging = (chat: Chat) => {
+    setTaggingChatId(chat.id);
+    setTagInput((chat.tags || []).join(', '));
+  };
+
+  const handleTagsSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!taggingChatId) return;
+    if (await setChatTags(taggingChatId, normalizeTags(tagInput.split(',')))) {
+      setTaggingChatId(null);
+    }
+  };
+
+  // Folders
+  const handleFolderCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newFolderName?.trim() && await createFolder(newFolderName.trim())) {
+      setNewFolderName(null);
+    }
+  };
+
+  const handleFolderRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingFolderId && folderName.trim() && await renameFolder(editingFolderId, folderName.trim())) {
+      setEditingFolderId(null);
+    }
+  };
+
+  const handleFolderDelete = async (folderId: string, name: string) => {
+    if (window.confirm(`Delete the folder "${name}"? Its chats are kept, outside any folder.`)) {
+      await deleteFolder(folderId);
+    }
+  };
+
+  const toggleFolder = (folderId: string) => {
+    setCollapsedFolders(prev => {
+      const next = new Set(prev);
+      if (next.has(folderId)) next.delete(folderId); else next.add(folderId);
+      return next;
+    });
+  };
+
+  // Bulk selection
+  const toggleSelected = (chatId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(chatId)) next.delete(chatId); else next.add(chatId);
+      return next;
+    });
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkMove = async (target: string) => {
+    if (!target) return;
+    if (await moveChats([...selectedIds], target === UNFILED ? null : target)) stopSelecting();
+  };
+
+  const handleBulkArchive = async () => {
+    if (await setChatsArchived([...selectedIds], !showArchived)) stopSelecting();
+  };
+
+  const handleBulkDelete = async () => {
+    if (window.confirm(`Delete ${selectedIds.size} chat(s)? This action cannot be undone.`)) {
+      if (await deleteChatConversations([...selectedIds])) stopSelecting();
+    }
+  };
+
+  // Drag and drop: a dragged chat that is selected takes the rest of the selection along
+  const handleDragStart = (e: React.DragEvent, chatId: string) => {
+    const ids = selectedIds.has(chatId) ? [...selectedIds] : [chatId];
+    e.dataTransfer.setData('application/x-chat-ids', JSON.stringify(ids));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const dropProps = (target: DropTarget) => {
+    const key = target ?? UNFILED;
+    return {
+      onDragOver: (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes('application/x-chat-ids')) return;
+        e.preventDefault();
+        setDropTarget(key);
+      },
+      onDragLeave: () => setDropTarget(prev => (prev === key ? null : prev)),
+      onDrop: async (e: React.DragEvent) => {
+        e.preventDefault();
+        setDropTarget(null);
+        const ids: string[] = JSON.parse(e.dataTransfer.getData('application/x-chat-ids') || '[]');
+        if (ids.length > 0) {
+          await moveChats(ids, target);
+          stopSelecting();
+        }
+      }
+    };
+  };
+
+  const dropHighlight = (target: DropTarget) =>
+    dropTarget === (target ?? UNFILED) ? 'bg-purple-50 ring-2 ring-purple-300 rounded-md' : '';
+
+  const renderChat = (chat: Chat) => (
+    <div key={chat.id} className="px-2">
+      {editingChatId === chat.id ? (
+        <form onSubmit={handleChatRename} className="flex items-center p-2 bg-gray-50 rounded-md">
+          <input
+            ref={editInputRef}
+            type="text"
+            value={newChatTitle}
+            onChange={(e) => setNewChatTitle(e.target.value)}
+            className="flex-1 px-2 py-1 text-sm border rounded focus:outline-none focus:ring-1 focus:ring-purple-500"
+            placeholder="Chat title"
+            disabled={isLoading}
+          />
+          <button
+            type="submit"
+            className="ml-1 p-1 text-green-600 hover:text-green-800"
+            disabled={isLoading}
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => setEditingChatId(null)}
+            className="ml-1 p-1 text-gray-500 hover:text-gray-700"
+            disabled={isLoading}
+          >
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <div
+          draggable={!isLoading}
+          onDragStart={e => handleDragStart(e, chat.id)}
+          className={`group flex items-center justify-between p-2 rounded-md hover:bg-gray-50 transition cursor-pointer
+            ${currentChatId === chat.id && !isSelecting ? 'bg-purple-50 border-l-4 border-purple-500' : ''}
+            ${selectedIds.has(chat.id) ? 'bg-indigo-50' : ''}`}
+          onClick={() => handleSelectChat(chat.id)}
+        >
+          <div className="flex items-center space-x-3 overflow-hidden">
+            {isSelecting ? (
+              selectedIds.has(chat.id)
+                ? <CheckSquare className="h-5 w-5 text-indigo-600 flex-shrink-0" />
+                : <Square className="h-5 w-5 text-gray-400 flex-shrink-0" />
+            ) : (
+              <MessageSquare className={`h-5 w-5 flex-shrink-0 ${currentChatId === chat.id ? 'text-purple-600' : 'text-gray-400'}`} />
+            )}
+            <div className="truncate">
+              <div className="font-medium text-sm truncate">{chat.title}</div>
+              <div className="text-xs text-gray-500">{formatChatDate(chat.updated_at)}</div>
+              {chat.tags && chat.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {chat.tags.map(tag => (
+                    <span key={tag} className="px-1.5 py-0.5 text-[10px] rounded-full bg-indigo-50 text-indigo-700">#{tag}</span>
+                  ))}
+                </div>
+              )}
+              <SyncStatusBadge recordId={chat.id} />
+            </div>
+          </div>
+
+          {!isSelecting && (
+            <div className="flex space-x-1 flex-shrink-0">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  togglePinned(chat);
+                }}
+                className={`p-1 hover:text-gray-600 ${chat.pinned ? 'text-purple-500' : 'text-gray-400'}`}
+                disabled={isLoading}
+                aria-label={chat.pinned ? 'Unpin chat' : 'Pin chat'}
+              >
+                {chat.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  startTagging(chat);
+                }}
+                className="p-1 text-gray-400 hover:text-gray-600"
+                disabled={isLoading}
+                aria-label="Edit tags"
+              >
+                <Tag className="h-4 w-4" />
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setExportingChatId(exportingChatId === chat.id ? null : chat.id);
+                }}
+                className={`p-1 hover:text-gray-600 ${exportingChatId === chat.id ? 'text-indigo-600' : 'text-gray-400'}`}
+                disabled={isLoading}
+                aria-label="Export chat"
+                title="Export chat"
+              >
+                <Download className="h-4 w-4" />
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setSharingChat(chat);
+                }}
+                className="p-1 text-gray-400 hover:text-gray-600"
+                disabled={isLoading}
+                aria-label="Share chat"
+                title="Share chat"
+              >
+                <Link2 className="h-4 w-4" />
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  startEditingChat(chat);
+                }}
+                className="p-1 text-gray-400 hover:text-gray-600"
+                disabled={isLoading}
+              >
+                <Edit className="h-4 w-4" />
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleChatDelete(chat.id);
+                }}
+                className="p-1 text-gray-400 hover:text-red-600"
+                disabled={isLoading}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Export formats */}
+      {exportingChatId === chat.id && (
+        <div className="flex items-center gap-1 p-2 mt-1 bg-gray-50 rounded-md text-xs">
+          <span className="text-gray-500 mr-1">Export as</span>
+          {([['markdown', 'Markdown'], ['pdf', 'PDF'], ['json', 'JSON']] as [ExportFormat, string][]).map(([format, label]) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => handleExport(chat.id, format)}
+              className="px-2 py-1 rounded border border-gray-200 bg-white text-gray-700 hover:border-indigo-300 hover:text-indigo-700"
+              disabled={isLoading}
+            >
+              {label}
+            </button>
+          ))}
+          <button type="button" onClick={() => setExportingChatId(null)} className="ml-auto p-1 text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+
+      {/* Tags, edited as a comma-separated list */}
+      {taggingChatId === chat.id && (
+        <form onSubmit={handleTagsSubmit} className="flex items-center p-2 mt-1 bg-gray-50 rounded-md">
+          <input
+            autoFocus
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            className="flex-1 px-2 py-1 text-sm border rounded focus:outline-none focus:ring-1 focus:ring-purple-500"
+            placeholder="Tags, separated by commas"
+            disabled={isLoading}
+          />
+          <button type="submit" className="ml-1 p-1 text-green-600 hover:text-green-800" disabled={isLoading}>
+            Save
+          </button>
+          <button type="button" onClick={() => setTaggingChatId(null)} className="ml-1 p-1 text-gray-500 hover:text-gray-700" disabled={isLoading}>
+            Cancel
+          </button>
+        </form>
+      )}
+    </div>
+  );
+
   return (
     <div className="chat-history">
       <div className="p-3">
         <div className="flex items-center justify-between px-4 py-2">
-          <span className="text-sm font-medium text-gray-500">Chat History</span>
-          <span className="text-xs text-gray-500">{chatHistory.length} chats</span>
+          <span className="text-sm font-medium text-gray-500">{showArchived ? 'Archived Chats' : 'Chat History'}</span>
+          <div className="flex items-center space-x-1">
+            <span className="text-xs text-gray-500 mr-1">{chatHistory.length - archivedCount} chats</span>
+            <button
+              onClick={() => setNewFolderName('')}
+              className="p-1 text-gray-400 hover:text-gray-600"
+              aria-label="New folder"
+              title="New folder"
+            >
+              <FolderPlus className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="p-1 text-gray-400 hover:text-gray-600"
+              disabled={isLoading}
+              aria-label="Import chat"
+              title="Import a chat from a JSON export"
+            >
+              <Upload className="h-4 w-4" />
+            </button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            <button
+              onClick={() => (isSelecting ? stopSelecting() : setIsSelecting(true))}
+              className={`p-1 hover:text-gray-600 ${isSelecting ? 'text-indigo-600' : 'text-gray-400'}`}
+              aria-label="Select chats"
+              title="Select chats"
+            >
+              <CheckSquare className="h-4 w-4" />
+            </button>
+            {(archivedCount > 0 || showArchived) && (
+              <button
+                onClick={() => {
+                  setShowArchived(!showArchived);
+                  stopSelecting();
+                }}
+                className={`p-1 hover:text-gray-600 ${showArchived ? 'text-indigo-600' : 'text-gray-400'}`}
+                aria-label={showArchived ? 'Show chats' : 'Show archived chats'}
+                title={showArchived ? 'Show chats' : `Show archived chats (${archivedCount})`}
+              >
+                <Archive className="h-4 w-4" />
+              </button>
+            )}
+          </div>
         </div>
-        
+
         {error && (
           <div className="mx-4 my-2 p-2 bg-red-50 border border-red-200 rounded-md text-red-600 text-xs flex items-center">
             <AlertCircle className="h-3 w-3 mr-1" />
             {error}
           </div>
         )}
-        
-        <div className="mt-2 space-y-1">
-          {chatHistory.map((chat) => (
-            <div key={chat.id} className="px-2">
-              {editingChatId === chat.id ? (
-                <form onSubmit={handleChatRename} className="flex items-center p-2 bg-gray-50 rounded-md">
-                  <input
-                    ref={editInputRef}
-                    type="text"
-                    value={newChatTitle}
-                    onChange={(e) => setNewChatTitle(e.target.value)}
-                    className="flex-1 px-2 py-1 text-sm border rounded focus:outline-none focus:ring-1 focus:ring-purple-500"
-                    placeholder="Chat title"
-                    disabled={isLoading}
-                  />
-                  <button 
-                    type="submit" 
-                    className="ml-1 p-1 text-green-600 hover:text-green-800"
+
+        {/* Filter by tag */}
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 px-4 pb-2">
+            {tags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                className={`px-2 py-0.5 text-xs rounded-full transition ${
+                  activeTag === tag ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Bulk actions on the selected chats */}
+        {isSelecting && (
+          <div className="mx-2 mb-2 p-2 bg-indigo-50 rounded-md flex flex-wrap items-center gap-2 text-xs">
+            <span className="font-medium text-indigo-700">{selectedIds.size} selected</span>
+            <select
+              value=""
+              onChange={e => handleBulkMove(e.target.value)}
+              disabled={selectedIds.size === 0 || isLoading}
+              className="px-1.5 py-1 border rounded bg-white text-gray-700"
+              aria-label="Move to folder"
+            >
+              <option value="" disabled>Move to...</option>
+              {chatFolders.map(folder => (
+                <option key={folder.id} value={folder.id}>{folder.name}</option>
+              ))}
+              <option value={UNFILED}>No folder</option>
+            </select>
+            <button
+              onClick={handleBulkArchive}
+              disabled={selectedIds.size === 0 || isLoading}
+              className="flex items-center px-2 py-1 rounded bg-white border text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {showArchived ? <ArchiveRestore className="h-3.5 w-3.5 mr-1" /> : <Archive className="h-3.5 w-3.5 mr-1" />}
+              {showArchived ? 'Restore' : 'Archive'}
+            </button>
+            <button
+              onClick={handleBulkDelete}
+              disabled={selectedIds.size === 0 || isLoading}
+              className="flex items-center px-2 py-1 rounded bg-white border text-red-600 hover:bg-red-50 disabled:opacity-50"
+            >
+              <Trash2 className="h-3.5 w-3.5 mr-1" />
+              Delete
+            </button>
+            <button onClick={stopSelecting} className="ml-auto p-1 text-gray-500 hover:text-gray-700" aria-label="Cancel selection">
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        )}
+
+        {newFolderName !== null && (
+          <form onSubmit={handleFolderCreate} className="flex items-center p-2 mx-2 mb-2 bg-gray-50 rounded-md">
+            <input
+              autoFocus
+              type="text"
+              value={newFolderName}
+              onChange={(e) => setNewFolderName(e.target.value)}
+              className="flex-1 px-2 py-1 text-sm border rounded focus:outline-none focus:ring-1 focus:ring-purple-500"
+              placeholder="Folder name, e.g. Chemistry exam"
+              disabled={isLoading}
+            />
+            <button type="submit" className="ml-1 p-1 text-green-600 hover:text-green-800" disabled={isLoading}>
+              Create
+            </button>
+            <button type="button" onClick={() => setNewFolderName(null)} className="ml-1 p-1 text-gray-500 hover:text-gray-700" disabled={isLoading}>
+              Cancel
+            </button>
+          </form>
+        )}
+
+        {/* Pinned chats */}
+        {groups.pinned.length > 0 && (
+          <div className="mt-2">
+            <div className="flex items-center px-4 py-1 text-xs font-medium text-gray-400 uppercase tracking-wide">
+              <Pin className="h-3 w-3 mr-1" />
+              Pinned
+            </div>
+            <div className="space-y-1">{groups.pinned.map(renderChat)}</div>
+          </div>
+        )}
+
+        {/* Folders; chats are dragged into them */}
+        {groups.folders.map(({ folder, chats }) => (
+          <div key={folder.id} className={`mt-2 ${dropHighlight(folder.id)}`} {...dropProps(folder.id)}>
+            {editingFolderId === folder.id ? (
+              <form onSubmit={handleFolderRename} className="flex items-center p-2 mx-2 bg-gray-50 rounded-md">
+                <input
+                  autoFocus
+                  type="text"
+                  value={folderName}
+                  onChange={(e) => setFolderName(e.target.value)}
+                  className="flex-1 px-2 py-1 text-sm border rounded focus:outline-none focus:ring-1 focus:ring-purple-500"
+                  disabled={isLoading}
+                />
+                <button type="submit" className="ml-1 p-1 text-green-600 hover:text-green-800" disabled={isLoading}>
+                  Save
+                </button>
+                <button type="button" onClick={() => setEditingFolderId(null)} className="ml-1 p-1 text-gray-500 hover:text-gray-700" disabled={isLoading}>
+                  Cancel
+                </button>
+              </form>
+            ) : (
+              <div className="group flex items-center justify-between px-4 py-1">
+                <button
+                  onClick={() => toggleFolder(folder.id)}
+                  className="flex items-center text-sm font-medium text-gray-600 hover:text-gray-800 truncate"
+                >
+                  {collapsedFolders.has(folder.id) ? <ChevronRight className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+                  <Folder className="h-4 w-4 mr-1.5 text-purple-500" />
+                  <span className="truncate">{folder.name}</span>
+                  <span className="ml-1.5 text-xs text-gray-400">{chats.length}</span>
+                </button>
+                <div className="flex space-x-1">
+                  <button
+                    onClick={() => {
+                      setEditingFolderId(folder.id);
+                      setFolderName(folder.name);
+                    }}
+                    className="p-1 text-gray-400 hover:text-gray-600"
                     disabled={isLoading}
+                    aria-label="Rename folder"
                   >
-                    Save
+                    <Edit className="h-3.5 w-3.5" />
                   </button>
-                  <button 
-                    type="button" 
-                    onClick={() => setEditingChatId(null)}
-                    className="ml-1 p-1 text-gray-500 hover:text-gray-700"
+                  <button
+                    onClick={() => handleFolderDelete(folder.id, folder.name)}
+                    className="p-1 text-gray-400 hover:text-red-600"
                     disabled={isLoading}
+                    aria-label="Delete folder"
                   >
-                    Cancel
+                    <Trash2 className="h-3.5 w-3.5" />
                   </button>
-                </form>
-              ) : (
-                <div 
-                  className={`flex items-center justify-between p-2 rounded-md hover:bg-gray-50 transition cursor-pointer 
-                    ${currentChatId === chat.id ? 'bg-purple-50 border-l-4 border-purple-500' : ''}`}
-                  onClick={() => handleSelectChat(chat.id)}
-                >
-                  <div className="flex items-center space-x-3 overflow-hidden">
-                    <MessageSquare className={`h-5 w-5 ${currentChatId === chat.id ? 'text-purple-600' : 'text-gray-400'}`} />
-                    <div className="truncate">
-                      <div className="font-medium text-sm truncate">{chat.title}</div>
-                      <div className="text-xs text-gray-500">{formatChatDate(chat.updated_at)}</div>
-                    </div>
-                  </div>
-                  
-                  <div className="flex space-x-1">
-                    <button 
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        startEditingChat(chat);
-                      }}
-                      className="p-1 text-gray-400 hover:text-gray-600"
-                      disabled={isLoading}
-                    >
-                      <Edit className="h-4 w-4" />
-                    </button>
-                    <button 
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleChatDelete(chat.id);
-                      }}
-                      className="p-1 text-gray-400 hover:text-red-600"
-                      disabled={isLoading}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
-                  </div>
                 </div>
-              )}
-            </div>
-          ))}
+              </div>
+            )}
+            {!collapsedFolders.has(folder.id) && (
+              <div className="space-y-1">
+                {chats.length > 0 ? chats.map(renderChat) : (
+                  <div className="px-6 py-2 text-xs text-gray-400">Drag chats here</div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {/* Chats in no folder */}
+        <div className={`mt-2 min-h-[2rem] ${dropHighlight(null)}`} {...dropProps(null)}>
+          {(groups.pinned.length > 0 || groups.folders.length > 0) && groups.unfiled.length > 0 && (
+            <div className="px-4 py-1 text-xs font-medium text-gray-400 uppercase tracking-wide">Chats</div>
+          )}
+          <div className="space-y-1">{groups.unfiled.map(renderChat)}</div>
+          {activeTag && groups.pinned.length === 0 && groups.folders.length === 0 && groups.unfiled.length === 0 && (
+            <div className="px-4 py-2 text-xs text-gray-400">No chats tagged #{activeTag}</div>
+          )}
         </div>
       </div>
+
+      <ShareDialog
+        isOpen={!!sharingChat}
+        onClose={() => setSharingChat(null)}
+        target={shareTarget}
+        title={sharingChat?.title || ''}
+      />
     </div>
   );
 };
 
-export default ChatHistory; 
\ No newline at end of file
+export default ChatHistory;
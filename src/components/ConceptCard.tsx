@@ -1,7 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Calendar, BookOpen, MoreVertical, Eye, Edit, Trash } from 'lucide-react';
-import { ConceptCard as ConceptCardType } from '../services/supabase';
+import { ConceptCard as ConceptCardType } from '../services/repository';
 import ConceptCardModal from './ConceptCardModal';
+import SyncStatusBadge from './SyncStatusBadge';
 import { useAppContext } from '../context/AppContext';
 import { gsap } from 'gsap';
 import { useGSAPAnimations } from '../hooks/useGSAPAnimations';
@@ -9,11 +10,13 @@ import { useGSAPAnimations } from '../hooks/useGSAPAnimations';
 interface ConceptCardProps {
   card: ConceptCardType;
   index?: number;
+  // Open the card as soon as it shows, e.g. when following a link to it
+  defaultOpen?: boolean;
 }
 
-const ConceptCard: React.FC<ConceptCardProps> = ({ card, index = 0 }) => {
+const ConceptCard: React.FC<ConceptCardProps> = ({ card, index = 0, defaultOpen = false }) => {
   const { updateConceptCard, deleteConceptCard } = useAppContext();
-  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isModalOpen, setIsModalOpen] = useState(defaultOpen);
   const [showMenu, setShowMenu] = useState(false);
   
   // Animation refs
@@ -206,6 +209,7 @@ const ConceptCard: React.FC<ConceptCardProps> = ({ card, index = 0 }) => {
           <div className="flex items-center text-xs text-gray-500">
             <Calendar size={14} className="mr-1" />
             <span>{formatDate(card.created_at)}</span>
+            <SyncStatusBadge recordId={card.id} className="ml-3" />
           </div>
           
           <div className="absolute bottom-0 right-0 p-2 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ConceptCard as ConceptCardType } from '../services/supabase';
+import { ConceptCard as ConceptCardType } from '../services/repository';
 import { Calendar, X, Edit2, Trash2 } from 'lucide-react';
 import { useAppContext } from '../context/AppContext';
 import { gsap } from 'gsap';
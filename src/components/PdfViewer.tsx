@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, ChevronLeft, ChevronRight, FileText, ExternalLink } from 'lucide-react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { loadPdfjs } from '../services/documents';
+
+interface PdfViewerProps {
+  url: string;
+  name: string;
+  page: number;
+  onClose: () => void;
+}
+
+/**
+ * A side panel showing one page of a PDF, opened from a citation in an answer
+ */
+const PdfViewer: React.FC<PdfViewerProps> = ({ url, name, page, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageNumber, setPageNumber] = useState(page);
+  const [error, setError] = useState<string | null>(null);
+
+  // Another citation of the same document moves to its page
+  useEffect(() => {
+    setPageNumber(page);
+  }, [page, url]);
+
+  // Load the document
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    setPdf(null);
+    setError(null);
+
+    loadPdfjs()
+      .then(pdfjs => pdfjs.getDocument(url).promise)
+      .then(document => {
+        loaded = document;
+        if (cancelled) {
+          document.destroy();
+        } else {
+          setPdf(document);
+        }
+      })
+      .catch(loadError => {
+        console.error(`[DOCUMENTS] Error opening ${name}:`, loadError);
+        if (!cancelled) setError('The document could not be opened. Its link may have expired; reopen the chat to refresh it.');
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [url, name]);
+
+  // Draw the page to fit the panel
+  useEffect(() => {
+    if (!pdf || !canvasRef.current || !containerRef.current) return;
+    let renderTask: RenderTask | null = null;
+    let cancelled = false;
+
+    pdf.getPage(Math.min(Math.max(pageNumber, 1), pdf.numPages)).then(pdfPage => {
+      if (cancelled || !canvasRef.current || !containerRef.current) return;
+      const canvas = canvasRef.current;
+      const unscaled = pdfPage.getViewport({ scale: 1 });
+      const scale = (containerRef.current.clientWidth - 32) / unscaled.width;
+      const pixelRatio = window.devicePixelRatio || 1;
+      const viewport = pdfPage.getViewport({ scale: scale * pixelRatio });
+
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      canvas.style.width = `${viewport.width / pixelRatio}px`;
+      canvas.style.height = `${viewport.height / pixelRatio}px`;
+
+      renderTask = pdfPage.render({ canvasContext: canvas.getContext('2d')!, viewport });
+      renderTask.promise.catch(renderError => {
+        if (renderError?.name !== 'RenderingCancelledException') {
+          console.error(`[DOCUMENTS] Error drawing page ${pageNumber} of ${name}:`, renderError);
+        }
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, name]);
+
+  const pageCount = pdf?.numPages || 0;
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-full md:w-[520px] z-40 bg-white shadow-2xl border-l border-gray-200 flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white">
+        <div className="flex items-center min-w-0">
+          <FileText className="h-5 w-5 mr-2 flex-shrink-0" />
+          <span className="font-medium truncate" title={name}>{name}</span>
+        </div>
+        <div className="flex items-center space-x-1 flex-shrink-0">
+          <a href={url} target="_blank" rel="noopener noreferrer" className="p-1.5 rounded-full hover:bg-white/20" title="Open in a new tab">
+            <ExternalLink className="h-4 w-4" />
+          </a>
+          <button onClick={onClose} className="p-1.5 rounded-full hover:bg-white/20" aria-label="Close document">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="flex-1 overflow-auto bg-gray-100 p-4">
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : !pdf ? (
+          <p className="text-sm text-gray-500">Loading {name}...</p>
+        ) : (
+          <canvas ref={canvasRef} className="mx-auto shadow-md bg-white" />
+        )}
+      </div>
+
+      {pdf && (
+        <div className="flex items-center justify-center space-x-4 px-4 py-2 border-t border-gray-200 text-sm text-gray-700">
+          <button
+            onClick={() => setPageNumber(current => Math.max(1, current - 1))}
+            disabled={pageNumber <= 1}
+            className="p-1.5 rounded-full hover:bg-gray-100 disabled:opacity-40"
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="h-5 w-5" />
+          </button>
+          <span>Page {Math.min(pageNumber, pageCount)} of {pageCount}</span>
+          <button
+            onClick={() => setPageNumber(current => Math.min(pageCount, current + 1))}
+            disabled={pageNumber >= pageCount}
+            className="p-1.5 rounded-full hover:bg-gray-100 disabled:opacity-40"
+            aria-label="Next page"
+          >
+            <ChevronRight className="h-5 w-5" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PdfViewer;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { BookOpen, ChevronDown, ChevronUp, MessageSquare } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import type { MessageSource } from '../services/repository';
+
+type RetrievedSourcesProps = {
+  sources?: MessageSource[];
+  onOpenChat: (chatId: string) => void;
+};
+
+/**
+ * Says which of the user's concept cards and earlier answers an answer drew on,
+ * with links to each of them
+ */
+const RetrievedSources: React.FC<RetrievedSourcesProps> = ({ sources, onOpenChat }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!sources || sources.length === 0) return null;
+
+  const cards = sources.filter(source => source.kind === 'concept_card');
+  const answers = sources.filter(source => source.kind === 'message');
+  const summary = [
+    cards.length > 0 && `${cards.length} of your concept cards`,
+    answers.length > 0 && `${answers.length} earlier ${answers.length === 1 ? 'answer' : 'answers'}`
+  ].filter(Boolean).join(' and ');
+
+  return (
+    <div className="mt-2 text-xs">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="inline-flex items-center text-indigo-600 hover:text-indigo-800 font-medium"
+        aria-expanded={isOpen}
+      >
+        <BookOpen className="h-3.5 w-3.5 mr-1" />
+        Used {summary}
+        {isOpen ? <ChevronUp className="h-3.5 w-3.5 ml-1" /> : <ChevronDown className="h-3.5 w-3.5 ml-1" />}
+      </button>
+
+      {isOpen && (
+        <ul className="mt-1.5 space-y-1">
+          {cards.map(card => (
+            <li key={card.id}>
+              <Link
+                to={`/concept-cards?card=${encodeURIComponent(card.id)}`}
+                className="inline-flex items-center px-2 py-1 rounded-md bg-indigo-50 text-indigo-700 hover:bg-indigo-100"
+              >
+                <BookOpen className="h-3 w-3 mr-1.5 flex-shrink-0" />
+                <span className="truncate">{card.title}</span>
+              </Link>
+            </li>
+          ))}
+          {answers.map(answer => (
+            <li key={answer.id}>
+              <button
+                type="button"
+                onClick={() => answer.chat_id && onOpenChat(answer.chat_id)}
+                disabled={!answer.chat_id}
+                className="inline-flex items-center px-2 py-1 rounded-md bg-gray-50 text-gray-700 hover:bg-gray-100 border border-gray-200 text-left"
+              >
+                <MessageSquare className="h-3 w-3 mr-1.5 flex-shrink-0" />
+                <span className="truncate">{answer.title}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RetrievedSources;
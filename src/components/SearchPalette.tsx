@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { MessageSquare, User, Sparkles, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Dialog, DialogContent, DialogTitle } from './ui/dialog';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from './ui/command';
+import { useAppContext } from '../context/AppContext';
+import { splitSnippet } from '../services/search';
+import type { SearchResult } from '../services/repository';
+
+type SearchPaletteProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (result: SearchResult) => void;
+};
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 150;
+
+const Snippet: React.FC<{ snippet: string }> = ({ snippet }) => (
+  <>
+    {splitSnippet(snippet).map((part, i) => part.match ? (
+      <mark key={i} className="bg-yellow-200 text-gray-900 rounded-sm px-0.5">{part.text}</mark>
+    ) : (
+      <React.Fragment key={i}>{part.text}</React.Fragment>
+    ))}
+  </>
+);
+
+const formatDate = (dateString?: string) => {
+  try {
+    return dateString ? formatDistanceToNow(new Date(dateString), { addSuffix: true }) : '';
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Command palette (Ctrl/Cmd+K) searching every chat title and message, with
+ * the matched words highlighted
+ */
+const SearchPalette: React.FC<SearchPaletteProps> = ({ open, onOpenChange, onSelect }) => {
+  const { searchChats } = useAppContext();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Start afresh each time the palette opens
+  useEffect(() => {
+    if (open) {
+      setQuery('');
+      setResults([]);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    // Results of an older query are dropped once the query changes
+    let current = true;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      const found = await searchChats(query);
+      if (current) {
+        setResults(found);
+        setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      current = false;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const chats = results.filter(result => !result.message_id);
+  const messages = results.filter(result => result.message_id);
+
+  const select = (result: SearchResult) => {
+    onOpenChange(false);
+    onSelect(result);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 bg-white text-gray-800 max-w-xl">
+        <DialogTitle className="sr-only">Search chats</DialogTitle>
+        {/* The results are already filtered by the search */}
+        <Command shouldFilter={false} className="bg-white text-gray-800">
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Search chats and messages..."
+            className="h-12"
+          />
+          <CommandList className="max-h-[420px]">
+            {query.trim() && !isSearching && (
+              <CommandEmpty className="py-6 text-center text-sm text-gray-500">No chats or messages found.</CommandEmpty>
+            )}
+            {isSearching && results.length === 0 && (
+              <div className="flex items-center justify-center py-6 text-sm text-gray-500">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Searching...
+              </div>
+            )}
+
+            {chats.length > 0 && (
+              <CommandGroup heading="Chats" className="[&_[cmdk-group-heading]]:text-gray-500">
+                {chats.map(result => (
+                  <CommandItem
+                    key={`chat-${result.chat_id}`}
+                    value={`chat-${result.chat_id}`}
+                    onSelect={() => select(result)}
+                    className="cursor-pointer data-[selected=true]:bg-indigo-50 data-[selected=true]:text-gray-900"
+                  >
+                    <MessageSquare className="h-4 w-4 mr-2 text-indigo-500 flex-shrink-0" />
+                    <span className="truncate"><Snippet snippet={result.snippet} /></span>
+                    <span className="ml-auto pl-2 text-xs text-gray-400 flex-shrink-0">{formatDate(result.created_at)}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {messages.length > 0 && (
+              <CommandGroup heading="Messages" className="[&_[cmdk-group-heading]]:text-gray-500">
+                {messages.map(result => (
+                  <CommandItem
+                    key={`message-${result.message_id}`}
+                    value={`message-${result.message_id}`}
+                    onSelect={() => select(result)}
+                    className="cursor-pointer items-start data-[selected=true]:bg-indigo-50 data-[selected=true]:text-gray-900"
+                  >
+                    {result.role === 'user'
+                      ? <User className="h-4 w-4 mr-2 mt-0.5 text-gray-400 flex-shrink-0" />
+                      : <Sparkles className="h-4 w-4 mr-2 mt-0.5 text-purple-500 flex-shrink-0" />}
+                    <div className="min-w-0">
+                      <div className="flex items-center text-xs text-gray-500">
+                        <span className="truncate font-medium">{result.chat_title}</span>
+                        <span className="ml-2 flex-shrink-0">{formatDate(result.created_at)}</span>
+                      </div>
+                      <div className="text-sm line-clamp-2"><Snippet snippet={result.snippet} /></div>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SearchPalette;
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { X, Link2, Copy, Check, Ban, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAppContext } from '../context/AppContext';
+import { SHARE_EXPIRY_DAYS, isShareActive, shareExpiry, shareUrl } from '../services/shares';
+import type { ShareTarget } from '../services/shares';
+import type { Share } from '../services/repository';
+
+interface ShareDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  target: ShareTarget | null;
+  // What is being shared, e.g. the chat's title
+  title: string;
+}
+
+const expiryLabel = (days: number | null) => (days === null ? 'Never expires' : days === 1 ? 'Expires in 1 day' : `Expires in ${days} days`);
+
+// The links already made for the same chat, or every deck link for cards
+const sharesOf = (shares: Share[], target: ShareTarget) =>
+  shares.filter(share => isShareActive(share) && ('chatId' in target ? share.chat_id === target.chatId : share.kind === 'cards'));
+
+/**
+ * Dialog for making read-only links to a chat or a deck of concept cards, and
+ * revoking the ones already made
+ */
+const ShareDialog: React.FC<ShareDialogProps> = ({ isOpen, onClose, target, title }) => {
+  const { createShareLink, getShares, revokeShare, storageBackend } = useAppContext();
+  const [shares, setShares] = useState<Share[]>([]);
+  const [expiryDays, setExpiryDays] = useState<number | null>(7);
+  const [isWorking, setIsWorking] = useState(false);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the existing links each time the dialog opens
+  useEffect(() => {
+    if (isOpen && target) {
+      setError(null);
+      setCopiedToken(null);
+      getShares().then(all => setShares(sharesOf(all, target)));
+    }
+  }, [isOpen, target]);
+
+  if (!isOpen || !target) return null;
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      setCopiedToken(token);
+    } catch (copyError) {
+      console.error('Could not copy the share link:', copyError);
+      setError('Could not copy the link. Select it and copy it by hand.');
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsWorking(true);
+    setError(null);
+    const created = await createShareLink(target, shareExpiry(expiryDays));
+    if (created) {
+      setShares(prev => [created.share, ...prev]);
+      await copyLink(created.share.token);
+    } else {
+      setError('Could not create the link.');
+    }
+    setIsWorking(false);
+  };
+
+  const handleRevoke = async (share: Share) => {
+    if (!window.confirm('Revoke this link? Anyone who has it will no longer be able to open it.')) return;
+
+    setIsWorking(true);
+    if (await revokeShare(share.id)) {
+      setShares(prev => prev.filter(s => s.id !== share.id));
+    } else {
+      setError('Could not revoke the link.');
+    }
+    setIsWorking(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div onClick={e => e.stopPropagation()} className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="p-4 bg-gradient-to-r from-indigo-600 to-purple-600 flex justify-between items-center">
+          <h3 className="text-white font-medium flex items-center truncate">
+            <Link2 className="h-5 w-5 mr-2 flex-shrink-0" />
+            <span className="truncate">Share "{title}"</span>
+          </h3>
+          <button type="button" onClick={onClose} className="text-white hover:text-gray-200">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <p className="text-sm text-gray-600">
+            Anyone with the link can read {'chatId' in target ? 'this chat' : 'these cards'}, without signing in. They can't change anything.
+            {storageBackend !== 'supabase' && ' Without Supabase, links only open in this browser.'}
+          </p>
+
+          <div className="flex items-center gap-2">
+            <select
+              value={expiryDays === null ? '' : String(expiryDays)}
+              onChange={e => setExpiryDays(e.target.value ? Number(e.target.value) : null)}
+              className="flex-1 px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-100 focus:border-indigo-400"
+              disabled={isWorking}
+            >
+              {SHARE_EXPIRY_DAYS.map(days => (
+                <option key={String(days)} value={days === null ? '' : String(days)}>{expiryLabel(days)}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleCreate}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 flex items-center"
+              disabled={isWorking}
+            >
+              {isWorking ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Link2 className="h-4 w-4 mr-1" />}
+              Create link
+            </button>
+          </div>
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          {shares.length > 0 && (
+            <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+              {shares.map(share => (
+                <li key={share.id} className="p-3 flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <input
+                      readOnly
+                      value={shareUrl(share.token)}
+                      onFocus={e => e.target.select()}
+                      className="w-full text-xs text-gray-700 bg-gray-50 px-2 py-1 rounded border border-gray-200"
+                    />
+                    <div className="mt-1 text-[11px] text-gray-500">
+                      {share.kind === 'cards' && `${share.title} · `}
+                      {share.expires_at ? `Expires ${formatDistanceToNow(new Date(share.expires_at), { addSuffix: true })}` : 'Never expires'}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => copyLink(share.token)}
+                    className="p-1.5 text-gray-400 hover:text-indigo-600"
+                    aria-label="Copy link"
+                    title="Copy link"
+                  >
+                    {copiedToken === share.token ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(share)}
+                    className="p-1.5 text-gray-400 hover:text-red-600"
+                    disabled={isWorking}
+                    aria-label="Revoke link"
+                    title="Revoke link"
+                  >
+                    <Ban className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
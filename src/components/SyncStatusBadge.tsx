@@ -0,0 +1,71 @@
+import React from 'react';
+import { useAppContext } from '../context/AppContext';
+
+type SyncStatusBadgeProps = {
+  recordId?: string;
+  className?: string;
+};
+
+/**
+ * Shows whether a chat, message, card or todo has reached Supabase yet,
+ * with actions to retry a failed write or settle a conflict
+ */
+const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ recordId, className = '' }) => {
+  const { getSyncState, retrySync, resolveSyncConflict } = useAppContext();
+  const state = recordId ? getSyncState(recordId) : 'synced';
+
+  // Nothing to show once the record is in Supabase
+  if (!recordId || state === 'synced') return null;
+
+  const statusConfig = {
+    pending: {
+      color: 'bg-yellow-400',
+      label: 'Waiting to sync',
+      animate: true
+    },
+    failed: {
+      color: 'bg-red-500',
+      label: 'Not synced',
+      animate: false
+    },
+    conflict: {
+      color: 'bg-orange-500',
+      label: 'Changed on another device',
+      animate: false
+    }
+  };
+
+  const config = statusConfig[state];
+
+  // Keep clicks from reaching the card or list item underneath
+  const handle = (action: () => Promise<void>) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    action();
+  };
+
+  return (
+    <span className={`inline-flex items-center gap-1.5 text-[10px] text-gray-600 font-medium ${className}`}>
+      <span
+        className={`h-2 w-2 rounded-full ${config.color} ${config.animate ? 'animate-pulse' : ''}`}
+      />
+      {config.label}
+      {state === 'failed' && (
+        <button onClick={handle(() => retrySync(recordId))} className="text-indigo-600 hover:underline">
+          Retry
+        </button>
+      )}
+      {state === 'conflict' && (
+        <>
+          <button onClick={handle(() => resolveSyncConflict(recordId, 'local'))} className="text-indigo-600 hover:underline">
+            Keep mine
+          </button>
+          <button onClick={handle(() => resolveSyncConflict(recordId, 'remote'))} className="text-indigo-600 hover:underline">
+            Use theirs
+          </button>
+        </>
+      )}
+    </span>
+  );
+};
+
+export default SyncStatusBadge;
@@ -1,7 +1,10 @@
 import React from 'react';
-import { MessageSquare, Layers, AlertTriangle, Edit, Trash2, Check, Database, Copy, Terminal } from "lucide-react";
+import { MessageSquare, Layers, AlertTriangle, Edit, Trash2, Check, Database, Copy, Terminal, FileText, Lightbulb } from "lucide-react";
 import ReactMarkdown from 'react-markdown';
-import { ChatMessage } from '../services/supabase';
+import { ChatMessage, StudyAnswer } from '../services/repository';
+import { linkCitations, citationFromHref } from '../services/documents';
+import { intentOf } from '../services/intent';
+import type { Citation } from '../services/documents';
 import { ConceptCardStatus } from '../context/AppContext';
 import ConceptCardStatusComponent from './ConceptCardStatus';
 
@@ -9,8 +12,102 @@ interface TemplatedResponseProps {
   content: string;
   conceptCardStatus: ConceptCardStatus;
   userMessage: ChatMessage | null;
+  study?: StudyAnswer; // The answer's study template sections, shown instead of its Markdown
+  isStreaming?: boolean;
+  // Called when a page citation like [p. 4] is clicked; without it citations stay plain text
+  onCitationClick?: (citation: Citation) => void;
 }
 
+// Markdown with page citations rendered as chips that open the page
+const Markdown: React.FC<{ content: string; onCitationClick?: (citation: Citation) => void }> = ({ content, onCitationClick }) => {
+  if (!onCitationClick) {
+    return <ReactMarkdown>{content}</ReactMarkdown>;
+  }
+
+  return (
+    <ReactMarkdown
+      components={{
+        a: ({ href, children, node, ...props }) => {
+          const citation = citationFromHref(href);
+          if (!citation) {
+            return <a href={href} {...props}>{children}</a>;
+          }
+          return (
+            <button
+              type="button"
+              onClick={() => onCitationClick(citation)}
+              className="inline-flex items-center mx-0.5 px-1.5 py-0.5 rounded-full bg-indigo-100 text-indigo-700 text-xs font-medium align-baseline hover:bg-indigo-200 transition-colors"
+              title={`Open ${citation.document ? `${citation.document}, ` : ''}page ${citation.page}`}
+            >
+              <FileText className="h-3 w-3 mr-0.5" />
+              {children}
+            </button>
+          );
+        }
+      }}
+    >
+      {linkCitations(content)}
+    </ReactMarkdown>
+  );
+};
+
+// The sections of a study answer: summary, subject and topic, question, steps and tips
+const StudySections: React.FC<{ study: StudyAnswer; onCitationClick?: (citation: Citation) => void }> = ({ study, onCitationClick }) => (
+  <div className="space-y-4">
+    {study.summary && (
+      <div className="markdown-content text-sm italic text-gray-600">
+        <Markdown content={study.summary} onCitationClick={onCitationClick} />
+      </div>
+    )}
+
+    <div className="flex flex-wrap items-center gap-2">
+      {study.subject && (
+        <span className="px-2.5 py-0.5 rounded-full bg-indigo-100 text-indigo-700 text-xs font-semibold">{study.subject}</span>
+      )}
+      {study.topic && <span className="text-xs font-medium text-gray-500">{study.topic}</span>}
+    </div>
+
+    <section>
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">Question</h3>
+      <div className="markdown-content">
+        <Markdown content={study.question} onCitationClick={onCitationClick} />
+      </div>
+    </section>
+
+    <section>
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Solution</h3>
+      <ol className="space-y-2">
+        {study.steps.map((step, i) => (
+          <li key={i} className="flex gap-3">
+            <span className="flex-shrink-0 h-6 w-6 rounded-full bg-indigo-600 text-white text-xs font-semibold flex items-center justify-center">
+              {i + 1}
+            </span>
+            <div className="markdown-content flex-1 min-w-0">
+              <Markdown content={step} onCitationClick={onCitationClick} />
+            </div>
+          </li>
+        ))}
+      </ol>
+    </section>
+
+    {study.tips.length > 0 && (
+      <section className="rounded-lg bg-amber-50 border border-amber-100 p-3">
+        <h3 className="flex items-center text-xs font-semibold uppercase tracking-wide text-amber-700 mb-1">
+          <Lightbulb className="h-3.5 w-3.5 mr-1" />
+          Tricks &amp; Tips
+        </h3>
+        <ul className="list-disc pl-5 space-y-1 text-sm text-amber-900">
+          {study.tips.map((tip, i) => (
+            <li key={i} className="markdown-content">
+              <Markdown content={tip} onCitationClick={onCitationClick} />
+            </li>
+          ))}
+        </ul>
+      </section>
+    )}
+  </div>
+);
+
 /**
  * A component that renders AI responses with special styling for study-related content
  * and shows concept card generation status for educational templates
@@ -18,37 +115,29 @@ interface TemplatedResponseProps {
 const TemplatedResponse: React.FC<TemplatedResponseProps> = ({ 
   content, 
   conceptCardStatus,
-  userMessage 
+  userMessage,
+  study,
+  isStreaming = false,
+  onCitationClick
 }) => {
-  // Check if this looks like a study question response
-  const isStudyResponse = (
-    // Study content usually has headings or code blocks
-    (content.includes('##') || content.includes('```')) &&
-    
-    // And contains educational keywords
-    (content.toLowerCase().includes('concept') ||
-     content.toLowerCase().includes('formula') ||
-     content.toLowerCase().includes('equation') ||
-     content.toLowerCase().includes('theory') ||
-     content.toLowerCase().includes('principle') ||
-     content.toLowerCase().includes('definition') ||
-     content.toLowerCase().includes('explanation') ||
-     content.toLowerCase().includes('solution') ||
-     content.toLowerCase().includes('function') ||
-     content.toLowerCase().includes('analysis') ||
-     content.toLowerCase().includes('introduction to') ||
-     content.toLowerCase().includes('properties of') ||
-     // Math/code blocks that aren't just JSON/data
-     (content.includes('```') && 
-      !content.includes('```json') && 
-      !content.includes('```html')))
-  );
+  // While a response is still streaming, render it as plain markdown with a caret
+  if (isStreaming) {
+    return (
+      <div className="markdown-content">
+        <Markdown content={content} onCitationClick={onCitationClick} />
+        <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-indigo-400 animate-pulse rounded-sm" />
+      </div>
+    );
+  }
+  
+  // Study answers come with their sections; older ones are recognised by their question's intent
+  const isStudyResponse = !!study || (!!userMessage && intentOf(userMessage).kind === 'educational');
   
   // Only show special styling for study content
   if (!isStudyResponse) {
     return (
       <div className="markdown-content">
-        <ReactMarkdown>{content}</ReactMarkdown>
+        <Markdown content={content} onCitationClick={onCitationClick} />
       </div>
     );
   }
@@ -58,9 +147,13 @@ const TemplatedResponse: React.FC<TemplatedResponseProps> = ({
     <div className="study-response">
       {/* Neumorphic styled container for study content */}
       <div className="bg-gray-50 rounded-xl p-4 shadow-[inset_0_2px_4px_rgba(0,0,0,0.06),_0_2px_2px_rgba(255,255,255,0.5)]">
-        <div className="markdown-content">
-          <ReactMarkdown>{content}</ReactMarkdown>
-        </div>
+        {study ? (
+          <StudySections study={study} onCitationClick={onCitationClick} />
+        ) : (
+          <div className="markdown-content">
+            <Markdown content={content} onCitationClick={onCitationClick} />
+          </div>
+        )}
         
         {/* Decorative gradient bar */}
         <div className="h-1 w-full bg-gradient-to-r from-purple-400 via-indigo-500 to-blue-500 rounded-full mt-3 mb-1"></div>
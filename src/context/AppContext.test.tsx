@@ -0,0 +1,290 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { render, waitFor, act, cleanup } from '@testing-library/react';
+import { startMockGeminiServer, MockGeminiServer, MockGeminiRequest } from '../test/mockGeminiServer';
+import { memoryDb } from '../test/inMemorySupabase';
+import { geminiClient } from '../services/geminiClient';
+import { flushOutbox } from '../services/sync';
+import { clearLocalData } from '../services/localDb';
+import { createMemoryRepository } from '../services/memoryRepository';
+import type { Repository } from '../services/repository';
+import { AppProvider, useAppContext } from './AppContext';
+
+type AppContextValue = ReturnType<typeof useAppContext>;
+
+// Every question is classified before it is answered, with a schema that has a kind
+const isIntentRequest = (request: MockGeminiRequest) => !!request.body.generationConfig?.responseSchema?.properties?.kind;
+
+// Renders the provider and exposes the latest context value to the test
+const renderApp = async (repository?: Repository) => {
+  const view: { current: AppContextValue | null } = { current: null };
+  const Probe = () => {
+    view.current = useAppContext();
+    return null;
+  };
+
+  render(<AppProvider repository={repository}><Probe /></AppProvider>);
+
+  // Wait for the initial load to create a chat
+  await waitFor(() => expect(view.current?.currentChatId).toBeTruthy());
+  return view as { current: AppContextValue };
+};
+
+describe('AppContext sendMessage', () => {
+  let server: MockGeminiServer;
+
+  beforeAll(async () => {
+    server = await startMockGeminiServer();
+    vi.stubEnv('VITE_GEMINI_PROXY_URL', server.url);
+    geminiClient.setRetryPolicy({ baseDelayMs: 0, maxDelayMs: 0 });
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    await flushOutbox(); // Writes left over from the previous test
+    server.reset();
+    memoryDb.reset();
+    await clearLocalData();
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('streams the reply into the chat and saves both messages', async () => {
+    server.setHandler(() => ({ chunks: ['Hi ', 'there!'] }));
+    const app = await renderApp();
+
+    await act(() => app.current.sendMessage('Hello'));
+    app.current.stopGeneration(); // Cancel the pending title generation
+
+    const chatId = app.current.currentChatId;
+    expect(app.current.messages.map(m => [m.role, m.content])).toEqual([
+      ['user', 'Hello'],
+      ['assistant', 'Hi there!']
+    ]);
+    expect(app.current.isProcessing).toBe(false);
+    expect(app.current.streamingMessageId).toBeNull();
+
+    await flushOutbox();
+    const saved = memoryDb.rows('messages').filter(m => m.chat_id === chatId);
+    expect(saved.map(m => m.role)).toEqual(['user', 'assistant']);
+    expect(saved[1].content).toBe('Hi there!');
+
+    // The model saw the user's message as the last turn
+    const streamRequest = server.requests.find(r => r.method === 'streamGenerateContent');
+    expect(streamRequest?.body.contents.at(-1).parts.at(-1)).toEqual({ text: 'Hello' });
+  });
+
+  it('sends attached files as Gemini parts and keeps them on the message', async () => {
+    server.setHandler(() => ({ text: 'Question 2 asks about the diagram.' }));
+    // jsdom has no object URLs
+    URL.createObjectURL = vi.fn(() => 'blob:attachment');
+    const app = await renderApp(createMemoryRepository());
+
+    const worksheet = new File(['%PDF-1.4 worksheet'], 'worksheet.pdf', { type: 'application/pdf' });
+    const notes = new File(['# Notes\nForce is mass times acceleration'], 'notes.md', { type: '' });
+    const video = new File(['...'], 'lecture.mp4', { type: 'video/mp4' });
+    let rejected: ReturnType<AppContextValue['addAttachments']> = [];
+    act(() => {
+      rejected = app.current.addAttachments([worksheet, notes, video]);
+    });
+    expect(rejected.map(file => file.name)).toEqual(['lecture.mp4']);
+    expect(app.current.pendingAttachments.map(file => file.name)).toEqual(['worksheet.pdf', 'notes.md']);
+
+    await act(() => app.current.sendMessage('Explain question 2'));
+    app.current.stopGeneration();
+
+    // The files follow the question in the plain answer, which the study answer falls back to
+    const parts = server.requests.find(r => r.method === 'generateContent' && !r.body.generationConfig?.responseSchema)!.body.contents.at(-1).parts.slice(-3);
+    expect(parts[0]).toEqual({ text: 'Explain question 2' });
+    expect(parts[1]).toEqual({ inlineData: { mimeType: 'application/pdf', data: btoa('%PDF-1.4 worksheet') } });
+    expect(parts[2].text).toContain('Force is mass times acceleration');
+
+    const userMessage = app.current.messages.find(m => m.role === 'user');
+    expect(userMessage?.attachments?.map(a => [a.name, a.mime_type])).toEqual([['worksheet.pdf', 'application/pdf'], ['notes.md', 'application/octet-stream']]);
+    expect(app.current.pendingAttachments).toEqual([]);
+  });
+
+  it('creates a concept card for a study question', async () => {
+    server.setHandler(({ body }) => {
+      const prompt = JSON.stringify(body.contents);
+      if (prompt.includes('concept card')) {
+        return { text: '{"title": "Newton\'s Second Law", "content": "F = ma.", "category": "Physics"}' };
+      }
+      return { chunks: ['## **Physics** | *Mechanics*\n\n### **Question:**\nWhat is force?\n\n### **Solution:**\nForce is mass times acceleration.'] };
+    });
+    const app = await renderApp();
+
+    await act(() => app.current.sendMessage('Explain Newton\'s second law of motion in physics'));
+    app.current.stopGeneration();
+
+    const aiMessage = app.current.messages.find(m => m.role === 'assistant');
+    expect(aiMessage).toBeDefined();
+    expect(app.current.getConceptCardStatus(aiMessage!.id!)).toBe('success');
+
+    await flushOutbox();
+    const cards = memoryDb.rows('concept_cards');
+    expect(cards).toHaveLength(1);
+    expect(cards[0]).toMatchObject({ title: "Newton's Second Law", category: 'Physics' });
+  });
+
+  it('shows an explanation when every model is rate limited', async () => {
+    server.setHandler(() => ({ status: 429, message: 'Resource has been exhausted' }));
+    const app = await renderApp();
+
+    await act(() => app.current.sendMessage('Hello'));
+    app.current.stopGeneration();
+
+    const reply = app.current.messages.find(m => m.role === 'assistant');
+    expect(reply?.content).toContain('processing limits');
+    expect(app.current.isProcessing).toBe(false);
+  });
+
+  it('answers with the related concept cards and remembers which were used', async () => {
+    server.setHandler(() => ({ chunks: ['Doubling the force doubles the acceleration.'] }));
+    const repository = createMemoryRepository({
+      conceptCards: [
+        { id: 'card-newton', title: "Newton's Second Law", content: 'Force equals mass times acceleration (F = ma).', category: 'Physics' },
+        { id: 'card-cells', title: 'Cell Membranes', content: 'The membrane controls what enters and leaves the cell.', category: 'Biology' }
+      ]
+    });
+    const app = await renderApp(repository);
+
+    await act(() => app.current.sendMessage('How are force, mass and acceleration related?'));
+    app.current.stopGeneration();
+
+    // Gemini embeddings aren't available here, so the local ones are used
+    const prompt = JSON.stringify(server.requests.find(r => r.method !== 'batchEmbedContents' && !isIntentRequest(r))!.body);
+    expect(prompt).toContain('Force equals mass times acceleration');
+    expect(prompt).not.toContain('The membrane controls');
+
+    const reply = app.current.messages.find(m => m.role === 'assistant');
+    expect(reply?.sources).toEqual([{ kind: 'concept_card', id: 'card-newton', title: "Newton's Second Law" }]);
+    expect((await repository.getChatMessages(app.current.currentChatId!)).at(-1)?.sources).toEqual(reply?.sources);
+  });
+
+  it('edits an earlier question on a branch of its own and switches back to the original', async () => {
+    const answers = ['Water moves across a membrane.', 'Particles spread out.', 'Water moves towards the more concentrated solution.'];
+    // The questions are classified as educational, so they are answered as study
+    // answers; other requests, e.g. for concept cards, get an error
+    const isAnswer = (request: MockGeminiRequest) => request.method === 'streamGenerateContent' || !!request.body.generationConfig?.responseSchema?.properties?.steps;
+    server.setHandler(request => isIntentRequest(request)
+      ? { text: JSON.stringify({ kind: 'educational', subject: 'Biology', topic: 'Transport', confidence: 0.9 }) }
+      : isAnswer(request)
+        ? { text: JSON.stringify({ summary: '', subject: 'Biology', topic: 'Transport', question: 'Question', steps: [answers.shift()!], tips: [] }) }
+        : { status: 400, message: 'Not in this test' });
+    const app = await renderApp();
+
+    await act(() => app.current.sendMessage('What is osmosys?'));
+    await act(() => app.current.sendMessage('And diffusion?'));
+    app.current.stopGeneration();
+    const chatId = app.current.currentChatId;
+    const original = app.current.messages.map(m => m.id);
+
+    await act(async () => {
+      expect(await app.current.editMessage(original[0]!, 'What is osmosis?')).toBe(true);
+    });
+    app.current.stopGeneration();
+
+    const [edited, reply] = app.current.messages;
+    expect(app.current.messages).toHaveLength(2);
+    expect(edited).toMatchObject({ role: 'user', content: 'What is osmosis?', parent_id: null });
+    expect(edited.id).not.toBe(original[0]);
+    expect(edited.intent).toMatchObject({ kind: 'educational', subject: 'Biology', source: 'model' });
+    expect(reply.content).toContain('Water moves towards the more concentrated solution.');
+    expect(reply.study?.steps).toEqual(['Water moves towards the more concentrated solution.']);
+    expect(app.current.messageBranches.get(edited.id!)).toEqual({ index: 1, count: 2, siblingIds: [original[0], edited.id] });
+
+    // The model only saw the edited question
+    const prompt = JSON.stringify(server.requests.filter(isAnswer).at(-1)!.body);
+    expect(prompt).toContain('What is osmosis?');
+    expect(prompt).not.toContain('osmosys');
+    expect(prompt).not.toContain('diffusion');
+
+    // The original conversation is still there
+    await act(() => app.current.switchBranch(original[0]!));
+    expect(app.current.messages.map(m => m.id)).toEqual(original);
+
+    await flushOutbox();
+    expect(memoryDb.rows('messages').filter(m => m.chat_id === chatId)).toHaveLength(6);
+  });
+
+  it('can stop an edit while its question is classified', async () => {
+    let app: { current: AppContextValue } | undefined;
+    let editing = false;
+    server.setHandler(request => {
+      if (!isIntentRequest(request)) return { chunks: ['An answer.'] };
+      if (editing) {
+        app!.current.stopGeneration();
+      }
+      return { text: '{"kind": "casual", "subject": null, "topic": null, "confidence": 0.9}' };
+    });
+    app = await renderApp(createMemoryRepository());
+    await act(() => app!.current.sendMessage('Hello there'));
+    const original = app.current.messages.map(m => m.id);
+    const requests = server.requests.length;
+
+    editing = true;
+    await act(async () => {
+      expect(await app!.current.editMessage(original[0]!, 'Hi there')).toBe(false);
+    });
+
+    expect(app.current.isProcessing).toBe(false);
+    // Nothing was answered or saved for the edit
+    expect(server.requests.slice(requests).every(isIntentRequest)).toBe(true);
+    expect(app.current.messages.map(m => m.id)).toEqual(original);
+  });
+
+  it('regenerates an answer and keeps the earlier one as an alternative', async () => {
+    const answers = ['First answer.', 'Second answer.'];
+    server.setHandler(({ method }) => method === 'streamGenerateContent' ? { chunks: [answers.shift()!] } : { status: 400, message: 'Not in this test' });
+    const app = await renderApp();
+
+    await act(() => app.current.sendMessage('Hello'));
+    app.current.stopGeneration();
+    const [question, first] = app.current.messages;
+
+    await act(async () => {
+      expect(await app.current.regenerateResponse(first.id!)).toBe(true);
+    });
+
+    const [, second] = app.current.messages;
+    expect(app.current.messages.map(m => m.content)).toEqual(['Hello', 'Second answer.']);
+    expect(second.parent_id).toBe(question.id);
+    expect(app.current.messageBranches.get(second.id!)).toMatchObject({ index: 1, count: 2 });
+
+    await act(() => app.current.switchBranch(first.id!));
+    expect(app.current.messages.map(m => m.content)).toEqual(['Hello', 'First answer.']);
+
+    // The newest branch is shown when the chat is opened again
+    await act(async () => {
+      await app.current.selectChat(app.current.currentChatId);
+    });
+    expect(app.current.messages.map(m => m.content)).toEqual(['Hello', 'Second answer.']);
+  });
+
+  it('reads and writes through the repository it is given', async () => {
+    server.setHandler(() => ({ chunks: ['Welcome back.'] }));
+    const repository = createMemoryRepository({
+      chats: [{ id: 'chat-1', title: 'Earlier chat', model: 'gemini-pro', created_at: '2024-01-01T00:00:00.000Z', updated_at: '2024-01-01T00:00:00.000Z' }],
+      messages: [{ id: 'm-1', role: 'user', content: 'Earlier question', chat_id: 'chat-1', created_at: '2024-01-01T00:00:00.000Z' }]
+    });
+    const app = await renderApp(repository);
+
+    expect(app.current.storageBackend).toBe('memory');
+    expect(app.current.currentChatId).toBe('chat-1');
+    await waitFor(() => expect(app.current.messages.map(m => m.content)).toEqual(['Earlier question']));
+
+    await act(() => app.current.sendMessage('Hello again'));
+    app.current.stopGeneration();
+
+    expect((await repository.getChatMessages('chat-1')).map(m => m.content)).toEqual(['Earlier question', 'Hello again', 'Welcome back.']);
+    expect(memoryDb.rows('messages')).toEqual([]);
+  });
+});
@@ -1,9 +1,21 @@
 import { v4 as uuidv4 } from 'uuid';
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
 
-import * as supabaseService from '../services/supabase';
+import { getRepository, messageText, replaceMessageText } from '../services/repository';
+import type { Attachment, CardReview, Chat, ChatFolder, ChatMessage, ChatUpdates, ConceptCard, NewQuizAttempt, QuizAnswer, QuizAttempt, Repository, SearchResult, Share, StorageBackend, Todo } from '../services/repository';
 import * as geminiService from '../services/gemini';
-import * as conceptCardGenerator from '../services/conceptCardGenerator';
+import * as syncService from '../services/sync';
+import { fitAttachmentBudget, getAttachmentKind } from '../services/attachments';
+import type { RejectedFile } from '../services/attachments';
+import * as retrievalService from '../services/retrieval';
+import { activePath, branchPositions } from '../services/messageTree';
+import type { BranchPosition } from '../services/messageTree';
+import * as chatExport from '../services/chatExport';
+import * as shareService from '../services/shares';
+import { gradeReview, isDueToday, studyQueue } from '../services/spacedRepetition';
+import type { Grade } from '../services/spacedRepetition';
+import * as quizService from '../services/quiz';
+import * as intentService from '../services/intent';
 
 // Define types for concept card generation status
 export type ConceptCardStatus = 'pending' | 'generating' | 'success' | 'failed' | 'none';
@@ -16,82 +28,152 @@ type CardStatusMap = {
 type AppContextType = {
   // Chat state
   currentChatId: string;
-  chatHistory: supabaseService.Chat[];
+  chatHistory: Chat[];
+  chatFolders: ChatFolder[];
   currentModel: string;
-  messages: supabaseService.ChatMessage[];
+  messages: ChatMessage[];
+  // Where the messages with alternatives stand among them, by message id
+  messageBranches: Map<string, BranchPosition>;
   isProcessing: boolean;
-  selectedImage: File | null;
-  isImageLoading: boolean;
+  streamingMessageId: string | null;
+  // Files attached to the message being written
+  pendingAttachments: File[];
   isLoadingModels: boolean;
   models: geminiService.GeminiModel[];
   
   // Concept cards state
-  conceptCards: supabaseService.ConceptCard[];
+  conceptCards: ConceptCard[];
   selectedCategory: string;
   conceptCardStatuses: CardStatusMap;
 
   // Todos state
-  todos: supabaseService.Todo[];
+  todos: Todo[];
+
+  // Where data is stored, and the sync state of records with writes not yet in Supabase
+  storageBackend: StorageBackend;
+  syncStates: Record<string, syncService.SyncState>;
 
   // Actions
   sendMessage: (content: string) => Promise<void>;
+  // Ask an earlier question again with new text, on a branch next to the original
+  editMessage: (messageId: string, newContent: string) => Promise<boolean>;
+  // Answer a question again, keeping the earlier answer as an alternative
+  regenerateResponse: (messageId: string) => Promise<boolean>;
+  // Show the path through the chat that goes through the given message
+  switchBranch: (messageId: string) => Promise<void>;
+  streamAIResponse: (chatId: string, history: any[], signal?: AbortSignal, sources?: retrievalService.RetrievedSource[], parentId?: string | null) => Promise<ChatMessage>;
+  stopGeneration: () => void;
   selectModel: (modelId: string) => void;
+  refreshModels: () => Promise<void>;
   selectChat: (chatId: string) => Promise<boolean>;
   createNewChat: () => Promise<void>;
-  uploadImage: (file: File) => void;
-  clearImage: () => void;
+  // Returns the files that couldn't be attached, with the reason
+  addAttachments: (files: File[]) => RejectedFile[];
+  removeAttachment: (index: number) => void;
+  clearAttachments: () => void;
   loadConceptCards: (category?: string) => Promise<void>;
   generateCardFromQuery: (query: string) => Promise<void>;
   renameChat: (chatId: string, newTitle: string) => Promise<boolean>;
   deleteChat: (chatId: string) => Promise<boolean>;
-  autoGenerateChatTitle: (chatId: string, messages: supabaseService.ChatMessage[]) => Promise<boolean>;
+  // Pin, tag, archive or move chats, several at once for bulk actions
+  updateChats: (chatIds: string[], updates: ChatUpdates) => Promise<boolean>;
+  deleteChats: (chatIds: string[]) => Promise<boolean>;
+  // Download a chat as Markdown or JSON, or open the print dialog to save it as a PDF
+  exportChat: (chatId: string, format: chatExport.ExportFormat) => Promise<boolean>;
+  // Recreate a chat from a JSON export and open it; throws a ChatImportError for files that aren't exports
+  importChat: (file: File) => Promise<Chat>;
+  createChatFolder: (name: string) => Promise<ChatFolder | null>;
+  renameChatFolder: (folderId: string, name: string) => Promise<boolean>;
+  deleteChatFolder: (folderId: string) => Promise<boolean>;
+  searchChats: (query: string) => Promise<SearchResult[]>;
+  autoGenerateChatTitle: (chatId: string, messages: ChatMessage[]) => Promise<boolean>;
   getConceptCardStatus: (messageId: string) => ConceptCardStatus;
   updateCardStatus: (messageId: string, status: ConceptCardStatus) => void;
   deleteConceptCard: (cardId: string) => Promise<boolean>;
-  updateConceptCard: (cardId: string, updates: Partial<Omit<supabaseService.ConceptCard, 'id' | 'created_at'>>) => Promise<supabaseService.ConceptCard | null>;
+  updateConceptCard: (cardId: string, updates: Partial<Omit<ConceptCard, 'id' | 'created_at'>>) => Promise<ConceptCard | null>;
 
   // Todos actions
   loadTodos: () => Promise<void>;
-  addTodo: (todo: Omit<supabaseService.Todo, 'id' | 'created_at'>) => Promise<supabaseService.Todo | null>;
-  updateTodo: (todoId: string, updates: Partial<Omit<supabaseService.Todo, 'id' | 'created_at'>>) => Promise<supabaseService.Todo | null>;
+  addTodo: (todo: Omit<Todo, 'id' | 'created_at'>) => Promise<Todo | null>;
+  updateTodo: (todoId: string, updates: Partial<Omit<Todo, 'id' | 'created_at'>>) => Promise<Todo | null>;
   deleteTodo: (todoId: string) => Promise<boolean>;
+
+  // Spaced-repetition study of concept cards
+  cardReviews: CardReview[];
+  dueCardCount: number; // Cards left to study today
+  // Today's study queue, from every concept card whatever the selected category
+  loadStudyQueue: () => Promise<ConceptCard[]>;
+  gradeConceptCard: (cardId: string, grade: Grade) => Promise<CardReview | null>;
+
+  // Quizzes, on the cards of a category ('All' for every card) or on a chat
+  createQuiz: (target: { category: string } | { chatId: string }, count?: number) => Promise<quizService.Quiz | null>;
+  // Grade the answers, short ones with the model, and save the attempt
+  submitQuiz: (quiz: quizService.Quiz, given: QuizAnswer['given'][]) => Promise<{ attempt: NewQuizAttempt; saved: boolean }>;
+  getQuizAttempts: () => Promise<QuizAttempt[]>;
+
+  // Share links
+  createShareLink: (target: shareService.ShareTarget, expiresAt?: string | null) => Promise<{ share: Share; url: string } | null>;
+  getShares: () => Promise<Share[]>;
+  revokeShare: (shareId: string) => Promise<boolean>;
+
+  // Sync actions
+  getSyncState: (recordId: string) => syncService.SyncState;
+  resolveSyncConflict: (recordId: string, resolution: syncService.ConflictResolution) => Promise<void>;
+  retrySync: (recordId?: string) => Promise<void>;
 };
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
-export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children }) => {
+type AppProviderProps = {
+  children: React.ReactNode;
+  // Storage to use instead of the backend chosen at startup, e.g. a test double
+  repository?: Repository;
+};
+
+export const AppProvider: React.FC<AppProviderProps> = ({ children, repository = getRepository() }) => {
   // Chat state
   const [currentChatId, setCurrentChatId] = useState<string>('');
-  const [chatHistory, setChatHistory] = useState<supabaseService.Chat[]>([]);
+  const [chatHistory, setChatHistory] = useState<Chat[]>([]);
+  const [chatFolders, setChatFolders] = useState<ChatFolder[]>([]);
   const [currentModel, setCurrentModel] = useState<string>('gemini-2.0-flash');
-  const [messages, setMessages] = useState<supabaseService.ChatMessage[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  // Every message of the current chat, on every branch; `messages` is the path shown
+  const [messageTree, setMessageTree] = useState<ChatMessage[]>([]);
+  const messageBranches = useMemo(() => branchPositions(messageTree), [messageTree]);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
-  const [selectedImage, setSelectedImage] = useState<File | null>(null);
-  const [isImageLoading, setIsImageLoading] = useState<boolean>(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const [pendingAttachments, setPendingAttachments] = useState<File[]>([]);
   const [isLoadingModels, setIsLoadingModels] = useState<boolean>(true);
   const [models, setModels] = useState<geminiService.GeminiModel[]>(geminiService.AVAILABLE_MODELS);
 
   // Concept cards state
-  const [conceptCards, setConceptCards] = useState<supabaseService.ConceptCard[]>([]);
+  const [conceptCards, setConceptCards] = useState<ConceptCard[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string>('All');
   const [conceptCardStatuses, setConceptCardStatuses] = useState<CardStatusMap>({});
+  const [cardReviews, setCardReviews] = useState<CardReview[]>([]);
+  const [dueCardCount, setDueCardCount] = useState(0);
 
   // Todos state
-  const [todos, setTodos] = useState<supabaseService.Todo[]>([]);
+  const [todos, setTodos] = useState<Todo[]>([]);
+
+  // Sync state
+  const [syncStates, setSyncStates] = useState<Record<string, syncService.SyncState>>({});
+
+  // Cancellation of the in-flight generation and its follow-up work
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const titleTimersRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+
+  // Embeddings of concept cards and earlier answers, for retrieval; the in-memory backend keeps nothing on disk
+  const [retrieval] = useState(() => retrievalService.createRetrievalIndex(
+    repository.backend === 'memory' ? retrievalService.createMemoryEmbeddingStore() : retrievalService.localEmbeddingStore
+  ));
 
   // Initialize app data
   useEffect(() => {
     const loadInitialData = async () => {
       try {
         // Check and create necessary tables
-        if (!import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_SUPABASE_URL === 'your-supabase-url.supabase.co') {
-          console.log('Running in offline mode...');
-        } else {
-          console.log('Ensuring database tables exist...');
-          await supabaseService.verifyDatabaseTables();
-          await supabaseService.ensureConceptCardsTable();
-          await supabaseService.ensureTodosTable();
-        }
+        await repository.prepare();
 
         // Load available models
         setIsLoadingModels(true);
@@ -100,8 +182,9 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
         setIsLoadingModels(false);
         
         // Load chat history
-        const chats = await supabaseService.getChats();
+        const chats = await repository.getChats();
         setChatHistory(chats);
+        setChatFolders(await repository.getChatFolders());
         
         // If there are chats, select the most recent one
         if (chats.length > 0) {
@@ -113,6 +196,9 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
         
         // Load todos
         await loadTodos();
+        
+        // Index the answers in recent chats in the background; the selected one was indexed when it loaded
+        indexRecentChats(chats.slice(1, 20));
       } catch (error) {
         console.error('Error loading initial data:', error);
         setIsLoadingModels(false);
@@ -125,8 +211,42 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
   // Load concept cards on initial mount
   useEffect(() => {
     loadConceptCards();
+    indexConceptCards();
+  }, []);
+
+  // Replay writes queued while Supabase was unreachable, and track what is still unsynced
+  useEffect(() => {
+    const unsubscribe = syncService.subscribeToSyncState(setSyncStates);
+    // Only the Supabase backend has anything to sync
+    const stopSync = repository.backend === 'supabase' ? syncService.startSync() : () => {};
+    return () => {
+      unsubscribe();
+      stopSync();
+    };
   }, []);
 
+  // Bring the retrieval index up to date with every concept card
+  const indexConceptCards = async () => {
+    try {
+      const cards = await repository.getConceptCards();
+      await retrieval.index(cards.filter(card => card.id).map(retrievalService.conceptCardRecord), { replaceKind: 'concept_card' });
+    } catch (error) {
+      console.error('[RETRIEVAL] Error indexing concept cards:', error);
+    }
+  };
+
+  // Index the answers in the given chats, one chat at a time
+  const indexRecentChats = async (chats: Chat[]) => {
+    for (const chat of chats) {
+      try {
+        const chatMessages = await repository.getChatMessages(chat.id);
+        await retrieval.index(retrievalService.answerRecords(chatMessages));
+      } catch (error) {
+        console.error(`[RETRIEVAL] Error indexing chat ${chat.id}:`, error);
+      }
+    }
+  };
+
   // Get concept card status for a message
   const getConceptCardStatus = (messageId: string): ConceptCardStatus => {
     return conceptCardStatuses[messageId] || 'none';
@@ -140,46 +260,122 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
     }));
   };
 
-  // Send message to get AI response
-  const generateAIResponse = async (chatIdToUse: string, historyForAI: any[]) => {
-    console.log(`Generating AI response for chat ${chatIdToUse}`);
+  // The concept cards and earlier answers most related to a question; none for greetings or when the index fails
+  const findRelatedSources = async (question: string, chatId: string, signal?: AbortSignal) => {
+    if (!question.trim() || isGreetingMessage(question)) return [];
     
     try {
-      console.log('Generating AI response...');
-      
-      // Limit history length to avoid token limit errors
-      const limitedHistory = limitMessageHistoryTokens(historyForAI);
-      console.log(`Using ${limitedHistory.length} messages for AI context after token limit check`);
-      
-      // Get an AI response
-      const aiResponse = await geminiService.generateResponse(
+      const sources = await retrieval.search(question, { excludeChatId: chatId, signal });
+      console.log(`[RETRIEVAL] Found ${sources.length} related source(s)`);
+      return sources;
+    } catch (error) {
+      console.error('[RETRIEVAL] Error finding related sources:', error);
+      return [];
+    }
+  };
+
+  // Stream an AI response into a placeholder message, persisting it once complete
+  const streamAIResponse = async (
+    chatIdToUse: string,
+    historyForAI: any[],
+    signal?: AbortSignal,
+    sources: retrievalService.RetrievedSource[] = [],
+    parentId?: string | null
+  ) => {
+    console.log(`Streaming AI response for chat ${chatIdToUse}`);
+    
+    // Limit history length to avoid token limit errors
+    let limitedHistory = limitMessageHistoryTokens(historyForAI);
+    console.log(`Using ${limitedHistory.length} messages for AI context after token limit check`);
+    
+    // Related concept cards and earlier answers go in as a system note just before the question
+    if (sources.length > 0 && limitedHistory.length > 0) {
+      limitedHistory = [
+        ...limitedHistory.slice(0, -1),
+        { role: 'system', content: retrievalService.buildRetrievalNote(sources) },
+        limitedHistory[limitedHistory.length - 1]
+      ];
+    }
+    
+    // Add an empty assistant message that the chunks are appended to
+    const aiMessage: ChatMessage = {
+      id: uuidv4(),
+      role: 'assistant',
+      content: '',
+      chat_id: chatIdToUse,
+      created_at: new Date().toISOString(),
+      ...(sources.length > 0 ? { sources: retrievalService.toMessageSources(sources) } : {}),
+      // Without a parent the answer follows the latest message, i.e. the question just saved
+      ...(parentId !== undefined ? { parent_id: parentId } : {})
+    };
+    
+    setMessages(prev => [...prev, aiMessage]);
+    setStreamingMessageId(aiMessage.id);
+    
+    // Keep our own copy of the streamed text so it survives a cancellation
+    let streamedContent = '';
+    
+    try {
+      const aiResponse = await geminiService.generateResponseStream(
         limitedHistory,
         currentModel,
-        { temperature: 0.7 }
+        { temperature: 0.7 },
+        (chunk) => {
+          streamedContent += chunk;
+          setMessages(prev => prev.map(msg => 
+            msg.id === aiMessage.id ? { ...msg, content: msg.content + chunk } : msg
+          ));
+        },
+        signal
       );
       
-      console.log('Got AI response');
-      
-      // Create an AI message
-      const aiMessage: supabaseService.ChatMessage = {
-        id: uuidv4(),
-        role: 'assistant',
+      // Study answers also come with their sections
+      const finalMessage: ChatMessage = {
+        ...aiMessage,
         content: aiResponse.content,
-        chat_id: chatIdToUse,
-        created_at: new Date().toISOString()
+        ...(aiResponse.study ? { study: aiResponse.study } : {})
       };
       
-      console.log('Created AI message:', { 
-        id: aiMessage.id, 
-        role: aiMessage.role, 
-        timestamp: aiMessage.created_at,
-        content: aiMessage.content.substring(0, 50) + '...'
-      });
+      setMessages(prev => prev.map(msg => msg.id === aiMessage.id ? finalMessage : msg));
+      
+      // Save AI message to database only once the stream has completed
+      const savedAiMessage = await repository.addChatMessage(finalMessage);
+      
+      if (!savedAiMessage) {
+        console.error('Failed to save AI message to database');
+      } else {
+        console.log('AI message saved to database with ID:', savedAiMessage.id);
+      }
       
-      return aiMessage;
+      return finalMessage;
     } catch (error) {
-      console.error('Error generating AI response:', error);
+      // A stopped generation keeps whatever text had already arrived
+      if (geminiService.isAbortError(error) && streamedContent) {
+        console.log('AI response stopped by user, keeping partial output');
+        
+        const stoppedMessage: ChatMessage = {
+          ...aiMessage,
+          content: streamedContent,
+          stopped: true
+        };
+        
+        setMessages(prev => prev.map(msg => msg.id === aiMessage.id ? stoppedMessage : msg));
+        
+        const savedAiMessage = await repository.addChatMessage(stoppedMessage);
+        if (!savedAiMessage) {
+          console.error('Failed to save stopped AI message to database');
+        }
+        
+        return stoppedMessage;
+      }
+      
+      console.error('Error streaming AI response:', error);
+      
+      // Drop the placeholder so the error message takes its place
+      setMessages(prev => prev.filter(msg => msg.id !== aiMessage.id));
       throw error;
+    } finally {
+      setStreamingMessageId(null);
     }
   };
 
@@ -241,16 +437,33 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
     return limitedMessages;
   };
 
+  // Keep a file sent in a chat, with a thumbnail for images; null if it can't be stored
+  const saveFileAttachment = async (chatId: string, file: File) => {
+    try {
+      const thumbnail = getAttachmentKind(file) === 'image' ? await geminiService.createThumbnail(file) : null;
+      return await repository.saveAttachment(chatId, file, thumbnail, file.name);
+    } catch (error) {
+      console.error(`Error storing the attachment ${file.name}:`, error);
+      return null;
+    }
+  };
+
   // Send a message and get AI response
   const sendMessage = async (
     content: string,
-    chatId?: string,
-    selectedImage?: File | null
+    chatId?: string
   ) => {
+    // The files attached when the message was sent
+    const attachedFiles = pendingAttachments;
     setIsProcessing(true);
       let isNewChat = false;
       let newChatId: string | null = null;
       
+    // A fresh controller for everything this message triggers
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const { signal } = abortController;
+      
     try {
       // Check if this is an image generation command
       const isImageCommand = geminiService.isImageGenerationCommand(content);
@@ -258,7 +471,7 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
       // Create a new chat if needed
       if (!currentChatId) {
         console.log('No current chat ID, creating new chat');
-        const newChat = await supabaseService.createChat(
+        const newChat = await repository.createChat(
           isImageCommand ? 'Image Generation' : 'New Conversation', 
           currentModel
         );
@@ -286,30 +499,31 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
         const chatIdToUse = newChatId || currentChatId;
         const timestamp = Date.now();
         
-        const userMessage: supabaseService.ChatMessage = {
+        const userMessage: ChatMessage = {
           id: uuidv4(),
           role: 'user',
           content: content,
           chat_id: chatIdToUse,
-          created_at: new Date(timestamp).toISOString()
+          created_at: new Date(timestamp).toISOString(),
+          parent_id: isNewChat ? null : messages.at(-1)?.id ?? null
         };
         
         // Add user message to state
         setMessages(prev => [...prev, userMessage]);
         
         // Save message to database
-        const savedUserMessage = await supabaseService.addChatMessage(userMessage);
+        const savedUserMessage = await repository.addChatMessage(userMessage);
         
         if (!savedUserMessage) {
           console.error('Failed to save user message to database');
         }
         
         // Generate the image
-        generatedImage = await geminiService.generateImage(imagePrompt);
+        generatedImage = await geminiService.generateImage(imagePrompt, signal);
         
         if (generatedImage) {
           // Create AI message with the generated image
-          const aiMessage: supabaseService.ChatMessage = {
+          const aiMessage: ChatMessage = {
             id: uuidv4(),
             role: 'assistant',
             content: JSON.stringify([
@@ -329,7 +543,7 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
           setMessages(prev => [...prev, aiMessage]);
           
           // Save AI message to database
-          const savedAiMessage = await supabaseService.addChatMessage(aiMessage);
+          const savedAiMessage = await repository.addChatMessage(aiMessage);
           
           if (!savedAiMessage) {
             console.error('Failed to save AI message with image to database');
@@ -347,59 +561,42 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
         return;
       }
       
-      // Handle image uploads if there's a selected image
-      if (selectedImage) {
-        console.log('Message includes an image');
+      // Handle attached files: each becomes a part of the message
+      if (attachedFiles.length > 0) {
+        console.log(`Message includes ${attachedFiles.length} attachment(s)`);
         messageContent = [];
         
         // Add text part if provided, otherwise use a default prompt
         if (processedContent.trim()) {
-          console.log('Adding text part to message with image');
           messageContent.push({ text: processedContent });
         } else {
-          console.log('No text provided with image, using default prompt');
-          // Use a default prompt for image-only messages
-          messageContent.push({ text: "What's in this image? Please provide a detailed description." });
+          const onlyImages = attachedFiles.every(file => getAttachmentKind(file) === 'image');
+          messageContent.push({
+            text: onlyImages
+              ? "What's in this image? Please provide a detailed description."
+              : 'Please look at the attached files and summarize what they contain.'
+          });
         }
         
-        // Convert image to base64 data for Gemini API
-        if (selectedImage instanceof File) {
-          console.log('Converting File to base64 for Gemini API');
+        // PDFs are cut down to the parts the question is about
+        const question = processedContent.trim() || (messageContent[0] as { text: string }).text;
+        for (const file of attachedFiles) {
           try {
-            const imagePart = await geminiService.fileToGenerativePart(selectedImage);
-            console.log('Image successfully converted to Gemini format');
-            
-            // Check that we received a valid image part
-            if (!imagePart || !imagePart.inlineData) {
-              throw new Error('Failed to process image: Invalid format returned');
-            }
-            
-            // Verify we have both parts: text and image
-            console.log(`Message content has ${(messageContent as any[]).length} parts before adding image`);
-            (messageContent as any[]).push(imagePart);
-            console.log(`Message content now has ${(messageContent as any[]).length} parts including image`);
-            
-            // Log the structure (without the actual base64 data) for debugging
-            const logSafeImagePart = { 
-              inlineData: { 
-                mimeType: imagePart.inlineData.mimeType,
-                data: `[base64 data of length: ${imagePart.inlineData.data.length}]` 
-              }
-            };
-            console.log('Image part structure:', logSafeImagePart);
-          } catch (imageError) {
-            console.error('Error converting image:', imageError);
+            const part = await geminiService.attachmentToPart(file, question);
+            (messageContent as any[]).push(part);
+            console.log(`Attached ${file.name} as ${part.inlineData ? `inline ${part.inlineData.mimeType} (${part.inlineData.data.length} chars)` : `text (${part.text?.length} chars)`}`);
+          } catch (fileError) {
+            console.error(`Error converting attachment ${file.name}:`, fileError);
             
-            // Use the error message from the fileToGenerativePart function
-            const errorMessage = imageError instanceof Error 
-              ? imageError.message 
-              : 'There was an unknown error processing the image';
+            const errorMessage = fileError instanceof Error 
+              ? fileError.message 
+              : 'There was an unknown error processing the file';
               
             // Add a user-friendly error message to the chat
             addErrorMessageToChat(
               newChatId || currentChatId,
-              'image',
-              `I couldn't process that image: ${errorMessage} Please try a different image or format.`
+              getAttachmentKind(file) === 'image' ? 'image' : 'general',
+              `I couldn't process "${file.name}": ${errorMessage} Please remove it or try a different file.`
             );
             
             // End processing
@@ -430,14 +627,20 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
       // Get the current time in milliseconds
       const timestamp = Date.now();
       
+      // Store the files so the message can show them again after a reload
+      const attachments = (await Promise.all(attachedFiles.map(file => saveFileAttachment(chatIdToUse, file))))
+        .filter((attachment): attachment is Attachment => !!attachment);
+      
       // Create a user message
-      const userMessage: supabaseService.ChatMessage = {
+      const userMessage: ChatMessage = {
         id: uuidv4(),
         role: 'user',
         content: typeof messageContent === 'string' ? messageContent : JSON.stringify(messageContent),
         chat_id: chatIdToUse,
         created_at: new Date(timestamp).toISOString(),
-        attachments: selectedImage ? [URL.createObjectURL(selectedImage)] : undefined
+        attachments: attachments.length > 0 ? attachments : undefined,
+        // Follows the branch being shown, which needn't be the newest one
+        parent_id: isNewChat ? null : messages.at(-1)?.id ?? null
       };
       
       console.log('Created user message:', { 
@@ -452,8 +655,13 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
       // Add user message to state
       setMessages(prev => [...prev, userMessage]);
       
+      // What the question asks for decides whether it gets a study answer and a concept card
+      const intent = await intentService.classifyIntent(userMessage, signal);
+      userMessage.intent = intent;
+      setMessages(prev => prev.map(msg => (msg.id === userMessage.id ? { ...msg, intent } : msg)));
+      
       // Save message to database
-      const savedUserMessage = await supabaseService.addChatMessage(userMessage);
+      const savedUserMessage = await repository.addChatMessage(userMessage);
       
       if (!savedUserMessage) {
         console.error('Failed to save user message to database');
@@ -461,24 +669,25 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
         console.log('User message saved to database with ID:', savedUserMessage.id);
       }
       
-      // Clear image after sending
-      if (selectedImage) {
-        clearImage();
+      // Clear the attachments after sending
+      if (attachedFiles.length > 0) {
+        clearAttachments();
       }
       
       try {
         console.log('Generating AI response...');
         
-        // Get all the messages for context
-        const messageHistory = await supabaseService.getChatMessages(chatIdToUse);
+        // The messages on the question's branch, for context
+        const messageHistory = await repository.getChatMessages(chatIdToUse, userMessage.id);
         console.log(`Loaded ${messageHistory.length} message(s) for context`);
         
         // Send only the non-system messages as history
         const historyForAI = messageHistory
-          .filter(msg => msg.role !== 'system')
+          .filter(msg => (msg.role as string) !== 'system')
           .map(msg => ({
                     role: msg.role, 
-                    content: msg.content 
+                    content: msg.content,
+                    intent: msg.intent
           }));
         
         console.log(`Using ${historyForAI.length} message(s) for AI context`);
@@ -494,49 +703,23 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
         
         console.log(`Sending to AI: "${contentForAI.substring(0, 50)}${contentForAI.length > 50 ? '...' : ''}"`);
         
-        // Get an AI response
-        const aiMessage = await generateAIResponse(chatIdToUse, historyForAI);
-        
-        // Add AI message to state
-        setMessages(prev => [...prev, aiMessage]);
+        // Concept cards and earlier answers related to the question
+        const relatedSources = await findRelatedSources(processedContent, chatIdToUse, signal);
         
-        // Save AI message to database
-        const savedAiMessage = await supabaseService.addChatMessage(aiMessage);
+        // Stream the AI response into the chat; it is saved once complete
+        const aiMessage = await streamAIResponse(chatIdToUse, historyForAI, signal, relatedSources, userMessage.id);
         
-        if (!savedAiMessage) {
-          console.error('Failed to save AI message to database');
-        } else {
-          console.log('AI message saved to database with ID:', savedAiMessage.id);
+        // Nothing else runs for a response the user stopped
+        if (aiMessage.stopped || signal.aborted) {
+          console.log('Generation stopped, skipping concept card and title generation');
+          return;
         }
         
-        // Check if we should generate a concept card (for template responses)
-        const isTemplateResponse = aiMessage.content.includes('##') || 
-                                   aiMessage.content.includes('```') || 
-                                   (aiMessage.content.includes('?') && aiMessage.content.length > 100);
-      
-        // Determine if this is a study question response
-        const isStudyQuestion = (
-          // Check user content for study question indicators
-          conceptCardGenerator.isEducationalQuery(contentForAI) ||
-          
-          // Or check AI response format and content
-          (isTemplateResponse && (
-            // Response has educational headings
-            aiMessage.content.toLowerCase().includes('concept') ||
-            aiMessage.content.toLowerCase().includes('formula') ||
-            aiMessage.content.toLowerCase().includes('equation') ||
-            aiMessage.content.toLowerCase().includes('theory') ||
-            aiMessage.content.toLowerCase().includes('principle') ||
-            aiMessage.content.toLowerCase().includes('definition') ||
-            aiMessage.content.toLowerCase().includes('explanation') ||
-            aiMessage.content.toLowerCase().includes('solution') ||
-            aiMessage.content.toLowerCase().includes('analysis') ||
-            // Has educational code blocks (not JSON/HTML)
-            (aiMessage.content.includes('```') && 
-              !aiMessage.content.includes('```json') && 
-              !aiMessage.content.includes('```html'))
-          ))
-        );
+        // Later questions can draw on this answer
+        retrieval.index(retrievalService.answerRecords([...messageHistory, aiMessage]));
+        
+        // Educational questions get a concept card
+        const isStudyQuestion = intent.kind === 'educational';
       
         if (isStudyQuestion) {
           // Set the status to pending immediately
@@ -554,7 +737,7 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
             
             // Log the query and model before calling the API
             console.time('[STUDY] Concept card generation time');
-            const cardData = await geminiService.generateConceptCard(contentForAI);
+            const cardData = await geminiService.generateConceptCard(contentForAI, signal);
             console.timeEnd('[STUDY] Concept card generation time');
             
             console.log('[STUDY] Card data generated:', cardData ? 'SUCCESS' : 'FAILED');
@@ -603,81 +786,27 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
                 gradient
               });
               
-              // Retry logic for database saving
-              let newCard = null;
-              let retryCount = 0;
-              const maxRetries = 3;
-              
-              while (!newCard && retryCount < maxRetries) {
-                try {
-                  // Save card directly to database
-                  newCard = await supabaseService.addConceptCard({
-                    title: cardData.title,
-                    content: fullContent,
-                    category: cardData.category as 'Physics' | 'Chemistry' | 'Biology' | 'Other',
-                    color_gradient: gradient
-                  });
-                  
-                  if (newCard) {
-                    console.log('[STUDY] Card successfully saved to database on attempt', retryCount + 1, 'ID:', newCard.id);
-                  } else {
-                    console.error('[STUDY] Database save returned null on attempt', retryCount + 1);
-                    retryCount++;
-                  }
-                } catch (saveError) {
-                  console.error('[STUDY] Error saving to database on attempt', retryCount + 1, ':', saveError);
-                  retryCount++;
-                }
-              }
+              // Saved locally and queued for Supabase, so it isn't lost if the connection drops
+              const newCard = await repository.addConceptCard({
+                title: cardData.title,
+                content: fullContent,
+                category: cardData.category as 'Physics' | 'Chemistry' | 'Biology' | 'Other',
+                color_gradient: gradient,
+                chat_id: chatIdToUse
+              });
               
               if (newCard) {
+                console.log('[STUDY] Card saved, ID:', newCard.id);
+                retrieval.index([retrievalService.conceptCardRecord(newCard)]);
                 // Update concept cards state
                 await loadConceptCards(selectedCategory === 'All' ? undefined : selectedCategory);
                 console.log('[STUDY] Concept cards reloaded');
                 // Update status to success
                 updateCardStatus(aiMessage.id, 'success');
               } else {
-                console.error('[STUDY] Failed to save concept card to database after', maxRetries, 'attempts');
+                console.error('[STUDY] Failed to save concept card');
                 // Update status to failed
                 updateCardStatus(aiMessage.id, 'failed');
-                
-                // Last resort - try to create a direct database entry
-                try {
-                  console.log('[STUDY] Attempting direct database insert...');
-                  const directInsert = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/rest/v1/concept_cards`, {
-                    method: 'POST',
-                    headers: {
-                      'Content-Type': 'application/json',
-                      'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY || import.meta.env.VITE_SUPABASE_KEY,
-                      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY || import.meta.env.VITE_SUPABASE_KEY}`,
-                      'Prefer': 'return=representation'
-                    },
-                    body: JSON.stringify({
-                      id: uuidv4(),
-                      title: cardData.title,
-                      content: fullContent,
-                      category: cardData.category,
-                      color_gradient: gradient,
-                      created_at: new Date().toISOString()
-                    })
-                  });
-                  
-                  if (directInsert.ok) {
-                    console.log('[STUDY] Direct database insert successful');
-                    const insertedCard = await directInsert.json();
-                    console.log('[STUDY] Inserted card:', insertedCard);
-                    
-                    // Update status to success since direct insert worked
-                    updateCardStatus(aiMessage.id, 'success');
-                    
-                    // Reload concept cards
-                    await loadConceptCards(selectedCategory === 'All' ? undefined : selectedCategory);
-              } else {
-                    console.error('[STUDY] Direct database insert failed:', await directInsert.text());
-              }
-                } catch (directError) {
-                  console.error('[STUDY] Error with direct database insert:', directError);
-                }
             }
           } else {
               console.log('[STUDY] No card data was generated');
@@ -685,6 +814,12 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
               updateCardStatus(aiMessage.id, 'failed');
             }
         } catch (cardError) {
+            if (geminiService.isAbortError(cardError)) {
+              console.log('[STUDY] Concept card generation stopped by user');
+              updateCardStatus(aiMessage.id, 'none');
+              return;
+            }
+            
             console.error('[STUDY] Error in concept card generation:', cardError);
             // Update status to failed
             updateCardStatus(aiMessage.id, 'failed');
@@ -692,10 +827,10 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
         }
         
         // Auto-generate title for this chat if it doesn't have a custom title
-        setTimeout(async () => {
+        const titleTimer = setTimeout(async () => {
           // Reload messages to get the latest, including AI response
           console.log(`Scheduling auto title generation for chat: ${chatIdToUse}`);
-          const updatedMessages = await supabaseService.getChatMessages(chatIdToUse);
+          const updatedMessages = await repository.getChatMessages(chatIdToUse);
           console.log(`Retrieved ${updatedMessages.length} messages for title generation`);
           
           // Only proceed if we have at least 2 messages (user + AI response)
@@ -703,19 +838,26 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
             console.log('Not enough messages yet, will try again later');
             
             // Try one more time after a longer delay
-            setTimeout(async () => {
-              const retryMessages = await supabaseService.getChatMessages(chatIdToUse);
+            const retryTimer = setTimeout(async () => {
+              const retryMessages = await repository.getChatMessages(chatIdToUse);
               console.log(`RETRY: Retrieved ${retryMessages.length} messages for title generation`);
               const retryResult = await autoGenerateChatTitle(chatIdToUse, retryMessages);
               console.log(`RETRY: Auto title generation completed with result: ${retryResult ? 'SUCCESS' : 'FAILED'}`);
             }, 2000);
+            titleTimersRef.current.push(retryTimer);
             return;
           }
           
           const titleResult = await autoGenerateChatTitle(chatIdToUse, updatedMessages);
           console.log(`Auto title generation completed with result: ${titleResult ? 'SUCCESS' : 'FAILED'}`);
         }, 1000); // Increased from 500ms to 1000ms
+        titleTimersRef.current.push(titleTimer);
       } catch (err) {
+        if (geminiService.isAbortError(err)) {
+          console.log('AI response stopped before any output was received');
+          return;
+        }
+        
         console.error('Error generating AI response:', err);
         
         // Add an error message using our helper function
@@ -729,6 +871,11 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
         );
       }
     } catch (err) {
+      if (geminiService.isAbortError(err)) {
+        console.log('Message processing stopped by user');
+        return;
+      }
+      
       console.error('Error in sendMessage:', err);
       
       // Add a general error message if we have a chat ID
@@ -740,10 +887,135 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
         );
       }
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       setIsProcessing(false);
     }
   };
 
+  // Answer the question at the end of a path, as a new branch next to any earlier answers;
+  // `abortController` is the one of work already begun for it, e.g. classifying an edit
+  const answerOnBranch = async (path: ChatMessage[], parentId?: string | null, abortController = new AbortController()) => {
+    const question = path[path.length - 1];
+    const chatIdToUse = question.chat_id;
+    abortControllerRef.current = abortController;
+    const { signal } = abortController;
+    setIsProcessing(true);
+    
+    // Show the branch on its own straight away
+    setMessages(path);
+    
+    try {
+      const historyForAI = path
+        .filter(msg => (msg.role as string) !== 'system')
+        .map(msg => ({ role: msg.role, content: msg.content, intent: msg.intent }));
+      
+      const relatedSources = await findRelatedSources(messageText(question.content), chatIdToUse, signal);
+      const aiMessage = await streamAIResponse(chatIdToUse, historyForAI, signal, relatedSources, parentId);
+      
+      if (!aiMessage.stopped && !signal.aborted) {
+        retrieval.index(retrievalService.answerRecords([...path, aiMessage]));
+      }
+      return true;
+    } catch (err) {
+      if (geminiService.isAbortError(err)) {
+        console.log('AI response on the new branch stopped before any output was received');
+        return true;
+      }
+      
+      console.error('Error answering on a new branch:', err);
+      addErrorMessageToChat(
+        chatIdToUse,
+        'general',
+        err instanceof Error ? err.message : 'Unknown error'
+      );
+      return false;
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      setIsProcessing(false);
+      // The navigators count the new branch
+      setMessageTree(await repository.getMessageTree(chatIdToUse).catch(() => messageTree));
+    }
+  };
+
+  // Ask an earlier question again with new text; the original and its answers stay as a branch
+  const editMessage = async (messageId: string, newContent: string) => {
+    const index = messages.findIndex(msg => msg.id === messageId);
+    const original = messages[index];
+    if (!original || original.role !== 'user' || !newContent.trim() || isProcessing) {
+      console.error('Cannot edit message:', messageId);
+      return false;
+    }
+    
+    // Keeps the original's attachments
+    const edited: ChatMessage = {
+      ...original,
+      id: uuidv4(),
+      content: replaceMessageText(original.content, newContent.trim()),
+      created_at: new Date().toISOString(),
+      parent_id: messages[index - 1]?.id ?? null
+    };
+    
+    // Busy, and stoppable, from here on
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsProcessing(true);
+    
+    // The new wording may ask for something else
+    edited.intent = await intentService.classifyIntent(edited, abortController.signal);
+    if (abortController.signal.aborted) {
+      console.log('Edit stopped before the question was classified');
+      setIsProcessing(false);
+      return false;
+    }
+    
+    const saved = await repository.addChatMessage(edited);
+    if (!saved) {
+      console.error('Failed to save the edited message to the database');
+    }
+    
+    return answerOnBranch([...messages.slice(0, index), edited], undefined, abortController);
+  };
+
+  // Answer a question again; the earlier answer stays as an alternative
+  const regenerateResponse = async (messageId: string) => {
+    const index = messages.findIndex(msg => msg.id === messageId);
+    const question = messages[index - 1];
+    if (index < 1 || messages[index].role !== 'assistant' || question.role !== 'user' || isProcessing) {
+      console.error('Cannot regenerate message:', messageId);
+      return false;
+    }
+    
+    return answerOnBranch(messages.slice(0, index), question.id);
+  };
+
+  // Show the path through the given message, e.g. another answer to the same question
+  const switchBranch = async (messageId: string) => {
+    if (!currentChatId || isProcessing) return;
+    
+    try {
+      // Fresh, so the messages since the tree was last loaded are on the path
+      const tree = await repository.getMessageTree(currentChatId);
+      setMessageTree(tree);
+      setMessages(activePath(tree, messageId));
+    } catch (error) {
+      console.error('Error switching branch:', error);
+    }
+  };
+
+  // Stop the in-flight generation along with any pending title generation
+  const stopGeneration = () => {
+    console.log('Stopping in-flight generation');
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    
+    titleTimersRef.current.forEach(timer => clearTimeout(timer));
+    titleTimersRef.current = [];
+  };
+
   // Helper function to parse message content
   const parseMessageContent = (content: string): string => {
     try {
@@ -774,6 +1046,19 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
     }
   };
 
+  // Reload the model list, e.g. after the API credentials changed
+  const refreshModels = async () => {
+    try {
+      setIsLoadingModels(true);
+      const availableModels = await geminiService.fetchAvailableModels();
+      setModels(availableModels);
+    } catch (error) {
+      console.error('Error refreshing models:', error);
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
+
   // Select a model
   const selectModel = (modelId: string) => {
     try {
@@ -811,14 +1096,20 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
       
       // Clear current messages
       setMessages([]);
+      setMessageTree([]);
       
-      // Load messages for this chat
-      const chatMessages = await supabaseService.getChatMessages(chatId);
-      console.log(`Loaded ${chatMessages.length} messages for chat ${chatId}`);
+      // Load messages for this chat, showing the branch with the newest message
+      const tree = await repository.getMessageTree(chatId);
+      const chatMessages = activePath(tree);
+      console.log(`Loaded ${chatMessages.length} of ${tree.length} messages for chat ${chatId}`);
       
       // Set messages in state
+      setMessageTree(tree);
       setMessages(chatMessages);
       
+      // Keep the chat's answers in the retrieval index
+      retrieval.index(retrievalService.answerRecords(chatMessages));
+      
       return true;
     } catch (error) {
       console.error('Error selecting chat:', error);
@@ -830,7 +1121,7 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
   const createNewChat = async () => {
     try {
       console.log('Creating new chat with default title and model:', currentModel);
-      const newChat = await supabaseService.createChat('New Conversation', currentModel);
+      const newChat = await repository.createChat('New Conversation', currentModel);
       
       if (newChat) {
         console.log('Successfully created new chat with ID:', newChat.id);
@@ -847,6 +1138,7 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
         
         // Clear messages
         setMessages([]);
+        setMessageTree([]);
       } else {
         console.error('Failed to create new chat - createChat returned null or undefined');
       }
@@ -855,26 +1147,30 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
     }
   };
 
-  // Upload an image
-  const uploadImage = (file: File) => {
-    setIsImageLoading(true);
-    
-    // Simulate processing time for large images
-    setTimeout(() => {
-      setSelectedImage(file);
-      setIsImageLoading(false);
-    }, 100);
+  // Attach files to the message being written, as far as the budget allows
+  const addAttachments = (files: File[]) => {
+    const { accepted, rejected } = fitAttachmentBudget(pendingAttachments, files);
+    if (rejected.length > 0) {
+      console.warn('Files not attached:', rejected);
+    }
+    if (accepted.length > 0) {
+      setPendingAttachments(prev => [...prev, ...accepted]);
+    }
+    return rejected;
+  };
+
+  const removeAttachment = (index: number) => {
+    setPendingAttachments(prev => prev.filter((_, i) => i !== index));
   };
 
-  // Clear the selected image
-  const clearImage = () => {
-    setSelectedImage(null);
+  const clearAttachments = () => {
+    setPendingAttachments([]);
   };
 
   // Load concept cards
   const loadConceptCards = async (category?: string) => {
     try {
-      const cards = await supabaseService.getConceptCards(category);
+      const cards = await repository.getConceptCards(category);
       setConceptCards(cards);
       if (category) {
         setSelectedCategory(category);
@@ -897,13 +1193,16 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
       const cardData = await geminiService.generateConceptCard(query);
       
       if (cardData) {
-        const newCard = await supabaseService.addConceptCard({
+        const newCard = await repository.addConceptCard({
           title: cardData.title,
           content: cardData.content,
-          category: cardData.category as 'Physics' | 'Chemistry' | 'Biology' | 'Other'
+          category: cardData.category as 'Physics' | 'Chemistry' | 'Biology' | 'Other',
+          chat_id: currentChatId || null
         });
         
         if (newCard) {
+          retrieval.index([retrievalService.conceptCardRecord(newCard)]);
+          
           // If the new card matches the current filter, add it to state
           if (selectedCategory === 'All' || selectedCategory === newCard.category) {
             setConceptCards(prev => [newCard, ...prev]);
@@ -918,7 +1217,7 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
   // Rename a chat
   const renameChat = async (chatId: string, newTitle: string) => {
     try {
-      const updatedChat = await supabaseService.renameChat(chatId, newTitle);
+      const updatedChat = await repository.renameChat(chatId, newTitle);
       
       if (updatedChat) {
         setChatHistory(prev => 
@@ -936,33 +1235,141 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
   };
   
   // Delete a chat
-  const deleteChat = async (chatId: string) => {
+  const deleteChat = (chatId: string) => deleteChats([chatId]);
+  
+  // Delete several chats; false if any of them couldn't be deleted
+  const deleteChats = async (chatIds: string[]) => {
     try {
-      const success = await supabaseService.deleteChat(chatId);
+      const deleted: string[] = [];
+      for (const chatId of chatIds) {
+        if (await repository.deleteChat(chatId)) {
+          deleted.push(chatId);
+          retrieval.removeChat(chatId);
+        }
+      }
       
-      if (success) {
-        // Update chat history state
-        setChatHistory(prev => prev.filter(chat => chat.id !== chatId));
-        
-        // If the deleted chat was the current one, select another chat or create a new one
-        if (currentChatId === chatId) {
-          const remainingChats = chatHistory.filter(chat => chat.id !== chatId);
-          if (remainingChats.length > 0) {
-            await selectChat(remainingChats[0].id);
-          } else {
-            await createNewChat();
-          }
+      // Update chat history state
+      setChatHistory(prev => prev.filter(chat => !deleted.includes(chat.id)));
+      
+      // If the current chat was deleted, select another chat or create a new one
+      if (deleted.includes(currentChatId)) {
+        const remainingChats = chatHistory.filter(chat => !deleted.includes(chat.id) && !chat.archived);
+        if (remainingChats.length > 0) {
+          await selectChat(remainingChats[0].id);
+        } else {
+          await createNewChat();
         }
-        
-        return true;
       }
+      
+      return deleted.length === chatIds.length;
+    } catch (error) {
+      console.error('Error deleting chats:', error);
       return false;
+    }
+  };
+  
+  // Apply the same change to several chats, e.g. moving them into a folder
+  const updateChats = async (chatIds: string[], updates: ChatUpdates) => {
+    try {
+      const updated: Chat[] = [];
+      for (const chatId of chatIds) {
+        const chat = await repository.updateChat(chatId, updates);
+        if (chat) updated.push(chat);
+      }
+      
+      setChatHistory(prev => prev.map(chat => updated.find(u => u.id === chat.id) || chat));
+      return updated.length === chatIds.length;
     } catch (error) {
-      console.error('Error deleting chat:', error);
+      console.error('Error updating chats:', error);
+      return false;
+    }
+  };
+  
+  const exportChat = async (chatId: string, exportFormat: chatExport.ExportFormat) => {
+    try {
+      if (exportFormat === 'pdf') {
+        await chatExport.printChat(repository, chatId);
+      } else {
+        chatExport.downloadFile(await chatExport.exportChat(repository, chatId, exportFormat));
+      }
+      return true;
+    } catch (error) {
+      console.error('Error exporting chat:', error);
+      return false;
+    }
+  };
+  
+  const importChat = async (file: File) => {
+    const chat = await chatExport.importChat(repository, chatExport.parseChatExport(await file.text()));
+    setChatHistory(prev => [chat, ...prev]);
+    
+    // Its concept cards join the others
+    await loadConceptCards(selectedCategory === 'All' ? undefined : selectedCategory);
+    indexConceptCards();
+    
+    if (chat.model) {
+      setCurrentModel(chat.model);
+    }
+    await selectChat(chat.id);
+    return chat;
+  };
+  
+  // Chat folders
+  const createChatFolder = async (name: string) => {
+    if (!name.trim()) return null;
+    
+    try {
+      const folder = await repository.createChatFolder(name);
+      if (folder) {
+        setChatFolders(prev => [...prev, folder].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      return folder;
+    } catch (error) {
+      console.error('Error creating chat folder:', error);
+      return null;
+    }
+  };
+  
+  const renameChatFolder = async (folderId: string, name: string) => {
+    if (!name.trim()) return false;
+    
+    try {
+      const renamed = await repository.renameChatFolder(folderId, name);
+      if (!renamed) return false;
+      
+      setChatFolders(prev => prev.map(folder => folder.id === folderId ? renamed : folder).sort((a, b) => a.name.localeCompare(b.name)));
+      return true;
+    } catch (error) {
+      console.error('Error renaming chat folder:', error);
+      return false;
+    }
+  };
+  
+  // Delete a folder; its chats stay, outside any folder
+  const deleteChatFolder = async (folderId: string) => {
+    try {
+      const success = await repository.deleteChatFolder(folderId);
+      if (!success) return false;
+      
+      setChatFolders(prev => prev.filter(folder => folder.id !== folderId));
+      setChatHistory(prev => prev.map(chat => chat.folder_id === folderId ? { ...chat, folder_id: null } : chat));
+      return true;
+    } catch (error) {
+      console.error('Error deleting chat folder:', error);
       return false;
     }
   };
 
+  // Search chat titles and messages
+  const searchChats = async (query: string) => {
+    try {
+      return await repository.search(query);
+    } catch (error) {
+      console.error('Error searching chats:', error);
+      return [];
+    }
+  };
+
   // Helper to detect greeting messages
   const isGreetingMessage = (content: string | any): boolean => {
     const greetings = [
@@ -1030,7 +1437,7 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
   };
 
   // Generate a simple title from message content without API calls
-  const generateBasicTitle = (messages: supabaseService.ChatMessage[]): string => {
+  const generateBasicTitle = (messages: ChatMessage[]): string => {
     try {
       console.log('[TITLE GENERATION] Starting title generation with', messages.length, 'messages');
       
@@ -1147,7 +1554,7 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
   };
 
   // Function to automatically generate and update chat title
-  const autoGenerateChatTitle = async (chatId: string, messages: supabaseService.ChatMessage[]) => {
+  const autoGenerateChatTitle = async (chatId: string, messages: ChatMessage[]) => {
     try {
       console.log('=== AUTO TITLE GENERATION START ===');
       console.log(`Attempting title generation for chat: ${chatId}`);
@@ -1184,69 +1591,11 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
         return false;
       }
       
-      // Update in database - try multiple methods to ensure it updates
-      let updateSuccessful = false;
-      
-      // 1. Call the supabase service
-      console.log('1. Calling supabaseService.renameChat...');
-      const method1Result = await supabaseService.renameChat(chatId, suggestedTitle);
-      if (method1Result) {
-        console.log('Method 1 successful!');
-        updateSuccessful = true;
-      }
-      
-      // 2. Direct database update with fetch
-      try {
-        console.log('2. Attempting direct database update with fetch...');
-        const apiUrl = import.meta.env.VITE_SUPABASE_URL;
-        const apiKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
-        
-        if (!apiUrl || !apiKey) {
-          console.error('Missing Supabase URL or key for direct update');
-          console.log('Available env variables:', {
-            VITE_SUPABASE_URL: import.meta.env.VITE_SUPABASE_URL ? 'defined' : 'undefined',
-            VITE_SUPABASE_ANON_KEY: import.meta.env.VITE_SUPABASE_ANON_KEY ? 'defined' : 'undefined'
-          });
-        } else {
-          console.log(`Using Supabase URL: ${apiUrl}`);
-          const response = await fetch(`${apiUrl}/rest/v1/chats?id=eq.${chatId}`, {
-            method: 'PATCH',
-            headers: {
-              'Content-Type': 'application/json',
-              'apikey': apiKey,
-              'Authorization': `Bearer ${apiKey}`
-            },
-            body: JSON.stringify({
-              title: suggestedTitle,
-              updated_at: new Date().toISOString()
-            })
-          });
-          
-          if (!response.ok) {
-            console.error(`Direct update failed with status: ${response.status}`);
-            const responseText = await response.text();
-            console.error('Response details:', responseText);
-          } else {
-            console.log('Direct update successful');
-            updateSuccessful = true;
-          }
-        }
-      } catch (dbError) {
-        console.error('Error in direct database update:', dbError);
-      }
-      
-      // 3. Use the context function
-      if (!updateSuccessful) {
-        console.log('3. Using context renameChat function...');
-        const contextResult = await renameChat(chatId, suggestedTitle);
-        if (contextResult) {
-          console.log('Context rename successful!');
-          updateSuccessful = true;
-        }
-      }
+      // Saved locally and queued for Supabase
+      const updateSuccessful = !!(await repository.renameChat(chatId, suggestedTitle));
       
-      // 4. Directly update the state in multiple ways
-      console.log('4. Forcing state updates...');
+      // Update the state in multiple ways
+      console.log('Forcing state updates...');
       
       // Immediate state update
       setChatHistory(prev => {
@@ -1352,11 +1701,12 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
   const deleteConceptCard = async (cardId: string) => {
     try {
       console.log('[APP CONTEXT] Deleting concept card:', cardId);
-      const success = await supabaseService.deleteConceptCard(cardId);
+      const success = await repository.deleteConceptCard(cardId);
       
       if (success) {
         // Update concept cards state
         setConceptCards(prev => prev.filter(card => card.id !== cardId));
+        retrieval.remove('concept_card', [cardId]);
         console.log('[APP CONTEXT] Concept card deleted successfully');
         return true;
       } else {
@@ -1370,16 +1720,17 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
   };
   
   // Update a concept card
-  const updateConceptCard = async (cardId: string, updates: Partial<Omit<supabaseService.ConceptCard, 'id' | 'created_at'>>) => {
+  const updateConceptCard = async (cardId: string, updates: Partial<Omit<ConceptCard, 'id' | 'created_at'>>) => {
     try {
       console.log('[APP CONTEXT] Updating concept card:', cardId, updates);
-      const updatedCard = await supabaseService.updateConceptCard(cardId, updates);
+      const updatedCard = await repository.updateConceptCard(cardId, updates);
       
       if (updatedCard) {
         // Update concept cards state
         setConceptCards(prev => 
           prev.map(card => card.id === cardId ? updatedCard : card)
         );
+        retrieval.index([retrievalService.conceptCardRecord(updatedCard)]);
         console.log('[APP CONTEXT] Concept card updated successfully');
         return updatedCard;
       } else {
@@ -1392,10 +1743,88 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
     }
   };
 
+  // Cards to study today; also refreshes the due count
+  const loadStudyQueue = async () => {
+    try {
+      const [cards, reviews] = await Promise.all([repository.getConceptCards(), repository.getCardReviews()]);
+      const queue = studyQueue(cards, reviews);
+      setCardReviews(reviews);
+      setDueCardCount(queue.length);
+      return queue;
+    } catch (error) {
+      console.error('Error loading the study queue:', error);
+      return [];
+    }
+  };
+
+  // Keep the due count in step with cards being added and deleted
+  useEffect(() => {
+    loadStudyQueue();
+  }, [conceptCards]);
+
+  // Record how well a card was known and schedule its next review
+  const gradeConceptCard = async (cardId: string, grade: Grade) => {
+    try {
+      const review = gradeReview(cardId, cardReviews.find(r => r.id === cardId), grade);
+      const saved = await repository.saveCardReview(review);
+      if (saved) {
+        setCardReviews(prev => [...prev.filter(r => r.id !== cardId), saved]);
+        // A forgotten card is studied again today
+        if (!isDueToday(saved)) {
+          setDueCardCount(count => Math.max(0, count - 1));
+        }
+      }
+      return saved;
+    } catch (error) {
+      console.error('Error saving card review:', error);
+      return null;
+    }
+  };
+
+  // Make a quiz; null when there is nothing to quiz on or the model gives nothing usable
+  const createQuiz = async (target: { category: string } | { chatId: string }, count?: number) => {
+    try {
+      if ('category' in target) {
+        const cards = await repository.getConceptCards(target.category === 'All' ? undefined : target.category);
+        if (cards.length === 0) return null;
+        return await quizService.generateQuiz({ source: 'cards', category: target.category, cards }, count);
+      }
+
+      const chat = (await repository.getChats()).find(c => c.id === target.chatId);
+      if (!chat) return null;
+      const chatMessages = await repository.getChatMessages(chat.id);
+      return await quizService.generateQuiz({ source: 'chat', chat, messages: chatMessages }, count);
+    } catch (error) {
+      console.error('Error creating quiz:', error);
+      return null;
+    }
+  };
+
+  const submitQuiz = async (quiz: quizService.Quiz, given: QuizAnswer['given'][]) => {
+    const { answers, score } = await quizService.gradeQuiz(quiz, given);
+    const attempt: NewQuizAttempt = { ...quiz, answers, score, total: quiz.questions.length };
+
+    try {
+      return { attempt, saved: !!(await repository.addQuizAttempt(attempt)) };
+    } catch (error) {
+      console.error('Error saving quiz attempt:', error);
+      return { attempt, saved: false };
+    }
+  };
+
+  const getQuizAttempts = async () => {
+    try {
+      return await repository.getQuizAttempts();
+    } catch (error) {
+      console.error('Error loading quiz attempts:', error);
+      return [];
+    }
+  };
+
   // Load todos from the database
   const loadTodos = async () => {
     try {
-      const loadedTodos = await supabaseService.getTodos();
+      const loadedTodos = await repository.getTodos();
       setTodos(loadedTodos);
       console.log(`Loaded ${loadedTodos.length} todos`);
     } catch (error) {
@@ -1404,9 +1833,9 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
   };
 
   // Add a new todo
-  const addTodo = async (todo: Omit<supabaseService.Todo, 'id' | 'created_at'>) => {
+  const addTodo = async (todo: Omit<Todo, 'id' | 'created_at'>) => {
     try {
-      const newTodo = await supabaseService.addTodo(todo);
+      const newTodo = await repository.addTodo(todo);
       if (newTodo) {
         setTodos(prev => [newTodo, ...prev]);
         return newTodo;
@@ -1419,9 +1848,9 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
   };
 
   // Update a todo
-  const updateTodo = async (todoId: string, updates: Partial<Omit<supabaseService.Todo, 'id' | 'created_at'>>) => {
+  const updateTodo = async (todoId: string, updates: Partial<Omit<Todo, 'id' | 'created_at'>>) => {
     try {
-      const updatedTodo = await supabaseService.updateTodo(todoId, updates);
+      const updatedTodo = await repository.updateTodo(todoId, updates);
       if (updatedTodo) {
         setTodos(prev => prev.map(todo => 
           todo.id === todoId ? updatedTodo : todo
@@ -1438,7 +1867,7 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
   // Delete a todo
   const deleteTodo = async (todoId: string) => {
     try {
-      const success = await supabaseService.deleteTodo(todoId);
+      const success = await repository.deleteTodo(todoId);
       if (success) {
         setTodos(prev => prev.filter(todo => todo.id !== todoId));
       }
@@ -1449,6 +1878,60 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({ children })
     }
   };
 
+  // Make a read-only link to a chat or a deck of concept cards
+  const createShareLink = async (target: shareService.ShareTarget, expiresAt?: string | null) => {
+    try {
+      return await shareService.createShareLink(repository, target, { expiresAt });
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      return null;
+    }
+  };
+
+  const getShares = async () => {
+    try {
+      return await repository.getShares();
+    } catch (error) {
+      console.error('Error loading share links:', error);
+      return [];
+    }
+  };
+
+  const revokeShare = async (shareId: string) => {
+    try {
+      return !!(await repository.revokeShare(shareId));
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      return false;
+    }
+  };
+
+  // Settle a sync conflict, then reload what the chosen version may have changed
+  const resolveSyncConflict = async (recordId: string, resolution: syncService.ConflictResolution) => {
+    try {
+      await syncService.resolveConflict(recordId, resolution);
+      setChatHistory(await repository.getChats());
+      setChatFolders(await repository.getChatFolders());
+      await loadConceptCards(selectedCategory === 'All' ? undefined : selectedCategory);
+      await loadTodos();
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+    }
+  };
+
+  // Retry writes that failed to sync
+  const retrySync = async (recordId?: string) => {
+    try {
+      await syncService.retryFailed(recordId);
+    } catch (error) {
+      console.error('Error retrying sync:', error);
+    }
+  };
+
+  const getSyncState = (recordId: string): syncService.SyncState => {
+    return syncStates[recordId] || 'synced';
+  };
+
   // Add an error message
   const addErrorMessageToChat = (chatId: string, errorType: 'database' | 'gemini' | 'general' | 'image', details?: string) => {
     const baseErrorMessage = {
@@ -1495,7 +1978,7 @@ I'm having trouble connecting to the Gemini AI service. This might be because:
 3. The Gemini service might be temporarily unavailable
 
 ### How to fix this:
-- Check your environment variable for GOOGLE_API_KEY
+- Check your environment variable for VITE_GOOGLE_API_KEY, or enter a key in API Settings
 - Verify your API key in the Google Cloud Console
 - Try again in a few minutes
 
@@ -1541,7 +2024,7 @@ ${details ? `\n**Error details:** ${details}` : ''}
     
     // Attempt to save to database if appropriate
     try {
-      supabaseService.addChatMessage(errorMessage).catch(e => 
+      repository.addChatMessage(errorMessage).catch(e => 
         console.error('Failed to save error message to database:', e)
       );
     } catch (e) {
@@ -1554,27 +2037,46 @@ ${details ? `\n**Error details:** ${details}` : ''}
   const contextValue: AppContextType = {
     currentChatId,
     chatHistory,
+    chatFolders,
     currentModel,
     messages,
     isProcessing,
-    selectedImage,
-    isImageLoading,
+    streamingMessageId,
+    pendingAttachments,
     isLoadingModels,
     models,
     conceptCards,
     selectedCategory,
     conceptCardStatuses,
     todos,
+    storageBackend: repository.backend,
+    syncStates,
     sendMessage,
+    editMessage,
+    regenerateResponse,
+    switchBranch,
+    messageBranches,
+    streamAIResponse,
+    stopGeneration,
     selectModel,
+    refreshModels,
     selectChat,
     createNewChat,
-    uploadImage,
-    clearImage,
+    addAttachments,
+    removeAttachment,
+    clearAttachments,
     loadConceptCards,
     generateCardFromQuery,
     renameChat,
     deleteChat,
+    updateChats,
+    deleteChats,
+    exportChat,
+    importChat,
+    createChatFolder,
+    renameChatFolder,
+    deleteChatFolder,
+    searchChats,
     autoGenerateChatTitle,
     getConceptCardStatus,
     updateCardStatus,
@@ -1583,7 +2085,20 @@ ${details ? `\n**Error details:** ${details}` : ''}
     loadTodos,
     addTodo,
     updateTodo,
-    deleteTodo
+    deleteTodo,
+    cardReviews,
+    dueCardCount,
+    loadStudyQueue,
+    gradeConceptCard,
+    createQuiz,
+    submitQuiz,
+    getQuizAttempts,
+    createShareLink,
+    getShares,
+    revokeShare,
+    getSyncState,
+    resolveSyncConflict,
+    retrySync
   };
 
   return (
@@ -0,0 +1,104 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { render, screen, waitFor, act, cleanup } from '@testing-library/react';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import { memoryDb } from '../test/inMemorySupabase';
+import * as localDb from '../services/localDb';
+import { flushOutbox } from '../services/sync';
+import { createSupabaseRepository } from '../services/supabaseRepository';
+import ProtectedRoute from '../components/ProtectedRoute';
+import SignInPage from '../pages/SignInPage';
+import { AuthProvider, useAuth } from './AuthContext';
+
+type AuthContextValue = ReturnType<typeof useAuth>;
+
+// Renders the provider around the app's routes and exposes the latest auth state
+const renderAuth = async (path = '/') => {
+  const view: { current: AuthContextValue | null } = { current: null };
+  const Probe = () => {
+    view.current = useAuth();
+    return null;
+  };
+
+  render(
+    <AuthProvider authRequired>
+      <Probe />
+      <MemoryRouter initialEntries={[path]}>
+        <Routes>
+          <Route path="/sign-in" element={<SignInPage />} />
+          <Route path="/" element={<ProtectedRoute><div>Private chats</div></ProtectedRoute>} />
+        </Routes>
+      </MemoryRouter>
+    </AuthProvider>
+  );
+
+  await waitFor(() => expect(view.current?.isLoading).toBe(false));
+  return view as { current: AuthContextValue };
+};
+
+describe('AuthContext', () => {
+  beforeEach(async () => {
+    await flushOutbox();
+    memoryDb.reset();
+    await localDb.clearLocalData();
+    localStorage.clear();
+  });
+
+  afterEach(async () => {
+    cleanup();
+    await memoryDb.client.auth.signOut();
+  });
+
+  it('sends signed-out users to the sign-in page', async () => {
+    await renderAuth();
+
+    expect(screen.getByText('Sign in to Emerce')).toBeTruthy();
+    expect(screen.queryByText('Private chats')).toBeNull();
+  });
+
+  it('lets a guest in with an anonymous session', async () => {
+    const auth = await renderAuth();
+
+    await act(() => auth.current.signInAnonymously());
+
+    await waitFor(() => expect(screen.getByText('Private chats')).toBeTruthy());
+    expect(auth.current.user?.is_anonymous).toBe(true);
+  });
+
+  it('signs in through an emailed magic link', async () => {
+    const auth = await renderAuth();
+
+    await act(() => auth.current.signInWithEmail('sam@example.com'));
+    expect(memoryDb.auth.magicLinks).toEqual(['sam@example.com']);
+    expect(auth.current.user).toBeNull();
+
+    act(() => memoryDb.auth.signIn('sam@example.com'));
+
+    await waitFor(() => expect(auth.current.user?.email).toBe('sam@example.com'));
+    expect(screen.getByText('Private chats')).toBeTruthy();
+  });
+
+  it('makes the signed-in user the owner of new rows', async () => {
+    const auth = await renderAuth();
+    await act(() => auth.current.signInAnonymously());
+
+    await createSupabaseRepository().createChat('Mine');
+    await flushOutbox();
+
+    expect(memoryDb.rows('chats')).toEqual([expect.objectContaining({ title: 'Mine', user_id: auth.current.user!.id })]);
+  });
+
+  it('drops the local copy on sign-out', async () => {
+    const auth = await renderAuth();
+    await act(() => auth.current.signInAnonymously());
+    await createSupabaseRepository().createChat('Mine');
+
+    await act(() => auth.current.signOut());
+
+    expect(auth.current.user).toBeNull();
+    expect(await localDb.getChats()).toEqual([]);
+    // It was sent before being dropped
+    expect(memoryDb.rows('chats')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,102 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import type { User } from '@supabase/supabase-js';
+
+import * as authService from '../services/auth';
+import * as syncService from '../services/sync';
+import { getRepository } from '../services/repository';
+
+type AuthContextType = {
+  user: User | null;
+  isLoading: boolean;
+  // Only the Supabase backend has accounts; local backends belong to whoever uses the browser
+  authRequired: boolean;
+  error: string | null;
+
+  signInWithEmail: (email: string) => Promise<boolean>;
+  signInAnonymously: () => Promise<boolean>;
+  signOut: () => Promise<void>;
+};
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+type AuthProviderProps = {
+  children: React.ReactNode;
+  authRequired?: boolean;
+};
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({
+  children,
+  authRequired = getRepository().backend === 'supabase'
+}) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(authRequired);
+  const [error, setError] = useState<string | null>(null);
+
+  // Restore the session, then follow sign-ins and sign-outs
+  useEffect(() => {
+    if (!authRequired) return;
+
+    const applyUser = async (nextUser: User | null) => {
+      if (nextUser) {
+        await authService.claimLocalData(nextUser.id);
+      }
+      setUser(nextUser);
+      setIsLoading(false);
+    };
+
+    authService.getSession().then(session => applyUser(session?.user ?? null));
+    return authService.onAuthChange(session => {
+      applyUser(session?.user ?? null);
+    });
+  }, [authRequired]);
+
+  const signInWithEmail = async (email: string) => {
+    try {
+      setError(null);
+      await authService.signInWithMagicLink(email);
+      return true;
+    } catch (err) {
+      console.error('[AUTH] Error sending the magic link:', err);
+      setError(err instanceof Error ? err.message : 'Could not send the sign-in link');
+      return false;
+    }
+  };
+
+  const signInAnonymously = async () => {
+    try {
+      setError(null);
+      await authService.signInAnonymously();
+      return true;
+    } catch (err) {
+      console.error('[AUTH] Error signing in as a guest:', err);
+      setError(err instanceof Error ? err.message : 'Could not sign in as a guest');
+      return false;
+    }
+  };
+
+  const signOut = async () => {
+    try {
+      // Send what we can before the local copy is dropped
+      await syncService.flushOutbox();
+      await authService.signOut();
+      await authService.releaseLocalData();
+    } catch (err) {
+      console.error('[AUTH] Error signing out:', err);
+      setError(err instanceof Error ? err.message : 'Could not sign out');
+    }
+  };
+
+  return (
+    <AuthContext.Provider value={{ user, isLoading, authRequired, error, signInWithEmail, signInAnonymously, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = (): AuthContextType => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
@@ -1,15 +1,25 @@
 import { useState, useEffect, useCallback } from 'react';
-import * as supabaseService from '../services/supabase';
 import { useAppContext } from '../context/AppContext';
+import type { Chat } from '../services/repository';
+import { ChatImportError } from '../services/chatExport';
+import type { ExportFormat } from '../services/chatExport';
 
 export const useChatHistory = () => {
   const { 
     chatHistory, 
+    chatFolders,
     currentChatId, 
     selectChat, 
     renameChat, 
     deleteChat, 
-    createNewChat 
+    createNewChat,
+    updateChats,
+    deleteChats,
+    createChatFolder,
+    renameChatFolder,
+    deleteChatFolder,
+    exportChat,
+    importChat
   } = useAppContext();
   
   const [isLoading, setIsLoading] = useState(false);
@@ -99,14 +109,92 @@ export const useChatHistory = () => {
     }
   }, [createNewChat]);
   
+  // Run a sidebar action, showing the failure message if it doesn't succeed
+  const runAction = useCallback(async (action: () => Promise<boolean>, failure: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      
+      const success = await action();
+      
+      if (!success) {
+        setError(failure);
+      }
+      
+      return success;
+    } catch (err) {
+      setError(failure);
+      console.error(`Error in chat history action (${failure}):`, err);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+  
+  const togglePinned = (chat: Chat) =>
+    runAction(() => updateChats([chat.id], { pinned: !chat.pinned }), chat.pinned ? 'Failed to unpin chat' : 'Failed to pin chat');
+  
+  const setChatTags = (chatId: string, tags: string[]) =>
+    runAction(() => updateChats([chatId], { tags }), 'Failed to update tags');
+  
+  // Move chats into a folder, or out of every folder with null
+  const moveChats = (chatIds: string[], folderId: string | null) =>
+    runAction(() => updateChats(chatIds, { folder_id: folderId }), 'Failed to move chats');
+  
+  const setChatsArchived = (chatIds: string[], archived: boolean) =>
+    runAction(() => updateChats(chatIds, { archived }), archived ? 'Failed to archive chats' : 'Failed to restore chats');
+  
+  const deleteChatConversations = (chatIds: string[]) =>
+    runAction(() => deleteChats(chatIds), 'Failed to delete chats');
+  
+  const createFolder = (name: string) =>
+    runAction(async () => !!(await createChatFolder(name)), 'Failed to create folder');
+  
+  const renameFolder = (folderId: string, name: string) =>
+    runAction(() => renameChatFolder(folderId, name), 'Failed to rename folder');
+  
+  const deleteFolder = (folderId: string) =>
+    runAction(() => deleteChatFolder(folderId), 'Failed to delete folder');
+  
+  const exportChatAs = (chatId: string, format: ExportFormat) =>
+    runAction(() => exportChat(chatId, format), 'Failed to export chat');
+  
+  // Import a chat from a JSON export, showing why a file can't be imported
+  const importChatFile = useCallback(async (file: File) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      
+      await importChat(file);
+      return true;
+    } catch (err) {
+      setError(err instanceof ChatImportError ? err.message : 'Failed to import chat');
+      console.error('Error in importChatFile:', err);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [importChat]);
+  
   return {
     chatHistory,
+    chatFolders,
     currentChatId,
     isLoading,
     error,
     loadChatMessages,
     renameChatConversation,
     deleteChatConversation,
-    createNewChatConversation
+    createNewChatConversation,
+    togglePinned,
+    setChatTags,
+    moveChats,
+    setChatsArchived,
+    deleteChatConversations,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+    exportChatAs,
+    importChatFile
   };
 }; 
\ No newline at end of file
@@ -1,16 +1,30 @@
 import React, { useState, useRef, useEffect, useMemo } from "react";
-import { Mic, ChevronUp, Menu, Bell, Plus, Image, X, Grid, ChevronDown, Settings, Layers, AlertTriangle, Edit, Trash2, MessageSquare, Check, Database, Copy, Terminal, Sparkles, Zap, Star } from "lucide-react";
+import { Mic, ChevronUp, Menu, Bell, Plus, Image, X, Grid, ChevronDown, Settings, Layers, AlertTriangle, Edit, Trash2, MessageSquare, Check, Database, Copy, Terminal, Sparkles, Zap, Star, Square, LogOut, Paperclip, FileText, Search, RefreshCw, GraduationCap, ListChecks } from "lucide-react";
 import { Link } from "react-router-dom";
 import Logo from "../components/Logo";
 import ChatHistory from "../components/ChatHistory";
 import { useAppContext } from "../context/AppContext";
+import { useAuth } from "../context/AuthContext";
 import ReactMarkdown from 'react-markdown';
 import * as supabaseService from '../services/supabase';
 import { formatDistanceToNow } from 'date-fns';
 import TemplatedResponse from "../components/TemplatedResponse";
+import ApiSettingsDialog from "../components/ApiSettingsDialog";
+import SyncStatusBadge from "../components/SyncStatusBadge";
+import AttachmentTray from "../components/AttachmentTray";
+import PdfViewer from "../components/PdfViewer";
+import RetrievedSources from "../components/RetrievedSources";
+import BranchNavigator from "../components/BranchNavigator";
+import SearchPalette from "../components/SearchPalette";
+import { ACCEPTED_FILE_TYPES, formatFileSize } from "../services/attachments";
+import type { RejectedFile } from "../services/attachments";
+import type { Citation } from "../services/documents";
+import { messageText } from "../services/repository";
+import type { Attachment, SearchResult } from "../services/repository";
 import { useGSAPAnimations } from "../hooks/useGSAPAnimations";
 import { gsap } from "gsap";
 import { GeminiModel } from "../services/gemini";
+import type { Migration } from "../services/migrations";
 import * as geminiService from '../services/gemini';
 
 // Update interface to match the actual Gemini model
@@ -27,13 +41,18 @@ export default function ChatPage() {
   const {
     messages,
     isProcessing,
+    streamingMessageId,
     sendMessage,
-    selectedImage,
-    isImageLoading,
-    uploadImage,
-    clearImage,
+    editMessage,
+    regenerateResponse,
+    switchBranch,
+    messageBranches,
+    stopGeneration,
+    pendingAttachments,
+    addAttachments,
     currentModel,
     selectModel,
+    refreshModels,
     createNewChat,
     chatHistory,
     isLoadingModels,
@@ -42,15 +61,30 @@ export default function ChatPage() {
     renameChat,
     deleteChat,
     currentChatId,
-    getConceptCardStatus
+    getConceptCardStatus,
+    storageBackend,
+    syncStates,
+    dueCardCount
   } = useAppContext();
+  const { user, authRequired, signOut } = useAuth();
   
   const [input, setInput] = useState("");
   const [showMenu, setShowMenu] = useState(false);
   const [showModelSelect, setShowModelSelect] = useState(false);
   const [tablesExist, setTablesExist] = useState<boolean | null>(null);
   const [dbError, setDbError] = useState<string | null>(null);
+  const [pendingMigrations, setPendingMigrations] = useState<Migration[]>([]);
   const [showSqlSetup, setShowSqlSetup] = useState(false);
+  const [showApiSettings, setShowApiSettings] = useState(false);
+  const [rejectedFiles, setRejectedFiles] = useState<RejectedFile[]>([]);
+  // The PDF page opened from a citation
+  const [openDocument, setOpenDocument] = useState<{ url: string; name: string; page: number } | null>(null);
+  const [showSearch, setShowSearch] = useState(false);
+  // The message jumped to from a search, highlighted for a moment
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // The question being edited before it is sent again
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
   const messageEndRef = useRef<HTMLDivElement>(null);
   
@@ -67,14 +101,33 @@ export default function ChatPage() {
   // State to track if input is an image command
   const [isImageCommand, setIsImageCommand] = useState(false);
   
+  // Sign out, warning first if some changes haven't reached Supabase yet
+  const handleSignOut = async () => {
+    const unsynced = Object.keys(syncStates).length;
+    if (unsynced > 0 && !window.confirm(`${unsynced} change(s) haven't synced yet and will be lost. Sign out anyway?`)) {
+      return;
+    }
+    if (user?.is_anonymous && !window.confirm('You are signed in as a guest. Your chats will be lost when you sign out. Continue?')) {
+      return;
+    }
+    setShowMenu(false);
+    await signOut();
+  };
+  
   // Check database tables on mount
   useEffect(() => {
+    // Only a Supabase project has tables to check
+    if (storageBackend !== 'supabase') return;
+
     const checkTables = async () => {
       try {
-        const result = await supabaseService.verifyDatabaseTables();
-        setTablesExist(result);
-        if (!result) {
+        const status = await supabaseService.verifyDatabaseTables();
+        setTablesExist(status.tablesExist);
+        setPendingMigrations(status.pendingMigrations);
+        if (!status.tablesExist) {
           setDbError('Database tables could not be verified. You may need to create them manually.');
+        } else if (status.pendingMigrations.length > 0) {
+          setDbError(`The database is missing ${status.pendingMigrations.length} schema update${status.pendingMigrations.length === 1 ? '' : 's'}. Run the setup SQL to apply them.`);
         }
       } catch (error) {
         console.error('Error checking database tables:', error);
@@ -86,11 +139,60 @@ export default function ChatPage() {
     checkTables();
   }, []);
   
+  // Only what the database is missing, or the whole schema when that can't be told
+  const setupSql = useMemo(
+    () => supabaseService.getTableSetupInstructions(pendingMigrations.length > 0 ? pendingMigrations : undefined),
+    [pendingMigrations]
+  );
+  
   // Scroll to bottom when messages change
   useEffect(() => {
     messageEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
   
+  // Scroll to a message found by search, once its chat has loaded
+  useEffect(() => {
+    if (!highlightedMessageId || !messages.some(message => message.id === highlightedMessageId)) return;
+    
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId, messages]);
+  
+  // Ctrl/Cmd+K opens the search palette
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowSearch(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+  
+  // Open the chat of a search result, at the message that matched
+  const openSearchResult = async (result: SearchResult) => {
+    setShowMenu(false);
+    if (result.chat_id !== currentChatId) {
+      await selectChat(result.chat_id);
+    }
+    setHighlightedMessageId(result.message_id || null);
+  };
+
+  // Edit a question before asking it again; attached files stay with it
+  const startEditingMessage = (messageId: string, content: string) => {
+    setEditingMessageId(messageId);
+    setEditText(messageText(content));
+  };
+
+  // Send the edited question again; the original stays as a branch
+  const handleEditSubmit = async (messageId: string) => {
+    if (!editText.trim()) return;
+    setEditingMessageId(null);
+    await editMessage(messageId, editText);
+  };
+  
   // Initial page load animations with enhanced effects
   useEffect(() => {
     // Header animation
@@ -255,32 +357,46 @@ export default function ChatPage() {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    // Ensure there's either text or an image to send
-    if (input.trim() || selectedImage) {
-      console.log("Sending message:", input.trim() ? input : "Image only");
+    // Ensure there's either text or an attachment to send
+    if (input.trim() || pendingAttachments.length > 0) {
+      console.log("Sending message:", input.trim() ? input : "Attachments only");
       
-      // Set a default text for image-only messages
-      let messageText = input;
-      if (!input.trim() && selectedImage) {
-        messageText = "Analyze this image";
-      }
-      
-      sendMessage(messageText);
+      // The attachments get a default prompt when sent without text
+      sendMessage(input);
       setInput("");
+      setRejectedFiles([]);
       setIsImageCommand(false); // Reset image command state
     } else {
       console.warn("Attempted to send empty message");
     }
   };
   
-  // Handle file selection for image upload
+  // Handle file selection for attachments
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      uploadImage(file);
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) {
+      setRejectedFiles(addAttachments(files));
     }
+    // Let the same file be picked again after removing it
+    e.target.value = '';
+  };
+  
+  // The PDFs attached before the message at `index`, most recent first
+  const documentsBefore = (index: number) => messages.slice(0, index).reverse()
+    .flatMap(message => message.attachments || [])
+    .filter(attachment => attachment.mime_type === 'application/pdf' && attachment.url);
+  
+  // Open a cited page in the PDF the citation names, or else the last one attached
+  const openCitation = (documents: Attachment[], citation: Citation) => {
+    const pdf = (citation.document && documents.find(attachment => attachment.name?.toLowerCase() === citation.document!.toLowerCase())) || documents[0];
+    setOpenDocument({ url: pdf.url!, name: pdf.name || 'Document', page: citation.page });
   };
   
+  // Citations belong to the chat they were made in
+  useEffect(() => {
+    setOpenDocument(null);
+  }, [currentChatId]);
+  
   // Handle voice input (mock implementation)
   const handleVoiceInput = () => {
     // In a real app, this would use the Web Speech API
@@ -301,6 +417,12 @@ export default function ChatPage() {
     { size: "w-10 h-10 md:w-16 md:h-16", top: "top-[45%]", left: "left-[32%]", color: "from-blue-200/40 to-indigo-200/40", delay: "2.5s" },
   ];
 
+  // Keep the thinking indicator until the first streamed chunk arrives
+  const isAwaitingFirstChunk = useMemo(() => {
+    const streamingMessage = messages.find(m => m.id === streamingMessageId);
+    return !streamingMessage || !streamingMessage.content;
+  }, [messages, streamingMessageId]);
+
   // Get model details for the current model
   const currentModelDetails = useMemo(() => {
     return models.find(m => m.id === currentModel) || null;
@@ -356,6 +478,14 @@ export default function ChatPage() {
         <Logo />
         
         <div className="flex items-center space-x-2 relative">
+          <button
+            onClick={() => setShowSearch(true)}
+            className="p-2 rounded-full hover:bg-white/80 transition-colors duration-200"
+            aria-label="Search chats"
+            title="Search chats (Ctrl+K)"
+          >
+            <Search className="h-6 w-6 text-indigo-600" />
+          </button>
           <button 
             onClick={() => setShowModelSelect(!showModelSelect)} 
             className="p-2 rounded-full hover:bg-white/80 transition-colors duration-200 relative"
@@ -402,6 +532,31 @@ export default function ChatPage() {
                   </div>
                   <span className="font-medium">Concept Cards</span>
                 </Link>
+
+                <Link
+                  to="/study"
+                  onClick={() => setShowMenu(false)}
+                  className="menu-item flex items-center w-full text-left px-4 py-3 rounded-xl text-gray-700 hover:bg-indigo-50 transition-all hover:shadow-sm mt-2"
+                >
+                  <div className="h-8 w-8 rounded-full bg-gradient-to-r from-indigo-500 to-purple-600 flex items-center justify-center mr-3 shadow-sm">
+                    <GraduationCap className="h-5 w-5 text-white" />
+                  </div>
+                  <span className="font-medium">Study</span>
+                  {dueCardCount > 0 && (
+                    <span className="ml-auto text-xs font-medium text-indigo-700 bg-indigo-100 px-2 py-0.5 rounded-full">{dueCardCount} due</span>
+                  )}
+                </Link>
+
+                <Link
+                  to="/quiz"
+                  onClick={() => setShowMenu(false)}
+                  className="menu-item flex items-center w-full text-left px-4 py-3 rounded-xl text-gray-700 hover:bg-indigo-50 transition-all hover:shadow-sm mt-2"
+                >
+                  <div className="h-8 w-8 rounded-full bg-gradient-to-r from-indigo-500 to-purple-600 flex items-center justify-center mr-3 shadow-sm">
+                    <ListChecks className="h-5 w-5 text-white" />
+                  </div>
+                  <span className="font-medium">Quiz</span>
+                </Link>
                 
                 <Link
                   to="/todos"
@@ -413,14 +568,42 @@ export default function ChatPage() {
                   </div>
                   <span className="font-medium">Todo List</span>
                 </Link>
+                
+                <button
+                  onClick={() => {
+                    setShowApiSettings(true);
+                    setShowMenu(false);
+                  }}
+                  className="menu-item flex items-center w-full text-left px-4 py-3 rounded-xl text-gray-700 hover:bg-indigo-50 transition-all hover:shadow-sm mt-2"
+                >
+                  <div className="h-8 w-8 rounded-full bg-gradient-to-r from-indigo-500 to-purple-600 flex items-center justify-center mr-3 shadow-sm">
+                    <Settings className="h-5 w-5 text-white" />
+                  </div>
+                  <span className="font-medium">API Settings</span>
+                </button>
+                
+                {authRequired && user && (
+                  <button
+                    onClick={handleSignOut}
+                    className="menu-item flex items-center w-full text-left px-4 py-3 rounded-xl text-gray-700 hover:bg-indigo-50 transition-all hover:shadow-sm mt-2"
+                  >
+                    <div className="h-8 w-8 rounded-full bg-gradient-to-r from-gray-500 to-gray-700 flex items-center justify-center mr-3 shadow-sm">
+                      <LogOut className="h-5 w-5 text-white" />
+                    </div>
+                    <div className="min-w-0">
+                      <span className="font-medium block">Sign out</span>
+                      <span className="text-xs text-gray-500 block truncate">{user.email || 'Guest'}</span>
+                    </div>
+                  </button>
+                )}
               </div>
               
               <div className="p-4 border-b border-gray-100">
                 <div className="flex items-center justify-between px-3 py-2 bg-gray-50 rounded-lg">
                   <span className="text-sm font-medium text-gray-700">Database Connection</span>
-                  {import.meta.env.VITE_SUPABASE_URL === 'your-project-url.supabase.co' || !import.meta.env.VITE_SUPABASE_URL ? (
-                    <span className="flex items-center text-xs text-red-500 font-medium px-2 py-1 bg-red-50 rounded-full">
-                      Offline <span className="ml-1 h-2 w-2 rounded-full bg-red-500"></span>
+                  {storageBackend !== 'supabase' ? (
+                    <span className="flex items-center text-xs text-yellow-600 font-medium px-2 py-1 bg-yellow-50 rounded-full">
+                      {storageBackend === 'memory' ? 'In Memory' : 'Local Only'} <span className="ml-1 h-2 w-2 rounded-full bg-yellow-500"></span>
                     </span>
                   ) : tablesExist === false ? (
                     <span className="flex items-center text-xs text-orange-500 font-medium px-2 py-1 bg-orange-50 rounded-full">
@@ -673,10 +856,19 @@ export default function ChatPage() {
             </div>
           ) : (
             messages.map((message, index) => {
+              const isStreaming = message.id === streamingMessageId;
+              
+              // The thinking indicator stands in for a stream that hasn't started yet
+              if (isStreaming && !message.content) {
+                return null;
+              }
+              
               const isUser = message.role === 'user';
               const prevUserMessage = isUser ? null : messages.slice(0, index)
                 .reverse()
                 .find(m => m.role === 'user');
+              // The documents an answer's page citations can open
+              const citedDocuments = isUser ? [] : documentsBefore(index);
               
               // Parse content for potentially complex messages
               let messageContent = message.content;
@@ -719,19 +911,64 @@ export default function ChatPage() {
               return (
                 <div 
                   key={message.id} 
+                  id={`message-${message.id}`}
                   className={`message-item flex ${isUser ? 'justify-end' : 'justify-start'}`}
                 >
                   <div className={`flex flex-col max-w-[80%] md:max-w-[70%] ${isUser ? 'items-end' : 'items-start'}`}>
                     <div 
-                      className={`message rounded-2xl p-4 shadow-sm ${
+                      className={`message rounded-2xl p-4 shadow-sm transition-shadow ${
                         isUser 
                           ? 'bg-indigo-600 text-white' 
                           : 'bg-white/80 backdrop-blur-sm text-gray-800 border border-gray-100'
-                      }`}
+                      } ${message.id === highlightedMessageId ? 'ring-4 ring-yellow-300' : ''}`}
                     >
                       {/* Message content with images or text */}
                       <div className="space-y-3">
-                        {contentParts.map((part, partIndex) => {
+                        {editingMessageId === message.id ? (
+                          <form
+                            onSubmit={e => {
+                              e.preventDefault();
+                              handleEditSubmit(message.id!);
+                            }}
+                            className="space-y-2"
+                          >
+                            <textarea
+                              autoFocus
+                              value={editText}
+                              onChange={e => setEditText(e.target.value)}
+                              onKeyDown={e => {
+                                if (e.key === 'Enter' && !e.shiftKey) {
+                                  e.preventDefault();
+                                  handleEditSubmit(message.id!);
+                                } else if (e.key === 'Escape') {
+                                  setEditingMessageId(null);
+                                }
+                              }}
+                              rows={Math.min(8, Math.max(2, editText.split('\n').length))}
+                              className="w-full min-w-[240px] md:min-w-[360px] p-2 rounded-lg text-sm text-gray-800 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-300"
+                            />
+                            <div className="flex justify-end space-x-2 text-xs">
+                              <button
+                                type="button"
+                                onClick={() => setEditingMessageId(null)}
+                                className="px-3 py-1 rounded-full bg-indigo-500/60 hover:bg-indigo-500"
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                type="submit"
+                                disabled={!editText.trim()}
+                                className="px-3 py-1 rounded-full bg-white text-indigo-700 font-medium hover:bg-indigo-50 disabled:opacity-50"
+                              >
+                                Save &amp; resend
+                              </button>
+                            </div>
+                          </form>
+                        ) : contentParts.map((part, partIndex) => {
+                          // Parts made from attached files are shown as the attachments below
+                          if (part.file && message.attachments?.length) {
+                            return null;
+                          }
                           if (part.text) {
                             return (
                               <div key={`text-${partIndex}`} className="prose-sm">
@@ -742,6 +979,9 @@ export default function ChatPage() {
                                     content={part.text}
                                     conceptCardStatus={getConceptCardStatus(message.id)}
                                     userMessage={prevUserMessage}
+                                    study={message.study}
+                                    isStreaming={isStreaming}
+                                    onCitationClick={citedDocuments.length > 0 ? citation => openCitation(citedDocuments, citation) : undefined}
                                   />
                                 )}
                               </div>
@@ -766,27 +1006,89 @@ export default function ChatPage() {
                         })}
                       </div>
                       
-                      {/* For image attachments uploaded as files */}
+                      {/* Files attached to the message */}
                       {message.attachments && message.attachments.length > 0 && (
                         <div className="mt-2 space-y-2">
-                          {message.attachments.map((attachment, i) => (
-                            <div key={i} className="relative">
+                          {message.attachments.map((attachment, i) => attachment.mime_type?.startsWith('image/') ? (
+                            <div key={attachment.path || i} className="relative">
                               <div className="rounded-lg overflow-hidden bg-gray-50/30 backdrop-blur-sm border border-gray-200 shadow-sm max-w-[400px] mx-auto">
-                                <img 
-                                  src={attachment} 
-                                  alt={`Attachment ${i+1}`} 
-                                  className="max-w-full h-auto rounded-lg max-h-[300px] object-contain mx-auto"
-                                />
+                                {attachment.thumbnail_url || attachment.url ? (
+                                  // The thumbnail in the chat, the full image in a new tab
+                                  <a href={attachment.url || attachment.thumbnail_url} target="_blank" rel="noopener noreferrer">
+                                    <img 
+                                      src={attachment.thumbnail_url || attachment.url} 
+                                      alt={attachment.name || `Attachment ${i+1}`} 
+                                      className="max-w-full h-auto rounded-lg max-h-[300px] object-contain mx-auto"
+                                    />
+                                  </a>
+                                ) : (
+                                  <div className="flex items-center justify-center p-4 text-xs text-gray-500">
+                                    <Image className="h-4 w-4 mr-1.5" />
+                                    Image unavailable
+                                  </div>
+                                )}
                               </div>
                             </div>
+                          ) : (
+                            <a
+                              key={attachment.path || i}
+                              href={attachment.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className={`flex items-center px-3 py-2 rounded-lg text-sm ${
+                                isUser ? 'bg-indigo-500/60 text-white hover:bg-indigo-500' : 'bg-gray-50 text-gray-800 hover:bg-gray-100 border border-gray-200'
+                              } ${attachment.url ? '' : 'pointer-events-none opacity-70'}`}
+                            >
+                              <FileText className="h-4 w-4 mr-2 flex-shrink-0" />
+                              <span className="truncate">{attachment.name || 'Attachment'}</span>
+                              {attachment.size !== undefined && (
+                                <span className="ml-2 text-xs opacity-75 flex-shrink-0">{formatFileSize(attachment.size)}</span>
+                              )}
+                            </a>
                           ))}
                         </div>
                       )}
                     </div>
                     
+                    {/* Concept cards and earlier answers the answer drew on */}
+                    {!isUser && !isStreaming && (
+                      <RetrievedSources sources={message.sources} onOpenChat={selectChat} />
+                    )}
+                    
                     {/* Message timestamp */}
                     <div className={`text-xs text-gray-500 mt-1 px-2 ${isUser ? 'text-right' : 'text-left'}`}>
                       {timestamp}
+                      <BranchNavigator
+                        position={message.id ? messageBranches.get(message.id) : undefined}
+                        disabled={isProcessing}
+                        onSwitch={switchBranch}
+                      />
+                      {isUser && !isProcessing && editingMessageId !== message.id && (
+                        <button
+                          onClick={() => startEditingMessage(message.id!, message.content)}
+                          className="ml-2 inline-flex items-center text-gray-400 hover:text-indigo-600"
+                          aria-label="Edit and resend"
+                          title="Edit and resend"
+                        >
+                          <Edit className="h-3 w-3" />
+                        </button>
+                      )}
+                      {!isUser && !isProcessing && index > 0 && messages[index - 1].role === 'user' && (
+                        <button
+                          onClick={() => regenerateResponse(message.id!)}
+                          className="ml-2 inline-flex items-center text-gray-400 hover:text-indigo-600"
+                          aria-label="Regenerate answer"
+                          title="Regenerate answer"
+                        >
+                          <RefreshCw className="h-3 w-3" />
+                        </button>
+                      )}
+                      {message.stopped && (
+                        <span className="ml-2 px-1.5 py-0.5 text-[10px] bg-amber-100 text-amber-800 rounded-full">
+                          Stopped
+                        </span>
+                      )}
+                      <SyncStatusBadge recordId={message.id} className="ml-2" />
                     </div>
                   </div>
                 </div>
@@ -799,12 +1101,26 @@ export default function ChatPage() {
         {isProcessing && (
           <div className="flex justify-center my-6">
             <div className="px-4 py-2 rounded-full bg-white shadow-md flex items-center space-x-3">
-              <div className="flex space-x-1">
-                <div className="w-2 h-2 md:w-2.5 md:h-2.5 bg-indigo-600 rounded-full animate-bounce"></div>
-                <div className="w-2 h-2 md:w-2.5 md:h-2.5 bg-indigo-500 rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></div>
-                <div className="w-2 h-2 md:w-2.5 md:h-2.5 bg-indigo-400 rounded-full animate-bounce" style={{animationDelay: '0.4s'}}></div>
-              </div>
-              <span className="text-sm text-gray-500 font-medium">AI is thinking...</span>
+              {isAwaitingFirstChunk && (
+                <>
+                  <div className="flex space-x-1">
+                    <div className="w-2 h-2 md:w-2.5 md:h-2.5 bg-indigo-600 rounded-full animate-bounce"></div>
+                    <div className="w-2 h-2 md:w-2.5 md:h-2.5 bg-indigo-500 rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></div>
+                    <div className="w-2 h-2 md:w-2.5 md:h-2.5 bg-indigo-400 rounded-full animate-bounce" style={{animationDelay: '0.4s'}}></div>
+                  </div>
+                  <span className="text-sm text-gray-500 font-medium">AI is thinking...</span>
+                </>
+              )}
+              {/* Cancel the in-flight generation */}
+              <button
+                type="button"
+                onClick={stopGeneration}
+                className="flex items-center px-2.5 py-1 text-xs font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-full transition-colors"
+                aria-label="Stop generating"
+              >
+                <Square className="h-3 w-3 mr-1 fill-current" />
+                Stop
+              </button>
             </div>
           </div>
         )}
@@ -813,77 +1129,53 @@ export default function ChatPage() {
         <div ref={messageEndRef} />
       </div>
       
-      {/* Image preview with enhanced design */}
-      {selectedImage && (
-        <div className="px-5 py-3 bg-indigo-50/70 backdrop-blur-sm">
-          <div className="relative inline-block">
-            <div className="rounded-lg overflow-hidden shadow-md border-2 border-white">
-            <img 
-              src={URL.createObjectURL(selectedImage)} 
-              alt="Preview" 
-                className="h-20 w-auto object-cover"
-            />
-            </div>
-            <button 
-              onClick={clearImage}
-              className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-1 shadow-md border border-white hover:bg-red-600 transition-colors"
-            >
-              <X size={16} />
-            </button>
-            <div className="absolute -bottom-2 right-0 left-0 flex justify-center">
-              <span className="bg-green-500 text-white text-xs px-2 py-0.5 rounded-full shadow-sm border border-white flex items-center space-x-1">
-                <span className="w-1.5 h-1.5 bg-white rounded-full animate-pulse"></span>
-                <span>Ready to send</span>
-            </span>
-            </div>
-          </div>
+      {/* Attached files, and the ones that couldn't be attached */}
+      <AttachmentTray />
+      {rejectedFiles.length > 0 && (
+        <div className="px-5 py-2 bg-red-50 text-xs text-red-700 flex items-start justify-between">
+          <ul className="space-y-0.5">
+            {rejectedFiles.map((file, i) => (
+              <li key={`${file.name}-${i}`}><span className="font-medium">{file.name}</span>: {file.reason}</li>
+            ))}
+          </ul>
+          <button type="button" onClick={() => setRejectedFiles([])} className="ml-3 text-red-500 hover:text-red-700" aria-label="Dismiss">
+            <X size={14} />
+          </button>
         </div>
       )}
 
       {/* Bottom controls with glass morphism effect */}
       <form onSubmit={handleSubmit} className="p-4 md:px-6 md:py-5 bg-white/80 backdrop-blur-md rounded-t-3xl shadow-lg border-t border-white">
         <div className="flex gap-3 items-center max-w-6xl mx-auto">
-          {/* Image upload button with enhanced states */}
+          {/* Attach button: images, PDFs and text files, several at once */}
           <div className="relative">
             <button
               type="button"
               onClick={() => fileInputRef.current?.click()}
               className={`w-12 h-12 flex items-center justify-center rounded-full shadow-md transition-all duration-300 
-                ${isImageLoading ? 'bg-amber-500 text-white animate-pulse' : 
-                  selectedImage ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white ring-2 ring-indigo-200' : 
+                ${pendingAttachments.length > 0 ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white ring-2 ring-indigo-200' : 
                     'bg-white hover:bg-gray-50 text-indigo-600 hover:shadow-lg hover:-translate-y-0.5 border border-gray-200'
                 }`}
-              title="Upload image"
-              disabled={isImageLoading}
+              title="Attach images, PDFs or text files"
             >
-              {isImageLoading ? (
-                <div className="animate-spin h-6 w-6 border-2 border-white border-t-transparent rounded-full" />
-              ) : (
-                <Image size={20} />
-              )}
+              <Paperclip size={20} />
               <input
                 type="file"
                 ref={fileInputRef}
-                accept="image/*"
+                accept={ACCEPTED_FILE_TYPES}
+                multiple
                 onChange={handleFileChange}
                 className="hidden"
-                disabled={isImageLoading}
               />
             </button>
             {/* Enhanced status indicators */}
-            {selectedImage && (
+            {pendingAttachments.length > 0 ? (
               <span className="absolute -bottom-2 left-1/2 transform -translate-x-1/2 whitespace-nowrap text-xs font-medium bg-green-500 text-white px-2 py-0.5 rounded-full shadow-sm border border-white">
-                Ready
+                {pendingAttachments.length} ready
               </span>
-            )}
-            {isImageLoading && (
-              <span className="absolute -bottom-2 left-1/2 transform -translate-x-1/2 whitespace-nowrap text-xs font-medium bg-amber-500 text-white px-2 py-0.5 rounded-full shadow-sm border border-white animate-pulse">
-                Processing...
-              </span>
-            )}
-            {!selectedImage && !isImageLoading && (
+            ) : (
               <span className="absolute -bottom-2 left-1/2 transform -translate-x-1/2 whitespace-nowrap text-xs text-gray-500 font-medium bg-white px-2 py-0.5 rounded-full shadow-sm border border-gray-100">
-                Add image
+                Attach
               </span>
             )}
           </div>
@@ -932,9 +1224,9 @@ export default function ChatPage() {
             </div>
             <button 
               onClick={handleSubmit}
-              disabled={isProcessing || (!input.trim() && !selectedImage)}
+              disabled={isProcessing || (!input.trim() && pendingAttachments.length === 0)}
               className={`p-2 rounded-lg ${
-                !isProcessing && (input.trim() || selectedImage)
+                !isProcessing && (input.trim() || pendingAttachments.length > 0)
                   ? isImageCommand 
                     ? 'bg-gradient-to-r from-purple-600 to-pink-600 text-white hover:opacity-90' 
                     : 'bg-indigo-600 text-white hover:bg-indigo-700'
@@ -953,6 +1245,21 @@ export default function ChatPage() {
           >
             <Grid className="h-6 w-6 md:h-7 md:w-7 text-white" />
           </Link>
+
+          {/* Study button, with the number of cards due today */}
+          <Link
+            to="/study"
+            className="relative h-12 w-12 md:h-14 md:w-14 bg-white border border-indigo-100 rounded-xl flex items-center justify-center shadow-md hover:shadow-lg transition-all hover:-translate-y-0.5 active:translate-y-0 active:shadow-md focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-indigo-400"
+            aria-label={dueCardCount > 0 ? `Study ${dueCardCount} due cards` : 'Study concept cards'}
+            title={dueCardCount > 0 ? `${dueCardCount} ${dueCardCount === 1 ? 'card' : 'cards'} due today` : 'Study concept cards'}
+          >
+            <GraduationCap className="h-6 w-6 md:h-7 md:w-7 text-indigo-600" />
+            {dueCardCount > 0 && (
+              <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-purple-600 text-white text-[11px] font-semibold flex items-center justify-center border-2 border-white">
+                {dueCardCount > 99 ? '99+' : dueCardCount}
+              </span>
+            )}
+          </Link>
         </div>
       </form>
 
@@ -965,7 +1272,7 @@ export default function ChatPage() {
                 <AlertTriangle className="h-5 w-5 text-red-500" />
               </div>
               <div className="ml-3">
-                <p className="text-sm font-medium">Database Connection Error</p>
+                <p className="text-sm font-medium">{tablesExist === false ? 'Database Connection Error' : 'Database Update Needed'}</p>
                 <p className="text-xs mt-1">{dbError}</p>
                 <div className="mt-2">
                   <button
@@ -997,6 +1304,25 @@ export default function ChatPage() {
         </div>
       )}
 
+      {/* The PDF page opened from a citation */}
+      {openDocument && (
+        <PdfViewer
+          url={openDocument.url}
+          name={openDocument.name}
+          page={openDocument.page}
+          onClose={() => setOpenDocument(null)}
+        />
+      )}
+
+      <SearchPalette open={showSearch} onOpenChange={setShowSearch} onSelect={openSearchResult} />
+
+      {/* Gemini API key and proxy settings */}
+      <ApiSettingsDialog
+        isOpen={showApiSettings}
+        onClose={() => setShowApiSettings(false)}
+        onSaved={refreshModels}
+      />
+
       {/* SQL Setup Instructions Dialog */}
       {showSqlSetup && (
         <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4">
@@ -1012,14 +1338,18 @@ export default function ChatPage() {
             </div>
             <div className="p-4 flex-grow overflow-auto">
               <p className="mb-4 text-sm text-gray-600">
-                Run the following SQL in your Supabase SQL Editor to create the necessary tables for this application:
+                {pendingMigrations.length > 0 ? (
+                  <>Run the following SQL in your Supabase SQL Editor to apply the pending migrations ({pendingMigrations.map(migration => `${migration.version}_${migration.name}`).join(', ')}):</>
+                ) : (
+                  <>Run the following SQL in your Supabase SQL Editor to create the necessary tables for this application:</>
+                )}
               </p>
               <div className="relative">
                 <pre className="bg-gray-800 text-gray-200 p-4 rounded-md text-xs overflow-x-auto">
-                  <code>{supabaseService.getTableSetupInstructions()}</code>
+                  <code>{setupSql}</code>
                 </pre>
                 <button 
-                  onClick={() => copyToClipboard(supabaseService.getTableSetupInstructions())}
+                  onClick={() => copyToClipboard(setupSql)}
                   className="absolute top-2 right-2 bg-gray-700 hover:bg-gray-600 text-white rounded p-1.5"
                   title="Copy to clipboard"
                 >
@@ -1049,7 +1379,7 @@ export default function ChatPage() {
                 Close
               </button>
               <button 
-                onClick={() => copyToClipboard(supabaseService.getTableSetupInstructions())}
+                onClick={() => copyToClipboard(setupSql)}
                 className="px-4 py-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded hover:opacity-90"
               >
                 Copy SQL
@@ -1,7 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { ArrowLeft, Search, BookOpen, FilterIcon, X } from 'lucide-react';
-import { Link } from 'react-router-dom';
+import { ArrowLeft, Search, BookOpen, FilterIcon, X, Link2, ListChecks } from 'lucide-react';
+import { Link, useSearchParams } from 'react-router-dom';
 import ConceptCard from '../components/ConceptCard';
+import ShareDialog from '../components/ShareDialog';
 import { useAppContext } from '../context/AppContext';
 import { gsap } from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
@@ -23,6 +24,19 @@ const ConceptCardsPage: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [filteredCards, setFilteredCards] = useState(conceptCards);
   const [showFilters, setShowFilters] = useState(false);
+  // The cards on show when the share button was pressed
+  const [shareTarget, setShareTarget] = useState<{ cardIds: string[] } | null>(null);
+  
+  // A card linked to from a chat answer, e.g. /concept-cards?card=<id>
+  const [searchParams] = useSearchParams();
+  const linkedCardId = searchParams.get('card');
+  
+  // The linked card may be outside the selected category
+  useEffect(() => {
+    if (linkedCardId && selectedCategory !== 'All' && !conceptCards.some(card => card.id === linkedCardId)) {
+      loadConceptCards();
+    }
+  }, [linkedCardId]);
   
   // Animation refs
   const headerRef = useRef<HTMLDivElement>(null);
@@ -190,6 +204,23 @@ const ConceptCardsPage: React.FC = () => {
               >
                 <FilterIcon className="h-5 w-5 text-indigo-600" />
               </button>
+              <button
+                className="p-2 rounded-full bg-white/80 border border-gray-200 shadow-sm hover:shadow transition-all disabled:opacity-50"
+                onClick={() => setShareTarget({ cardIds: filteredCards.map(card => card.id!).filter(Boolean) })}
+                disabled={filteredCards.length === 0}
+                aria-label="Share these cards"
+                title="Share these cards"
+              >
+                <Link2 className="h-5 w-5 text-indigo-600" />
+              </button>
+              <Link
+                to={`/quiz?category=${selectedCategory}`}
+                className="p-2 rounded-full bg-white/80 border border-gray-200 shadow-sm hover:shadow transition-all"
+                aria-label="Quiz me on these cards"
+                title="Quiz me on these cards"
+              >
+                <ListChecks className="h-5 w-5 text-indigo-600" />
+              </Link>
             </div>
           </div>
         </div>
@@ -221,7 +252,7 @@ const ConceptCardsPage: React.FC = () => {
         {filteredCards.length > 0 ? (
           <div ref={cardsGridRef} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
             {filteredCards.map((card) => (
-              <ConceptCard key={card.id} card={card} />
+              <ConceptCard key={card.id} card={card} defaultOpen={card.id === linkedCardId} />
             ))}
           </div>
         ) : (
@@ -240,6 +271,13 @@ const ConceptCardsPage: React.FC = () => {
           </div>
         )}
       </div>
+
+      <ShareDialog
+        isOpen={!!shareTarget}
+        onClose={() => setShareTarget(null)}
+        target={shareTarget}
+        title={shareTarget?.cardIds.length === 1 ? filteredCards.find(card => card.id === shareTarget.cardIds[0])?.title || 'Concept card' : `${shareTarget?.cardIds.length ?? 0} concept cards`}
+      />
     </div>
   );
 };
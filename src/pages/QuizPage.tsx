@@ -0,0 +1,364 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Loader2, CheckCircle2, XCircle, ListChecks, RotateCcw, Sparkles } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAppContext } from '../context/AppContext';
+import { QUIZ_LENGTHS, quizProgress } from '../services/quiz';
+import type { Quiz } from '../services/quiz';
+import type { NewQuizAttempt, QuizAnswer, QuizAttempt, QuizQuestion } from '../services/repository';
+
+const CATEGORIES = ['All', 'Physics', 'Chemistry', 'Biology', 'Other'];
+
+const KIND_LABELS: Record<QuizQuestion['kind'], string> = {
+  multiple_choice: 'Multiple choice',
+  true_false: 'True or false',
+  short_answer: 'Short answer'
+};
+
+type Phase = 'setup' | 'generating' | 'taking' | 'grading' | 'results';
+
+const percent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+
+// An answer as the user gave it, or the right one
+const answerText = (question: QuizQuestion, answer: QuizAnswer['given']) => {
+  if (answer === null || answer === '') return 'No answer';
+  if (question.kind === 'multiple_choice') return question.options[answer as number] ?? 'No answer';
+  if (question.kind === 'true_false') return answer ? 'True' : 'False';
+  return String(answer);
+};
+
+const optionClass = (selected: boolean) =>
+  `px-3 py-2 rounded-lg border text-sm text-left transition-colors ${
+    selected ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 border-gray-200 hover:border-indigo-300 hover:bg-indigo-50'
+  }`;
+
+/**
+ * Quizzes on concept cards or a chat: pick what to be quizzed on, answer the
+ * questions, then see the score with an explanation of every mistake. Past
+ * attempts add up to the progress shown per category.
+ */
+const QuizPage: React.FC = () => {
+  const { chatHistory, currentChatId, createQuiz, submitQuiz, getQuizAttempts } = useAppContext();
+  const [searchParams] = useSearchParams();
+
+  // What to quiz on, e.g. /quiz?category=Physics or /quiz?chat=<id>
+  const [source, setSource] = useState<'cards' | 'chat'>(searchParams.get('chat') ? 'chat' : 'cards');
+  const [category, setCategory] = useState(searchParams.get('category') || 'All');
+  const [chatId, setChatId] = useState(searchParams.get('chat') || currentChatId || '');
+  const [length, setLength] = useState(QUIZ_LENGTHS[0]);
+
+  const [phase, setPhase] = useState<Phase>('setup');
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [given, setGiven] = useState<QuizAnswer['given'][]>([]);
+  const [result, setResult] = useState<{ attempt: NewQuizAttempt; saved: boolean } | null>(null);
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const chats = chatHistory.filter(chat => !chat.archived);
+
+  useEffect(() => {
+    getQuizAttempts().then(setAttempts);
+  }, []);
+
+  // The open chat is only known once the chats have loaded
+  useEffect(() => {
+    if (!chatId && currentChatId) setChatId(currentChatId);
+  }, [currentChatId]);
+
+  const startQuiz = async () => {
+    setError(null);
+    setPhase('generating');
+
+    const generated = await createQuiz(source === 'cards' ? { category } : { chatId }, length);
+    if (!generated) {
+      setError(source === 'cards'
+        ? `Couldn't make a quiz${category === 'All' ? '' : ` on ${category}`}. Make sure there are concept cards to quiz on, then try again.`
+        : "Couldn't make a quiz on this chat. Try again, or pick a chat with more to it.");
+      setPhase('setup');
+      return;
+    }
+
+    setQuiz(generated);
+    setGiven(generated.questions.map(() => null));
+    setPhase('taking');
+  };
+
+  const answer = (index: number, value: QuizAnswer['given']) =>
+    setGiven(prev => prev.map((current, i) => (i === index ? value : current)));
+
+  const handleSubmit = async () => {
+    if (!quiz) return;
+
+    const unanswered = given.filter(value => value === null || value === '').length;
+    if (unanswered > 0 && !window.confirm(`${unanswered} ${unanswered === 1 ? 'question is' : 'questions are'} unanswered. Submit anyway?`)) {
+      return;
+    }
+
+    setPhase('grading');
+    const submitted = await submitQuiz(quiz, given);
+    setResult(submitted);
+    setPhase('results');
+    if (submitted.saved) {
+      setAttempts(await getQuizAttempts());
+    }
+  };
+
+  const retake = () => {
+    if (!quiz) return;
+    setGiven(quiz.questions.map(() => null));
+    setResult(null);
+    setPhase('taking');
+  };
+
+  const newQuiz = () => {
+    setQuiz(null);
+    setResult(null);
+    setPhase('setup');
+  };
+
+  const progress = quizProgress(attempts);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="backdrop-blur-sm bg-white/80 shadow-sm z-50 sticky top-0">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center min-w-0">
+              <Link to="/" className="mr-4 p-2 rounded-full hover:bg-white/50 transition-all">
+                <ArrowLeft className="h-6 w-6 text-indigo-600" />
+              </Link>
+              <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-indigo-600 to-purple-600 truncate">
+                {quiz && phase !== 'setup' ? quiz.title : 'Quiz'}
+              </h1>
+            </div>
+            {quiz && phase === 'taking' && (
+              <span className="text-sm text-gray-500 flex-shrink-0">
+                {given.filter(value => value !== null && value !== '').length} of {quiz.questions.length} answered
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 py-8 space-y-6">
+        {(phase === 'generating' || phase === 'grading') && (
+          <div className="flex flex-col items-center py-20 text-gray-500">
+            <Loader2 className="h-8 w-8 text-indigo-500 animate-spin mb-3" />
+            {phase === 'generating' ? 'Writing your quiz...' : 'Grading your answers...'}
+          </div>
+        )}
+
+        {phase === 'setup' && (
+          <>
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 space-y-5">
+              <div className="flex gap-2">
+                <button type="button" onClick={() => setSource('cards')} className={optionClass(source === 'cards')}>
+                  Concept cards
+                </button>
+                <button type="button" onClick={() => setSource('chat')} className={optionClass(source === 'chat')} disabled={chats.length === 0}>
+                  A chat
+                </button>
+              </div>
+
+              {source === 'cards' ? (
+                <label className="block">
+                  <span className="text-sm font-medium text-gray-700">Category</span>
+                  <select
+                    value={category}
+                    onChange={e => setCategory(e.target.value)}
+                    className="mt-1 w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-100 focus:border-indigo-400"
+                  >
+                    {CATEGORIES.map(name => <option key={name} value={name}>{name === 'All' ? 'All categories' : name}</option>)}
+                  </select>
+                </label>
+              ) : (
+                <label className="block">
+                  <span className="text-sm font-medium text-gray-700">Chat</span>
+                  <select
+                    value={chatId}
+                    onChange={e => setChatId(e.target.value)}
+                    className="mt-1 w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-100 focus:border-indigo-400"
+                  >
+                    {!chats.some(chat => chat.id === chatId) && <option value="">Pick a chat</option>}
+                    {chats.map(chat => <option key={chat.id} value={chat.id}>{chat.title}</option>)}
+                  </select>
+                </label>
+              )}
+
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Questions</span>
+                <select
+                  value={length}
+                  onChange={e => setLength(Number(e.target.value))}
+                  className="mt-1 w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-100 focus:border-indigo-400"
+                >
+                  {QUIZ_LENGTHS.map(count => <option key={count} value={count}>{count} questions</option>)}
+                </select>
+              </label>
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              <button
+                type="button"
+                onClick={startQuiz}
+                disabled={source === 'chat' && !chatId}
+                className="w-full py-3 text-sm font-medium text-white bg-indigo-600 rounded-xl hover:bg-indigo-700 disabled:opacity-50 flex items-center justify-center"
+              >
+                <Sparkles className="h-4 w-4 mr-2" />
+                Start quiz
+              </button>
+            </div>
+
+            {/* Progress per category */}
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+              <h2 className="text-sm font-semibold text-gray-900 mb-4 flex items-center">
+                <ListChecks className="h-4 w-4 mr-2 text-indigo-600" />
+                Your progress
+              </h2>
+              {progress.length === 0 ? (
+                <p className="text-sm text-gray-500">Take a quiz to start tracking your progress.</p>
+              ) : (
+                <div className="space-y-4">
+                  {progress.map(entry => (
+                    <div key={entry.category}>
+                      <div className="flex justify-between text-sm">
+                        <span className="font-medium text-gray-700">{entry.category}</span>
+                        <span className="text-gray-500">
+                          {percent(entry.average)} average · best {percent(entry.best)} · {entry.attempts} {entry.attempts === 1 ? 'quiz' : 'quizzes'}
+                        </span>
+                      </div>
+                      <div className="mt-1.5 h-2 bg-gray-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-gradient-to-r from-indigo-500 to-purple-600 rounded-full" style={{ width: percent(entry.average) }} />
+                      </div>
+                      <div className="mt-1 flex gap-1 text-[11px] text-gray-400">
+                        Recent: {entry.recent.map((score, i) => <span key={i}>{percent(score)}</span>)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {attempts.length > 0 && (
+                <ul className="mt-6 pt-4 border-t border-gray-100 space-y-2">
+                  {attempts.slice(0, 5).map(attempt => (
+                    <li key={attempt.id} className="flex justify-between text-sm">
+                      <span className="text-gray-700 truncate mr-2">{attempt.title}</span>
+                      <span className="text-gray-500 flex-shrink-0">
+                        {attempt.score}/{attempt.total} · {formatDistanceToNow(new Date(attempt.created_at), { addSuffix: true })}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+
+        {quiz && phase === 'taking' && (
+          <>
+            {quiz.questions.map((question, index) => (
+              <div key={index} className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+                <div className="text-xs font-medium text-indigo-600">
+                  {index + 1}. {KIND_LABELS[question.kind]}
+                </div>
+                <p className="mt-1 text-gray-900 font-medium">{question.question}</p>
+
+                <div className="mt-4">
+                  {question.kind === 'multiple_choice' && (
+                    <div className="grid gap-2">
+                      {question.options.map((option, i) => (
+                        <button key={i} type="button" onClick={() => answer(index, i)} className={optionClass(given[index] === i)}>
+                          {option}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {question.kind === 'true_false' && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <button type="button" onClick={() => answer(index, true)} className={optionClass(given[index] === true)}>True</button>
+                      <button type="button" onClick={() => answer(index, false)} className={optionClass(given[index] === false)}>False</button>
+                    </div>
+                  )}
+                  {question.kind === 'short_answer' && (
+                    <input
+                      type="text"
+                      value={String(given[index] ?? '')}
+                      onChange={e => answer(index, e.target.value)}
+                      placeholder="Your answer"
+                      className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-100 focus:border-indigo-400"
+                    />
+                  )}
+                </div>
+              </div>
+            ))}
+
+            <button
+              type="button"
+              onClick={handleSubmit}
+              className="w-full py-3 text-sm font-medium text-white bg-indigo-600 rounded-xl hover:bg-indigo-700"
+            >
+              Submit answers
+            </button>
+          </>
+        )}
+
+        {result && phase === 'results' && (
+          <>
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 text-center">
+              <div className="text-4xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-indigo-600 to-purple-600">
+                {result.attempt.score}/{result.attempt.total}
+              </div>
+              <p className="mt-1 text-sm text-gray-500">
+                {percent(result.attempt.score / result.attempt.total)} right · counts towards {result.attempt.category}
+              </p>
+              {!result.saved && <p className="mt-2 text-xs text-red-600">This attempt couldn't be saved, so it won't count towards your progress.</p>}
+              <div className="flex justify-center gap-3 mt-5">
+                <button type="button" onClick={retake} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 flex items-center">
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Retake
+                </button>
+                <button type="button" onClick={newQuiz} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700">
+                  New quiz
+                </button>
+              </div>
+            </div>
+
+            {result.attempt.questions.map((question, index) => {
+              const graded = result.attempt.answers[index];
+              return (
+                <div
+                  key={index}
+                  className={`bg-white rounded-2xl shadow-sm border p-6 ${graded.correct ? 'border-green-200' : 'border-red-200'}`}
+                >
+                  <div className="flex items-start">
+                    {graded.correct
+                      ? <CheckCircle2 className="h-5 w-5 text-green-600 mr-2 flex-shrink-0 mt-0.5" />
+                      : <XCircle className="h-5 w-5 text-red-500 mr-2 flex-shrink-0 mt-0.5" />}
+                    <div className="min-w-0">
+                      <p className="text-gray-900 font-medium">{index + 1}. {question.question}</p>
+                      <p className="mt-2 text-sm text-gray-600">
+                        Your answer: <span className={graded.correct ? 'text-green-700' : 'text-red-600'}>{answerText(question, graded.given)}</span>
+                      </p>
+                      {!graded.correct && (
+                        <p className="text-sm text-gray-600">
+                          Right answer: <span className="text-green-700">{answerText(question, question.answer)}</span>
+                        </p>
+                      )}
+                      {graded.feedback && <p className="mt-2 text-sm text-gray-700">{graded.feedback}</p>}
+                      {!graded.correct && question.explanation && (
+                        <p className="mt-2 text-sm text-gray-500 bg-gray-50 rounded-lg p-3">{question.explanation}</p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizPage;
@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Loader2, Link2Off, Paperclip, User, Bot, BookOpen } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { format } from 'date-fns';
+import Logo from '../components/Logo';
+import TemplatedResponse from '../components/TemplatedResponse';
+import { getRepository, messageText } from '../services/repository';
+import type { ChatMessage, SharedContent } from '../services/repository';
+
+// Images the model generated, kept inline in the message content
+const inlineImages = (content: string): string[] => {
+  if (!content.trim().startsWith('[')) return [];
+  try {
+    const parts = JSON.parse(content);
+    return Array.isArray(parts)
+      ? parts.filter(part => part.inlineData?.mimeType?.startsWith('image/')).map(part => `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+// `question` is the message an answer replies to, which decides whether it gets the study styling
+const SharedMessage: React.FC<{ message: ChatMessage; question: ChatMessage | null }> = ({ message, question }) => {
+  const isUser = message.role === 'user';
+  const text = messageText(message.content);
+
+  return (
+    <div className={`flex gap-3 ${isUser ? 'flex-row-reverse' : ''}`}>
+      <div className={`flex-shrink-0 h-8 w-8 rounded-full flex items-center justify-center ${isUser ? 'bg-indigo-100 text-indigo-600' : 'bg-purple-100 text-purple-600'}`}>
+        {isUser ? <User className="h-4 w-4" /> : <Bot className="h-4 w-4" />}
+      </div>
+      <div className={`max-w-[85%] rounded-2xl px-4 py-3 ${isUser ? 'bg-indigo-600 text-white' : 'bg-white shadow-sm border border-gray-100'}`}>
+        {isUser ? (
+          <div className="whitespace-pre-wrap text-sm">{text}</div>
+        ) : (
+          <TemplatedResponse content={text} conceptCardStatus="none" userMessage={question} study={message.study} />
+        )}
+        {inlineImages(message.content).map((src, i) => (
+          <img key={i} src={src} alt={`Image ${i + 1}`} className="mt-2 max-w-full rounded-lg" />
+        ))}
+        {/* Files are private to the chat's owner, so only their names are shown */}
+        {message.attachments && message.attachments.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1">
+            {message.attachments.map((attachment, i) => (
+              <span key={i} className={`inline-flex items-center text-xs px-2 py-0.5 rounded-full ${isUser ? 'bg-indigo-500 text-indigo-50' : 'bg-gray-100 text-gray-600'}`}>
+                <Paperclip className="h-3 w-3 mr-1" />
+                {attachment.name || 'Attachment'}
+              </span>
+            ))}
+          </div>
+        )}
+        {message.stopped && (
+          <span className="mt-2 inline-block px-1.5 py-0.5 text-[10px] bg-amber-100 text-amber-800 rounded-full">
+            Stopped
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * A chat or deck of concept cards opened from a share link: read-only, and
+ * available without signing in
+ */
+export default function SharedPage() {
+  const { token } = useParams<{ token: string }>();
+  const [content, setContent] = useState<SharedContent | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    getRepository().getSharedContent(token || '').then(shared => {
+      if (!cancelled) {
+        setContent(shared);
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 to-purple-50">
+      <header className="bg-white border-b border-gray-100 shadow-sm">
+        <div className="max-w-3xl mx-auto px-4 py-3 flex items-center justify-between">
+          <Link to="/" className="flex items-center">
+            <Logo className="h-8 w-8" />
+            <span className="ml-2 font-semibold text-gray-800">Emerce</span>
+          </Link>
+          <span className="text-xs text-gray-500">Shared, read-only</span>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-6">
+        {isLoading ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="h-8 w-8 text-indigo-500 animate-spin" />
+          </div>
+        ) : !content ? (
+          <div className="bg-white rounded-xl shadow-sm p-8 text-center">
+            <Link2Off className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+            <h1 className="text-lg font-semibold text-gray-800">This link doesn't work</h1>
+            <p className="text-sm text-gray-500 mt-1">It may have been revoked, or it has expired.</p>
+          </div>
+        ) : (
+          <>
+            <div className="mb-6">
+              <h1 className="text-2xl font-semibold text-gray-900">{content.share.title}</h1>
+              <p className="text-xs text-gray-500 mt-1">
+                Shared {format(new Date(content.share.created_at), 'MMMM d, yyyy')}
+                {content.chat && ` · ${content.chat.model}`}
+              </p>
+            </div>
+
+            {content.share.kind === 'chat' ? (
+              <div className="space-y-4">
+                {content.messages.map((message, i) => (
+                  <SharedMessage key={message.id} message={message} question={content.messages[i - 1] ?? null} />
+                ))}
+              </div>
+            ) : (
+              <div className="grid gap-4 sm:grid-cols-2">
+                {content.cards.map(card => (
+                  <article key={card.id} className="bg-white rounded-xl shadow-sm overflow-hidden">
+                    <div className={`h-2 bg-gradient-to-r ${card.color_gradient || 'from-indigo-500 to-purple-600'}`} />
+                    <div className="p-4">
+                      <span className="inline-flex items-center text-xs font-medium text-indigo-600">
+                        <BookOpen className="h-3 w-3 mr-1" />
+                        {card.category}
+                      </span>
+                      <h2 className="mt-1 font-semibold text-gray-900">{card.title}</h2>
+                      <div className="markdown-content mt-2 text-sm text-gray-700">
+                        <ReactMarkdown>{card.content}</ReactMarkdown>
+                      </div>
+                    </div>
+                  </article>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Mail, UserRound, Loader2 } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+
+/**
+ * Sign-in with an email magic link, or as a guest with an anonymous session
+ */
+export default function SignInPage() {
+  const { user, isLoading, authRequired, error, signInWithEmail, signInAnonymously } = useAuth();
+  const location = useLocation();
+  const [email, setEmail] = useState('');
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Back to where the user was headed once signed in
+  const from = (location.state as { from?: { pathname: string } } | null)?.from?.pathname || '/';
+  if (!authRequired || (!isLoading && user)) {
+    return <Navigate to={from} replace />;
+  }
+
+  const handleEmailSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setIsSubmitting(true);
+    if (await signInWithEmail(email.trim())) {
+      setLinkSentTo(email.trim());
+    }
+    setIsSubmitting(false);
+  };
+
+  const handleGuestSignIn = async () => {
+    setIsSubmitting(true);
+    await signInAnonymously();
+    setIsSubmitting(false);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-indigo-50 to-purple-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="p-5 bg-gradient-to-r from-indigo-600 to-purple-600">
+          <h1 className="text-white text-xl font-semibold">Sign in to Emerce</h1>
+          <p className="text-indigo-100 text-sm mt-1">Your chats, concept cards and todos are private to your account.</p>
+        </div>
+
+        <div className="p-5 space-y-5">
+          {linkSentTo ? (
+            <div className="text-sm text-gray-700 bg-indigo-50 rounded-lg p-4">
+              We sent a sign-in link to <span className="font-medium">{linkSentTo}</span>. Open it on this device to continue.
+            </div>
+          ) : (
+            <form onSubmit={handleEmailSignIn} className="space-y-3">
+              <label className="block text-sm font-medium text-gray-700">Email</label>
+              <input
+                type="email"
+                value={email}
+                onChange={e => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                required
+              />
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full flex items-center justify-center px-4 py-2 text-sm text-white bg-gradient-to-r from-indigo-600 to-purple-600 rounded-lg hover:opacity-90 disabled:opacity-60"
+              >
+                {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Mail className="h-4 w-4 mr-2" />}
+                Email me a sign-in link
+              </button>
+            </form>
+          )}
+
+          <div className="flex items-center text-xs text-gray-400">
+            <div className="flex-grow border-t border-gray-200" />
+            <span className="px-3">or</span>
+            <div className="flex-grow border-t border-gray-200" />
+          </div>
+
+          <div>
+            <button
+              onClick={handleGuestSignIn}
+              disabled={isSubmitting}
+              className="w-full flex items-center justify-center px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-60"
+            >
+              <UserRound className="h-4 w-4 mr-2" />
+              Continue as a guest
+            </button>
+            <p className="text-xs text-gray-500 mt-2">
+              Guest data stays with this browser session and is lost when you sign out.
+            </p>
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 rounded-lg p-3">{error}</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
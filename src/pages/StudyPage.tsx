@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, BookOpen, Loader2, PartyPopper, RotateCcw } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { useAppContext } from '../context/AppContext';
+import { GRADES, formatInterval, gradeReview } from '../services/spacedRepetition';
+import type { Grade } from '../services/spacedRepetition';
+import type { ConceptCard } from '../services/repository';
+
+const GRADE_STYLES: Record<Grade, string> = {
+  again: 'bg-red-50 text-red-700 border-red-200 hover:bg-red-100',
+  hard: 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100',
+  good: 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100',
+  easy: 'bg-indigo-50 text-indigo-700 border-indigo-200 hover:bg-indigo-100'
+};
+
+/**
+ * Study the concept cards due today: the title first, then the content, then
+ * a grade that schedules the card's next review
+ */
+const StudyPage: React.FC = () => {
+  const { loadStudyQueue, gradeConceptCard, cardReviews } = useAppContext();
+  const [queue, setQueue] = useState<ConceptCard[] | null>(null);
+  const [showBack, setShowBack] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [studied, setStudied] = useState(0);
+
+  useEffect(() => {
+    loadStudyQueue().then(setQueue);
+  }, []);
+
+  const card = queue?.[0];
+
+  const handleGrade = async (grade: Grade) => {
+    if (!card?.id || isSaving) return;
+
+    setIsSaving(true);
+    const saved = await gradeConceptCard(card.id, grade);
+    setIsSaving(false);
+    if (!saved) return;
+
+    // A forgotten card goes to the back of the queue, to be tried again this session
+    setQueue(prev => (prev ? [...prev.slice(1), ...(grade === 'again' ? [prev[0]] : [])] : prev));
+    setShowBack(false);
+    setStudied(count => count + 1);
+  };
+
+  // Space or Enter shows the answer, 1 to 4 grade it
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!card || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+      if (!showBack && (e.key === ' ' || e.key === 'Enter')) {
+        e.preventDefault();
+        setShowBack(true);
+      } else if (showBack && ['1', '2', '3', '4'].includes(e.key)) {
+        handleGrade(GRADES[Number(e.key) - 1].grade);
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const restart = async () => {
+    setQueue(null);
+    setStudied(0);
+    setQueue(await loadStudyQueue());
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="backdrop-blur-sm bg-white/80 shadow-sm z-50 sticky top-0">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center">
+              <Link to="/" className="mr-4 p-2 rounded-full hover:bg-white/50 transition-all">
+                <ArrowLeft className="h-6 w-6 text-indigo-600" />
+              </Link>
+              <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-indigo-600 to-purple-600">Study</h1>
+            </div>
+            {queue && queue.length > 0 && (
+              <span className="text-sm text-gray-500">
+                {studied} studied · {queue.length} left
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 py-8">
+        {!queue ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="h-8 w-8 text-indigo-500 animate-spin" />
+          </div>
+        ) : !card ? (
+          <div className="text-center py-16 bg-white/80 rounded-2xl shadow-sm border border-gray-200">
+            <div className="flex flex-col items-center">
+              <div className="w-20 h-20 bg-indigo-100 rounded-full flex items-center justify-center mb-4">
+                {studied > 0 ? <PartyPopper className="h-10 w-10 text-indigo-500" /> : <BookOpen className="h-10 w-10 text-indigo-500" />}
+              </div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">
+                {studied > 0 ? 'All done for today' : 'Nothing to study right now'}
+              </h3>
+              <p className="text-gray-500 max-w-md mx-auto">
+                {studied > 0
+                  ? `You studied ${studied} ${studied === 1 ? 'card' : 'cards'}. Come back tomorrow for the next ones.`
+                  : 'Cards come back here when they are due. Ask educational questions in the chat to make new ones.'}
+              </p>
+              <div className="flex gap-3 mt-6">
+                <Link to="/concept-cards" className="px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100">
+                  Browse cards
+                </Link>
+                <button
+                  type="button"
+                  onClick={restart}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 flex items-center"
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Check again
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="bg-white rounded-2xl shadow-lg overflow-hidden">
+            <div className={`h-2 bg-gradient-to-r ${card.color_gradient || 'from-indigo-500 to-purple-600'}`} />
+            <div className="p-6 md:p-8">
+              <span className="inline-flex items-center text-xs font-medium text-indigo-600">
+                <BookOpen className="h-3 w-3 mr-1" />
+                {card.category}
+              </span>
+              <h2 className="mt-2 text-2xl font-semibold text-gray-900">{card.title}</h2>
+
+              {showBack ? (
+                <div className="markdown-content mt-6 pt-6 border-t border-gray-100 text-gray-700">
+                  <ReactMarkdown>{card.content}</ReactMarkdown>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setShowBack(true)}
+                  className="mt-8 w-full py-3 text-sm font-medium text-white bg-indigo-600 rounded-xl hover:bg-indigo-700"
+                >
+                  Show answer
+                </button>
+              )}
+            </div>
+
+            {showBack && (
+              <div className="grid grid-cols-4 gap-2 p-4 bg-gray-50 border-t border-gray-100">
+                {GRADES.map(({ grade, label }, i) => (
+                  <button
+                    key={grade}
+                    type="button"
+                    onClick={() => handleGrade(grade)}
+                    disabled={isSaving}
+                    className={`py-2 rounded-lg border text-sm font-medium disabled:opacity-50 ${GRADE_STYLES[grade]}`}
+                    title={`${label} (${i + 1})`}
+                  >
+                    {label}
+                    <span className="block text-[11px] font-normal opacity-75">
+                      {formatInterval(gradeReview(card.id!, cardReviews.find(review => review.id === card.id), grade))}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StudyPage;
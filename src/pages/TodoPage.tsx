@@ -2,7 +2,8 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Link } from 'react-router-dom';
 import { ArrowLeft, Calendar, Check, Clock, Plus, Trash2, AlertCircle, CheckCircle2, X, Edit2, ChevronUp, ChevronDown } from 'lucide-react';
 import { useAppContext } from '../context/AppContext';
-import { Todo } from '../services/supabase';
+import SyncStatusBadge from '../components/SyncStatusBadge';
+import { Todo } from '../services/repository';
 import { format, isPast, isFuture, isToday } from 'date-fns';
 import { gsap } from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
@@ -605,6 +606,8 @@ const TodoPage: React.FC = () => {
                           <Clock className="h-3 w-3 mr-1" />
                           Added {format(new Date(todo.created_at), 'MMM d')}
                         </span>
+                        
+                        <SyncStatusBadge recordId={todo.id} />
                       </div>
                     </div>
                     
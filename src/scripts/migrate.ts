@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import pg from 'pg';
+import * as dotenv from 'dotenv';
+import {
+  parseMigrations,
+  getPendingMigrations,
+  recordMigrationSql,
+  MIGRATIONS_TABLE,
+  MIGRATIONS_TABLE_SQL
+} from '../services/migrations';
+
+// Load environment variables from .env file
+dotenv.config();
+
+const MIGRATIONS_DIR = path.resolve(process.cwd(), 'migrations');
+
+// Usage: npm run migrate            apply the pending migrations
+//        npm run migrate -- --status list them without applying anything
+const statusOnly = process.argv.includes('--status');
+
+const readMigrations = () => {
+  const files: Record<string, string> = {};
+  fs.readdirSync(MIGRATIONS_DIR)
+    .filter(file => file.endsWith('.sql'))
+    .forEach(file => {
+      files[file] = fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8');
+    });
+  return parseMigrations(files);
+};
+
+async function migrate() {
+  // The API key can't run DDL; this needs the database connection string
+  // (Supabase dashboard → Project Settings → Database)
+  if (!process.env.DATABASE_URL) {
+    console.error('Error: DATABASE_URL not found in environment variables');
+    console.error('Add the connection string of your Supabase database to your .env file as DATABASE_URL');
+    process.exitCode = 1;
+    return;
+  }
+
+  const migrations = readMigrations();
+  const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+  await client.connect();
+
+  try {
+    await client.query(MIGRATIONS_TABLE_SQL);
+    const { rows } = await client.query(`SELECT version FROM ${MIGRATIONS_TABLE}`);
+    const pending = getPendingMigrations(migrations, rows.map(row => row.version));
+
+    console.log(`[MIGRATE] ${migrations.length - pending.length} of ${migrations.length} migrations applied`);
+    if (pending.length === 0) {
+      console.log('[MIGRATE] The database is up to date');
+      return;
+    }
+
+    for (const migration of pending) {
+      const label = `${migration.version}_${migration.name}`;
+      if (statusOnly) {
+        console.log(`[MIGRATE] Pending: ${label}`);
+        continue;
+      }
+
+      // Each migration is applied and recorded together, or not at all
+      console.log(`[MIGRATE] Applying ${label}`);
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.sql);
+        await client.query(recordMigrationSql(migration));
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`[MIGRATE] ${label} failed, nothing after it was applied:`, error instanceof Error ? error.message : error);
+        process.exitCode = 1;
+        return;
+      }
+    }
+
+    if (!statusOnly) {
+      console.log('[MIGRATE] The database is up to date');
+    }
+  } finally {
+    await client.end();
+  }
+}
+
+migrate().catch(error => {
+  console.error('[MIGRATE] Error running migrations:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { ATTACHMENT_BUDGET, fitAttachmentBudget, getAttachmentKind } from './attachments';
+
+const file = (name: string, type: string, size = 1024) => ({ name, type, size });
+
+describe('attachments', () => {
+  it('tells how each kind of file is sent, by type or else by extension', () => {
+    expect(getAttachmentKind(file('photo.png', 'image/png'))).toBe('image');
+    expect(getAttachmentKind(file('worksheet.pdf', 'application/pdf'))).toBe('pdf');
+    expect(getAttachmentKind(file('notes.txt', 'text/plain'))).toBe('text');
+    expect(getAttachmentKind(file('Notes.MD', ''))).toBe('text');
+    expect(getAttachmentKind(file('grades.csv', 'application/vnd.ms-excel'))).toBe('text');
+    expect(getAttachmentKind(file('lecture.mp4', 'video/mp4'))).toBeNull();
+    expect(getAttachmentKind(file('archive', ''))).toBeNull();
+  });
+
+  it('accepts files until the message runs out of slots', () => {
+    const attached = [file('a.png', 'image/png'), file('b.png', 'image/png'), file('c.png', 'image/png')];
+    const picked = [file('d.pdf', 'application/pdf'), file('e.txt', 'text/plain'), file('f.md', '')];
+
+    const { accepted, rejected } = fitAttachmentBudget(attached, picked);
+
+    expect(accepted.map(f => f.name)).toEqual(['d.pdf', 'e.txt']);
+    expect(rejected).toEqual([{ name: 'f.md', reason: `A message can have at most ${ATTACHMENT_BUDGET.maxFiles} attachments.` }]);
+  });
+
+  it('rejects unsupported files and files over the size budget, keeping smaller ones that fit', () => {
+    const attached = [file('scan.pdf', 'application/pdf', ATTACHMENT_BUDGET.maxTotalBytes - 2048)];
+    const picked = [
+      file('lecture.mp4', 'video/mp4'),
+      file('big.png', 'image/png', 4096),
+      file('small.txt', 'text/plain', 1024)
+    ];
+
+    const { accepted, rejected } = fitAttachmentBudget(attached, picked);
+
+    expect(accepted.map(f => f.name)).toEqual(['small.txt']);
+    expect(rejected.map(f => f.name)).toEqual(['lecture.mp4', 'big.png']);
+    expect(rejected[1].reason).toContain('12.0 MB per message');
+  });
+});
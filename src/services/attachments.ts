@@ -0,0 +1,144 @@
+import type { Attachment, ChatMessage } from './repository';
+
+/**
+ * Files sent with messages: images, PDFs and text files.
+ *
+ * The files live in the `attachments` Storage bucket (or only in the local
+ * store without Supabase), under `<owner>/<chat id>/`, images next to a
+ * thumbnail.
+ * Message rows keep their paths, never URLs: signed URLs expire and object
+ * URLs die with the page, so the URLs are filled in each time messages are
+ * read.
+ */
+
+export const ATTACHMENTS_BUCKET = 'attachments';
+
+// How long a signed URL for an attachment stays valid
+export const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export type AttachmentKind = 'image' | 'pdf' | 'text';
+
+// How much can be attached to one message
+export const ATTACHMENT_BUDGET = {
+  maxFiles: 5,
+  // Images and PDFs are sent base64-encoded, and Gemini caps a request at 20MB
+  maxTotalBytes: 12 * 1024 * 1024,
+  // Text files are sent as text; longer ones are cut
+  maxTextChars: 100000
+};
+
+// For the file picker
+export const ACCEPTED_FILE_TYPES = 'image/*,application/pdf,text/plain,text/markdown,text/csv,.txt,.md,.markdown,.csv';
+
+const TEXT_TYPES = ['text/plain', 'text/markdown', 'text/x-markdown', 'text/csv'];
+const TEXT_EXTENSIONS = ['txt', 'md', 'markdown', 'csv'];
+
+// How a file is sent to Gemini, or null if it can't be attached.
+// Browsers often leave the type of Markdown and CSV files empty, so the extension counts too.
+export const getAttachmentKind = (file: { name: string; type: string }): AttachmentKind | null => {
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type === 'application/pdf') return 'pdf';
+  if (TEXT_TYPES.includes(file.type)) return 'text';
+
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  if (extension === 'pdf') return 'pdf';
+  if (TEXT_EXTENSIONS.includes(extension)) return 'text';
+  return null;
+};
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export type RejectedFile = { name: string; reason: string };
+
+/**
+ * Split newly picked files into the ones that fit in the message's budget next
+ * to those already attached, and the ones that don't, with the reason
+ */
+export const fitAttachmentBudget = <T extends { name: string; type: string; size: number }>(attached: T[], picked: T[]) => {
+  const accepted: T[] = [];
+  const rejected: RejectedFile[] = [];
+  let count = attached.length;
+  let totalBytes = attached.reduce((sum, file) => sum + file.size, 0);
+
+  for (const file of picked) {
+    if (!getAttachmentKind(file)) {
+      rejected.push({ name: file.name, reason: 'Only images, PDFs, text, Markdown and CSV files can be attached.' });
+    } else if (count >= ATTACHMENT_BUDGET.maxFiles) {
+      rejected.push({ name: file.name, reason: `A message can have at most ${ATTACHMENT_BUDGET.maxFiles} attachments.` });
+    } else if (totalBytes + file.size > ATTACHMENT_BUDGET.maxTotalBytes) {
+      rejected.push({ name: file.name, reason: `Attachments are limited to ${formatFileSize(ATTACHMENT_BUDGET.maxTotalBytes)} per message.` });
+    } else {
+      accepted.push(file);
+      count++;
+      totalBytes += file.size;
+    }
+  }
+
+  return { accepted, rejected };
+};
+
+// The owner folder of files uploaded without a signed-in user
+export const NO_OWNER = 'anonymous';
+
+// Where an attachment and its thumbnail are stored
+export const attachmentPaths = (owner: string, chatId: string, fileId: string) => ({
+  path: `${owner}/${chatId}/${fileId}`,
+  thumbnail_path: `${owner}/${chatId}/${fileId}_thumb`
+});
+
+// The folder holding a chat's attachments
+export const chatAttachmentFolder = (owner: string, chatId: string) => `${owner}/${chatId}`;
+
+/**
+ * What a message row keeps of its attachments: the paths, without URLs. Rows
+ * from before attachments were stored hold dead blob URLs, which are dropped.
+ */
+export const storedAttachments = (attachments?: Attachment[]): Attachment[] | undefined => {
+  const stored = (attachments || [])
+    .filter(attachment => attachment && typeof attachment === 'object' && attachment.path)
+    .map(({ url, thumbnail_url, ...attachment }) => attachment);
+  return stored.length > 0 ? stored : undefined;
+};
+
+// Object URLs of files kept in this browser, created once per path
+const objectUrls = new Map<string, string>();
+
+export const objectUrlFor = (path: string, blob: Blob) => {
+  let url = objectUrls.get(path);
+  if (!url) {
+    url = URL.createObjectURL(blob);
+    objectUrls.set(path, url);
+  }
+  return url;
+};
+
+/**
+ * Fill in the URLs of the messages' attachments. `resolve` maps storage paths
+ * to URLs; an attachment whose path it can't resolve is left without one.
+ */
+export const withAttachmentUrls = async (
+  messages: ChatMessage[],
+  resolve: (paths: string[]) => Promise<Record<string, string>>
+): Promise<ChatMessage[]> => {
+  const paths = messages.flatMap(message => (storedAttachments(message.attachments) || [])
+    .flatMap(attachment => [attachment.path, attachment.thumbnail_path].filter((path): path is string => !!path)));
+  if (paths.length === 0) return messages;
+
+  const urls = await resolve(paths);
+  return messages.map(message => {
+    const attachments = storedAttachments(message.attachments);
+    if (!attachments) return message;
+
+    return {
+      ...message,
+      attachments: attachments.map(attachment => ({
+        ...attachment,
+        url: urls[attachment.path],
+        thumbnail_url: attachment.thumbnail_path ? urls[attachment.thumbnail_path] : undefined
+      }))
+    };
+  });
+};
@@ -0,0 +1,78 @@
+import type { Session, User } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import * as localDb from './localDb';
+
+/**
+ * Sign-in with Supabase Auth, by email magic link or as an anonymous guest.
+ *
+ * Rows are owned by the signed-in user (`user_id`), and row-level security
+ * only lets them see their own. The local copy in IndexedDB belongs to one
+ * user at a time, so it is cleared when someone else signs in.
+ */
+
+// localStorage key of the user the local copy belongs to
+const LOCAL_DATA_OWNER_KEY = 'emerce.localDataOwner';
+
+let currentUser: User | null = null;
+
+// The signed-in user's id, stamped on rows sent to Supabase
+export const getCurrentUserId = () => currentUser?.id ?? null;
+
+export const getSession = async (): Promise<Session | null> => {
+  const { data, error } = await supabase.auth.getSession();
+  if (error) {
+    console.error('[AUTH] Error getting the session:', error.message);
+    return null;
+  }
+
+  currentUser = data.session?.user ?? null;
+  return data.session;
+};
+
+// Call `callback` whenever the user signs in or out; returns an unsubscribe function
+export const onAuthChange = (callback: (session: Session | null) => void) => {
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+    currentUser = session?.user ?? null;
+    callback(session);
+  });
+  return () => data.subscription.unsubscribe();
+};
+
+export const signInWithMagicLink = async (email: string) => {
+  console.log('[AUTH] Sending a magic link to', email);
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: window.location.origin }
+  });
+  if (error) throw error;
+};
+
+export const signInAnonymously = async () => {
+  console.log('[AUTH] Signing in as a guest');
+  const { error } = await supabase.auth.signInAnonymously();
+  if (error) throw error;
+};
+
+export const signOut = async () => {
+  const { error } = await supabase.auth.signOut();
+  if (error) throw error;
+  currentUser = null;
+};
+
+// Make the local copy belong to `userId`, dropping another user's data
+export const claimLocalData = async (userId: string) => {
+  const owner = localStorage.getItem(LOCAL_DATA_OWNER_KEY);
+  if (owner === userId) return;
+
+  if (owner) {
+    console.log('[AUTH] Clearing the local data of the previous user');
+    await localDb.clearLocalData();
+  }
+  localStorage.setItem(LOCAL_DATA_OWNER_KEY, userId);
+};
+
+// Forget the local copy, e.g. after signing out
+export const releaseLocalData = async () => {
+  await localDb.clearLocalData();
+  localStorage.removeItem(LOCAL_DATA_OWNER_KEY);
+};
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { createMemoryRepository } from './memoryRepository';
+import {
+  ChatImportError,
+  chatToMarkdown,
+  chatToPrintHtml,
+  collectChatExport,
+  exportChat,
+  importChat,
+  parseChatExport
+} from './chatExport';
+
+const STUDY_ANSWER = `## **Chemistry** | *Equilibrium*
+
+### **Question:**
+What is Le Chatelier's principle?
+
+### **Solution:**
+A system at equilibrium shifts to oppose a change.`;
+
+// A chat with an attached photo, a study answer, a generated image and a regenerated answer
+const seedChat = async () => {
+  const repository = createMemoryRepository();
+  const chat = await repository.createChat('Le Chatelier & <friends>', 'gemini-2.0-flash');
+  await repository.updateChat(chat.id, { tags: ['chemistry'] });
+
+  const card = await repository.addConceptCard({ title: 'Equilibrium', content: 'Shifts to oppose a change', category: 'Chemistry', chat_id: chat.id });
+  await repository.addConceptCard({ title: 'Cells', content: 'Units of life', category: 'Biology' });
+
+  const photo = await repository.saveAttachment(chat.id, new Blob(['photo'], { type: 'image/png' }), new Blob(['thumb'], { type: 'image/jpeg' }), 'flask.png');
+  await repository.addChatMessage({ id: 'q', role: 'user', content: "What is Le Chatelier's principle?", chat_id: chat.id, created_at: '2024-01-01T00:00:01.000Z', attachments: [photo] });
+  await repository.addChatMessage({ id: 'a1', role: 'assistant', content: 'An older answer', chat_id: chat.id, created_at: '2024-01-01T00:00:02.000Z' });
+  await repository.addChatMessage({ id: 'a2', role: 'assistant', content: STUDY_ANSWER, chat_id: chat.id, created_at: '2024-01-01T00:00:03.000Z', parent_id: 'q', sources: [{ kind: 'concept_card', id: card!.id!, title: 'Equilibrium' }] });
+  await repository.addChatMessage({
+    id: 'img',
+    role: 'assistant',
+    content: JSON.stringify([{ text: 'Here is a diagram' }, { inlineData: { mimeType: 'image/png', data: btoa('diagram') } }]),
+    chat_id: chat.id,
+    created_at: '2024-01-01T00:00:04.000Z'
+  });
+
+  return { repository, chat };
+};
+
+describe('chat export', () => {
+  it('writes the shown path as Markdown, keeping the study template and images as files', async () => {
+    const { repository, chat } = await seedChat();
+
+    const { markdown, assets } = await chatToMarkdown(chat, await repository.getChatMessages(chat.id));
+    expect(markdown).toContain('# Le Chatelier & <friends>');
+    expect(markdown).toContain('### **Solution:**');
+    expect(markdown).not.toContain('An older answer');
+    expect(markdown).toContain('![flask.png](files/1-flask.png)');
+    expect(markdown).toContain('![image-1.png](files/2-image-1.png)');
+    expect(await Promise.all(assets.map(asset => asset.blob.text()))).toEqual(['photo', 'diagram']);
+
+    const file = await exportChat(repository, chat.id, 'markdown');
+    expect(file.name).toBe('le-chatelier-friends.zip');
+    expect(new TextDecoder().decode(new Uint8Array(await file.blob.arrayBuffer()).slice(0, 2))).toBe('PK');
+  });
+
+  it('renders a printable page with the images inline', async () => {
+    const { repository, chat } = await seedChat();
+
+    const html = await chatToPrintHtml(chat, await repository.getChatMessages(chat.id));
+    expect(html).toContain('<title>Le Chatelier &amp; &lt;friends&gt;</title>');
+    expect(html).toContain('<h3>');
+    expect(html).toContain(`src="data:image/png;base64,${btoa('photo')}"`);
+    expect(html).toContain(`src="data:image/png;base64,${btoa('diagram')}"`);
+  });
+
+  it('exports every branch with its files and concept cards, and imports them as a new chat', async () => {
+    const { repository, chat } = await seedChat();
+    const file = await exportChat(repository, chat.id, 'json');
+    const bundle = parseChatExport(await file.blob.text());
+    expect(bundle.messages.map(message => message.id)).toEqual(['q', 'a1', 'a2', 'img']);
+    expect(bundle.concept_cards.map(card => card.title)).toEqual(['Equilibrium']);
+
+    const target = createMemoryRepository();
+    const imported = await importChat(target, bundle);
+    expect(imported).toMatchObject({ title: 'Le Chatelier & <friends>', model: 'gemini-2.0-flash', tags: ['chemistry'] });
+    expect(imported.id).not.toBe(chat.id);
+
+    const tree = await target.getMessageTree(imported.id);
+    expect(tree.map(message => message.content.slice(0, 15))).toEqual(["What is Le Chat", 'An older answer', STUDY_ANSWER.slice(0, 15), JSON.stringify([{ text: 'Here is a diagram' }]).slice(0, 15)]);
+    expect(tree.some(message => ['q', 'a1', 'a2', 'img'].includes(message.id!))).toBe(false);
+
+    // The same branches, showing the same path
+    const path = await target.getChatMessages(imported.id);
+    expect(path.map(message => message.content.slice(0, 5))).toEqual(['What ', '## **', '[{"te']);
+    const olderAnswer = tree.find(message => message.content === 'An older answer')!;
+    expect((await target.getChatMessages(imported.id, olderAnswer.id)).map(message => message.content.slice(0, 5))).toEqual(['What ', 'An ol']);
+
+    // Files and cards come along, pointing at the new chat
+    const [attachment] = path[0].attachments!;
+    expect(attachment).toMatchObject({ name: 'flask.png', mime_type: 'image/png' });
+    expect(await (await fetch(attachment.url!)).text()).toBe('photo');
+    expect(await (await fetch(attachment.thumbnail_url!)).text()).toBe('thumb');
+
+    const [card] = (await target.getConceptCards()).filter(c => c.chat_id === imported.id);
+    expect(card).toMatchObject({ title: 'Equilibrium', content: 'Shifts to oppose a change' });
+    expect(path[1].sources).toEqual([{ kind: 'concept_card', id: card.id, title: 'Equilibrium' }]);
+
+    // Exporting the import gives the same chat back
+    const again = await collectChatExport(target, imported.id);
+    expect(again.messages.map(message => message.content)).toEqual(bundle.messages.map(message => message.content));
+  });
+
+  it('refuses files that are not chat exports', () => {
+    expect(() => parseChatExport('not json')).toThrow(ChatImportError);
+    expect(() => parseChatExport(JSON.stringify({ format: 'something-else', chat: {}, messages: [] }))).toThrow(ChatImportError);
+    expect(() => parseChatExport(JSON.stringify({ format: 'emerce-chat', version: 99, chat: {}, messages: [] }))).toThrow('newer version');
+  });
+});
@@ -0,0 +1,447 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import { format } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { messageText } from './repository';
+import type { Attachment, Chat, ChatMessage, ConceptCard, MessageSource, Repository } from './repository';
+import type { ContentPart } from './gemini';
+import { createZip } from './zip';
+
+/**
+ * Getting a chat out of the app, and back in.
+ *
+ * Markdown and the printable page (saved as a PDF from the browser's print
+ * dialog) show the path through the chat that `getChatMessages` returns.
+ * Answers keep the headings of the study template, and images become files
+ * next to the Markdown, zipped together.
+ *
+ * The JSON bundle is lossless: every branch of the chat, the data of its
+ * attachments and the concept cards generated in it. `importChat` recreates it
+ * as a new chat, with new ids, through the repository.
+ */
+
+export const CHAT_EXPORT_FORMAT = 'emerce-chat';
+export const CHAT_EXPORT_VERSION = 1;
+
+export type ExportFormat = 'markdown' | 'pdf' | 'json';
+
+// An attachment with its files as data URLs
+export type ExportedAttachment = Omit<Attachment, 'url' | 'thumbnail_url'> & {
+  data?: string;
+  thumbnail_data?: string;
+};
+
+export type ExportedMessage = Omit<ChatMessage, 'attachments' | 'user_id'> & {
+  attachments?: ExportedAttachment[];
+};
+
+export type ChatExport = {
+  format: typeof CHAT_EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  chat: Pick<Chat, 'id' | 'title' | 'model' | 'created_at' | 'updated_at' | 'pinned' | 'tags' | 'archived'>;
+  messages: ExportedMessage[]; // Every message, on every branch
+  concept_cards: Omit<ConceptCard, 'user_id'>[];
+};
+
+// A file ready to be downloaded
+export type ExportFile = { name: string; blob: Blob };
+
+// Files the Markdown refers to, and where
+type MarkdownAsset = { path: string; blob: Blob };
+
+export class ChatImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChatImportError';
+  }
+}
+
+// A file name made from the chat's title
+export const exportFileName = (title: string, extension: string) => {
+  const base = title
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase()
+    .slice(0, 60);
+  return `${base || 'chat'}.${extension}`;
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'application/pdf': 'pdf',
+  'text/plain': 'txt',
+  'text/markdown': 'md',
+  'text/csv': 'csv'
+};
+
+// A name that is safe in a zip and a Markdown link
+const safeFileName = (name: string) => name.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'file';
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (data: string) => Uint8Array.from(atob(data), char => char.charCodeAt(0));
+
+export const blobToDataUrl = async (blob: Blob) =>
+  `data:${blob.type || 'application/octet-stream'};base64,${toBase64(new Uint8Array(await blob.arrayBuffer()))}`;
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const match = /^data:([^;,]*)(;base64)?,(.*)$/s.exec(dataUrl);
+  if (!match) throw new ChatImportError('An attachment in the file is damaged.');
+  const [, type, base64, data] = match;
+  return new Blob([base64 ? fromBase64(data) : decodeURIComponent(data)], { type });
+};
+
+// The file behind an attachment URL, or null when it can't be fetched (e.g. an expired signed URL)
+const fetchFile = async (url?: string): Promise<Blob | null> => {
+  if (!url) return null;
+  try {
+    const response = await fetch(url);
+    return response.ok ? await response.blob() : null;
+  } catch (error) {
+    console.warn('[EXPORT] Could not fetch an attachment:', error);
+    return null;
+  }
+};
+
+// The parts of stored message content; plain text is one text part
+const contentParts = (content: string): ContentPart[] => {
+  if (!content.trim().startsWith('[')) return [{ text: content }];
+  try {
+    const parts = JSON.parse(content);
+    return Array.isArray(parts) ? parts : [{ text: content }];
+  } catch {
+    return [{ text: content }];
+  }
+};
+
+const roleLabel = (message: ChatMessage) => (message.role === 'user' ? 'You' : 'Assistant');
+
+const formatTime = (timestamp?: string) => (timestamp ? format(new Date(timestamp), 'd MMM yyyy, HH:mm') : '');
+
+/**
+ * The files shown in a message: its stored attachments or, for messages
+ * without (generated images, messages from before attachments were stored),
+ * the images inlined in its content
+ */
+const messageFiles = async (message: ChatMessage, fetcher: typeof fetchFile) => {
+  if (message.attachments?.length) {
+    const files = await Promise.all(message.attachments.map(async attachment => ({
+      name: attachment.name || attachment.path.split('/').pop() || 'file',
+      blob: await fetcher(attachment.url)
+    })));
+    return files.filter((file): file is ExportFile => !!file.blob);
+  }
+
+  return contentParts(message.content)
+    .filter(part => part.inlineData?.mimeType.startsWith('image/'))
+    .map((part, i) => ({
+      name: `image-${i + 1}.${EXTENSIONS[part.inlineData!.mimeType] || 'bin'}`,
+      blob: new Blob([fromBase64(part.inlineData!.data)], { type: part.inlineData!.mimeType })
+    }));
+};
+
+/**
+ * The chat as Markdown, and the files it links to under `files/`. Images are
+ * embedded with `![]()`, other files linked.
+ */
+export const chatToMarkdown = async (
+  chat: Pick<Chat, 'title' | 'model'>,
+  messages: ChatMessage[],
+  fetcher = fetchFile
+): Promise<{ markdown: string; assets: MarkdownAsset[] }> => {
+  const assets: MarkdownAsset[] = [];
+  const sections: string[] = [];
+
+  for (const message of messages) {
+    const lines = [`**${roleLabel(message)}**${message.created_at ? ` · ${formatTime(message.created_at)}` : ''}`, ''];
+    const text = messageText(message.content).trim();
+    if (text) lines.push(text, '');
+
+    for (const file of await messageFiles(message, fetcher)) {
+      const path = `files/${assets.length + 1}-${safeFileName(file.name)}`;
+      assets.push({ path, blob: file.blob });
+      lines.push(file.blob.type.startsWith('image/') ? `![${file.name}](${path})` : `[${file.name}](${path})`, '');
+    }
+
+    sections.push(lines.join('\n').trimEnd());
+  }
+
+  const header = `# ${chat.title}\n\n_${chat.model} · exported ${formatTime(new Date().toISOString())}_`;
+  return { markdown: `${[header, ...sections].join('\n\n---\n\n')}\n`, assets };
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const PRINT_STYLES = `
+  @page { margin: 18mm; }
+  body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; color: #1f2937; line-height: 1.55; font-size: 11pt; }
+  h1.chat-title { font-size: 20pt; margin: 0 0 4pt; }
+  .meta { color: #6b7280; font-size: 9pt; margin-bottom: 18pt; }
+  .message { break-inside: avoid-page; border-top: 1px solid #e5e7eb; padding: 10pt 0; }
+  .message.user .content { background: #eef2ff; border-radius: 6pt; padding: 6pt 10pt; }
+  .role { font-weight: 600; font-size: 9pt; color: #4f46e5; margin-bottom: 4pt; }
+  .role time { font-weight: 400; color: #9ca3af; margin-left: 6pt; }
+  .content h2 { font-size: 14pt; } .content h3 { font-size: 12pt; }
+  .content pre { background: #f3f4f6; padding: 8pt; border-radius: 4pt; white-space: pre-wrap; }
+  .content code { font-size: 9.5pt; }
+  img { max-width: 100%; max-height: 120mm; border-radius: 4pt; }
+  .file { color: #6b7280; font-size: 9pt; }
+`;
+
+/**
+ * The chat as a standalone HTML page styled for printing, with its images
+ * inlined, for the browser to save as a PDF
+ */
+export const chatToPrintHtml = async (
+  chat: Pick<Chat, 'title' | 'model'>,
+  messages: ChatMessage[],
+  fetcher = fetchFile
+): Promise<string> => {
+  const body: string[] = [];
+
+  for (const message of messages) {
+    const content = renderToStaticMarkup(createElement(ReactMarkdown, null, messageText(message.content)));
+    const files = await Promise.all((await messageFiles(message, fetcher)).map(async file =>
+      file.blob.type.startsWith('image/')
+        ? `<img src="${await blobToDataUrl(file.blob)}" alt="${escapeHtml(file.name)}">`
+        : `<p class="file">Attached: ${escapeHtml(file.name)}</p>`
+    ));
+
+    body.push(`<section class="message ${message.role}">
+  <div class="role">${roleLabel(message)}${message.created_at ? `<time>${formatTime(message.created_at)}</time>` : ''}</div>
+  <div class="content">${content}${files.join('')}</div>
+</section>`);
+  }
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(chat.title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1 class="chat-title">${escapeHtml(chat.title)}</h1>
+<div class="meta">${escapeHtml(chat.model)} · exported ${formatTime(new Date().toISOString())}</div>
+${body.join('\n')}
+</body>
+</html>`;
+};
+
+// Open the print dialog for a page, in a hidden frame
+export const printHtml = (html: string) =>
+  new Promise<void>(resolve => {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.onload = () => {
+      frame.contentWindow?.focus();
+      frame.contentWindow?.print();
+      // Printing blocks until the dialog closes in most browsers
+      setTimeout(() => frame.remove(), 1000);
+      resolve();
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
+
+const findChat = async (repository: Repository, chatId: string) => {
+  const chat = (await repository.getChats()).find(c => c.id === chatId);
+  if (!chat) throw new Error('The chat to export was not found.');
+  return chat;
+};
+
+// Hand a file to the browser to download
+export const downloadFile = ({ name, blob }: ExportFile) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Everything about a chat, as the JSON bundle
+export const collectChatExport = async (repository: Repository, chatId: string, fetcher = fetchFile): Promise<ChatExport> => {
+  const chat = await findChat(repository, chatId);
+
+  const messages = await Promise.all((await repository.getMessageTree(chatId)).map(async ({ user_id, attachments, ...message }) => {
+    const exported: ExportedMessage = { ...message };
+    if (attachments?.length) {
+      exported.attachments = await Promise.all(attachments.map(async ({ url, thumbnail_url, ...attachment }) => {
+        const [file, thumbnail] = await Promise.all([fetcher(url), fetcher(thumbnail_url)]);
+        return {
+          ...attachment,
+          ...(file ? { data: await blobToDataUrl(file) } : {}),
+          ...(thumbnail ? { thumbnail_data: await blobToDataUrl(thumbnail) } : {})
+        };
+      }));
+    }
+    return exported;
+  }));
+
+  const conceptCards = (await repository.getConceptCards())
+    .filter(card => card.chat_id === chatId)
+    .map(({ user_id, ...card }) => card);
+
+  return {
+    format: CHAT_EXPORT_FORMAT,
+    version: CHAT_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    chat: {
+      id: chat.id,
+      title: chat.title,
+      model: chat.model,
+      created_at: chat.created_at,
+      updated_at: chat.updated_at,
+      pinned: chat.pinned,
+      tags: chat.tags,
+      archived: chat.archived
+    },
+    messages,
+    concept_cards: conceptCards
+  };
+};
+
+// The chat as a Markdown or JSON file to download
+export const exportChat = async (
+  repository: Repository,
+  chatId: string,
+  exportFormat: Exclude<ExportFormat, 'pdf'>
+): Promise<ExportFile> => {
+  const chat = await findChat(repository, chatId);
+
+  if (exportFormat === 'json') {
+    const bundle = await collectChatExport(repository, chatId);
+    return {
+      name: exportFileName(chat.title, 'json'),
+      blob: new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' })
+    };
+  }
+
+  const { markdown, assets } = await chatToMarkdown(chat, await repository.getChatMessages(chatId));
+  const markdownName = exportFileName(chat.title, 'md');
+  if (assets.length === 0) {
+    return { name: markdownName, blob: new Blob([markdown], { type: 'text/markdown' }) };
+  }
+
+  const encoder = new TextEncoder();
+  const entries = [{ name: markdownName, data: encoder.encode(markdown) }];
+  for (const asset of assets) {
+    entries.push({ name: asset.path, data: new Uint8Array(await asset.blob.arrayBuffer()) });
+  }
+  return { name: exportFileName(chat.title, 'zip'), blob: createZip(entries) };
+};
+
+// Open the print dialog for the chat, to save it as a PDF
+export const printChat = async (repository: Repository, chatId: string) => {
+  const chat = await findChat(repository, chatId);
+  await printHtml(await chatToPrintHtml(chat, await repository.getChatMessages(chatId)));
+};
+
+// Read a JSON bundle, checking it is one this version can import
+export const parseChatExport = (text: string): ChatExport => {
+  let bundle: ChatExport;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new ChatImportError('The file is not a chat export.');
+  }
+
+  if (!bundle || bundle.format !== CHAT_EXPORT_FORMAT || !bundle.chat || !Array.isArray(bundle.messages)) {
+    throw new ChatImportError('The file is not a chat export.');
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > CHAT_EXPORT_VERSION) {
+    throw new ChatImportError('The chat was exported by a newer version of the app.');
+  }
+  return { ...bundle, concept_cards: Array.isArray(bundle.concept_cards) ? bundle.concept_cards : [] };
+};
+
+/**
+ * Recreate an exported chat as a new chat: its messages (keeping their
+ * branches), attachments and concept cards, all with new ids
+ */
+export const importChat = async (repository: Repository, bundle: ChatExport): Promise<Chat> => {
+  const { chat: exportedChat } = bundle;
+  let chat = await repository.createChat(exportedChat.title || 'Imported chat', exportedChat.model || undefined);
+
+  const updates = {
+    ...(exportedChat.pinned ? { pinned: true } : {}),
+    ...(exportedChat.tags?.length ? { tags: exportedChat.tags } : {}),
+    ...(exportedChat.archived ? { archived: true } : {})
+  };
+  if (Object.keys(updates).length > 0) {
+    chat = (await repository.updateChat(chat.id, updates)) || chat;
+  }
+  console.log(`[IMPORT] Importing "${chat.title}" with ${bundle.messages.length} message(s)`);
+
+  // Old id → new id, for parents and sources
+  const ids = new Map<string, string>([[exportedChat.id, chat.id]]);
+
+  for (const { id, user_id, created_at, ...card } of bundle.concept_cards as (ConceptCard & { user_id?: string })[]) {
+    const added = await repository.addConceptCard({ ...card, chat_id: chat.id });
+    if (id && added?.id) ids.set(id, added.id);
+  }
+
+  const messages = [...bundle.messages].sort((a, b) => String(a.created_at || '').localeCompare(String(b.created_at || '')));
+  messages.forEach(message => {
+    if (message.id) ids.set(message.id, uuidv4());
+  });
+
+  for (const message of messages) {
+    const attachments: Attachment[] = [];
+    for (const { data, thumbnail_data, ...attachment } of message.attachments || []) {
+      if (!data) continue; // Its file couldn't be exported
+      attachments.push(await repository.saveAttachment(
+        chat.id,
+        dataUrlToBlob(data),
+        thumbnail_data ? dataUrlToBlob(thumbnail_data) : null,
+        attachment.name
+      ));
+    }
+
+    const sources = message.sources?.map((source): MessageSource => ({
+      ...source,
+      id: ids.get(source.id) || source.id,
+      ...(source.chat_id ? { chat_id: ids.get(source.chat_id) || source.chat_id } : {})
+    }));
+
+    await repository.addChatMessage({
+      id: message.id ? ids.get(message.id) : undefined,
+      role: message.role,
+      content: message.content,
+      chat_id: chat.id,
+      created_at: message.created_at,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      sources: sources?.length ? sources : undefined,
+      ...(message.study ? { study: message.study } : {}),
+      ...(message.intent ? { intent: message.intent } : {}),
+      ...(message.stopped ? { stopped: true } : {}),
+      // Without a parent in the file, a message follows the one before it
+      ...(message.parent_id !== undefined
+        ? { parent_id: message.parent_id === null ? null : ids.get(message.parent_id) }
+        : {})
+    });
+  }
+
+  return chat;
+};
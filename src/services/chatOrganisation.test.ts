@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { chatTags, groupChats } from './chatOrganisation';
+import type { Chat, ChatFolder } from './repository';
+
+const chat = (id: string, fields: Partial<Chat> = {}): Chat => ({
+  id,
+  title: id,
+  model: 'gemini-2.0-flash',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+  ...fields
+});
+
+const folder = (id: string, name = id): ChatFolder => ({
+  id,
+  name,
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z'
+});
+
+describe('chatTags', () => {
+  it('lists every tag once, sorted', () => {
+    expect(chatTags([
+      chat('a', { tags: ['physics', 'Exam'] }),
+      chat('b', { tags: ['exam'] }),
+      chat('c')
+    ])).toEqual(['Exam', 'physics']);
+  });
+});
+
+describe('groupChats', () => {
+  const folders = [folder('exams'), folder('notes')];
+  const chats = [
+    chat('pinned', { pinned: true, folder_id: 'exams' }),
+    chat('filed', { folder_id: 'exams', tags: ['physics'] }),
+    chat('orphaned', { folder_id: 'deleted-elsewhere' }),
+    chat('loose', { tags: ['Physics'] }),
+    chat('old', { archived: true, folder_id: 'notes' })
+  ];
+  const ids = (list: Chat[]) => list.map(c => c.id);
+
+  it('puts pinned chats first, then folders, then the chats in no folder', () => {
+    const groups = groupChats(chats, folders);
+    expect(ids(groups.pinned)).toEqual(['pinned']);
+    expect(groups.folders.map(group => [group.folder.id, ids(group.chats)])).toEqual([['exams', ['filed']], ['notes', []]]);
+    expect(ids(groups.unfiled)).toEqual(['orphaned', 'loose']);
+  });
+
+  it('narrows every section down to a tag, hiding empty folders', () => {
+    const groups = groupChats(chats, folders, { tag: 'physics' });
+    expect(groups.pinned).toEqual([]);
+    expect(groups.folders.map(group => [group.folder.id, ids(group.chats)])).toEqual([['exams', ['filed']]]);
+    expect(ids(groups.unfiled)).toEqual(['loose']);
+  });
+
+  it('shows only archived chats in the archived view', () => {
+    const groups = groupChats(chats, folders, { archived: true });
+    expect(groups.folders.map(group => [group.folder.id, ids(group.chats)])).toEqual([['notes', ['old']]]);
+    expect(groups.unfiled).toEqual([]);
+  });
+});
@@ -0,0 +1,51 @@
+import type { Chat, ChatFolder } from './repository';
+
+/**
+ * How the sidebar lays out chats: pinned chats first, then each folder, then
+ * the chats in no folder. Archived chats are kept out of the way in a view of
+ * their own, and a tag narrows every section down to the chats carrying it.
+ */
+
+export type ChatFilter = {
+  tag?: string | null;
+  archived?: boolean; // Show the archived chats instead of the others
+};
+
+export type ChatGroups = {
+  pinned: Chat[];
+  folders: { folder: ChatFolder; chats: Chat[] }[];
+  unfiled: Chat[];
+};
+
+const sameTag = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Every tag in use, sorted, each once whatever its case
+export const chatTags = (chats: Chat[]) => {
+  const tags: string[] = [];
+  chats.forEach(chat => (chat.tags || []).forEach(tag => {
+    if (!tags.some(existing => sameTag(existing, tag))) tags.push(tag);
+  }));
+  return tags.sort((a, b) => a.localeCompare(b));
+};
+
+export const groupChats = (chats: Chat[], folders: ChatFolder[], filter: ChatFilter = {}): ChatGroups => {
+  const visible = chats.filter(chat =>
+    !!chat.archived === !!filter.archived &&
+    (!filter.tag || (chat.tags || []).some(tag => sameTag(tag, filter.tag!)))
+  );
+  const folderIds = new Set(folders.map(folder => folder.id));
+  // A chat whose folder is gone (e.g. deleted on another device) counts as in no folder
+  const folderOf = (chat: Chat) => (chat.folder_id && folderIds.has(chat.folder_id) ? chat.folder_id : null);
+
+  const pinned = visible.filter(chat => chat.pinned);
+  const rest = visible.filter(chat => !chat.pinned);
+
+  return {
+    pinned,
+    folders: folders
+      .map(folder => ({ folder, chats: rest.filter(chat => folderOf(chat) === folder.id) }))
+      // Empty folders stay visible as drop targets, unless a tag is narrowing the list
+      .filter(group => group.chats.length > 0 || (!filter.tag && !filter.archived)),
+    unfiled: rest.filter(chat => folderOf(chat) === null)
+  };
+};
@@ -1,5 +1,7 @@
 import * as geminiService from './gemini';
-import * as supabaseService from './supabase';
+import { classifyIntent } from './intent';
+import { getRepository } from './repository';
+import type { ChatMessage, ConceptCard, NewConceptCard } from './repository';
 import { v4 as uuidv4 } from 'uuid';
 
 // Categories for concept cards
@@ -49,65 +51,6 @@ const CARD_GRADIENTS = [
  * This service automatically generates and saves concept cards from chat messages
  */
 
-/**
- * Pattern matching for educational queries that would benefit from concept cards
- */
-export function isEducationalQuery(message: string): boolean {
-  // Clean the message
-  const cleanedMessage = message.trim().toLowerCase();
-  
-  // Check for question patterns
-  const questionPatterns = [
-    /^what (is|are|was|were) /i,
-    /^how (does|do|can|could|did) /i,
-    /^why (is|are|does|do|did) /i,
-    /^explain /i,
-    /^describe /i,
-    /^tell me about /i,
-    /^define /i,
-    /can you (explain|describe|tell me about) /i,
-    /difference between .* and /i,
-    /meaning of /i,
-    /definition of /i,
-    / vs /i,
-    /compared to /i,
-    /relationship between /i,
-    /purpose of /i,
-    /function of /i,
-    /example of /i,
-    /characteristics of /i,
-    /properties of /i,
-    /features of /i,
-    /aspects of /i,
-    /origins of /i,
-    /history of /i,
-    /concept of /i,
-    /theory of /i,
-    /significance of /i,
-    /importance of /i,
-    /applications of /i,
-    /uses of /i,
-    /types of /i,
-    /categories of /i,
-    /classification of /i,
-    /process of /i,
-    /method of /i,
-    /technique of /i,
-    /approach to /i,
-    /basics of /i,
-    /fundamentals of /i,
-    /principles of /i,
-    /rules of /i,
-    /guidelines for /i,
-    /summary of /i,
-    /overview of /i,
-    /introduction to /i,
-  ];
-  
-  // Return true if the message matches any educational query pattern
-  return questionPatterns.some(pattern => pattern.test(cleanedMessage));
-}
-
 /**
  * Extracts the main concept from an educational query
  */
@@ -165,14 +108,15 @@ export function getRandomGradient(): string {
  * Process a set of messages to generate a concept card if appropriate
  */
 export async function processMessagesForConceptCard(
-  userMessage: supabaseService.ChatMessage,
-  aiResponse: supabaseService.ChatMessage
-): Promise<supabaseService.ConceptCard | null> {
+  userMessage: ChatMessage,
+  aiResponse: ChatMessage
+): Promise<ConceptCard | null> {
   try {
     console.log('[CONCEPT CARD] Processing messages for concept card generation');
     
-    // Check if the user message is educational
-    if (!isEducationalQuery(userMessage.content)) {
+    // Only questions classified as educational get a card
+    const intent = userMessage.intent ?? await classifyIntent(userMessage);
+    if (intent.kind !== 'educational') {
       console.log('[CONCEPT CARD] Not an educational query, skipping concept card generation');
       return null;
     }
@@ -196,7 +140,7 @@ export async function processMessagesForConceptCard(
       
       // Save the concept card to the database
       try {
-        const savedCard = await supabaseService.addConceptCard(generatedCard);
+        const savedCard = await getRepository().addConceptCard({ ...generatedCard, chat_id: userMessage.chat_id });
         console.log('[CONCEPT CARD] Saved to database:', savedCard?.id);
         return savedCard;
       } catch (dbError) {
@@ -220,7 +164,7 @@ async function generateSimpleConceptCard(
   title: string, 
   userQuery: string, 
   aiResponse: string
-): Promise<Omit<supabaseService.ConceptCard, 'id' | 'created_at'> | null> {
+): Promise<NewConceptCard | null> {
   try {
     console.log('[CONCEPT CARD] Generating simple concept card for:', title);
     
@@ -284,7 +228,7 @@ async function generateSimpleConceptCard(
 /**
  * Determine the category of a concept based on its content
  */
-function determineCategory(title: string, query: string, content: string): supabaseService.ConceptCard['category'] {
+function determineCategory(title: string, query: string, content: string): ConceptCard['category'] {
   // Combine all text for analysis
   const allText = `${title} ${query} ${content}`.toLowerCase();
   
@@ -347,11 +291,10 @@ function determineCategory(title: string, query: string, content: string): supab
   }
   
   // Return the chosen category with proper capitalization
-  return bestCategory as supabaseService.ConceptCard['category'];
+  return bestCategory as ConceptCard['category'];
 }
 
 export default {
-  isEducationalQuery,
   extractMainConcept,
   processMessagesForConceptCard,
   getRandomGradient
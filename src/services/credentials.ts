@@ -0,0 +1,80 @@
+/**
+ * Credentials and endpoint configuration for the Gemini API.
+ *
+ * The API key is resolved from a key the user entered in settings first, then
+ * from VITE_GOOGLE_API_KEY. When a proxy base URL is configured every request
+ * is sent there instead of Google, so the proxy can attach the key server-side
+ * and no key has to be present in the browser at all.
+ */
+
+// Default Gemini REST endpoint
+export const GEMINI_API_BASE_URL = 'https://generativelanguage.googleapis.com';
+
+// localStorage key for the user's API settings
+const SETTINGS_STORAGE_KEY = 'emerce.apiSettings';
+
+export type ApiSettings = {
+  apiKey?: string;
+  proxyBaseUrl?: string;
+};
+
+// Read the settings the user saved in the app
+export const getApiSettings = (): ApiSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('[CREDENTIALS] Error reading API settings:', error);
+    return {};
+  }
+};
+
+// Persist the user's settings; empty values are dropped so the env defaults apply again
+export const saveApiSettings = (settings: ApiSettings) => {
+  const cleaned: ApiSettings = {};
+  if (settings.apiKey?.trim()) cleaned.apiKey = settings.apiKey.trim();
+  if (settings.proxyBaseUrl?.trim()) cleaned.proxyBaseUrl = settings.proxyBaseUrl.trim();
+
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(cleaned));
+  } catch (error) {
+    console.error('[CREDENTIALS] Error saving API settings:', error);
+  }
+};
+
+// The API key to send with requests, or an empty string when a proxy supplies it
+export const getApiKey = (): string => {
+  return getApiSettings().apiKey || import.meta.env.VITE_GOOGLE_API_KEY || '';
+};
+
+// The configured proxy base URL, if any
+export const getProxyBaseUrl = (): string => {
+  return getApiSettings().proxyBaseUrl || import.meta.env.VITE_GEMINI_PROXY_URL || '';
+};
+
+// Base URL for all Gemini requests, without a trailing slash
+export const getBaseUrl = (): string => {
+  return (getProxyBaseUrl() || GEMINI_API_BASE_URL).replace(/\/+$/, '');
+};
+
+// Whether requests can be authenticated at all
+export const hasCredentials = (): boolean => {
+  return Boolean(getApiKey() || getProxyBaseUrl());
+};
+
+// Headers carrying the API key; the key is never put in the URL
+export const getAuthHeaders = (): Record<string, string> => {
+  const apiKey = getApiKey();
+  return apiKey ? { 'x-goog-api-key': apiKey } : {};
+};
+
+// Fetch a Gemini REST path (e.g. `v1beta/models`) through the configured endpoint
+export const geminiFetch = (path: string, init: RequestInit = {}): Promise<Response> => {
+  return fetch(`${getBaseUrl()}/${path.replace(/^\/+/, '')}`, {
+    ...init,
+    headers: {
+      ...getAuthHeaders(),
+      ...(init.headers as Record<string, string> | undefined)
+    }
+  });
+};
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  chunkPages,
+  selectRelevantChunks,
+  buildDocumentExcerpts,
+  parseCitations,
+  linkCitations,
+  citationFromHref
+} from './documents';
+import type { DocumentPage } from './documents';
+
+const filler = (topic: string, sentences: number) =>
+  Array.from({ length: sentences }, (_, i) => `Sentence ${i} of the section on ${topic} goes on for a while.`).join(' ');
+
+describe('documents', () => {
+  it('splits pages into chunks between sentences, never across pages', () => {
+    const pages: DocumentPage[] = [
+      { page: 1, text: 'First sentence. Second sentence. Third sentence.' },
+      { page: 2, text: 'Page two.' }
+    ];
+
+    const chunks = chunkPages('notes.pdf', pages, 35);
+
+    expect(chunks).toEqual([
+      { document: 'notes.pdf', page: 1, text: 'First sentence. Second sentence.' },
+      { document: 'notes.pdf', page: 1, text: 'Third sentence.' },
+      { document: 'notes.pdf', page: 2, text: 'Page two.' }
+    ]);
+    expect(chunkPages('long.pdf', [{ page: 1, text: 'x'.repeat(25) }], 10).map(chunk => chunk.text.length)).toEqual([10, 10, 5]);
+  });
+
+  it('sends a short document whole', () => {
+    const chunks = chunkPages('short.pdf', [{ page: 1, text: 'Cells divide by mitosis.' }, { page: 2, text: 'Plants photosynthesize.' }]);
+
+    expect(selectRelevantChunks('What about plants?', chunks)).toEqual(chunks);
+  });
+
+  it('picks the chunks about the question, and pages it names, in document order', () => {
+    const pages: DocumentPage[] = [
+      { page: 1, text: filler('mitosis', 20) },
+      { page: 2, text: filler('photosynthesis', 20) },
+      { page: 3, text: filler('respiration', 20) },
+      { page: 4, text: filler('genetics', 20) }
+    ];
+    const chunks = chunkPages('biology.pdf', pages, 500);
+
+    const aboutRespiration = selectRelevantChunks('How does respiration work?', chunks, 1200);
+    expect(new Set(aboutRespiration.map(chunk => chunk.page))).toEqual(new Set([3]));
+
+    const namedPage = selectRelevantChunks('Explain page 4 and mitosis', chunks, 2000);
+    expect(namedPage[0].page).toBe(1);
+    expect(namedPage.filter(chunk => chunk.page === 4)).toEqual(chunks.filter(chunk => chunk.page === 4));
+    expect(namedPage.reduce((sum, chunk) => sum + chunk.text.length, 0)).toBeLessThanOrEqual(2000);
+  });
+
+  it('spreads the excerpts over the document when the question names nothing in it', () => {
+    const pages: DocumentPage[] = Array.from({ length: 6 }, (_, i) => ({ page: i + 1, text: filler(`topic${i}`, 10) }));
+    const chunks = chunkPages('course.pdf', pages, 700);
+
+    const excerpts = selectRelevantChunks('Summarize this', chunks, 2200);
+
+    expect(excerpts.length).toBeGreaterThan(1);
+    expect(excerpts[0].page).toBe(1);
+    expect(excerpts.at(-1)!.page).toBeGreaterThan(3);
+  });
+
+  it('tags excerpts with their page and asks for citations, or gives up on a scan', () => {
+    const excerpts = buildDocumentExcerpts('worksheet.pdf', [{ page: 2, text: 'Question 2: find the force.' }], 3, 'Explain question 2');
+
+    expect(excerpts).toContain('Attached file "worksheet.pdf" (PDF, 3 pages)');
+    expect(excerpts).toContain('[p. 2] Question 2: find the force.');
+    expect(excerpts).toContain('like [p. 4]');
+    expect(buildDocumentExcerpts('scan.pdf', [], 5, 'What is this?')).toBeNull();
+  });
+
+  it('finds page citations and turns them into links that read back', () => {
+    const answer = 'Force is mass times acceleration [p. 4], see also [pp. 7-8] and [notes (v2).pdf, p.12]. Not [a link](https://example.com).';
+
+    expect(parseCitations(answer)).toEqual([{ page: 4 }, { page: 7 }, { document: 'notes (v2).pdf', page: 12 }]);
+
+    const linked = linkCitations(answer);
+    expect(linked).toContain('[p. 4](#cite-4)');
+    expect(linked).toContain('[a link](https://example.com)');
+    const hrefs = [...linked.matchAll(/\]\((#cite-[^)]+)\)/g)].map(match => match[1]);
+    expect(hrefs.map(citationFromHref)).toEqual(parseCitations(answer));
+    expect(citationFromHref('https://example.com')).toBeNull();
+  });
+});
@@ -0,0 +1,203 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+/**
+ * PDFs read in the browser and sent to Gemini as page-tagged excerpts.
+ *
+ * The text of each page is split into chunks that never cross a page, the
+ * chunks most relevant to the question are picked, and each one is sent
+ * prefixed with its page (`[p. 4] ...`). Gemini is asked to cite pages the
+ * same way, and answers render those markers as chips that open the page.
+ */
+
+export type DocumentPage = { page: number; text: string };
+
+export type DocumentChunk = { document: string; page: number; text: string };
+
+// A `[p. 4]` marker, with the file name when the answer names one (`[notes.pdf, p. 4]`)
+export type Citation = { document?: string; page: number };
+
+export const DOCUMENT_BUDGET = {
+  // Longer PDFs are read up to this page
+  maxPages: 300,
+  chunkChars: 1500,
+  // How much of a PDF goes with one question
+  maxExcerptChars: 24000
+};
+
+// pdfjs is large, so it is loaded the first time a PDF is read or shown
+export const loadPdfjs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = (await import('pdfjs-dist/build/pdf.worker.min.mjs?url')).default;
+  }
+  return pdfjs;
+};
+
+// The text of each page of a PDF, with whitespace collapsed; pages without text are skipped
+export const extractPdfPages = async (file: Blob): Promise<{ pages: DocumentPage[]; pageCount: number }> => {
+  const pdfjs = await loadPdfjs();
+  const pdf: PDFDocumentProxy = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+
+  try {
+    const pages: DocumentPage[] = [];
+    for (let page = 1; page <= Math.min(pdf.numPages, DOCUMENT_BUDGET.maxPages); page++) {
+      const content = await (await pdf.getPage(page)).getTextContent();
+      const text = content.items
+        .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '')
+        .join('')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\n\s*\n+/g, '\n\n')
+        .trim();
+      if (text) {
+        pages.push({ page, text });
+      }
+    }
+    return { pages, pageCount: pdf.numPages };
+  } finally {
+    pdf.destroy();
+  }
+};
+
+/**
+ * Split pages into chunks of up to `chunkChars`, breaking between sentences
+ * where possible. A chunk keeps the page it came from.
+ */
+export const chunkPages = (document: string, pages: DocumentPage[], chunkChars = DOCUMENT_BUDGET.chunkChars): DocumentChunk[] => {
+  const chunks: DocumentChunk[] = [];
+
+  for (const { page, text } of pages) {
+    let current = '';
+    const flush = () => {
+      if (current.trim()) {
+        chunks.push({ document, page, text: current.trim() });
+      }
+      current = '';
+    };
+
+    for (const sentence of text.split(/(?<=[.!?])\s+|\n+/)) {
+      if (current && current.length + sentence.length + 1 > chunkChars) {
+        flush();
+      }
+      // A sentence longer than a chunk is cut
+      for (let start = 0; start < sentence.length; start += chunkChars) {
+        const piece = sentence.slice(start, start + chunkChars);
+        if (current.length + piece.length + 1 > chunkChars) {
+          flush();
+        }
+        current += (current ? ' ' : '') + piece;
+      }
+    }
+    flush();
+  }
+
+  return chunks;
+};
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'was', 'one', 'our', 'has', 'how', 'its', 'who',
+  'did', 'does', 'what', 'when', 'where', 'which', 'why', 'with', 'this', 'that', 'these', 'those', 'from', 'into',
+  'about', 'there', 'their', 'them', 'they', 'have', 'will', 'would', 'could', 'should', 'your', 'please', 'explain',
+  'tell', 'describe', 'document', 'file', 'pdf', 'page', 'pages', 'attached'
+]);
+
+const terms = (text: string) =>
+  (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(term => term.length > 2 && !STOP_WORDS.has(term));
+
+/**
+ * The chunks to send with `question`, in document order, within `maxChars`.
+ *
+ * A document that fits is sent whole. Otherwise chunks are ranked by the
+ * question's words (rarer words count more) and by the pages it names; when
+ * nothing matches, e.g. for "summarize this", chunks are spread across the
+ * document instead.
+ */
+export const selectRelevantChunks = (question: string, chunks: DocumentChunk[], maxChars = DOCUMENT_BUDGET.maxExcerptChars): DocumentChunk[] => {
+  const totalChars = chunks.reduce((sum, chunk) => sum + chunk.text.length, 0);
+  if (totalChars <= maxChars) return chunks;
+
+  const questionTerms = [...new Set(terms(question))];
+  const namedPages = new Set([...question.matchAll(/\b(?:p|pp|page|pages)\.?\s*(\d+)/gi)].map(match => Number(match[1])));
+
+  const chunkTerms = chunks.map(chunk => terms(chunk.text));
+  const documentFrequency = new Map<string, number>();
+  chunkTerms.forEach(words => new Set(words).forEach(word => documentFrequency.set(word, (documentFrequency.get(word) || 0) + 1)));
+
+  const scores = chunks.map((chunk, i) => {
+    let score = namedPages.has(chunk.page) ? 100 : 0;
+    for (const term of questionTerms) {
+      const count = chunkTerms[i].filter(word => word === term).length;
+      if (count > 0) {
+        score += (1 + Math.log(count)) * Math.log(1 + chunks.length / documentFrequency.get(term)!);
+      }
+    }
+    return score;
+  });
+
+  let ranked = chunks.map((_, i) => i).filter(i => scores[i] > 0).sort((a, b) => scores[b] - scores[a]);
+  if (ranked.length === 0) {
+    // Every nth chunk, so the excerpts cover the whole document
+    const averageChars = totalChars / chunks.length;
+    const step = Math.max(1, Math.ceil(chunks.length / Math.max(1, Math.floor(maxChars / averageChars))));
+    ranked = chunks.map((_, i) => i).filter(i => i % step === 0);
+  }
+
+  const picked: number[] = [];
+  let usedChars = 0;
+  for (const i of ranked) {
+    if (usedChars + chunks[i].text.length > maxChars) continue;
+    picked.push(i);
+    usedChars += chunks[i].text.length;
+  }
+
+  return picked.sort((a, b) => a - b).map(i => chunks[i]);
+};
+
+/**
+ * The text part a PDF is sent as: its excerpts, each tagged with its page, and
+ * how to cite them. Null when the PDF has no text (a scan), so it can be sent
+ * as a file instead.
+ */
+export const buildDocumentExcerpts = (document: string, pages: DocumentPage[], pageCount: number, question: string): string | null => {
+  const chunks = chunkPages(document, pages);
+  if (chunks.length === 0) return null;
+
+  const selected = selectRelevantChunks(question, chunks);
+  const whole = selected.length === chunks.length;
+  console.log(`[DOCUMENTS] ${document}: sending ${selected.length} of ${chunks.length} chunk(s) from ${pageCount} page(s)`);
+
+  return [
+    `Attached file "${document}" (PDF, ${pageCount} page${pageCount === 1 ? '' : 's'}). ${whole ? 'Its text' : 'The parts of it relevant to the question'}, each starting with its page:`,
+    ...selected.map(chunk => `[p. ${chunk.page}] ${chunk.text}`),
+    `When you use this document, cite the page after the statement, like [p. 4]. If more than one document is attached, include the file name, like [${document}, p. 4].`
+  ].join('\n\n');
+};
+
+// Read a PDF and build its excerpts for `question`
+export const readPdfExcerpts = async (file: File, question: string): Promise<string | null> => {
+  const { pages, pageCount } = await extractPdfPages(file);
+  return buildDocumentExcerpts(file.name, pages, pageCount, question);
+};
+
+// `[p. 4]`, `[p.4]`, `[pp. 4-5]` or `[notes.pdf, p. 4]`, not already a markdown link
+const CITATION_PATTERN = /\[(?:([^[\],]+?),\s*)?pp?\.\s?(\d+)(?:\s?[-–]\s?\d+)?\](?!\()/g;
+
+const CITATION_LINK = '#cite-';
+
+export const parseCitations = (text: string): Citation[] =>
+  [...text.matchAll(CITATION_PATTERN)].map(match => ({
+    ...(match[1] ? { document: match[1].trim() } : {}),
+    page: Number(match[2])
+  }));
+
+// Markdown with each citation marker turned into a link that `citationFromHref` reads back
+export const linkCitations = (markdown: string) =>
+  markdown.replace(CITATION_PATTERN, (marker, document: string | undefined, page: string) => {
+    const target = `${CITATION_LINK}${page}${document ? `-${encodeURIComponent(document.trim()).replace(/\(/g, '%28').replace(/\)/g, '%29')}` : ''}`;
+    return `[${marker.slice(1, -1)}](${target})`;
+  });
+
+export const citationFromHref = (href?: string): Citation | null => {
+  const match = href?.match(/^#cite-(\d+)(?:-(.+))?$/);
+  if (!match) return null;
+  return { ...(match[2] ? { document: decodeURIComponent(match[2]) } : {}), page: Number(match[1]) };
+};
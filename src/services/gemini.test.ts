@@ -0,0 +1,267 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { startMockGeminiServer, MockGeminiServer } from '../test/mockGeminiServer';
+import { geminiClient } from './geminiClient';
+import * as geminiService from './gemini';
+
+const STUDY_ANSWER = {
+  summary: 'Force equals mass times acceleration.',
+  subject: 'Physics',
+  topic: "Newton's Laws",
+  question: "What is Newton's second law?",
+  steps: ['Write the law as F = ma', 'Identify the mass and the acceleration'],
+  tips: []
+};
+
+// The text of every part sent to the API, for checking what the model saw
+const sentText = (body: any): string =>
+  body.contents.flatMap((turn: any) => turn.parts.map((part: any) => part.text || '')).join('\n');
+
+describe('gemini service', () => {
+  let server: MockGeminiServer;
+
+  beforeAll(async () => {
+    server = await startMockGeminiServer();
+    vi.stubEnv('VITE_GEMINI_PROXY_URL', server.url);
+    geminiClient.setRetryPolicy({ baseDelayMs: 0, maxDelayMs: 0 });
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  describe('fetchAvailableModels', () => {
+    it('lists the Gemini models from both API versions', async () => {
+      const models = await geminiService.fetchAvailableModels();
+
+      expect(models.map(model => model.id)).toContain('gemini-1.5-pro');
+      expect(models.filter(model => model.id === 'gemini-pro').map(model => model.apiVersion).sort()).toEqual(['v1', 'v1beta']);
+    });
+  });
+
+  describe('generateResponse', () => {
+    it('sends the whole conversation as alternating turns', async () => {
+      server.setHandler(() => ({ text: 'Nice to meet you, Sam.' }));
+
+      const response = await geminiService.generateResponse([
+        { role: 'user', content: 'Hi, my name is Sam' },
+        { role: 'assistant', content: 'Hello Sam!' },
+        { role: 'user', content: 'Say my name' }
+      ], 'gemini-pro');
+
+      expect(response.content).toBe('Nice to meet you, Sam.');
+      const { body } = server.requests[0];
+      expect(body.contents.map((turn: any) => turn.role)).toEqual(['user', 'model', 'user']);
+      expect(body.contents[2].parts).toEqual([{ text: 'Say my name' }]);
+    });
+
+    it('falls back to another model when the selected one is rate limited', async () => {
+      server.setHandler(({ model }) =>
+        model === 'gemini-pro' ? { text: 'Fallback answer' } : { status: 429, message: 'Resource has been exhausted' }
+      );
+
+      const response = await geminiService.generateResponse([{ role: 'user', content: 'Hello' }], 'gemini-2.0-flash');
+
+      expect(response.content).toBe('Fallback answer');
+      expect(server.requests.at(-1)?.model).toBe('gemini-pro');
+    });
+
+    it('explains the problem when every model is rate limited', async () => {
+      server.setHandler(() => ({ status: 429, message: 'Resource has been exhausted' }));
+
+      const response = await geminiService.generateResponse([{ role: 'user', content: 'Hello' }], 'gemini-pro');
+
+      expect(response.content).toContain('processing limits');
+    });
+
+    it('explains the problem when no model is available', async () => {
+      server.setHandler(() => ({ status: 404, message: 'Model not found' }));
+
+      const response = await geminiService.generateResponse([{ role: 'user', content: 'Hello' }], 'gemini-pro');
+
+      expect(response.content).toContain('different model');
+    });
+
+    it('truncates older messages and retries when the token limit is exceeded', async () => {
+      // 40 turns of ~12.5k estimated tokens each
+      const history = Array.from({ length: 40 }, (_, i) => ({
+        role: i % 2 === 0 ? 'user' : 'assistant',
+        content: `Message ${i} ` + 'x'.repeat(50000)
+      }));
+      let calls = 0;
+      server.setHandler(() =>
+        ++calls === 1
+          ? { status: 400, message: 'The input token count (1200000) exceeds the maximum number of tokens allowed (1048576).' }
+          : { text: 'Short answer' }
+      );
+
+      const response = await geminiService.generateResponse(history, 'gemini-pro');
+
+      expect(response.content).toBe('Short answer');
+      expect(server.requests).toHaveLength(2);
+
+      const [first, second] = server.requests.map(request => sentText(request.body));
+      expect(first).toContain('Message 0 ');
+      expect(second).not.toContain('Message 0 ');
+      expect(second).toContain('Message 39 ');
+      expect(second).toMatch(/earlier messages were removed/);
+    });
+
+    it('asks for study answers as JSON with a schema, on a model that supports it', async () => {
+      server.setHandler(() => ({ text: JSON.stringify(STUDY_ANSWER) }));
+
+      const response = await geminiService.generateResponse([{ role: 'user', content: "Explain Newton's second law" }], 'gemini-pro');
+
+      expect(response.study).toEqual(STUDY_ANSWER);
+      expect(response.content).toContain('### **Solution:**\n1. Write the law as F = ma');
+      const [request] = server.requests;
+      expect(request.model).toBe('gemini-1.5-flash');
+      expect(request.body.generationConfig.responseMimeType).toBe('application/json');
+      expect(request.body.generationConfig.responseSchema.required).toContain('steps');
+    });
+
+    it('answers plainly when the study answer is unusable', async () => {
+      server.setHandler(({ body }) => ({ text: body.generationConfig.responseSchema ? '{"summary": "cut off' : 'Force is mass times acceleration.' }));
+
+      const response = await geminiService.generateResponse([{ role: 'user', content: "Explain Newton's second law" }], 'gemini-2.0-flash');
+
+      expect(response).toEqual({ content: 'Force is mass times acceleration.' });
+      // The selected model supports schemas, so both requests go to it
+      expect(server.requests.map(request => request.model)).toEqual(['gemini-2.0-flash', 'gemini-2.0-flash']);
+    });
+
+    it('sends the text of attached files, not the stored parts, with a study question', async () => {
+      server.setHandler(() => ({ text: JSON.stringify(STUDY_ANSWER) }));
+      const content = JSON.stringify([
+        { text: 'Explain question 2' },
+        { text: 'Attached file "notes.md":\n\nForce is mass times acceleration', file: 'notes.md' }
+      ]);
+
+      const response = await geminiService.generateResponse([{ role: 'user', content }], 'gemini-1.5-flash');
+
+      expect(response.study).toEqual(STUDY_ANSWER);
+      const prompt = sentText(server.requests[0].body);
+      expect(prompt).toContain('Explain question 2');
+      expect(prompt).toContain('Force is mass times acceleration');
+      expect(prompt).not.toContain('"file"');
+    });
+
+    it('sends documents to the selected model and only images to the vision models', async () => {
+      server.setHandler(() => ({ text: JSON.stringify(STUDY_ANSWER) }));
+      const pdf = { inlineData: { mimeType: 'application/pdf', data: 'JVBERi0=' }, file: 'worksheet.pdf' };
+      const image = { inlineData: { mimeType: 'image/png', data: 'iVBORw0=' }, file: 'diagram.png' };
+
+      const withPdf = await geminiService.generateResponse([{ role: 'user', content: JSON.stringify([{ text: 'Explain question 2' }, pdf]) }], 'gemini-1.5-pro');
+      await geminiService.generateResponse([{ role: 'user', content: JSON.stringify([{ text: 'Explain question 2' }, image]) }], 'gemini-1.5-pro');
+
+      expect(withPdf.study).toEqual(STUDY_ANSWER);
+      const [pdfRequest, imageRequest] = server.requests;
+      expect(pdfRequest.model).toBe('gemini-1.5-pro');
+      expect(pdfRequest.body.contents.at(-1).parts.at(-1)).toEqual({ inlineData: pdf.inlineData });
+      expect(imageRequest.model).toBe('gemini-pro-vision');
+    });
+
+    it('replies with a notice when the prompt is blocked', async () => {
+      server.setHandler(() => ({ json: { promptFeedback: { blockReason: 'SAFETY' } } }));
+
+      const response = await geminiService.generateResponse([{ role: 'user', content: 'Hello' }], 'gemini-pro');
+
+      expect(response.content).toContain('safety filters');
+    });
+  });
+
+  describe('generateResponseStream', () => {
+    it('passes chunks to the callback and resolves with the full text', async () => {
+      server.setHandler(() => ({ chunks: ['One, ', 'two, ', 'three.'] }));
+      const chunks: string[] = [];
+
+      const response = await geminiService.generateResponseStream(
+        [{ role: 'user', content: 'Count to three' }],
+        'gemini-pro',
+        undefined,
+        chunk => chunks.push(chunk)
+      );
+
+      expect(chunks).toEqual(['One, ', 'two, ', 'three.']);
+      expect(response.content).toBe('One, two, three.');
+    });
+
+    it('delivers a study answer whole, once its JSON is complete', async () => {
+      server.setHandler(() => ({ text: JSON.stringify(STUDY_ANSWER) }));
+      const chunks: string[] = [];
+
+      const response = await geminiService.generateResponseStream(
+        [{ role: 'user', content: "Explain Newton's second law" }],
+        'gemini-1.5-pro',
+        undefined,
+        chunk => chunks.push(chunk)
+      );
+
+      expect(response.study).toEqual(STUDY_ANSWER);
+      expect(chunks).toEqual([response.content]);
+      expect(server.requests.map(request => request.method)).toEqual(['generateContent']);
+    });
+  });
+
+  describe('generateConceptCard', () => {
+    it('parses the JSON card out of a fenced response', async () => {
+      server.setHandler(() => ({
+        text: 'Here you go:\n```json\n{\n  "title": "Newton\'s Second Law",\n  "content": "Force equals mass times acceleration.",\n  "category": "Physics"\n}\n```'
+      }));
+
+      const card = await geminiService.generateConceptCard('What is F = ma?');
+
+      expect(card).toEqual({
+        title: "Newton's Second Law",
+        content: 'Force equals mass times acceleration.',
+        category: 'Physics'
+      });
+    });
+
+    it('replaces an unknown category with Other', async () => {
+      server.setHandler(() => ({ text: '{"title": "Derivatives", "content": "Rates of change.", "category": "Mathematics"}' }));
+
+      const card = await geminiService.generateConceptCard('What is a derivative?');
+
+      expect(card?.category).toBe('Other');
+    });
+
+    it('returns null when the response has no JSON', async () => {
+      server.setHandler(() => ({ text: 'Sorry, I cannot do that.' }));
+
+      expect(await geminiService.generateConceptCard('Anything')).toBeNull();
+    });
+
+    it('returns a placeholder card when every model is rate limited', async () => {
+      server.setHandler(() => ({ status: 429, message: 'Quota exceeded' }));
+
+      const card = await geminiService.generateConceptCard('Anything');
+
+      expect(card?.title).toBe('Concept Card Unavailable');
+    });
+  });
+
+  describe('generateChatTitle', () => {
+    it('strips quotes, prefixes and trailing periods', async () => {
+      server.setHandler(() => ({ text: '"Title: Photosynthesis Basics."' }));
+
+      expect(await geminiService.generateChatTitle('How does photosynthesis work?')).toBe('Photosynthesis Basics');
+    });
+
+    it('falls back to a timestamp title for unusable titles', async () => {
+      server.setHandler(() => ({ text: 'New Conversation' }));
+
+      expect(await geminiService.generateChatTitle('Hello')).toMatch(/^Chat \d+\/\d+\/\d{4}/);
+    });
+
+    it('falls back to a timestamp title when the request fails', async () => {
+      server.setHandler(() => ({ status: 500, message: 'Internal error' }));
+
+      expect(await geminiService.generateChatTitle('Hello')).toMatch(/^Chat /);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { startMockGeminiServer, MockGeminiServer } from '../test/mockGeminiServer';
+import {
+  GeminiClient,
+  RateLimitError,
+  ModelNotFoundError,
+  TokenLimitError,
+  SafetyBlockError,
+  buildRequestBody
+} from './geminiClient';
+
+const userTurn = (text: string) => ({ role: 'user', parts: [{ text }] });
+
+describe('GeminiClient', () => {
+  let server: MockGeminiServer;
+  let client: GeminiClient;
+
+  beforeAll(async () => {
+    server = await startMockGeminiServer();
+    vi.stubEnv('VITE_GEMINI_PROXY_URL', server.url);
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    client = new GeminiClient({ retryPolicy: { baseDelayMs: 0, maxDelayMs: 0 } });
+  });
+
+  it('returns the response text and the model that produced it', async () => {
+    server.setHandler(() => ({ text: 'Hello!' }));
+
+    const result = await client.generateContent({ task: 'chat', model: 'gemini-pro', contents: [userTurn('Hi')] });
+
+    expect(result.text).toBe('Hello!');
+    expect(result.model).toBe('gemini-pro');
+    expect(server.requests[0].apiVersion).toBe('v1');
+    expect(server.requests[0].headers['x-goog-api-key']).toBe('test-api-key');
+  });
+
+  it('retries server errors on the same model', async () => {
+    let calls = 0;
+    server.setHandler(() => (++calls === 1 ? { status: 503, message: 'Unavailable' } : { text: 'Recovered' }));
+
+    const result = await client.generateContent({ task: 'chat', model: 'gemini-pro', contents: [userTurn('Hi')] });
+
+    expect(result.text).toBe('Recovered');
+    expect(server.requests.map(r => r.model)).toEqual(['gemini-pro', 'gemini-pro']);
+  });
+
+  it('moves through the fallback chain when a model is rate limited', async () => {
+    server.setHandler(({ model }) =>
+      model === 'gemini-1.5-flash' ? { text: 'From flash' } : { status: 429, message: 'Quota exceeded', apiStatus: 'RESOURCE_EXHAUSTED' }
+    );
+
+    const result = await client.generateContent({ task: 'chat', model: 'gemini-2.0-flash', contents: [userTurn('Hi')] });
+
+    expect(result.model).toBe('gemini-1.5-flash');
+    // Three attempts per rate-limited model (first try plus two retries)
+    expect(server.requests.map(r => r.model)).toEqual([
+      'gemini-2.0-flash', 'gemini-2.0-flash', 'gemini-2.0-flash',
+      'gemini-pro', 'gemini-pro', 'gemini-pro',
+      'gemini-1.5-flash'
+    ]);
+  });
+
+  it('skips a missing model without retrying it', async () => {
+    server.setHandler(({ model }) =>
+      model === 'gemini-unknown' ? { status: 404, message: 'models/gemini-unknown is not found' } : { text: 'OK' }
+    );
+
+    const result = await client.generateContent({ task: 'title', model: 'gemini-unknown', contents: [userTurn('Hi')] });
+
+    expect(result.model).toBe('gemini-pro');
+    expect(server.requests.map(r => r.model)).toEqual(['gemini-unknown', 'gemini-pro']);
+  });
+
+  it('throws a RateLimitError once every model is exhausted', async () => {
+    server.setHandler(() => ({ status: 429, message: 'Quota exceeded', retryDelay: '0s' }));
+
+    await expect(
+      client.generateContent({ task: 'image', model: 'gemini-2.0-flash-exp-image-generation', contents: [userTurn('A cat')] })
+    ).rejects.toBeInstanceOf(RateLimitError);
+  });
+
+  it('throws a ModelNotFoundError when fallbacks are disabled', async () => {
+    server.setHandler(() => ({ status: 404, message: 'Not found', apiStatus: 'NOT_FOUND' }));
+
+    await expect(
+      client.generateContent({ task: 'chat', model: 'gemini-pro', contents: [userTurn('Hi')], fallback: false })
+    ).rejects.toBeInstanceOf(ModelNotFoundError);
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('does not retry token limit errors', async () => {
+    server.setHandler(() => ({ status: 400, message: 'The input token count (1048577) exceeds the maximum number of tokens allowed (1048576).' }));
+
+    await expect(
+      client.generateContent({ task: 'chat', model: 'gemini-pro', contents: [userTurn('Hi')] })
+    ).rejects.toBeInstanceOf(TokenLimitError);
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('throws a SafetyBlockError for blocked prompts', async () => {
+    server.setHandler(() => ({ json: { promptFeedback: { blockReason: 'SAFETY' } } }));
+
+    const error = await client
+      .generateContent({ task: 'chat', model: 'gemini-pro', contents: [userTurn('Hi')] })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(SafetyBlockError);
+    expect(error.reason).toBe('SAFETY');
+  });
+
+  it('streams chunks as they arrive', async () => {
+    server.setHandler(() => ({ chunks: ['Hel', 'lo ', 'world'] }));
+    const chunks: string[] = [];
+
+    const result = await client.streamContent(
+      { task: 'chat', model: 'gemini-pro', contents: [userTurn('Hi')] },
+      chunk => chunks.push(chunk)
+    );
+
+    expect(chunks).toEqual(['Hel', 'lo ', 'world']);
+    expect(result.text).toBe('Hello world');
+    expect(server.requests[0].method).toBe('streamGenerateContent');
+  });
+
+  it('calls the request, response and error hooks', async () => {
+    const events: string[] = [];
+    client.use({
+      onRequest: ({ model, attempt }) => events.push(`request ${model} #${attempt}`),
+      onResponse: ({ model, text }) => events.push(`response ${model} ${text}`),
+      onError: ({ model, error }) => events.push(`error ${model} ${(error as Error).name}`)
+    });
+    server.setHandler(({ model }) => (model === 'gemini-pro' ? { text: 'Done' } : { status: 404, message: 'Not found' }));
+
+    await client.generateContent({ task: 'chat', model: 'gemini-old', contents: [userTurn('Hi')] });
+
+    expect(events).toEqual([
+      'request gemini-old #1',
+      'error gemini-old ModelNotFoundError',
+      'request gemini-pro #2',
+      'response gemini-pro Done'
+    ]);
+  });
+
+  it('stops retrying when the request is cancelled', async () => {
+    const controller = new AbortController();
+    server.setHandler(() => {
+      controller.abort();
+      return { status: 503, message: 'Unavailable' };
+    });
+
+    const error = await client
+      .generateContent({ task: 'chat', model: 'gemini-pro', contents: [userTurn('Hi')], signal: controller.signal })
+      .catch(e => e);
+
+    expect(error.name).toBe('AbortError');
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('embeds texts in one batch request', async () => {
+    server.setEmbedHandler(texts => ({ embeddings: texts.map(text => [text.length, 1]) }));
+
+    const vectors = await client.embedContents({
+      model: 'gemini-embedding-001',
+      texts: ['force', 'acceleration'],
+      taskType: 'RETRIEVAL_DOCUMENT'
+    });
+
+    expect(vectors).toEqual([[5, 1], [12, 1]]);
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0].apiVersion).toBe('v1beta');
+    expect(server.requests[0].body.requests[0]).toEqual({
+      model: 'models/gemini-embedding-001',
+      content: { parts: [{ text: 'force' }] },
+      taskType: 'RETRIEVAL_DOCUMENT'
+    });
+  });
+
+  it('does not fall back to another model for embeddings', async () => {
+    const error = await client.embedContents({ model: 'gemini-embedding-001', texts: ['force'] }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ModelNotFoundError);
+    expect(server.requests.map(r => r.model)).toEqual(['gemini-embedding-001']);
+  });
+});
+
+describe('buildRequestBody', () => {
+  it('uses systemInstruction on v1beta', () => {
+    const body = buildRequestBody([userTurn('Hi')], 'Be brief', 'v1beta');
+    expect(body).toMatchObject({ systemInstruction: { parts: [{ text: 'Be brief' }] } });
+  });
+
+  it('prepends the instruction to the first user turn on v1', () => {
+    const body = buildRequestBody([userTurn('Hi')], 'Be brief', 'v1');
+    expect(body.contents[0].parts).toEqual([{ text: 'Be brief' }, { text: 'Hi' }]);
+    expect(body).not.toHaveProperty('systemInstruction');
+  });
+});
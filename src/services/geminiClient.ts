@@ -0,0 +1,533 @@
+import { GoogleGenerativeAIAbortError, Content, GenerationConfig, Part, GenerateContentResponse } from '@google/generative-ai';
+import * as credentials from './credentials';
+
+/**
+ * Shared client for every Gemini `generateContent` call.
+ *
+ * Each request names a task (chat, concept card, quiz, title, ...). The requested
+ * model is tried first, then the task's fallback chain. Transient failures are
+ * retried with exponential backoff before moving on to the next model, and
+ * failures are surfaced as typed errors so callers can react to them without
+ * string matching.
+ */
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+// Base class for all errors returned by the Gemini API
+export class GeminiError extends Error {
+  status?: number;
+  model?: string;
+
+  constructor(message: string, options: { status?: number; model?: string } = {}) {
+    super(message);
+    this.name = 'GeminiError';
+    this.status = options.status;
+    this.model = options.model;
+  }
+}
+
+// Quota exhausted or too many requests (HTTP 429)
+export class RateLimitError extends GeminiError {
+  retryAfterMs?: number;
+
+  constructor(message: string, options: { status?: number; model?: string; retryAfterMs?: number } = {}) {
+    super(message, options);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+// The model does not exist or is not available for this API version (HTTP 404)
+export class ModelNotFoundError extends GeminiError {
+  constructor(message: string, options: { status?: number; model?: string } = {}) {
+    super(message, options);
+    this.name = 'ModelNotFoundError';
+  }
+}
+
+// The request is larger than the model's input token limit
+export class TokenLimitError extends GeminiError {
+  constructor(message: string, options: { status?: number; model?: string } = {}) {
+    super(message, options);
+    this.name = 'TokenLimitError';
+  }
+}
+
+// The prompt or the response was blocked by the safety filters
+export class SafetyBlockError extends GeminiError {
+  reason?: string;
+
+  constructor(message: string, options: { status?: number; model?: string; reason?: string } = {}) {
+    super(message, options);
+    this.name = 'SafetyBlockError';
+    this.reason = options.reason;
+  }
+}
+
+// Check whether an error was caused by cancelling a request through an AbortSignal
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof GoogleGenerativeAIAbortError ||
+    (error instanceof Error && error.name === 'AbortError');
+};
+
+// Throw an AbortError if the signal has already been cancelled
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException('Generation was cancelled', 'AbortError');
+  }
+};
+
+// Parse a `retryDelay` such as "12s" or a Retry-After header into milliseconds
+const parseRetryDelay = (value?: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = parseFloat(value);
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+};
+
+// Turn a failed HTTP response into the matching error class
+export const errorFromResponse = async (response: Response, model: string): Promise<GeminiError> => {
+  let message = `Gemini API request failed with status ${response.status}`;
+  let apiStatus = '';
+  let retryAfterMs = parseRetryDelay(response.headers.get('retry-after'));
+
+  try {
+    const data = await response.json();
+    if (data?.error?.message) message = data.error.message;
+    apiStatus = data?.error?.status || '';
+
+    const retryInfo = (data?.error?.details || []).find((detail: any) => detail?.retryDelay);
+    retryAfterMs = parseRetryDelay(retryInfo?.retryDelay) ?? retryAfterMs;
+  } catch (e) {
+    // Not a JSON error body; keep the generic message
+  }
+
+  const options = { status: response.status, model };
+  const lowerMessage = message.toLowerCase();
+
+  if (response.status === 429 || apiStatus === 'RESOURCE_EXHAUSTED') {
+    return new RateLimitError(message, { ...options, retryAfterMs });
+  }
+  if (response.status === 404 || apiStatus === 'NOT_FOUND') {
+    return new ModelNotFoundError(message, options);
+  }
+  if (lowerMessage.includes('token') && lowerMessage.includes('exceed')) {
+    return new TokenLimitError(message, options);
+  }
+  return new GeminiError(message, options);
+};
+
+// Finish reasons that mean the candidate was withheld by the safety filters
+const SAFETY_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'RECITATION'];
+
+// Throw a SafetyBlockError if the prompt or the first candidate was blocked
+const assertNotBlocked = (data: GenerateContentResponse, model: string) => {
+  const blockReason = data?.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockError(`Prompt was blocked: ${blockReason}`, { model, reason: blockReason });
+  }
+
+  const candidate = data?.candidates?.[0];
+  const finishReason = candidate?.finishReason as string | undefined;
+  const hasParts = Boolean(candidate?.content?.parts?.length);
+  if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason) && !hasParts) {
+    throw new SafetyBlockError(`Response was blocked: ${finishReason}`, { model, reason: finishReason });
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Models, fallbacks and retries
+// ---------------------------------------------------------------------------
+
+export type GeminiTask = 'chat' | 'study' | 'intent' | 'vision' | 'conceptCard' | 'quiz' | 'title' | 'image' | 'embedding';
+
+// Models to try, in order, after the requested one fails with a rate limit or 404
+export const FALLBACK_CHAINS: Record<GeminiTask, string[]> = {
+  chat: ['gemini-pro', 'gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-pro-vision'],
+  // Models that can answer with a response schema
+  study: ['gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-2.0-flash'],
+  intent: ['gemini-1.5-flash', 'gemini-2.0-flash'],
+  vision: ['gemini-pro-vision', 'gemini-1.5-pro', 'gemini-1.5-flash'],
+  conceptCard: ['gemini-pro', 'gemini-1.5-pro', 'gemini-1.5-flash'],
+  quiz: ['gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-pro'],
+  title: ['gemini-pro', 'gemini-1.5-flash', 'gemini-1.0-pro'],
+  image: [],
+  // Vectors from different embedding models can't be compared
+  embedding: []
+};
+
+// Model to API version mapping
+const MODEL_API_VERSIONS: Record<string, string> = {
+  'gemini-pro': 'v1',
+  'gemini-pro-vision': 'v1',
+  'gemini-1.5-pro': 'v1',
+  'gemini-1.5-flash': 'v1',
+  'gemini-2.0-flash': 'v1beta',
+  'gemini-2.0-pro': 'v1beta',
+  'gemini-2.0-flash-exp-image-generation': 'v1beta',
+  'gemini-embedding-001': 'v1beta'
+};
+
+// Get the API version for a given model ID
+export const getApiVersion = (modelId: string): string => {
+  return MODEL_API_VERSIONS[modelId] || 'v1'; // Default to v1 if unknown
+};
+
+export type RetryPolicy = {
+  maxRetries: number;   // Retries per model, not counting the first attempt
+  baseDelayMs: number;  // Delay before the first retry; doubled for each one after
+  maxDelayMs: number;   // Upper bound for a single delay
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000
+};
+
+// Errors worth retrying on the same model: rate limits, server errors and network failures
+const isRetryable = (error: unknown): boolean => {
+  if (error instanceof RateLimitError) return true;
+  if (error instanceof ModelNotFoundError || error instanceof TokenLimitError || error instanceof SafetyBlockError) {
+    return false;
+  }
+  if (error instanceof GeminiError) return (error.status || 0) >= 500;
+  return error instanceof TypeError; // fetch rejects with a TypeError on network errors
+};
+
+// Errors that should move the request on to the next model in the chain
+const shouldFallback = (error: unknown): boolean => {
+  return error instanceof RateLimitError || error instanceof ModelNotFoundError;
+};
+
+// Exponential backoff with jitter, honouring the server's retry delay when given
+const getRetryDelay = (policy: RetryPolicy, retry: number, error: unknown): number => {
+  if (error instanceof RateLimitError && error.retryAfterMs) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  }
+  const delay = policy.baseDelayMs * Math.pow(2, retry);
+  return Math.min(delay + Math.random() * policy.baseDelayMs, policy.maxDelayMs);
+};
+
+// Wait for the given time unless the signal is cancelled first
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    throwIfAborted(signal);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Generation was cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// ---------------------------------------------------------------------------
+// Requests and hooks
+// ---------------------------------------------------------------------------
+
+export type GeminiRequest = {
+  task: GeminiTask;
+  model: string;
+  contents: Content[];
+  systemInstruction?: string;
+  generationConfig?: GenerationConfig & Record<string, unknown>;
+  signal?: AbortSignal;
+  fallback?: boolean; // Set to false to only try the requested model
+};
+
+export type GeminiResult = {
+  text: string;
+  parts: Part[];
+  model: string;
+  response: GenerateContentResponse;
+};
+
+export type GeminiEmbedRequest = {
+  model: string;
+  texts: string[];
+  // Queries and the documents they are matched against are embedded differently
+  taskType?: 'RETRIEVAL_QUERY' | 'RETRIEVAL_DOCUMENT';
+  outputDimensionality?: number;
+  signal?: AbortSignal;
+};
+
+export type GeminiRequestEvent = { task: GeminiTask; model: string; attempt: number; path: string; body: unknown };
+export type GeminiResponseEvent = { task: GeminiTask; model: string; attempt: number; durationMs: number; text: string };
+export type GeminiErrorEvent = { task: GeminiTask; model: string; attempt: number; error: unknown };
+
+export type GeminiClientHooks = {
+  onRequest?: (event: GeminiRequestEvent) => void;
+  onResponse?: (event: GeminiResponseEvent) => void;
+  onError?: (event: GeminiErrorEvent) => void;
+};
+
+// Build a REST `generateContent` body.
+// v1beta accepts a `systemInstruction` field; for v1 the instruction is
+// prepended to the first user turn instead.
+export const buildRequestBody = (
+  contents: Content[],
+  systemInstruction: string | undefined,
+  apiVersion: string,
+  generationConfig: Record<string, unknown> = {}
+) => {
+  if (!systemInstruction) {
+    return { contents, generationConfig };
+  }
+
+  if (apiVersion === 'v1beta') {
+    return {
+      contents,
+      systemInstruction: { parts: [{ text: systemInstruction }] },
+      generationConfig
+    };
+  }
+
+  const [firstTurn, ...rest] = contents;
+  const contentsWithInstruction = firstTurn
+    ? [{ ...firstTurn, parts: [{ text: systemInstruction }, ...firstTurn.parts] }, ...rest]
+    : [{ role: 'user', parts: [{ text: systemInstruction }] }];
+
+  return {
+    contents: contentsWithInstruction,
+    generationConfig
+  };
+};
+
+// Concatenate the text parts of the first candidate
+const getText = (parts: Part[]): string => {
+  return parts.map(part => part.text || '').join('');
+};
+
+export class GeminiClient {
+  private hooks: GeminiClientHooks[] = [];
+  private retryPolicy: RetryPolicy;
+
+  constructor(options: { retryPolicy?: Partial<RetryPolicy>; hooks?: GeminiClientHooks } = {}) {
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
+    if (options.hooks) this.hooks.push(options.hooks);
+  }
+
+  // Change how transient errors are retried, e.g. to disable the delays in tests
+  setRetryPolicy(policy: Partial<RetryPolicy>) {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
+
+  // Register request/response hooks; returns a function that removes them again
+  use(hooks: GeminiClientHooks): () => void {
+    this.hooks.push(hooks);
+    return () => {
+      this.hooks = this.hooks.filter(registered => registered !== hooks);
+    };
+  }
+
+  // Generate a complete response
+  async generateContent(request: GeminiRequest): Promise<GeminiResult> {
+    return this.withFallbacks(request, (model, attempt) => this.requestOnce(request, model, attempt));
+  }
+
+  // Generate a response token-by-token. `onChunk` receives each piece of text
+  // as it arrives. A stream that fails part-way is not retried, because the
+  // caller has already shown the text it received.
+  async streamContent(request: GeminiRequest, onChunk: (text: string) => void): Promise<GeminiResult> {
+    let receivedText = false;
+    const trackChunk = (text: string) => {
+      receivedText = true;
+      onChunk(text);
+    };
+
+    return this.withFallbacks(
+      request,
+      (model, attempt) => this.streamOnce(request, model, attempt, trackChunk),
+      () => receivedText
+    );
+  }
+
+  // Embed texts with one `batchEmbedContents` request, returning a vector per text
+  async embedContents(request: GeminiEmbedRequest): Promise<number[][]> {
+    return this.withFallbacks(
+      { task: 'embedding', model: request.model, signal: request.signal, fallback: false },
+      (model, attempt) => this.embedOnce(request, model, attempt)
+    );
+  }
+
+  // Try the requested model, then its fallback chain, retrying transient errors on each
+  private async withFallbacks<T>(
+    request: Pick<GeminiRequest, 'task' | 'model' | 'signal' | 'fallback'>,
+    run: (model: string, attempt: number) => Promise<T>,
+    isCommitted: () => boolean = () => false
+  ): Promise<T> {
+    const chain = request.fallback === false
+      ? [request.model]
+      : [request.model, ...FALLBACK_CHAINS[request.task].filter(model => model !== request.model)];
+
+    let lastError: unknown = null;
+    let attempt = 0;
+
+    for (const model of chain) {
+      for (let retry = 0; retry <= this.retryPolicy.maxRetries; retry++) {
+        throwIfAborted(request.signal);
+        attempt++;
+
+        try {
+          return await run(model, attempt);
+        } catch (error) {
+          lastError = error;
+          this.emit('onError', { task: request.task, model, attempt, error });
+
+          if (isAbortError(error) || isCommitted()) throw error;
+          if (!isRetryable(error) || retry === this.retryPolicy.maxRetries) break;
+
+          const delay = getRetryDelay(this.retryPolicy, retry, error);
+          console.log(`[GEMINI CLIENT] ${request.task}: retrying ${model} in ${Math.round(delay)}ms`);
+          await sleep(delay, request.signal);
+        }
+      }
+
+      if (!shouldFallback(lastError)) break;
+      console.log(`[GEMINI CLIENT] ${request.task}: ${model} unavailable, trying next fallback model`);
+    }
+
+    throw lastError;
+  }
+
+  private prepare(request: GeminiRequest, model: string, method: string) {
+    const apiVersion = getApiVersion(model);
+    const body = buildRequestBody(request.contents, request.systemInstruction, apiVersion, request.generationConfig);
+    const path = `${apiVersion}/models/${model}:${method}`;
+    return { body, path };
+  }
+
+  private async requestOnce(request: GeminiRequest, model: string, attempt: number): Promise<GeminiResult> {
+    const { body, path } = this.prepare(request, model, 'generateContent');
+    this.emit('onRequest', { task: request.task, model, attempt, path, body });
+    const startedAt = Date.now();
+
+    const response = await credentials.geminiFetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, model);
+    }
+
+    const data: GenerateContentResponse = await response.json();
+    assertNotBlocked(data, model);
+
+    const parts = data?.candidates?.[0]?.content?.parts || [];
+    const text = getText(parts);
+    this.emit('onResponse', { task: request.task, model, attempt, durationMs: Date.now() - startedAt, text });
+
+    return { text, parts, model, response: data };
+  }
+
+  private async streamOnce(
+    request: GeminiRequest,
+    model: string,
+    attempt: number,
+    onChunk: (text: string) => void
+  ): Promise<GeminiResult> {
+    const { body, path } = this.prepare(request, model, 'streamGenerateContent?alt=sse');
+    this.emit('onRequest', { task: request.task, model, attempt, path, body });
+    const startedAt = Date.now();
+
+    const response = await credentials.geminiFetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: request.signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw await errorFromResponse(response, model);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const parts: Part[] = [];
+    let lastResponse = {} as GenerateContentResponse;
+    let buffer = '';
+
+    // Server-sent events: one JSON response per `data:` line
+    const handleEvent = (line: string) => {
+      if (!line.startsWith('data:')) return;
+      const data: GenerateContentResponse = JSON.parse(line.slice('data:'.length).trim());
+      lastResponse = data;
+      assertNotBlocked(data, model);
+
+      const chunkParts = data?.candidates?.[0]?.content?.parts || [];
+      parts.push(...chunkParts);
+      const chunkText = getText(chunkParts);
+      if (chunkText) onChunk(chunkText);
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || '';
+      lines.forEach(handleEvent);
+    }
+    if (buffer) handleEvent(buffer);
+
+    const text = getText(parts);
+    this.emit('onResponse', { task: request.task, model, attempt, durationMs: Date.now() - startedAt, text });
+
+    return { text, parts, model, response: lastResponse };
+  }
+
+  private async embedOnce(request: GeminiEmbedRequest, model: string, attempt: number): Promise<number[][]> {
+    const path = `${getApiVersion(model)}/models/${model}:batchEmbedContents`;
+    const body = {
+      requests: request.texts.map(text => ({
+        model: `models/${model}`,
+        content: { parts: [{ text }] },
+        ...(request.taskType ? { taskType: request.taskType } : {}),
+        ...(request.outputDimensionality ? { outputDimensionality: request.outputDimensionality } : {})
+      }))
+    };
+    this.emit('onRequest', { task: 'embedding', model, attempt, path, body });
+    const startedAt = Date.now();
+
+    const response = await credentials.geminiFetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, model);
+    }
+
+    const data: { embeddings?: { values: number[] }[] } = await response.json();
+    if (!data.embeddings || data.embeddings.length !== request.texts.length) {
+      throw new GeminiError(`Expected ${request.texts.length} embeddings from ${model}, got ${data.embeddings?.length || 0}`, { status: response.status, model });
+    }
+
+    this.emit('onResponse', { task: 'embedding', model, attempt, durationMs: Date.now() - startedAt, text: '' });
+    return data.embeddings.map(embedding => embedding.values);
+  }
+
+  private emit<K extends keyof GeminiClientHooks>(name: K, event: Parameters<NonNullable<GeminiClientHooks[K]>>[0]) {
+    for (const hooks of this.hooks) {
+      try {
+        (hooks[name] as ((event: unknown) => void) | undefined)?.(event);
+      } catch (error) {
+        console.error(`[GEMINI CLIENT] ${name} hook failed:`, error);
+      }
+    }
+  }
+}
+
+// Shared client used by the Gemini service
+export const geminiClient = new GeminiClient();
@@ -0,0 +1,71 @@
+import { v4 as uuidv4 } from 'uuid';
+import * as localDb from './localDb';
+import { withAttachmentUrls } from './attachments';
+import { searchLocally } from './search';
+import { activePath } from './messageTree';
+import { prepareShare } from './shares';
+import { prepareChatUpdates, prepareConceptCard, prepareTodo } from './repository';
+import type { Repository } from './repository';
+
+/**
+ * Keeps everything in IndexedDB, in this browser only.
+ * Used when no Supabase project is configured.
+ */
+export const createIndexedDbRepository = (): Repository => ({
+  backend: 'indexeddb',
+
+  prepare: async () => {
+    console.log('[REPOSITORY] Storing data in this browser (IndexedDB)');
+  },
+
+  getChats: () => localDb.getChats(),
+  createChat: (title, model) => localDb.createChat(title, model),
+  renameChat: (chatId, newTitle) => localDb.renameChat(chatId, newTitle),
+  updateChat: (chatId, updates) => localDb.updateChat(chatId, prepareChatUpdates(updates)),
+  deleteChat: chatId => localDb.deleteChat(chatId),
+  search: async (query, limit) => searchLocally(await localDb.getChats(), await localDb.getAllMessages(), query, limit),
+
+  getChatFolders: () => localDb.getChatFolders(),
+  createChatFolder: name => localDb.createChatFolder(name.trim()),
+  renameChatFolder: (folderId, name) => localDb.renameChatFolder(folderId, name.trim()),
+  deleteChatFolder: async folderId => {
+    await localDb.deleteChatFolder(folderId);
+    return true;
+  },
+
+  getChatMessages: async (chatId, messageId) =>
+    withAttachmentUrls(activePath(await localDb.getChatMessages(chatId), messageId), localDb.getFileUrls),
+  getMessageTree: async chatId => withAttachmentUrls(await localDb.getChatMessages(chatId), localDb.getFileUrls),
+  addChatMessage: message => localDb.addChatMessage(message),
+  saveAttachment: (chatId, file, thumbnail, name) => localDb.saveAttachment('local', chatId, file, thumbnail, name),
+
+  getConceptCards: category => localDb.getConceptCards(category),
+  addConceptCard: async card => {
+    const prepared = prepareConceptCard(card);
+    return prepared ? localDb.addConceptCard(prepared) : null;
+  },
+  updateConceptCard: (cardId, updates) =>
+    localDb.updateConceptCard(cardId, { ...updates, updated_at: new Date().toISOString() }),
+  deleteConceptCard: cardId => localDb.deleteConceptCard(cardId),
+
+  getCardReviews: () => localDb.getCardReviews(),
+  saveCardReview: review => localDb.putCardReview(review),
+
+  getQuizAttempts: () => localDb.getQuizAttempts(),
+  addQuizAttempt: attempt => localDb.addQuizAttempt({ ...attempt, id: uuidv4(), created_at: new Date().toISOString() }),
+
+  getTodos: () => localDb.getTodos(),
+  addTodo: todo => localDb.addTodo(prepareTodo(todo, uuidv4())),
+  updateTodo: (todoId, updates) =>
+    localDb.updateTodo(todoId, { ...updates, updated_at: new Date().toISOString() }),
+  deleteTodo: todoId => localDb.deleteTodo(todoId),
+
+  // Share links, which open only in this browser
+  getShares: () => localDb.getShares(),
+  createShare: share => localDb.addShare(prepareShare(share, uuidv4())),
+  revokeShare: shareId => {
+    const timestamp = new Date().toISOString();
+    return localDb.updateShare(shareId, { revoked_at: timestamp, updated_at: timestamp });
+  },
+  getSharedContent: token => localDb.getSharedContent(token)
+});
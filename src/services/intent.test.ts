@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { startMockGeminiServer, MockGeminiServer } from '../test/mockGeminiServer';
+import { geminiClient } from './geminiClient';
+import { classifyIntent, classifyIntentLocally, intentOf, parseIntent } from './intent';
+
+describe('intent', () => {
+  describe('classifyIntentLocally', () => {
+    it('tells study questions from questions about chats', () => {
+      expect(classifyIntentLocally("What is Newton's second law?")).toMatchObject({ kind: 'educational', subject: 'Physics', source: 'heuristic' });
+      expect(classifyIntentLocally('Explain the difference between weather and climate')).toMatchObject({ kind: 'educational', subject: null });
+      expect(classifyIntentLocally('Show me a chat about physics').kind).toBe('casual');
+      expect(classifyIntentLocally('Hello there!').kind).toBe('casual');
+    });
+
+    it('recognises images, code and summaries', () => {
+      expect(classifyIntentLocally('/image a cat on a skateboard')).toMatchObject({ kind: 'image_generation', confidence: 1 });
+      expect(classifyIntentLocally('Draw me a volcano').kind).toBe('image_generation');
+      expect(classifyIntentLocally('Fix this Python function').kind).toBe('code');
+      expect(classifyIntentLocally('Summarize the chapter on photosynthesis')).toMatchObject({ kind: 'summary', subject: 'Biology' });
+    });
+  });
+
+  it('keeps the intent a message was sent with', () => {
+    const intent = { kind: 'casual' as const, subject: null, topic: null, confidence: 0.9, source: 'model' as const };
+
+    expect(intentOf({ content: "What is Newton's second law?", intent })).toBe(intent);
+    expect(intentOf({ content: "What is Newton's second law?" }).kind).toBe('educational');
+  });
+
+  it('parses the model JSON, rejecting unknown kinds', () => {
+    expect(parseIntent('{"kind": "educational", "subject": "Chemistry", "topic": " Equilibrium ", "confidence": 1.4}')).toEqual({
+      kind: 'educational',
+      subject: 'Chemistry',
+      topic: 'Equilibrium',
+      confidence: 1,
+      source: 'model'
+    });
+    expect(parseIntent('{"kind": "homework", "confidence": 0.9}')).toBeNull();
+    expect(parseIntent('educational')).toBeNull();
+  });
+
+  describe('classifyIntent', () => {
+    let server: MockGeminiServer;
+
+    beforeAll(async () => {
+      server = await startMockGeminiServer();
+      vi.stubEnv('VITE_GEMINI_PROXY_URL', server.url);
+      geminiClient.setRetryPolicy({ baseDelayMs: 0, maxDelayMs: 0 });
+    });
+
+    afterAll(async () => {
+      vi.unstubAllEnvs();
+      await server.close();
+    });
+
+    beforeEach(() => {
+      server.reset();
+    });
+
+    it('asks the model with a schema and caches the answer per message', async () => {
+      server.setHandler(() => ({ text: '{"kind": "educational", "subject": "Physics", "topic": "Kinematics", "confidence": 0.92}' }));
+      const message = { id: 'intent-model', content: 'How far does a ball thrown at 10 m/s go?' };
+
+      const intent = await classifyIntent(message);
+
+      expect(intent).toEqual({ kind: 'educational', subject: 'Physics', topic: 'Kinematics', confidence: 0.92, source: 'model' });
+      expect(await classifyIntent(message)).toBe(intent);
+      expect(server.requests).toHaveLength(1);
+      expect(server.requests[0].body.generationConfig.responseSchema.required).toContain('kind');
+    });
+
+    it('falls back to the keyword rules when the model fails', async () => {
+      server.setHandler(() => ({ status: 400, message: 'Invalid request' }));
+
+      const intent = await classifyIntent({ id: 'intent-failed', content: 'Solve 2x + 3 = 7' });
+
+      expect(intent).toMatchObject({ kind: 'educational', source: 'heuristic' });
+    });
+
+    it('needs no model for image commands', async () => {
+      expect((await classifyIntent({ id: 'intent-image', content: '/image a red fox' })).kind).toBe('image_generation');
+      expect(server.requests).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { SchemaType } from '@google/generative-ai';
+import type { ResponseSchema } from '@google/generative-ai';
+import { geminiClient, isAbortError } from './geminiClient';
+import { messageText } from './repository';
+import type { ChatMessage, IntentKind, MessageIntent } from './repository';
+
+/**
+ * What a message asks for, decided in one place.
+ *
+ * A question is casual, educational, a request for an image, about code, or a
+ * request for a summary, with its subject and topic when it has them. Whether
+ * it gets a study answer, a concept card and the study styling all follow from
+ * that. A quick Gemini call classifies each question when it is sent; when the
+ * call fails, keyword rules make a guess with a lower confidence. The intent is
+ * kept on the message, and classifications are cached per message id, so every
+ * place that asks sees the same answer.
+ */
+
+export const INTENT_KINDS: IntentKind[] = ['casual', 'educational', 'image_generation', 'code', 'summary'];
+
+const INTENT_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    kind: { type: SchemaType.STRING, format: 'enum', enum: INTENT_KINDS },
+    subject: { type: SchemaType.STRING, nullable: true, description: 'The school subject, e.g. Physics; null unless educational' },
+    topic: { type: SchemaType.STRING, nullable: true, description: 'The topic within the subject, e.g. Kinematics' },
+    confidence: { type: SchemaType.NUMBER, description: 'How sure the classification is, from 0 to 1' }
+  },
+  required: ['kind', 'subject', 'topic', 'confidence']
+};
+
+// Enough of a long message to tell what it is about
+const MAX_CLASSIFIED_CHARS = 2000;
+const MAX_CACHED = 500;
+
+const cache = new Map<string, MessageIntent>();
+
+// Subjects recognised by the keyword rules, the first match wins
+const SUBJECTS: [string, RegExp][] = [
+  ['Physics', /\b(physics|force|velocity|acceleration|momentum|gravity|gravitational|newton|kinematics|thermodynamics|optics|circuit|voltage|current|magnetic|electric|quantum|wavelength|friction)s?\b/i],
+  ['Chemistry', /\b(chemistry|chemical|molecule|atom|compound|reaction|acid|base|ph|bond|mole|oxidation|equilibrium|titration|organic|periodic table|isotope)s?\b/i],
+  ['Biology', /\b(biology|cell|gene|dna|rna|protein|enzyme|evolution|ecosystem|organism|photosynthesis|osmosis|diffusion|mitosis|meiosis|anatomy|respiration)s?\b/i],
+  ['Mathematics', /\b(math|maths|mathematics|algebra|geometry|calculus|derivative|integral|theorem|trigonometry|probability|statistics|fraction|matrix|matrices|polynomial|logarithm)s?\b/i],
+  ['History', /\b(history|historical|revolution|empire|civilization|dynasty|world war)s?\b/i],
+  ['Economics', /\b(economics|economy|inflation|gdp|supply and demand|interest rate)s?\b/i]
+];
+
+const IMAGE_REQUEST = /\b(draw|paint|sketch)\b|\b(generate|create|make)\s+(me\s+)?(an?\s+)?(image|picture|drawing|illustration|logo)\b/i;
+const SUMMARY_REQUEST = /\b(summari[sz]e|summary|tl;?dr|recap)\b/i;
+const CODE_REQUEST = /```|\b(code|coding|debug|compile|javascript|typescript|python|java|c\+\+|sql|regex|html|css|programming)\b|stack trace/i;
+const SMALL_TALK = /^(hi|hello|hey|thanks|thank you|good (morning|afternoon|evening)|how are you|bye)\b/i;
+// Questions about the app or the user's own chats, e.g. "show me a chat about physics"
+const ABOUT_CHATS = /\b(my|our|this|that|a|the) (chat|conversation)s?\b/i;
+const STUDY_REQUEST = /\b(explain|calculate|solve|derive|prove|define|simplify|differentiate|integrate|balance|homework|exam|assignment|formula|equation|theorem|step by step|difference between|definition of|principles? of|theory of|introduction to)\b/i;
+const QUESTION = /^(what|why|how|when|which|who|where|is|are|does|do|can|could)\b|\?\s*$/;
+
+const heuristic = (kind: IntentKind, confidence: number, subject: string | null = null): MessageIntent => ({
+  kind,
+  subject,
+  topic: null,
+  confidence,
+  source: 'heuristic'
+});
+
+// The intent of a message's text by keyword rules, without asking the model
+export const classifyIntentLocally = (text: string): MessageIntent => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('/image ')) return heuristic('image_generation', 1);
+  if (!trimmed) return heuristic('casual', 1);
+
+  const subject = SUBJECTS.find(([, pattern]) => pattern.test(trimmed))?.[0] ?? null;
+
+  if (IMAGE_REQUEST.test(trimmed)) return heuristic('image_generation', 0.6);
+  if (SUMMARY_REQUEST.test(trimmed)) return heuristic('summary', 0.6, subject);
+  if (CODE_REQUEST.test(trimmed)) return heuristic('code', 0.6);
+  if (SMALL_TALK.test(trimmed) && trimmed.split(/\s+/).length <= 6) return heuristic('casual', 0.8);
+  if (ABOUT_CHATS.test(trimmed)) return heuristic('casual', 0.5, subject);
+  if (STUDY_REQUEST.test(trimmed) || (QUESTION.test(trimmed.toLowerCase()) && subject)) {
+    return heuristic('educational', subject ? 0.7 : 0.5, subject);
+  }
+  return heuristic('casual', 0.4, subject);
+};
+
+// The intent kept on a message, or the keyword rules' guess for messages sent before intents were
+export const intentOf = (message: Pick<ChatMessage, 'content' | 'intent'>): MessageIntent =>
+  message.intent ?? classifyIntentLocally(messageText(message.content));
+
+// An intent from the model's JSON, or null when it isn't one
+export const parseIntent = (response: string): MessageIntent | null => {
+  const json = response.match(/\{[\s\S]*\}/);
+  if (!json) return null;
+
+  let raw: any;
+  try {
+    raw = JSON.parse(json[0]);
+  } catch {
+    return null;
+  }
+  if (!INTENT_KINDS.includes(raw?.kind)) return null;
+
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+  const confidence = typeof raw.confidence === 'number' ? raw.confidence : Number(raw.confidence);
+  return {
+    kind: raw.kind,
+    subject: text(raw.subject),
+    topic: text(raw.topic),
+    confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0.5,
+    source: 'model'
+  };
+};
+
+const remember = (id: string | undefined, intent: MessageIntent) => {
+  if (!id) return;
+  if (cache.size >= MAX_CACHED) {
+    cache.delete(cache.keys().next().value!);
+  }
+  cache.set(id, intent);
+};
+
+/**
+ * Classify a message with Gemini, falling back to the keyword rules. Never
+ * throws: a cancelled classification also gets the rules' guess, so the
+ * message can still be saved with one.
+ */
+export const classifyIntent = async (message: Pick<ChatMessage, 'id' | 'content'>, signal?: AbortSignal): Promise<MessageIntent> => {
+  const cached = message.id ? cache.get(message.id) : undefined;
+  if (cached) return cached;
+
+  const text = messageText(message.content).trim();
+  // Commands and empty messages need no model to tell what they are
+  if (!text || text.startsWith('/image ')) {
+    const intent = classifyIntentLocally(text);
+    remember(message.id, intent);
+    return intent;
+  }
+
+  const prompt = `Classify a message sent to a study assistant.
+
+    - casual: small talk, or questions about the app or the user's own chats
+    - educational: a question or task about a school or university subject that calls for an explanation or a worked solution
+    - image_generation: a request to draw or generate a picture
+    - code: writing, explaining or fixing code
+    - summary: summarising a text, a document or the conversation
+
+    Give the subject and topic of educational messages, e.g. "Physics" and "Kinematics", and null otherwise.
+
+    Message: """${text.slice(0, MAX_CLASSIFIED_CHARS)}"""
+    `;
+
+  try {
+    const result = await geminiClient.generateContent({
+      task: 'intent',
+      model: 'gemini-1.5-flash',
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      generationConfig: {
+        temperature: 0,
+        maxOutputTokens: 128,
+        responseMimeType: 'application/json',
+        responseSchema: INTENT_SCHEMA
+      },
+      signal
+    });
+
+    const intent = parseIntent(result.text);
+    if (!intent) {
+      throw new Error('Response is not an intent');
+    }
+    console.log(`[INTENT] ${intent.kind} (${intent.confidence}) from ${result.model}`);
+    remember(message.id, intent);
+    return intent;
+  } catch (error) {
+    const intent = classifyIntentLocally(text);
+    if (isAbortError(error)) {
+      return intent;
+    }
+    console.error('[INTENT] Could not classify the message, using the keyword rules:', error);
+    remember(message.id, intent);
+    return intent;
+  }
+};
@@ -0,0 +1,91 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as localDb from './localDb';
+
+describe('localDb', () => {
+  beforeEach(async () => {
+    await localDb.clearLocalData();
+  });
+
+  it('stores chats newest first and renames them', async () => {
+    const first = await localDb.createChat('First', 'gemini-pro');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = await localDb.createChat('Second', 'gemini-pro');
+
+    expect((await localDb.getChats()).map(chat => chat.id)).toEqual([second.id, first.id]);
+
+    await localDb.renameChat(first.id, 'Renamed');
+    const chats = await localDb.getChats();
+    expect(chats[0]).toMatchObject({ id: first.id, title: 'Renamed' });
+  });
+
+  it('returns the messages of a chat in order', async () => {
+    const chat = await localDb.createChat('Chat');
+    await localDb.addChatMessage({ id: 'b', role: 'assistant', content: 'Hi!', chat_id: chat.id, created_at: '2024-01-01T00:00:02Z' });
+    await localDb.addChatMessage({ id: 'a', role: 'user', content: 'Hello', chat_id: chat.id, created_at: '2024-01-01T00:00:01Z' });
+    await localDb.addChatMessage({ id: 'c', role: 'user', content: 'Elsewhere', chat_id: 'other-chat' });
+
+    const messages = await localDb.getChatMessages(chat.id);
+
+    expect(messages.map(message => message.id)).toEqual(['a', 'b']);
+  });
+
+  it('deletes a chat together with its messages', async () => {
+    const chat = await localDb.createChat('Chat');
+    await localDb.addChatMessage({ role: 'user', content: 'Hello', chat_id: chat.id });
+
+    expect(await localDb.deleteChat(chat.id)).toBe(true);
+    expect(await localDb.getChats()).toEqual([]);
+    expect(await localDb.getChatMessages(chat.id)).toEqual([]);
+  });
+
+  it('filters, updates and deletes concept cards', async () => {
+    const physics = await localDb.addConceptCard({ title: 'Force', content: 'F = ma', category: 'Physics' });
+    await localDb.addConceptCard({ title: 'Cells', content: 'Units of life', category: 'Biology' });
+
+    expect((await localDb.getConceptCards('Physics')).map(card => card.title)).toEqual(['Force']);
+    expect(await localDb.getConceptCards('All')).toHaveLength(2);
+
+    const updated = await localDb.updateConceptCard(physics.id!, { title: 'Newton\'s Second Law' });
+    expect(updated).toMatchObject({ id: physics.id, title: 'Newton\'s Second Law', created_at: physics.created_at });
+
+    expect(await localDb.deleteConceptCard(physics.id!)).toBe(true);
+    expect(await localDb.deleteConceptCard(physics.id!)).toBe(false);
+  });
+
+  it('keeps todos', async () => {
+    const todo = await localDb.addTodo({
+      id: 'todo-1',
+      title: 'Revise chemistry',
+      completed: false,
+      priority: 'high',
+      due_date: null,
+      created_at: new Date().toISOString()
+    });
+
+    await localDb.updateTodo(todo.id, { completed: true });
+    expect(await localDb.getTodos()).toEqual([{ ...todo, completed: true }]);
+
+    await localDb.deleteTodo(todo.id);
+    expect(await localDb.getTodos()).toEqual([]);
+  });
+});
+
+describe('repository without a configured project', () => {
+  it('reads and writes through IndexedDB', async () => {
+    await localDb.clearLocalData();
+    vi.resetModules();
+    vi.stubEnv('VITE_SUPABASE_URL', '');
+
+    const { getRepository } = await import('./repository');
+    const repository = getRepository();
+    const chat = await repository.createChat('Offline chat', 'gemini-pro');
+    await repository.addChatMessage({ role: 'user', content: 'Saved locally', chat_id: chat.id });
+
+    expect(repository.backend).toBe('indexeddb');
+    expect((await localDb.getChats()).map(c => c.title)).toEqual(['Offline chat']);
+    expect((await repository.getChatMessages(chat.id)).map(m => m.content)).toEqual(['Saved locally']);
+
+    vi.unstubAllEnvs();
+  });
+});
@@ -0,0 +1,581 @@
+import { v4 as uuidv4 } from 'uuid';
+import { attachmentPaths, objectUrlFor, storedAttachments } from './attachments';
+import { parentFor } from './messageTree';
+import { sharedContent } from './shares';
+import type { Attachment, CardReview, Chat, ChatFolder, ChatMessage, ChatUpdates, ConceptCard, QuizAttempt, Share, Todo } from './repository';
+
+/**
+ * Local persistence in IndexedDB.
+ *
+ * Mirrors the chat, message, concept card and todo functions of the Supabase
+ * service so the app behaves the same offline, and the data survives reloads.
+ * With a Supabase project configured it is the local copy every write lands in
+ * first, and the outbox holds the writes still waiting to be sent (see sync.ts).
+ * Files attached to messages are kept as blobs, keyed by their storage path,
+ * and the retrieval index keeps its embeddings here (see retrieval.ts).
+ */
+
+const DB_NAME = 'emerce';
+const DB_VERSION = 8;
+
+// Object stores, named after the Supabase tables they stand in for
+const STORES = {
+  chats: 'chats',
+  chatFolders: 'chat_folders',
+  messages: 'messages',
+  conceptCards: 'concept_cards',
+  cardReviews: 'card_reviews',
+  quizAttempts: 'quiz_attempts',
+  todos: 'todos',
+  shares: 'shares',
+  outbox: 'outbox',
+  attachments: 'attachments',
+  embeddings: 'embeddings'
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+// The stores that are copies of Supabase tables
+export type SyncedTable = Exclude<StoreName, 'outbox' | 'attachments' | 'embeddings'>;
+
+// Where an outbox entry is sent: a table, or the attachments Storage bucket
+export type OutboxTarget = SyncedTable | 'attachments';
+
+// A file attached to a message, kept locally
+export type LocalFile = {
+  path: string;
+  chat_id: string;
+  blob: Blob;
+  mime_type: string;
+};
+
+// The embedding of a concept card or past answer, for one embedding model
+export type EmbeddingEntry = {
+  id: string; // `<model>:<kind>:<record id>`
+  model: string;
+  kind: 'concept_card' | 'message';
+  record_id: string;
+  chat_id?: string;
+  title: string;
+  text: string; // What was embedded; given to the model when the entry is retrieved
+  vector: number[];
+};
+
+// A write waiting to be replayed to Supabase
+export type OutboxEntry = {
+  id?: number; // Auto-incremented, so entries replay in the order they were made
+  table: OutboxTarget;
+  op: 'upsert' | 'delete';
+  record_id: string;
+  payload: Record<string, any> | null;
+  base_updated_at: string | null; // The record's updated_at before this write
+  status: 'pending' | 'failed' | 'conflict';
+  attempts: number;
+  last_error?: string;
+  created_at: string;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Open the database once, creating the stores on first use
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        console.log('[LOCAL DB] Creating object stores');
+
+        if (!db.objectStoreNames.contains(STORES.chats)) {
+          db.createObjectStore(STORES.chats, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.chatFolders)) {
+          db.createObjectStore(STORES.chatFolders, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.messages)) {
+          const messages = db.createObjectStore(STORES.messages, { keyPath: 'id' });
+          messages.createIndex('chat_id', 'chat_id');
+        }
+        if (!db.objectStoreNames.contains(STORES.conceptCards)) {
+          db.createObjectStore(STORES.conceptCards, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.cardReviews)) {
+          db.createObjectStore(STORES.cardReviews, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.quizAttempts)) {
+          db.createObjectStore(STORES.quizAttempts, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.todos)) {
+          db.createObjectStore(STORES.todos, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.shares)) {
+          const shares = db.createObjectStore(STORES.shares, { keyPath: 'id' });
+          shares.createIndex('token', 'token', { unique: true });
+        }
+        if (!db.objectStoreNames.contains(STORES.outbox)) {
+          const outbox = db.createObjectStore(STORES.outbox, { keyPath: 'id', autoIncrement: true });
+          outbox.createIndex('record_id', 'record_id');
+        }
+        if (!db.objectStoreNames.contains(STORES.attachments)) {
+          const attachments = db.createObjectStore(STORES.attachments, { keyPath: 'path' });
+          attachments.createIndex('chat_id', 'chat_id');
+        }
+        if (!db.objectStoreNames.contains(STORES.embeddings)) {
+          const embeddings = db.createObjectStore(STORES.embeddings, { keyPath: 'id' });
+          embeddings.createIndex('model', 'model');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wrap an IDBRequest in a promise
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Run a request against one store and wait for its transaction to commit
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  const transaction = db.transaction(storeName, mode);
+  const result = toPromise(run(transaction.objectStore(storeName)));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  return result;
+};
+
+const getAll = <T>(storeName: StoreName) => withStore<T[]>(storeName, 'readonly', store => store.getAll());
+const getOne = <T>(storeName: StoreName, id: string) => withStore<T | undefined>(storeName, 'readonly', store => store.get(id));
+const putOne = <T>(storeName: StoreName, value: T) => withStore(storeName, 'readwrite', store => store.put(value));
+const deleteOne = (storeName: StoreName, id: string | number) => withStore(storeName, 'readwrite', store => store.delete(id));
+
+// Wait for a transaction spanning several stores to commit
+const complete = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+// Sort helper for ISO timestamps
+const byDate = <T>(field: keyof T, ascending: boolean) => (a: T, b: T) => {
+  const difference = new Date(String(a[field] || '')).getTime() - new Date(String(b[field] || '')).getTime();
+  return ascending ? difference : -difference;
+};
+
+// Chats
+export const getChats = async (): Promise<Chat[]> => {
+  const chats = await getAll<Chat>(STORES.chats);
+  console.log(`[LOCAL DB] Found ${chats.length} chats`);
+  return chats.sort(byDate<Chat>('updated_at', false));
+};
+
+export const createChat = async (title: string, model: string = 'gemini-2.0-flash'): Promise<Chat> => {
+  const timestamp = new Date().toISOString();
+  const chat: Chat = {
+    id: uuidv4(),
+    title,
+    model,
+    created_at: timestamp,
+    updated_at: timestamp
+  };
+
+  await putOne(STORES.chats, chat);
+  console.log('[LOCAL DB] Created chat:', chat.id);
+  return chat;
+};
+
+export const updateChat = async (chatId: string, updates: ChatUpdates) => {
+  const chat = await getOne<Chat>(STORES.chats, chatId);
+  if (!chat) {
+    console.error('[LOCAL DB] Chat does not exist, cannot update');
+    return null;
+  }
+
+  const updated: Chat = { ...chat, ...updates, updated_at: new Date().toISOString() };
+  await putOne(STORES.chats, updated);
+  return updated;
+};
+
+export const renameChat = (chatId: string, newTitle: string) => updateChat(chatId, { title: newTitle });
+
+// Delete a chat together with its messages and their files
+export const deleteChat = async (chatId: string): Promise<boolean> => {
+  const db = await openDb();
+  const transaction = db.transaction([STORES.chats, STORES.messages, STORES.attachments], 'readwrite');
+  const messages = transaction.objectStore(STORES.messages);
+  const files = transaction.objectStore(STORES.attachments);
+  const [messageIds, paths] = await Promise.all([
+    toPromise(messages.index('chat_id').getAllKeys(chatId)),
+    toPromise(files.index('chat_id').getAllKeys(chatId))
+  ]);
+
+  messageIds.forEach(id => messages.delete(id));
+  paths.forEach(path => files.delete(path));
+  transaction.objectStore(STORES.chats).delete(chatId);
+
+  await complete(transaction);
+
+  console.log(`[LOCAL DB] Deleted chat ${chatId} and ${messageIds.length} messages`);
+  return true;
+};
+
+// Chat folders
+export const getChatFolders = async (): Promise<ChatFolder[]> => {
+  const folders = await getAll<ChatFolder>(STORES.chatFolders);
+  return folders.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const createChatFolder = async (name: string): Promise<ChatFolder> => {
+  const timestamp = new Date().toISOString();
+  const folder: ChatFolder = { id: uuidv4(), name, created_at: timestamp, updated_at: timestamp };
+
+  await putOne(STORES.chatFolders, folder);
+  console.log('[LOCAL DB] Created chat folder:', folder.id);
+  return folder;
+};
+
+export const renameChatFolder = async (folderId: string, name: string) => {
+  const folder = await getOne<ChatFolder>(STORES.chatFolders, folderId);
+  if (!folder) {
+    console.error('[LOCAL DB] Chat folder does not exist, cannot rename');
+    return null;
+  }
+
+  const renamed = { ...folder, name, updated_at: new Date().toISOString() };
+  await putOne(STORES.chatFolders, renamed);
+  return renamed;
+};
+
+// Delete a folder, moving its chats out of it; returns the moved chats as they were before
+export const deleteChatFolder = async (folderId: string): Promise<Chat[]> => {
+  const inFolder = (await getAll<Chat>(STORES.chats)).filter(chat => chat.folder_id === folderId);
+  for (const chat of inFolder) {
+    await updateChat(chat.id, { folder_id: null });
+  }
+  await deleteOne(STORES.chatFolders, folderId);
+  return inFolder;
+};
+
+// Chat Messages
+export const getChatMessages = async (chatId: string): Promise<ChatMessage[]> => {
+  const messages = await withStore<ChatMessage[]>(STORES.messages, 'readonly', store =>
+    store.index('chat_id').getAll(chatId)
+  );
+  return messages.sort(byDate<ChatMessage>('created_at', true));
+};
+
+// Every message of every chat, e.g. to search them
+export const getAllMessages = () => getAll<ChatMessage>(STORES.messages);
+
+export const addChatMessage = async (message: ChatMessage): Promise<ChatMessage> => {
+  // Store the same fields as the messages table
+  const stored: ChatMessage = {
+    id: message.id || uuidv4(),
+    role: message.role,
+    content: typeof message.content === 'string' ? message.content : JSON.stringify(message.content),
+    chat_id: message.chat_id,
+    created_at: message.created_at || new Date().toISOString()
+  };
+  const attachments = storedAttachments(message.attachments);
+  if (attachments) {
+    stored.attachments = attachments;
+  }
+  if (message.sources?.length) {
+    stored.sources = message.sources;
+  }
+  if (message.study) {
+    stored.study = message.study;
+  }
+  if (message.intent) {
+    stored.intent = message.intent;
+  }
+  if (message.stopped) {
+    stored.stopped = true;
+  }
+  const parentId = parentFor(await getChatMessages(message.chat_id), message);
+  if (parentId !== undefined) {
+    stored.parent_id = parentId;
+  }
+
+  await putOne(STORES.messages, stored);
+  return stored;
+};
+
+// Concept Cards
+export const getConceptCards = async (category?: string): Promise<ConceptCard[]> => {
+  const cards = await getAll<ConceptCard>(STORES.conceptCards);
+  return cards
+    .filter(card => !category || category === 'All' || card.category === category)
+    .sort(byDate<ConceptCard>('created_at', false));
+};
+
+export const addConceptCard = async (card: Omit<ConceptCard, 'id' | 'created_at'>): Promise<ConceptCard> => {
+  const timestamp = new Date().toISOString();
+  const newCard: ConceptCard = {
+    ...card,
+    id: uuidv4(),
+    created_at: timestamp,
+    updated_at: timestamp
+  };
+
+  await putOne(STORES.conceptCards, newCard);
+  return newCard;
+};
+
+export const updateConceptCard = async (
+  cardId: string,
+  updates: Partial<Omit<ConceptCard, 'id' | 'created_at'>>
+): Promise<ConceptCard | null> => {
+  const card = await getOne<ConceptCard>(STORES.conceptCards, cardId);
+  if (!card) return null;
+
+  // Don't let the id or creation date be overwritten
+  const updated = { ...card, ...updates, id: card.id, created_at: card.created_at };
+  await putOne(STORES.conceptCards, updated);
+  return updated;
+};
+
+export const deleteConceptCard = async (cardId: string): Promise<boolean> => {
+  const card = await getOne<ConceptCard>(STORES.conceptCards, cardId);
+  if (!card) return false;
+
+  await deleteOne(STORES.conceptCards, cardId);
+  await deleteOne(STORES.cardReviews, cardId);
+  return true;
+};
+
+// Study progress of concept cards, keyed by card
+export const getCardReviews = () => getAll<CardReview>(STORES.cardReviews);
+
+export const putCardReview = async (review: CardReview): Promise<CardReview> => {
+  await putOne(STORES.cardReviews, review);
+  return review;
+};
+
+// Quiz attempts
+export const getQuizAttempts = async (): Promise<QuizAttempt[]> => {
+  const attempts = await getAll<QuizAttempt>(STORES.quizAttempts);
+  return attempts.sort(byDate<QuizAttempt>('created_at', false));
+};
+
+export const addQuizAttempt = async (attempt: QuizAttempt): Promise<QuizAttempt> => {
+  await putOne(STORES.quizAttempts, attempt);
+  return attempt;
+};
+
+// Todos
+export const getTodos = async (): Promise<Todo[]> => {
+  const todos = await getAll<Todo>(STORES.todos);
+  return todos.sort(byDate<Todo>('created_at', false));
+};
+
+export const addTodo = async (todo: Todo): Promise<Todo> => {
+  await putOne(STORES.todos, todo);
+  return todo;
+};
+
+export const updateTodo = async (todoId: string, updates: Partial<Omit<Todo, 'id' | 'created_at'>>): Promise<Todo | null> => {
+  const todo = await getOne<Todo>(STORES.todos, todoId);
+  if (!todo) return null;
+
+  const updated = { ...todo, ...updates };
+  await putOne(STORES.todos, updated);
+  return updated;
+};
+
+export const deleteTodo = async (todoId: string): Promise<boolean> => {
+  const todo = await getOne<Todo>(STORES.todos, todoId);
+  if (!todo) return false;
+
+  await deleteOne(STORES.todos, todoId);
+  return true;
+};
+
+// Share links
+export const getShares = async (): Promise<Share[]> => {
+  const shares = await getAll<Share>(STORES.shares);
+  return shares.sort(byDate<Share>('created_at', false));
+};
+
+export const getShareByToken = async (token: string): Promise<Share | null> => {
+  const share = await withStore<Share | undefined>(STORES.shares, 'readonly', store => store.index('token').get(token));
+  return share || null;
+};
+
+export const addShare = async (share: Share): Promise<Share> => {
+  await putOne(STORES.shares, share);
+  return share;
+};
+
+export const updateShare = async (shareId: string, updates: Partial<Omit<Share, 'id' | 'token' | 'created_at'>>): Promise<Share | null> => {
+  const share = await getOne<Share>(STORES.shares, shareId);
+  if (!share) return null;
+
+  const updated = { ...share, ...updates };
+  await putOne(STORES.shares, updated);
+  return updated;
+};
+
+// What a share link shows, from the local copy
+export const getSharedContent = async (token: string) => {
+  const share = await getShareByToken(token);
+  if (!share) return null;
+
+  const chat = share.chat_id ? await getOne<Chat>(STORES.chats, share.chat_id) : null;
+  const messages = share.chat_id ? await getChatMessages(share.chat_id) : [];
+  const cards = share.kind === 'cards' ? await getAll<ConceptCard>(STORES.conceptCards) : [];
+  return sharedContent(share, chat, messages, cards);
+};
+
+// Single records, for the sync queue
+export const getRecord = <T>(table: SyncedTable, id: string) => getOne<T>(table, id);
+export const putRecord = async <T>(table: SyncedTable, record: T) => {
+  await putOne(table, record);
+};
+export const deleteRecord = async (table: SyncedTable, id: string) => {
+  await deleteOne(table, id);
+};
+
+/**
+ * Replace the local copy of a table (or the part of it in `inScope`) with the
+ * rows just read from Supabase. Records with writes still in the outbox keep
+ * their local version, so unsynced changes aren't lost.
+ */
+export const mergeRemoteRecords = async <T extends { id?: string }>(
+  table: SyncedTable,
+  rows: T[],
+  inScope: (record: T) => boolean = () => true
+) => {
+  const db = await openDb();
+  const transaction = db.transaction([table, STORES.outbox], 'readwrite');
+  const store = transaction.objectStore(table);
+
+  const [localRecords, queued] = await Promise.all([
+    toPromise(store.getAll() as IDBRequest<T[]>),
+    toPromise(transaction.objectStore(STORES.outbox).getAll() as IDBRequest<OutboxEntry[]>)
+  ]);
+  const unsynced = new Set(queued.filter(entry => entry.table === table).map(entry => entry.record_id));
+  const remoteIds = new Set(rows.map(row => row.id));
+
+  // Deleted elsewhere
+  localRecords
+    .filter(record => inScope(record) && !remoteIds.has(record.id) && !unsynced.has(record.id!))
+    .forEach(record => store.delete(record.id!));
+
+  rows
+    .filter(row => !unsynced.has(row.id!))
+    .forEach(row => store.put(row));
+
+  await complete(transaction);
+};
+
+// Attachment files
+export const getFile = (path: string) => getOne<LocalFile>(STORES.attachments, path);
+
+export const putFile = async (file: LocalFile) => {
+  await putOne(STORES.attachments, file);
+};
+
+// Keep a file sent in a chat, and an image's thumbnail, in this browser
+export const saveAttachment = async (
+  owner: string,
+  chatId: string,
+  file: Blob,
+  thumbnail: Blob | null,
+  name?: string
+): Promise<Attachment> => {
+  const { path, thumbnail_path } = attachmentPaths(owner, chatId, uuidv4());
+  const attachment: Attachment = {
+    path,
+    mime_type: file.type || 'application/octet-stream',
+    name,
+    size: file.size
+  };
+
+  const db = await openDb();
+  const transaction = db.transaction(STORES.attachments, 'readwrite');
+  const files = transaction.objectStore(STORES.attachments);
+  files.put({ path, chat_id: chatId, blob: file, mime_type: attachment.mime_type });
+  if (thumbnail) {
+    attachment.thumbnail_path = thumbnail_path;
+    files.put({ path: thumbnail_path, chat_id: chatId, blob: thumbnail, mime_type: thumbnail.type || 'image/jpeg' });
+  }
+  await complete(transaction);
+
+  console.log(`[LOCAL DB] Stored attachment ${path}`);
+  return {
+    ...attachment,
+    url: objectUrlFor(path, file),
+    thumbnail_url: thumbnail ? objectUrlFor(thumbnail_path, thumbnail) : undefined
+  };
+};
+
+// Object URLs for the files among `paths` that are kept in this browser
+export const getFileUrls = async (paths: string[]): Promise<Record<string, string>> => {
+  const urls: Record<string, string> = {};
+  const files = await Promise.all(paths.map(path => getFile(path)));
+  files.forEach(file => {
+    if (file) urls[file.path] = objectUrlFor(file.path, file.blob);
+  });
+  return urls;
+};
+
+// Retrieval index
+export const getEmbeddings = (model: string) => withStore<EmbeddingEntry[]>(STORES.embeddings, 'readonly', store =>
+  store.index('model').getAll(model)
+);
+
+export const putEmbeddings = async (entries: EmbeddingEntry[]) => {
+  const db = await openDb();
+  const transaction = db.transaction(STORES.embeddings, 'readwrite');
+  entries.forEach(entry => transaction.objectStore(STORES.embeddings).put(entry));
+  await complete(transaction);
+};
+
+export const deleteEmbeddings = async (ids: string[]) => {
+  const db = await openDb();
+  const transaction = db.transaction(STORES.embeddings, 'readwrite');
+  ids.forEach(id => transaction.objectStore(STORES.embeddings).delete(id));
+  await complete(transaction);
+};
+
+// Outbox
+export const getOutbox = () => getAll<OutboxEntry>(STORES.outbox);
+
+export const putOutboxEntry = async (entry: OutboxEntry): Promise<OutboxEntry> => {
+  const id = await withStore(STORES.outbox, 'readwrite', store => store.put(entry));
+  return { ...entry, id: id as number };
+};
+
+export const deleteOutboxEntry = async (id: number) => {
+  await deleteOne(STORES.outbox, id);
+};
+
+// Remove everything stored locally
+export const clearLocalData = async () => {
+  const db = await openDb();
+  const storeNames = Object.values(STORES);
+  const transaction = db.transaction(storeNames, 'readwrite');
+  storeNames.forEach(name => transaction.objectStore(name).clear());
+
+  await complete(transaction);
+  console.log('[LOCAL DB] Cleared all local data');
+};
@@ -0,0 +1,242 @@
+import { v4 as uuidv4 } from 'uuid';
+import { prepareChatUpdates, prepareConceptCard, prepareTodo } from './repository';
+import { attachmentPaths, objectUrlFor, storedAttachments, withAttachmentUrls } from './attachments';
+import { searchLocally } from './search';
+import { activePath, parentFor } from './messageTree';
+import { prepareShare, sharedContent } from './shares';
+import type { Attachment, CardReview, Chat, ChatFolder, ChatMessage, ConceptCard, QuizAttempt, Repository, Share, Todo } from './repository';
+
+/**
+ * Keeps everything in memory, so nothing survives a reload. For tests and
+ * demos; pass `seed` to start with some data.
+ */
+export const createMemoryRepository = (seed: {
+  chats?: Chat[];
+  chatFolders?: ChatFolder[];
+  messages?: ChatMessage[];
+  conceptCards?: ConceptCard[];
+  todos?: Todo[];
+} = {}): Repository => {
+  let chats = [...(seed.chats || [])];
+  let chatFolders = [...(seed.chatFolders || [])];
+  let messages = [...(seed.messages || [])];
+  let conceptCards = [...(seed.conceptCards || [])];
+  let todos = [...(seed.todos || [])];
+  let cardReviews: CardReview[] = [];
+  const quizAttempts: QuizAttempt[] = [];
+  const shares: Share[] = [];
+  // Attachment files by path, with the chat they belong to
+  const files = new Map<string, { chatId: string; blob: Blob }>();
+
+  const now = () => new Date().toISOString();
+  const newestFirst = <T>(field: keyof T) => (a: T, b: T) => String(b[field] || '').localeCompare(String(a[field] || ''));
+
+  // Every message of a chat, oldest first, with URLs for their files
+  const messageTree = (chatId: string) => withAttachmentUrls(
+    messages
+      .filter(m => m.chat_id === chatId)
+      .sort((a, b) => String(a.created_at).localeCompare(String(b.created_at))),
+    async paths => {
+      const urls: Record<string, string> = {};
+      paths.forEach(path => {
+        const file = files.get(path);
+        if (file) urls[path] = objectUrlFor(path, file.blob);
+      });
+      return urls;
+    }
+  );
+
+  return {
+    backend: 'memory',
+
+    prepare: async () => {
+      console.log('[REPOSITORY] Storing data in memory, it will be lost on reload');
+    },
+
+    // Chats
+    getChats: async () => [...chats].sort(newestFirst<Chat>('updated_at')),
+
+    createChat: async (title, model = 'gemini-2.0-flash') => {
+      const timestamp = now();
+      const chat: Chat = { id: uuidv4(), title, model, created_at: timestamp, updated_at: timestamp };
+      chats.push(chat);
+      return chat;
+    },
+
+    renameChat: async (chatId, newTitle) => {
+      const chat = chats.find(c => c.id === chatId);
+      if (!chat) return null;
+      Object.assign(chat, { title: newTitle, updated_at: now() });
+      return { ...chat };
+    },
+
+    updateChat: async (chatId, updates) => {
+      const chat = chats.find(c => c.id === chatId);
+      if (!chat) return null;
+      Object.assign(chat, { ...prepareChatUpdates(updates), updated_at: now() });
+      return { ...chat };
+    },
+
+    deleteChat: async chatId => {
+      chats = chats.filter(c => c.id !== chatId);
+      messages = messages.filter(m => m.chat_id !== chatId);
+      files.forEach((file, path) => {
+        if (file.chatId === chatId) files.delete(path);
+      });
+      return true;
+    },
+
+    search: async (query, limit) => searchLocally(chats, messages, query, limit),
+
+    // Chat folders
+    getChatFolders: async () => [...chatFolders].sort((a, b) => a.name.localeCompare(b.name)),
+
+    createChatFolder: async name => {
+      const timestamp = now();
+      const folder: ChatFolder = { id: uuidv4(), name: name.trim(), created_at: timestamp, updated_at: timestamp };
+      chatFolders.push(folder);
+      return folder;
+    },
+
+    renameChatFolder: async (folderId, name) => {
+      const folder = chatFolders.find(f => f.id === folderId);
+      if (!folder) return null;
+      Object.assign(folder, { name: name.trim(), updated_at: now() });
+      return { ...folder };
+    },
+
+    deleteChatFolder: async folderId => {
+      chatFolders = chatFolders.filter(f => f.id !== folderId);
+      chats.filter(c => c.folder_id === folderId).forEach(chat => Object.assign(chat, { folder_id: null, updated_at: now() }));
+      return true;
+    },
+
+    // Chat messages
+    getChatMessages: async (chatId, messageId) => activePath(await messageTree(chatId), messageId),
+    getMessageTree: messageTree,
+
+    addChatMessage: async message => {
+      const stored: ChatMessage = {
+        id: message.id || uuidv4(),
+        role: message.role,
+        content: message.content,
+        chat_id: message.chat_id,
+        created_at: message.created_at || now(),
+        attachments: storedAttachments(message.attachments),
+        sources: message.sources?.length ? message.sources : undefined,
+        study: message.study,
+        intent: message.intent,
+        stopped: message.stopped || undefined
+      };
+      const parentId = parentFor(messages.filter(m => m.chat_id === message.chat_id), { ...stored, parent_id: message.parent_id });
+      if (parentId !== undefined) stored.parent_id = parentId;
+      messages.push(stored);
+      return stored;
+    },
+
+    saveAttachment: async (chatId, file, thumbnail, name) => {
+      const { path, thumbnail_path } = attachmentPaths('local', chatId, uuidv4());
+      const attachment: Attachment = { path, mime_type: file.type || 'application/octet-stream', name, size: file.size };
+      files.set(path, { chatId, blob: file });
+      if (thumbnail) {
+        attachment.thumbnail_path = thumbnail_path;
+        files.set(thumbnail_path, { chatId, blob: thumbnail });
+      }
+      return {
+        ...attachment,
+        url: objectUrlFor(path, file),
+        thumbnail_url: thumbnail ? objectUrlFor(thumbnail_path, thumbnail) : undefined
+      };
+    },
+
+    // Concept cards
+    getConceptCards: async category => conceptCards
+      .filter(card => !category || category === 'All' || card.category === category)
+      .sort(newestFirst<ConceptCard>('created_at')),
+
+    addConceptCard: async card => {
+      const prepared = prepareConceptCard(card);
+      if (!prepared) return null;
+
+      const timestamp = now();
+      const newCard: ConceptCard = { ...prepared, id: uuidv4(), created_at: timestamp, updated_at: timestamp };
+      conceptCards.push(newCard);
+      return newCard;
+    },
+
+    updateConceptCard: async (cardId, updates) => {
+      const card = conceptCards.find(c => c.id === cardId);
+      if (!card) return null;
+      Object.assign(card, updates, { updated_at: now() });
+      return { ...card };
+    },
+
+    deleteConceptCard: async cardId => {
+      const exists = conceptCards.some(c => c.id === cardId);
+      conceptCards = conceptCards.filter(c => c.id !== cardId);
+      cardReviews = cardReviews.filter(r => r.id !== cardId);
+      return exists;
+    },
+
+    getCardReviews: async () => cardReviews.map(review => ({ ...review })),
+
+    saveCardReview: async review => {
+      cardReviews = [...cardReviews.filter(r => r.id !== review.id), { ...review }];
+      return { ...review };
+    },
+
+    // Quiz attempts
+    getQuizAttempts: async () => [...quizAttempts].sort(newestFirst<QuizAttempt>('created_at')),
+
+    addQuizAttempt: async attempt => {
+      const newAttempt: QuizAttempt = { ...attempt, id: uuidv4(), created_at: now() };
+      quizAttempts.push(newAttempt);
+      return { ...newAttempt };
+    },
+
+    // Todos
+    getTodos: async () => [...todos].sort(newestFirst<Todo>('created_at')),
+
+    addTodo: async todo => {
+      const newTodo = prepareTodo(todo, uuidv4());
+      todos.push(newTodo);
+      return newTodo;
+    },
+
+    updateTodo: async (todoId, updates) => {
+      const todo = todos.find(t => t.id === todoId);
+      if (!todo) return null;
+      Object.assign(todo, updates, { updated_at: now() });
+      return { ...todo };
+    },
+
+    deleteTodo: async todoId => {
+      const exists = todos.some(t => t.id === todoId);
+      todos = todos.filter(t => t.id !== todoId);
+      return exists;
+    },
+
+    // Share links
+    getShares: async () => [...shares].sort(newestFirst<Share>('created_at')),
+
+    createShare: async share => {
+      const newShare = prepareShare(share, uuidv4());
+      shares.push(newShare);
+      return { ...newShare };
+    },
+
+    revokeShare: async shareId => {
+      const share = shares.find(s => s.id === shareId);
+      if (!share) return null;
+      const timestamp = now();
+      Object.assign(share, { revoked_at: timestamp, updated_at: timestamp });
+      return { ...share };
+    },
+
+    getSharedContent: async token => {
+      const share = shares.find(s => s.token === token);
+      if (!share) return null;
+      return sharedContent(share, chats.find(c => c.id === share.chat_id), messages, conceptCards);
+    }
+  };
+};
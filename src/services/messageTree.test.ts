@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { activePath, branchPositions, parentFor } from './messageTree';
+import type { ChatMessage } from './repository';
+
+const message = (id: string, second: number, parent_id?: string | null): ChatMessage => ({
+  id,
+  role: id.startsWith('q') ? 'user' : 'assistant',
+  content: id,
+  chat_id: 'chat',
+  created_at: `2024-01-01T00:00:${String(second).padStart(2, '0')}.000Z`,
+  ...(parent_id !== undefined ? { parent_id } : {})
+});
+
+// q1 ─ a1 ─ q2 ─ a2
+//    └ a1b            (regenerated)
+// q1b ─ a3            (edited question)
+const tree = [
+  message('q1', 1, null),
+  message('a1', 2, 'q1'),
+  message('q2', 3, 'a1'),
+  message('a2', 4, 'q2'),
+  message('a1b', 5, 'q1'),
+  message('q1b', 6, null),
+  message('a3', 7, 'q1b')
+];
+const ids = (messages: ChatMessage[]) => messages.map(m => m.id);
+
+describe('activePath', () => {
+  it('follows the branch with the newest message by default', () => {
+    expect(ids(activePath(tree))).toEqual(['q1b', 'a3']);
+  });
+
+  it('goes through the given message and on to the newest message after it', () => {
+    expect(ids(activePath(tree, 'q1'))).toEqual(['q1', 'a1b']);
+    expect(ids(activePath(tree, 'a1'))).toEqual(['q1', 'a1', 'q2', 'a2']);
+  });
+
+  it('keeps messages stored before branching in a single path', () => {
+    const linear = [message('q1', 1), message('a1', 2), message('q2', 3), message('a2', 4)];
+    expect(ids(activePath(linear, 'q1'))).toEqual(['q1', 'a1', 'q2', 'a2']);
+    expect(branchPositions(linear).size).toBe(0);
+  });
+});
+
+describe('branchPositions', () => {
+  it('places every message with alternatives among its siblings', () => {
+    const positions = branchPositions(tree);
+    expect(positions.get('a1b')).toEqual({ index: 1, count: 2, siblingIds: ['a1', 'a1b'] });
+    expect(positions.get('q1')).toEqual({ index: 0, count: 2, siblingIds: ['q1', 'q1b'] });
+    expect(positions.has('a2')).toBe(false);
+  });
+});
+
+describe('parentFor', () => {
+  it('appends a message without a parent after the latest one', () => {
+    expect(parentFor(tree, message('a4', 8))).toBe('a3');
+    expect(parentFor(tree, message('a4', 8, 'q2'))).toBe('q2');
+  });
+
+  it('leaves the first message, and one older than the others, to be placed when read', () => {
+    expect(parentFor([], message('q1', 1))).toBeUndefined();
+    expect(parentFor(tree, message('q0', 0))).toBeUndefined();
+  });
+});
@@ -0,0 +1,104 @@
+import type { ChatMessage } from './repository';
+
+/**
+ * Chats as trees of messages.
+ *
+ * Every message records the one it follows in `parent_id`. Regenerating an
+ * answer adds a sibling next to the old answer, and editing a question starts
+ * a branch next to the original, so nothing is lost. A chat shows one path
+ * through the tree at a time: by default the one ending at its newest message,
+ * or the one through an alternative the user switched to.
+ *
+ * Messages stored before branching have no `parent_id` and follow the message
+ * before them, which keeps old chats a single path.
+ */
+
+// Where a message stands among the alternatives at its point in the chat
+export type BranchPosition = {
+  index: number;
+  count: number;
+  siblingIds: string[]; // Oldest first
+};
+
+type MessageTree = {
+  byId: Map<string, ChatMessage>;
+  parentOf: Map<string, string | null>;
+  children: Map<string | null, ChatMessage[]>;
+};
+
+const byTime = (a: ChatMessage, b: ChatMessage) => String(a.created_at || '').localeCompare(String(b.created_at || ''));
+
+// The parent to store for a message saved into a chat: the one it names, or the
+// latest message when it is appended after others. Anything else is left without
+// and placed by its time when read.
+export const parentFor = (messages: ChatMessage[], message: ChatMessage): string | null | undefined => {
+  if (message.parent_id !== undefined) return message.parent_id;
+  const others = messages.filter(other => other.id !== message.id);
+  if (others.some(other => String(other.created_at || '') > String(message.created_at || ''))) return undefined;
+  return others.sort(byTime).at(-1)?.id;
+};
+
+const buildTree = (messages: ChatMessage[]): MessageTree => {
+  const sorted = messages.filter(message => message.id).sort(byTime);
+  const byId = new Map(sorted.map(message => [message.id!, message]));
+  const parentOf = new Map<string, string | null>();
+  const children = new Map<string | null, ChatMessage[]>();
+
+  sorted.forEach((message, i) => {
+    // A parent that isn't there (e.g. an unsaved error message) falls back to the one before
+    const parent = message.parent_id === null
+      ? null
+      : message.parent_id && byId.has(message.parent_id) ? message.parent_id : sorted[i - 1]?.id ?? null;
+    parentOf.set(message.id!, parent);
+    children.set(parent, [...(children.get(parent) || []), message]);
+  });
+
+  return { byId, parentOf, children };
+};
+
+// The message and everything that follows it, on every branch
+const subtree = (tree: MessageTree, messageId: string) => {
+  const found: ChatMessage[] = [];
+  const queue = [tree.byId.get(messageId)!];
+  while (queue.length > 0) {
+    const message = queue.shift()!;
+    found.push(message);
+    queue.push(...(tree.children.get(message.id!) || []));
+  }
+  return found;
+};
+
+// The messages from the start of the chat down to the given one
+const pathTo = (tree: MessageTree, messageId: string) => {
+  const path: ChatMessage[] = [];
+  const seen = new Set<string>();
+  let current: string | null = messageId;
+  while (current && !seen.has(current)) {
+    seen.add(current);
+    path.unshift(tree.byId.get(current)!);
+    current = tree.parentOf.get(current) ?? null;
+  }
+  return path;
+};
+
+// The path through the given message, carrying on to the newest message after it;
+// without one, the path to the newest message of the chat
+export const activePath = (messages: ChatMessage[], messageId?: string | null): ChatMessage[] => {
+  const tree = buildTree(messages);
+  if (tree.byId.size === 0) return [];
+
+  const candidates = messageId && tree.byId.has(messageId) ? subtree(tree, messageId) : [...tree.byId.values()];
+  const newest = [...candidates].sort(byTime).at(-1)!;
+  return pathTo(tree, newest.id!);
+};
+
+// The position of every message that has alternatives
+export const branchPositions = (messages: ChatMessage[]): Map<string, BranchPosition> => {
+  const positions = new Map<string, BranchPosition>();
+  buildTree(messages).children.forEach(siblings => {
+    if (siblings.length < 2) return;
+    const siblingIds = siblings.map(message => message.id!);
+    siblingIds.forEach((id, index) => positions.set(id, { index, count: siblingIds.length, siblingIds }));
+  });
+  return positions;
+};
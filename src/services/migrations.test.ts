@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { memoryDb } from '../test/inMemorySupabase';
+import { parseMigrations, getPendingMigrations, buildSetupSql, MIGRATIONS_TABLE } from './migrations';
+import { migrations, verifyDatabaseTables, getTableSetupInstructions } from './supabase';
+
+describe('migrations', () => {
+  beforeEach(() => {
+    memoryDb.reset();
+  });
+
+  it('orders migrations by version, whatever order the files come in', () => {
+    const parsed = parseMigrations({
+      '/migrations/0010_later.sql': 'SELECT 10;',
+      '/migrations/0002_second.sql': 'SELECT 2;',
+      '/migrations/0001_first.sql': '  SELECT 1;\n'
+    });
+
+    expect(parsed).toEqual([
+      { version: '0001', name: 'first', sql: 'SELECT 1;' },
+      { version: '0002', name: 'second', sql: 'SELECT 2;' },
+      { version: '0010', name: 'later', sql: 'SELECT 10;' }
+    ]);
+  });
+
+  it('rejects badly named files and reused versions', () => {
+    expect(() => parseMigrations({ 'add-todos.sql': '' })).toThrow('<version>_<name>.sql');
+    expect(() => parseMigrations({ '0001_a.sql': '', '1_b.sql': '' })).toThrow('share a version');
+  });
+
+  it('bundles every file in migrations/', () => {
+    const files = fs.readdirSync(path.resolve(__dirname, '../../migrations')).filter(file => file.endsWith('.sql'));
+
+    expect(migrations.map(migration => `${migration.version}_${migration.name}.sql`)).toEqual(files.sort());
+    expect(migrations.every(migration => migration.sql.length > 0)).toBe(true);
+  });
+
+  it('finds the migrations a database has not had', () => {
+    const pending = getPendingMigrations(migrations, ['0001', '0002']);
+
+    expect(pending.map(migration => migration.version)).toEqual(
+      migrations.slice(2).map(migration => migration.version)
+    );
+    expect(getPendingMigrations(migrations, migrations.map(migration => migration.version))).toEqual([]);
+  });
+
+  it('builds setup SQL that applies and records each migration in order', () => {
+    const sql = buildSetupSql(migrations);
+
+    expect(sql.indexOf(`CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE}`)).toBeGreaterThanOrEqual(0);
+    let position = sql.indexOf(MIGRATIONS_TABLE);
+    migrations.forEach(migration => {
+      const recorded = sql.indexOf(`VALUES ('${migration.version}', '${migration.name}')`);
+      expect(sql.indexOf(migration.sql)).toBeGreaterThan(position);
+      expect(recorded).toBeGreaterThan(sql.indexOf(migration.sql));
+      position = recorded;
+    });
+  });
+
+  it('reports pending migrations and offers only their SQL', async () => {
+    memoryDb.tables[MIGRATIONS_TABLE] = [{ version: '0001', name: 'initial_schema' }];
+
+    const status = await verifyDatabaseTables();
+
+    expect(status.tablesExist).toBe(true);
+    expect(status.pendingMigrations.map(migration => migration.version)).toEqual(
+      migrations.slice(1).map(migration => migration.version)
+    );
+    const sql = getTableSetupInstructions(status.pendingMigrations);
+    expect(sql).not.toContain('-- 0001_initial_schema');
+    expect(sql).toContain(`-- ${migrations[1].version}_${migrations[1].name}`);
+  });
+
+  it('treats a database it cannot read as needing every migration', async () => {
+    memoryDb.setOffline(true);
+
+    const status = await verifyDatabaseTables();
+
+    expect(status.tablesExist).toBe(false);
+    expect(status.pendingMigrations).toEqual(migrations);
+  });
+});
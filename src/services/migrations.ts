@@ -0,0 +1,92 @@
+/**
+ * Versioned schema migrations.
+ *
+ * The SQL lives in `migrations/`, one file per change, named
+ * `<version>_<name>.sql` (e.g. `0003_sync_updated_at.sql`) and applied in
+ * version order. Applied versions are recorded in the `schema_migrations`
+ * table, so both the Node runner (`npm run migrate`) and the app can tell
+ * which ones a database is missing. Every migration is written to be safe on
+ * a database that was set up by hand before migrations existed.
+ *
+ * Nothing here depends on Vite or Node: the app bundles the files with
+ * `import.meta.glob`, the runner reads them from disk.
+ */
+
+export type Migration = {
+  version: string;
+  name: string;
+  sql: string;
+};
+
+export const MIGRATIONS_TABLE = 'schema_migrations';
+
+// Created before anything else, by the runner and at the top of the setup SQL.
+// Readable by the app so it can report pending migrations.
+export const MIGRATIONS_TABLE_SQL = `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+  version TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE ${MIGRATIONS_TABLE} ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read applied migrations" ON ${MIGRATIONS_TABLE};
+CREATE POLICY "Anyone can read applied migrations" ON ${MIGRATIONS_TABLE}
+  FOR SELECT USING (true);`;
+
+const MIGRATION_FILE = /^(\d+)_([a-z0-9_]+)\.sql$/;
+
+/**
+ * Turn migration files, keyed by path or file name, into migrations sorted by
+ * version. Throws on a file that doesn't follow the naming scheme or reuses a
+ * version, since applying them out of order would corrupt the schema.
+ */
+export const parseMigrations = (files: Record<string, string>): Migration[] => {
+  const migrations = Object.entries(files).map(([path, sql]) => {
+    const fileName = path.split('/').pop() || path;
+    const match = fileName.match(MIGRATION_FILE);
+    if (!match) {
+      throw new Error(`Migration file "${fileName}" should be named <version>_<name>.sql`);
+    }
+    return { version: match[1], name: match[2], sql: sql.trim() };
+  });
+
+  migrations.sort((a, b) => Number(a.version) - Number(b.version));
+
+  migrations.forEach((migration, i) => {
+    if (i > 0 && Number(migration.version) === Number(migrations[i - 1].version)) {
+      throw new Error(`Migrations ${migrations[i - 1].version}_${migrations[i - 1].name} and ${migration.version}_${migration.name} share a version`);
+    }
+  });
+
+  return migrations;
+};
+
+// The migrations a database that has `appliedVersions` still needs, in order
+export const getPendingMigrations = (migrations: Migration[], appliedVersions: string[]): Migration[] => {
+  const applied = new Set(appliedVersions.map(Number));
+  return migrations.filter(migration => !applied.has(Number(migration.version)));
+};
+
+// The statement that records a migration as applied
+export const recordMigrationSql = (migration: Migration) =>
+  `INSERT INTO ${MIGRATIONS_TABLE} (version, name) VALUES ('${migration.version}', '${migration.name}') ON CONFLICT (version) DO NOTHING;`;
+
+/**
+ * One script that applies `migrations` and records them, for pasting into the
+ * Supabase SQL Editor
+ */
+export const buildSetupSql = (migrations: Migration[]): string => {
+  const steps = migrations.map(migration => [
+    `-- ${migration.version}_${migration.name}`,
+    migration.sql,
+    recordMigrationSql(migration)
+  ].join('\n\n'));
+
+  return [
+    '-- Run this SQL in the Supabase SQL Editor, or run `npm run migrate` with DATABASE_URL set.',
+    '-- Generated from the files in migrations/.',
+    MIGRATIONS_TABLE_SQL,
+    ...steps
+  ].join('\n\n') + '\n';
+};
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { startMockGeminiServer, MockGeminiServer } from '../test/mockGeminiServer';
+import { geminiClient } from './geminiClient';
+import { generateQuiz, gradeQuiz, parseQuiz, quizProgress } from './quiz';
+import type { Quiz } from './quiz';
+import type { ConceptCard, QuizAttempt } from './repository';
+
+const cards: ConceptCard[] = [
+  { id: 'c1', title: 'Ideal gas law', content: 'PV = nRT', category: 'Chemistry' },
+  { id: 'c2', title: 'Boyle\'s law', content: 'At constant temperature, P is inversely proportional to V', category: 'Chemistry' }
+];
+
+const QUIZ_RESPONSE = `Here is your quiz:
+\`\`\`json
+{
+  "category": "Chemistry",
+  "questions": [
+    { "type": "multiple_choice", "question": "What does R stand for?", "options": ["Gas constant", "Radius", "Resistance"], "answer": 0, "explanation": "R is the gas constant." },
+    { "type": "true_false", "question": "Boyle's law holds at constant temperature.", "answer": "true", "explanation": "It assumes constant T." },
+    { "type": "short_answer", "question": "Write the ideal gas law.", "answer": "PV = nRT", "explanation": "Pressure times volume is nRT." },
+    { "type": "multiple_choice", "question": "Broken", "options": ["Only one"], "answer": 3 },
+    { "type": "essay", "question": "Discuss gases." }
+  ]
+}
+\`\`\``;
+
+const quiz: Quiz = {
+  title: 'Chemistry concept cards',
+  source: 'cards',
+  category: 'Chemistry',
+  chat_id: null,
+  questions: [
+    { kind: 'multiple_choice', question: 'What does R stand for?', options: ['Gas constant', 'Radius'], answer: 0, explanation: '' },
+    { kind: 'true_false', question: 'Boyle\'s law holds at constant temperature.', answer: true, explanation: '' },
+    { kind: 'short_answer', question: 'Write the ideal gas law.', answer: 'PV = nRT', explanation: '' },
+    { kind: 'short_answer', question: 'What is held constant in Boyle\'s law?', answer: 'Temperature', explanation: '' }
+  ]
+};
+
+describe('quiz', () => {
+  let server: MockGeminiServer;
+
+  beforeAll(async () => {
+    server = await startMockGeminiServer();
+    vi.stubEnv('VITE_GEMINI_PROXY_URL', server.url);
+    geminiClient.setRetryPolicy({ baseDelayMs: 0, maxDelayMs: 0 });
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('writes questions from the cards, keeping only the well-formed ones', async () => {
+    server.setHandler(() => ({ text: QUIZ_RESPONSE }));
+
+    const generated = await generateQuiz({ source: 'cards', category: 'Chemistry', cards }, 5);
+
+    expect(generated).toMatchObject({ title: 'Chemistry concept cards', source: 'cards', category: 'Chemistry', chat_id: null });
+    expect(generated!.questions).toEqual([
+      { kind: 'multiple_choice', question: 'What does R stand for?', options: ['Gas constant', 'Radius', 'Resistance'], answer: 0, explanation: 'R is the gas constant.' },
+      { kind: 'true_false', question: 'Boyle\'s law holds at constant temperature.', answer: true, explanation: 'It assumes constant T.' },
+      { kind: 'short_answer', question: 'Write the ideal gas law.', answer: 'PV = nRT', explanation: 'Pressure times volume is nRT.' }
+    ]);
+    expect(server.requests[0].body.contents[0].parts[0].text).toContain('## Boyle\'s law (Chemistry)');
+  });
+
+  it('reads a choice given as its index in a string, or as its text', () => {
+    const options = ['Boyle', 'Charles', 'Avogadro'];
+    const { questions } = parseQuiz(JSON.stringify({
+      category: 'Chemistry',
+      questions: [
+        { type: 'multiple_choice', question: 'Whose law relates V and n?', options, answer: '2' },
+        { type: 'multiple_choice', question: 'Whose law relates V and T?', options, answer: 'Charles' },
+        { type: 'multiple_choice', question: 'Out of range', options, answer: '3' }
+      ]
+    }), 3);
+
+    expect(questions.map(question => question.kind === 'multiple_choice' && question.answer)).toEqual([2, 1]);
+  });
+
+  it('takes the category of a chat quiz from the model', async () => {
+    server.setHandler(() => ({ text: QUIZ_RESPONSE.replace('"Chemistry"', '"Alchemy"') }));
+    const chat = { id: 'chat-1', title: 'Gases', model: 'gemini-pro', created_at: '2024-01-01T00:00:00.000Z', updated_at: '2024-01-01T00:00:00.000Z' };
+
+    const generated = await generateQuiz({ source: 'chat', chat, messages: [{ role: 'user', content: 'What is PV = nRT?', chat_id: 'chat-1' }] }, 2);
+
+    expect(generated).toMatchObject({ title: 'Gases', source: 'chat', category: 'Other', chat_id: 'chat-1' });
+    expect(generated!.questions).toHaveLength(2);
+  });
+
+  it('returns null when the response has no usable question', async () => {
+    server.setHandler(() => ({ text: '{"category": "Chemistry", "questions": [{"type": "essay"}]}' }));
+
+    expect(await generateQuiz({ source: 'cards', category: 'All', cards }, 5)).toBeNull();
+  });
+
+  it('scores choices locally and asks the model about short answers that differ', async () => {
+    server.setHandler(() => ({ text: '{"correct": false, "feedback": "Boyle\'s law keeps the temperature constant, not the pressure."}' }));
+
+    const { answers, score } = await gradeQuiz(quiz, [0, false, 'pv=nrt', 'pressure']);
+
+    expect(answers).toEqual([
+      { given: 0, correct: true },
+      { given: false, correct: false },
+      { given: 'pv=nrt', correct: true },
+      { given: 'pressure', correct: false, feedback: 'Boyle\'s law keeps the temperature constant, not the pressure.' }
+    ]);
+    expect(score).toBe(2);
+    // Only the short answer that didn't match was sent
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0].body.contents[0].parts[0].text).toContain('Student\'s answer: pressure');
+  });
+
+  it('falls back to the expected answer when the model cannot grade', async () => {
+    server.setHandler(() => ({ status: 429, message: 'Quota exceeded' }));
+
+    const { answers } = await gradeQuiz(quiz, [null, null, null, 'The temperature']);
+
+    expect(answers.slice(0, 3).every(answer => !answer.correct && answer.given === null)).toBe(true);
+    expect(answers[3]).toMatchObject({ given: 'The temperature', correct: false, feedback: expect.stringContaining("couldn't be checked") });
+  });
+
+  it('sums up the attempts of each category', () => {
+    const attempt = (category: ConceptCard['category'], score: number, created_at: string): QuizAttempt => ({
+      id: created_at, title: 'Quiz', source: 'cards', category, questions: [], answers: [], score, total: 4, created_at
+    });
+
+    expect(quizProgress([
+      attempt('Physics', 4, '2024-01-03T00:00:00.000Z'),
+      attempt('Chemistry', 1, '2024-01-01T00:00:00.000Z'),
+      attempt('Chemistry', 3, '2024-01-02T00:00:00.000Z')
+    ])).toEqual([
+      { category: 'Physics', attempts: 1, average: 1, best: 1, recent: [1] },
+      { category: 'Chemistry', attempts: 2, average: 0.5, best: 0.75, recent: [0.25, 0.75] }
+    ]);
+  });
+});
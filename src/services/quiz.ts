@@ -0,0 +1,276 @@
+import { geminiClient, isAbortError } from './geminiClient';
+import { sanitizeJsonString, validCategories } from './gemini';
+import { messageText } from './repository';
+import type { Chat, ChatMessage, ConceptCard, QuizAnswer, QuizAttempt, QuizQuestion } from './repository';
+
+/**
+ * Quizzes generated from concept cards or from a chat.
+ *
+ * The model writes multiple-choice, true/false and short-answer questions as
+ * JSON, which is parsed like a concept card's and checked question by question:
+ * malformed questions are dropped rather than failing the whole quiz. Choices
+ * are scored locally; short answers that don't match the expected one
+ * (ignoring case, spacing and punctuation) are graded by the model, which also
+ * says what was missing.
+ */
+
+export type QuizQuestionKind = QuizQuestion['kind'];
+
+// A quiz ready to be taken
+export type Quiz = Pick<QuizAttempt, 'title' | 'source' | 'category' | 'chat_id' | 'questions'>;
+
+// What a quiz is made from: the cards of a category (or all of them), or a chat
+export type QuizMaterial =
+  | { source: 'cards'; category: string; cards: ConceptCard[] }
+  | { source: 'chat'; chat: Chat; messages: ChatMessage[] };
+
+// Per category: how quizzes went, as fractions of the questions answered right
+export type CategoryProgress = {
+  category: ConceptCard['category'];
+  attempts: number;
+  average: number;
+  best: number;
+  recent: number[]; // The last few scores, oldest first
+};
+
+export const QUIZ_LENGTHS = [5, 10, 15];
+// Enough of a long chat or a big deck to write questions from
+const MAX_MATERIAL_CHARS = 12000;
+const RECENT_SCORES = 5;
+
+const toCategory = (category: unknown): ConceptCard['category'] =>
+  validCategories.includes(category as string) ? category as ConceptCard['category'] : 'Other';
+
+// The text questions are written from
+export const quizMaterialText = (material: QuizMaterial) => {
+  const text = material.source === 'cards'
+    ? material.cards.map(card => `## ${card.title} (${card.category})\n${card.content}`).join('\n\n')
+    : material.messages
+      .map(message => `${message.role === 'user' ? 'Question' : 'Answer'}: ${messageText(message.content)}`)
+      .join('\n\n');
+  return text.length > MAX_MATERIAL_CHARS ? text.slice(0, MAX_MATERIAL_CHARS) : text;
+};
+
+// Letters and digits only, so case, spacing and punctuation don't matter
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// A question from the model's JSON, or null when it is malformed
+const parseQuestion = (raw: any): QuizQuestion | null => {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const question = typeof raw.question === 'string' ? raw.question.trim() : '';
+  const explanation = typeof raw.explanation === 'string' ? raw.explanation.trim() : '';
+  if (!question) return null;
+
+  switch (raw.kind ?? raw.type) {
+    case 'multiple_choice': {
+      const options = Array.isArray(raw.options)
+        ? raw.options.filter((option: unknown) => typeof option === 'string' && option.trim()).map((option: string) => option.trim())
+        : [];
+      // The answer may come as the option's index, the index as a string, or the option's text
+      const text = String(raw.answer ?? '').trim();
+      const answer = typeof raw.answer === 'number'
+        ? raw.answer
+        : /^\d+$/.test(text) && Number(text) < options.length ? Number(text) : options.indexOf(text);
+      if (options.length < 2 || !Number.isInteger(answer) || answer < 0 || answer >= options.length) return null;
+      return { kind: 'multiple_choice', question, options, answer, explanation };
+    }
+    case 'true_false': {
+      const answer = typeof raw.answer === 'boolean' ? raw.answer : String(raw.answer).toLowerCase();
+      if (answer !== true && answer !== false && answer !== 'true' && answer !== 'false') return null;
+      return { kind: 'true_false', question, answer: answer === true || answer === 'true', explanation };
+    }
+    case 'short_answer': {
+      const answer = typeof raw.answer === 'string' ? raw.answer.trim() : '';
+      if (!answer) return null;
+      return { kind: 'short_answer', question, answer, explanation };
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * The category and questions of a quiz from the model's response; throws when
+ * the response has no JSON or no usable question
+ */
+export const parseQuiz = (response: string, count: number): { category: ConceptCard['category']; questions: QuizQuestion[] } => {
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('No JSON found in the response');
+  }
+
+  const parsed = JSON.parse(sanitizeJsonString(jsonMatch[0]));
+  const questions = (Array.isArray(parsed.questions) ? parsed.questions : [])
+    .map(parseQuestion)
+    .filter((question: QuizQuestion | null): question is QuizQuestion => question !== null)
+    .slice(0, count);
+
+  if (questions.length === 0) {
+    throw new Error('Response has no valid questions');
+  }
+  return { category: toCategory(parsed.category), questions };
+};
+
+// Generate a quiz; null when the model gives nothing usable
+export const generateQuiz = async (material: QuizMaterial, count = QUIZ_LENGTHS[0], signal?: AbortSignal): Promise<Quiz | null> => {
+  const text = quizMaterialText(material);
+  if (!text.trim()) return null;
+
+  const prompt = `Write a quiz of ${count} questions to test understanding of the study material below.
+    Mix the question types: multiple choice, true/false and short answer.
+    Only ask about what the material covers.
+
+    Format the response as JSON:
+    {
+      "category": "One of: Physics, Chemistry, Biology, Other",
+      "questions": [
+        { "type": "multiple_choice", "question": "...", "options": ["...", "...", "...", "..."], "answer": 0, "explanation": "Why the right option is right" },
+        { "type": "true_false", "question": "A statement to judge", "answer": true, "explanation": "..." },
+        { "type": "short_answer", "question": "...", "answer": "The expected answer, in a few words", "explanation": "..." }
+      ]
+    }
+
+    For multiple choice, "answer" is the index of the right option, counting from 0.
+    The category MUST be exactly one of: "Physics", "Chemistry", "Biology", or "Other".
+
+    Study material:
+    ${text}
+    `;
+
+  try {
+    console.log(`[QUIZ] Generating ${count} questions from`, material.source === 'cards' ? `${material.cards.length} cards` : `chat ${material.chat.id}`);
+    const result = await geminiClient.generateContent({
+      task: 'quiz',
+      model: 'gemini-1.5-flash',
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      generationConfig: {
+        temperature: 0.4,
+        maxOutputTokens: 4096
+      },
+      signal
+    });
+
+    const { category, questions } = parseQuiz(result.text, count);
+    console.log(`[QUIZ] Got ${questions.length} valid questions from ${result.model}`);
+
+    return material.source === 'cards'
+      ? {
+          title: material.category === 'All' ? 'All concept cards' : `${material.category} concept cards`,
+          source: 'cards',
+          // A quiz on every card counts towards the category the model names
+          category: material.category === 'All' ? category : toCategory(material.category),
+          chat_id: null,
+          questions
+        }
+      : { title: material.chat.title, source: 'chat', category, chat_id: material.chat.id, questions };
+  } catch (error) {
+    console.error('[QUIZ] Error generating quiz:', error);
+
+    // Cancellation is passed on to the caller rather than treated as a failure
+    if (isAbortError(error)) {
+      throw error;
+    }
+    return null;
+  }
+};
+
+// Whether an answer is right, without asking the model; short answers have to match the expected one
+export const isCorrectAnswer = (question: QuizQuestion, given: QuizAnswer['given']) => {
+  if (given === null || given === '') return false;
+  switch (question.kind) {
+    case 'multiple_choice':
+    case 'true_false':
+      return given === question.answer;
+    case 'short_answer':
+      return normalize(String(given)) === normalize(question.answer);
+  }
+};
+
+// Grade a short answer with the model, which also explains what was missing
+export const gradeShortAnswer = async (
+  question: Extract<QuizQuestion, { kind: 'short_answer' }>,
+  given: string,
+  signal?: AbortSignal
+): Promise<QuizAnswer> => {
+  if (!given.trim()) return { given: null, correct: false };
+  if (isCorrectAnswer(question, given)) return { given, correct: true };
+
+  const prompt = `Grade a student's answer to a quiz question.
+
+    Question: ${question.question}
+    Expected answer: ${question.answer}
+    Student's answer: ${given}
+
+    Accept answers that mean the same as the expected one, even if worded differently or with minor spelling mistakes.
+    Format the response as JSON:
+    { "correct": true or false, "feedback": "One or two sentences for the student: what was right, and what was wrong or missing" }
+    `;
+
+  try {
+    const result = await geminiClient.generateContent({
+      task: 'quiz',
+      model: 'gemini-1.5-flash',
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      generationConfig: {
+        temperature: 0,
+        maxOutputTokens: 256
+      },
+      signal
+    });
+
+    const jsonMatch = result.text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('No JSON found in the response');
+    }
+    const verdict = JSON.parse(sanitizeJsonString(jsonMatch[0]));
+    if (typeof verdict.correct !== 'boolean') {
+      throw new Error('Response missing the verdict');
+    }
+
+    return {
+      given,
+      correct: verdict.correct,
+      feedback: typeof verdict.feedback === 'string' && verdict.feedback.trim() ? verdict.feedback.trim() : undefined
+    };
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    console.error('[QUIZ] Could not grade the short answer, marking it against the expected one:', error);
+    return { given, correct: false, feedback: "The answer couldn't be checked, so it was only compared with the expected one." };
+  }
+};
+
+// Grade every answer of a quiz; short answers are graded by the model, all at once
+export const gradeQuiz = async (
+  quiz: Quiz,
+  given: QuizAnswer['given'][],
+  signal?: AbortSignal
+): Promise<{ answers: QuizAnswer[]; score: number }> => {
+  const answers = await Promise.all(quiz.questions.map((question, i) => {
+    const answer = given[i] ?? null;
+    return question.kind === 'short_answer'
+      ? gradeShortAnswer(question, String(answer ?? ''), signal)
+      : Promise.resolve({ given: answer, correct: isCorrectAnswer(question, answer) });
+  }));
+  return { answers, score: answers.filter(answer => answer.correct).length };
+};
+
+// How quizzes went in each category that has any, in the order of the categories
+export const quizProgress = (attempts: QuizAttempt[]): CategoryProgress[] => validCategories
+  .map(category => {
+    const scores = attempts
+      .filter(attempt => attempt.category === category && attempt.total > 0)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(attempt => attempt.score / attempt.total);
+
+    return {
+      category: category as ConceptCard['category'],
+      attempts: scores.length,
+      average: scores.length ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0,
+      best: scores.length ? Math.max(...scores) : 0,
+      recent: scores.slice(-RECENT_SCORES)
+    };
+  })
+  .filter(progress => progress.attempts > 0);
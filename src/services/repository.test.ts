@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { memoryDb } from '../test/inMemorySupabase';
+import * as localDb from './localDb';
+import { createRepository, StorageBackend } from './repository';
+import { gradeReview } from './spacedRepetition';
+
+// Every backend has to behave the same to the rest of the app
+describe.each<StorageBackend>(['memory', 'indexeddb', 'supabase'])('%s repository', backend => {
+  const repository = createRepository(backend);
+
+  beforeEach(async () => {
+    await localDb.clearLocalData();
+    memoryDb.reset();
+  });
+
+  it('creates, renames and deletes chats', async () => {
+    const chat = await repository.createChat('First', 'gemini-pro');
+    await repository.addChatMessage({ role: 'user', content: 'Hello', chat_id: chat.id });
+
+    const renamed = await repository.renameChat(chat.id, 'Renamed');
+    expect(renamed).toMatchObject({ id: chat.id, title: 'Renamed' });
+    expect((await repository.getChats()).map(c => c.title)).toEqual(['Renamed']);
+
+    expect(await repository.deleteChat(chat.id)).toBe(true);
+    expect(await repository.getChats()).toEqual([]);
+    expect(await repository.getChatMessages(chat.id)).toEqual([]);
+  });
+
+  it('returns the messages of a chat oldest first', async () => {
+    const chat = await repository.createChat('Chat');
+    await repository.addChatMessage({ id: 'second', role: 'assistant', content: 'Hi!', chat_id: chat.id, created_at: '2024-01-01T00:00:02.000Z' });
+    await repository.addChatMessage({ id: 'first', role: 'user', content: 'Hello', chat_id: chat.id, created_at: '2024-01-01T00:00:01.000Z' });
+
+    expect((await repository.getChatMessages(chat.id)).map(m => m.id)).toEqual(['first', 'second']);
+  });
+
+  it('links messages into a tree and returns the path asked for', async () => {
+    const chat = await repository.createChat('Chat');
+    await repository.addChatMessage({ id: 'q', role: 'user', content: 'Hello', chat_id: chat.id, created_at: '2024-01-01T00:00:01.000Z' });
+    await repository.addChatMessage({ id: 'a1', role: 'assistant', content: 'Hi!', chat_id: chat.id, created_at: '2024-01-01T00:00:02.000Z' });
+    await repository.addChatMessage({ id: 'a2', role: 'assistant', content: 'Hey!', chat_id: chat.id, created_at: '2024-01-01T00:00:03.000Z', parent_id: 'q' });
+
+    // Messages that don't say what they follow come after the latest one
+    expect((await repository.getMessageTree(chat.id)).map(m => [m.id, m.parent_id ?? null])).toEqual([['q', null], ['a1', 'q'], ['a2', 'q']]);
+    expect((await repository.getChatMessages(chat.id)).map(m => m.id)).toEqual(['q', 'a2']);
+    expect((await repository.getChatMessages(chat.id, 'a1')).map(m => m.id)).toEqual(['q', 'a1']);
+  });
+
+  it('keeps the flag on an answer that was stopped', async () => {
+    const chat = await repository.createChat('Chat');
+    await repository.addChatMessage({ id: 'q', role: 'user', content: 'Count to ten', chat_id: chat.id, created_at: '2024-01-01T00:00:01.000Z' });
+    await repository.addChatMessage({ id: 'a', role: 'assistant', content: 'One, two', chat_id: chat.id, created_at: '2024-01-01T00:00:02.000Z', stopped: true });
+
+    const [question, answer] = await repository.getChatMessages(chat.id);
+    expect(question.stopped).toBeUndefined();
+    expect(answer).toMatchObject({ content: 'One, two', stopped: true });
+  });
+
+  it('keeps image attachments and shows them again when a chat is reopened', async () => {
+    const chat = await repository.createChat('Photos');
+    const attachment = await repository.saveAttachment(chat.id, new Blob(['image'], { type: 'image/png' }), new Blob(['thumb'], { type: 'image/jpeg' }), 'cat.png');
+    expect(attachment).toMatchObject({ mime_type: 'image/png', name: 'cat.png', url: expect.any(String), thumbnail_url: expect.any(String) });
+
+    const stored = await repository.addChatMessage({ role: 'user', content: 'Look', chat_id: chat.id, attachments: [attachment] });
+    // Rows reference the files by path, URLs don't last
+    expect(stored!.attachments).toEqual([{ path: attachment.path, thumbnail_path: attachment.thumbnail_path, mime_type: 'image/png', name: 'cat.png', size: 5 }]);
+
+    const [message] = await repository.getChatMessages(chat.id);
+    expect(message.attachments).toEqual([expect.objectContaining({ path: attachment.path, url: expect.any(String), thumbnail_url: expect.any(String) })]);
+  });
+
+  it('keeps files without a thumbnail', async () => {
+    const chat = await repository.createChat('Worksheets');
+    const attachment = await repository.saveAttachment(chat.id, new Blob(['%PDF-1.4'], { type: 'application/pdf' }), null, 'worksheet.pdf');
+    expect(attachment.thumbnail_path).toBeUndefined();
+
+    await repository.addChatMessage({ role: 'user', content: 'Check this', chat_id: chat.id, attachments: [attachment] });
+
+    const [message] = await repository.getChatMessages(chat.id);
+    expect(message.attachments).toEqual([expect.objectContaining({ name: 'worksheet.pdf', size: 8, url: expect.any(String), thumbnail_url: undefined })]);
+  });
+
+  it('finds chats and messages by their words', async () => {
+    const chat = await repository.createChat('Equilibrium revision');
+    await repository.addChatMessage({ id: 'q', role: 'user', content: 'What does Le Chatelier say?', chat_id: chat.id });
+    await repository.addChatMessage({ id: 'a', role: 'assistant', content: 'A system at equilibrium shifts to counteract a change.', chat_id: chat.id });
+
+    const results = await repository.search('chatel');
+    expect(results).toEqual([expect.objectContaining({ chat_id: chat.id, chat_title: 'Equilibrium revision', message_id: 'q', role: 'user' })]);
+    expect((await repository.search('equilibrium')).map(result => result.message_id)).toEqual([undefined, 'a']);
+  });
+
+  it('pins, tags and archives chats', async () => {
+    const chat = await repository.createChat('Titration');
+
+    const updated = await repository.updateChat(chat.id, { pinned: true, tags: [' #Chemistry ', 'labs', 'chemistry', ''] });
+    expect(updated).toMatchObject({ id: chat.id, pinned: true, tags: ['Chemistry', 'labs'] });
+
+    await repository.updateChat(chat.id, { archived: true });
+    expect((await repository.getChats())[0]).toMatchObject({ title: 'Titration', pinned: true, tags: ['Chemistry', 'labs'], archived: true });
+  });
+
+  it('keeps chats in folders and moves them out when a folder is deleted', async () => {
+    const folder = await repository.createChatFolder(' Exams ');
+    expect(folder).toMatchObject({ id: expect.any(String), name: 'Exams' });
+    await repository.createChatFolder('Biology');
+    expect((await repository.getChatFolders()).map(f => f.name)).toEqual(['Biology', 'Exams']);
+
+    const chat = await repository.createChat('Mock paper');
+    await repository.updateChat(chat.id, { folder_id: folder.id });
+    expect(await repository.renameChatFolder(folder.id, 'Finals')).toMatchObject({ id: folder.id, name: 'Finals' });
+
+    expect(await repository.deleteChatFolder(folder.id)).toBe(true);
+    expect((await repository.getChatFolders()).map(f => f.name)).toEqual(['Biology']);
+    expect((await repository.getChats())[0]).toMatchObject({ id: chat.id, folder_id: null });
+  });
+
+  it('trims new concept cards and filters them by category', async () => {
+    const card = await repository.addConceptCard({ title: '  Force ', content: 'F = ma', category: 'Physics' });
+    await repository.addConceptCard({ title: 'Cells', content: 'Units of life', category: 'Biology' });
+
+    expect(card).toMatchObject({ title: 'Force', color_gradient: 'from-indigo-500 to-purple-500' });
+    expect(await repository.addConceptCard({ title: '', content: 'No title', category: 'Other' })).toBeNull();
+    expect((await repository.getConceptCards('Physics')).map(c => c.title)).toEqual(['Force']);
+
+    const updated = await repository.updateConceptCard(card!.id!, { title: 'Newton\'s Second Law' });
+    expect(updated).toMatchObject({ id: card!.id, title: 'Newton\'s Second Law' });
+
+    expect(await repository.deleteConceptCard(card!.id!)).toBe(true);
+    expect(await repository.getConceptCards('All')).toHaveLength(1);
+  });
+
+  it('keeps the study progress of concept cards until the card is deleted', async () => {
+    const card = await repository.addConceptCard({ title: 'Entropy', content: 'Disorder', category: 'Physics' });
+    const other = await repository.addConceptCard({ title: 'Enthalpy', content: 'Heat content', category: 'Physics' });
+
+    const first = gradeReview(card!.id!, undefined, 'good', new Date('2024-01-01T09:00:00.000Z'));
+    await repository.saveCardReview(first);
+    await repository.saveCardReview(gradeReview(card!.id!, first, 'easy', new Date('2024-01-02T09:00:00.000Z')));
+    await repository.saveCardReview(gradeReview(other!.id!, undefined, 'again'));
+
+    const reviews = await repository.getCardReviews();
+    expect(reviews).toHaveLength(2);
+    expect(reviews.find(r => r.id === card!.id)).toMatchObject({ repetitions: 2, interval: 6, due_at: '2024-01-08T09:00:00.000Z' });
+
+    await repository.deleteConceptCard(other!.id!);
+    expect((await repository.getCardReviews()).map(r => r.id)).toEqual([card!.id]);
+  });
+
+  it('keeps quiz attempts, newest first', async () => {
+    const chat = await repository.createChat('Optics');
+    const first = await repository.addQuizAttempt({
+      title: 'Physics concept cards',
+      source: 'cards',
+      category: 'Physics',
+      questions: [{ kind: 'true_false', question: 'Light is a wave.', answer: true, explanation: 'It is also a particle.' }],
+      answers: [{ given: true, correct: true }],
+      score: 1,
+      total: 1
+    });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await repository.addQuizAttempt({
+      title: 'Optics',
+      source: 'chat',
+      category: 'Physics',
+      chat_id: chat.id,
+      questions: [{ kind: 'short_answer', question: 'What bends light?', answer: 'A lens', explanation: '' }],
+      answers: [{ given: 'A mirror', correct: false, feedback: 'Mirrors reflect light.' }],
+      score: 0,
+      total: 1
+    });
+
+    expect(first).toMatchObject({ id: expect.any(String), created_at: expect.any(String), score: 1 });
+    const attempts = await repository.getQuizAttempts();
+    expect(attempts.map(a => a.title)).toEqual(['Optics', 'Physics concept cards']);
+    expect(attempts[0]).toMatchObject({ chat_id: chat.id, answers: [{ given: 'A mirror', correct: false, feedback: 'Mirrors reflect light.' }] });
+  });
+
+  it('fills in todo defaults and updates todos', async () => {
+    const todo = await repository.addTodo({ title: 'Revise', completed: false, priority: 'high' });
+    expect(todo).toMatchObject({ title: 'Revise', completed: false, priority: 'high', due_date: null });
+
+    await repository.updateTodo(todo!.id, { completed: true });
+    expect(await repository.getTodos()).toEqual([expect.objectContaining({ id: todo!.id, completed: true })]);
+
+    expect(await repository.deleteTodo(todo!.id)).toBe(true);
+    expect(await repository.getTodos()).toEqual([]);
+  });
+
+  it('shares a chat or a deck of cards until the link is revoked or expires', async () => {
+    const chat = await repository.createChat('Kinetics');
+    await repository.addChatMessage({ id: 'q', role: 'user', content: 'What is a rate law?', chat_id: chat.id, created_at: '2024-01-01T00:00:01.000Z' });
+    await repository.addChatMessage({ id: 'a', role: 'assistant', content: 'It relates rate to concentration.', chat_id: chat.id, created_at: '2024-01-01T00:00:02.000Z' });
+    const card = await repository.addConceptCard({ title: 'Rate law', content: 'rate = k[A]^m', category: 'Chemistry' });
+    await repository.addConceptCard({ title: 'Not shared', content: 'Private', category: 'Other' });
+
+    const chatShare = await repository.createShare({ kind: 'chat', chat_id: chat.id, title: 'Kinetics' });
+    const deckShare = await repository.createShare({ kind: 'cards', card_ids: [card!.id!], title: 'Deck', expires_at: '2999-01-01T00:00:00.000Z' });
+    const expiredShare = await repository.createShare({ kind: 'chat', chat_id: chat.id, title: 'Old', expires_at: '2020-01-01T00:00:00.000Z' });
+    expect(chatShare!.token).toMatch(/^[\w-]{32}$/);
+    expect(chatShare!.token).not.toBe(deckShare!.token);
+
+    const sharedChat = await repository.getSharedContent(chatShare!.token);
+    expect(sharedChat).toMatchObject({ share: { kind: 'chat', title: 'Kinetics' }, chat: { title: 'Kinetics' }, cards: [] });
+    expect(sharedChat!.messages.map(m => m.id)).toEqual(['q', 'a']);
+    const sharedDeck = await repository.getSharedContent(deckShare!.token);
+    expect(sharedDeck).toMatchObject({ share: { kind: 'cards', title: 'Deck' }, chat: null, messages: [] });
+    expect(sharedDeck!.cards.map(c => c.title)).toEqual(['Rate law']);
+    expect(await repository.getSharedContent(expiredShare!.token)).toBeNull();
+    expect(await repository.getSharedContent('unknown')).toBeNull();
+
+    expect(await repository.revokeShare(chatShare!.id)).toMatchObject({ id: chatShare!.id, revoked_at: expect.any(String) });
+    expect(await repository.getSharedContent(chatShare!.token)).toBeNull();
+    expect((await repository.getShares()).map(s => [s.title, !!s.revoked_at]).sort()).toEqual([['Deck', false], ['Kinetics', true], ['Old', false]]);
+  });
+});
@@ -0,0 +1,378 @@
+import { isOfflineMode } from './supabase';
+import { createSupabaseRepository } from './supabaseRepository';
+import { createIndexedDbRepository } from './indexedDbRepository';
+import { createMemoryRepository } from './memoryRepository';
+
+/**
+ * Storage for chats, messages, concept cards and todos.
+ *
+ * The app talks to a `Repository` rather than to Supabase directly, so the
+ * backend can be swapped: Supabase (with a local copy and sync outbox),
+ * IndexedDB only, or in memory for tests and demos. The backend is chosen once
+ * at startup from `VITE_STORAGE_BACKEND`, defaulting to Supabase when it is
+ * configured and IndexedDB otherwise.
+ */
+
+export type ConceptCard = {
+  id?: string;
+  title: string;
+  content: string;
+  category: 'Physics' | 'Chemistry' | 'Biology' | 'Other';
+  created_at?: string;
+  updated_at?: string;
+  color_gradient?: string;
+  chat_id?: string | null; // The chat the card was generated in
+  user_id?: string;
+};
+
+// A file sent with a message. Rows store its path; the URLs are filled in when
+// messages are read (signed URLs from Storage, or object URLs for local files).
+export type Attachment = {
+  path: string;
+  thumbnail_path?: string;
+  mime_type: string;
+  name?: string;
+  size?: number;
+  url?: string;
+  thumbnail_url?: string;
+};
+
+// A concept card or earlier answer that was given to the model as context for a response
+export type MessageSource = {
+  kind: 'concept_card' | 'message';
+  id: string;
+  title: string;
+  chat_id?: string; // The chat of an earlier answer
+};
+
+// An answer to an educational question, in the sections of the study template
+// (see studyAnswer.ts). The message's content is the same answer as Markdown.
+export type StudyAnswer = {
+  summary: string;
+  subject: string;
+  topic: string;
+  question: string;
+  steps: string[];
+  tips: string[];
+};
+
+// What a message asks for (see intent.ts)
+export type IntentKind = 'casual' | 'educational' | 'image_generation' | 'code' | 'summary';
+
+export type MessageIntent = {
+  kind: IntentKind;
+  subject: string | null;
+  topic: string | null;
+  confidence: number; // From 0 to 1
+  source: 'model' | 'heuristic'; // Classified by Gemini, or by keyword rules when it couldn't be
+};
+
+export type ChatMessage = {
+  id?: string;
+  role: 'user' | 'assistant';
+  content: string;
+  chat_id: string;
+  created_at?: string;
+  attachments?: Attachment[];
+  sources?: MessageSource[];
+  study?: StudyAnswer; // Set on answers the model wrote in the study template
+  intent?: MessageIntent; // Set on questions, when they are sent
+  stopped?: boolean; // Set when the user cancelled the generation of this message
+  parent_id?: string | null; // The message this one follows; left out, the latest one before it (see messageTree.ts)
+  user_id?: string;
+};
+
+export type Chat = {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  model: string;
+  folder_id?: string | null;
+  pinned?: boolean;
+  tags?: string[];
+  archived?: boolean; // Hidden from the chat list unless archived chats are shown
+  user_id?: string;
+};
+
+// A user-defined group of chats, e.g. per subject or exam
+export type ChatFolder = {
+  id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+  user_id?: string;
+};
+
+// A chat whose title matches a search, or a message whose text does. Matched
+// words in the snippet are wrapped in MATCH_START and MATCH_END (see search.ts).
+export type SearchResult = {
+  chat_id: string;
+  chat_title: string;
+  message_id?: string; // Unset when the chat's title matched
+  role?: 'user' | 'assistant';
+  snippet: string;
+  created_at?: string;
+};
+
+export type Todo = {
+  id: string;
+  title: string;
+  completed: boolean;
+  priority: 'low' | 'medium' | 'high';
+  due_date?: string | null;
+  created_at: string;
+  updated_at?: string;
+  user_id?: string;
+};
+
+// A read-only public link to a chat or to a deck of concept cards. Anyone with
+// the token can open it until it is revoked or expires (see shares.ts).
+export type Share = {
+  id: string;
+  token: string;
+  kind: 'chat' | 'cards';
+  chat_id?: string | null;
+  card_ids?: string[] | null;
+  title: string;
+  expires_at?: string | null; // Unset for a link that doesn't expire
+  revoked_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  user_id?: string;
+};
+
+// What a share link shows: the chat, along the path shown by default, or the cards of the deck
+export type SharedContent = {
+  share: Pick<Share, 'kind' | 'title' | 'created_at' | 'expires_at'>;
+  chat: Pick<Chat, 'title' | 'model' | 'created_at'> | null;
+  messages: ChatMessage[];
+  cards: ConceptCard[];
+};
+
+// Where a concept card stands in spaced-repetition study (see spacedRepetition.ts).
+// A card has at most one: the review's id is the card's id.
+export type CardReview = {
+  id: string;
+  ease: number; // SM-2 ease factor, 1.3 and up
+  interval: number; // Days until the card is due again; 0 while it is being relearned
+  repetitions: number; // Correct answers in a row
+  lapses: number; // Times the card was forgotten after being learned
+  due_at: string;
+  last_reviewed_at: string;
+  created_at: string;
+  updated_at: string;
+  user_id?: string;
+};
+
+// A question of a generated quiz (see quiz.ts). Every kind explains its answer,
+// for when it was answered wrong.
+export type QuizQuestion =
+  | { kind: 'multiple_choice'; question: string; options: string[]; answer: number; explanation: string } // answer: index of the right option
+  | { kind: 'true_false'; question: string; answer: boolean; explanation: string }
+  | { kind: 'short_answer'; question: string; answer: string; explanation: string };
+
+// How one question was answered
+export type QuizAnswer = {
+  given: number | boolean | string | null; // null when left unanswered
+  correct: boolean;
+  feedback?: string; // The model's verdict on a short answer
+};
+
+// A quiz that was taken, with its score, to track progress per category
+export type QuizAttempt = {
+  id: string;
+  title: string;
+  source: 'cards' | 'chat';
+  category: ConceptCard['category'];
+  chat_id?: string | null; // The chat a chat quiz was made from
+  questions: QuizQuestion[];
+  answers: QuizAnswer[];
+  score: number; // Questions answered right
+  total: number;
+  created_at: string;
+  user_id?: string;
+};
+
+export type ChatUpdates = Partial<Pick<Chat, 'title' | 'folder_id' | 'pinned' | 'tags' | 'archived'>>;
+export type NewConceptCard = Omit<ConceptCard, 'id' | 'created_at'>;
+export type ConceptCardUpdates = Partial<Omit<ConceptCard, 'id' | 'created_at'>>;
+export type NewTodo = Omit<Todo, 'id' | 'created_at'>;
+export type TodoUpdates = Partial<Omit<Todo, 'id' | 'created_at'>>;
+export type NewShare = Pick<Share, 'kind' | 'chat_id' | 'card_ids' | 'title' | 'expires_at'>;
+export type NewQuizAttempt = Omit<QuizAttempt, 'id' | 'created_at'>;
+
+export type StorageBackend = 'supabase' | 'indexeddb' | 'memory';
+
+export interface Repository {
+  readonly backend: StorageBackend;
+
+  // Called once at startup, e.g. to check the database tables
+  prepare(): Promise<void>;
+
+  // Chats
+  getChats(): Promise<Chat[]>;
+  createChat(title: string, model?: string): Promise<Chat>;
+  renameChat(chatId: string, newTitle: string): Promise<Chat | null>;
+  // Change a chat's title, folder, pin, tags or archived flag
+  updateChat(chatId: string, updates: ChatUpdates): Promise<Chat | null>;
+  deleteChat(chatId: string): Promise<boolean>;
+  // Chats and messages containing every word of the query, best matches first
+  search(query: string, limit?: number): Promise<SearchResult[]>;
+
+  // Chat folders
+  getChatFolders(): Promise<ChatFolder[]>;
+  createChatFolder(name: string): Promise<ChatFolder | null>;
+  renameChatFolder(folderId: string, name: string): Promise<ChatFolder | null>;
+  // The chats in the folder move out of it
+  deleteChatFolder(folderId: string): Promise<boolean>;
+
+  // Chat messages
+  // The path through the chat that shows the given message, by default the one ending at the newest message
+  getChatMessages(chatId: string, messageId?: string): Promise<ChatMessage[]>;
+  // Every message of the chat, on every branch
+  getMessageTree(chatId: string): Promise<ChatMessage[]>;
+  addChatMessage(message: ChatMessage): Promise<ChatMessage | null>;
+  // Store a file sent in a chat (and an image's thumbnail) for a message to reference
+  saveAttachment(chatId: string, file: Blob, thumbnail: Blob | null, name?: string): Promise<Attachment>;
+
+  // Concept cards
+  getConceptCards(category?: string): Promise<ConceptCard[]>;
+  addConceptCard(card: NewConceptCard): Promise<ConceptCard | null>;
+  updateConceptCard(cardId: string, updates: ConceptCardUpdates): Promise<ConceptCard | null>;
+  deleteConceptCard(cardId: string): Promise<boolean>;
+
+  // Study progress of concept cards; deleting a card deletes its review too
+  getCardReviews(): Promise<CardReview[]>;
+  saveCardReview(review: CardReview): Promise<CardReview | null>;
+
+  // Quiz attempts, newest first
+  getQuizAttempts(): Promise<QuizAttempt[]>;
+  addQuizAttempt(attempt: NewQuizAttempt): Promise<QuizAttempt | null>;
+
+  // Todos
+  getTodos(): Promise<Todo[]>;
+  addTodo(todo: NewTodo): Promise<Todo | null>;
+  updateTodo(todoId: string, updates: TodoUpdates): Promise<Todo | null>;
+  deleteTodo(todoId: string): Promise<boolean>;
+
+  // Share links
+  getShares(): Promise<Share[]>;
+  createShare(share: NewShare): Promise<Share | null>;
+  revokeShare(shareId: string): Promise<Share | null>;
+  // What a share link shows; null when its token is unknown, or the link revoked or expired
+  getSharedContent(token: string): Promise<SharedContent | null>;
+}
+
+// Trim a new card and give it the default gradient; null if a required field is missing
+export const prepareConceptCard = (card: NewConceptCard): NewConceptCard | null => {
+  if (!card.title || !card.content || !card.category) {
+    console.error('[REPOSITORY] Missing required fields for concept card creation');
+    return null;
+  }
+
+  return {
+    ...card,
+    title: card.title.trim(),
+    content: card.content.trim(),
+    // Add default gradient if none provided
+    color_gradient: card.color_gradient || 'from-indigo-500 to-purple-500'
+  };
+};
+
+// Trim tags, drop a leading # and duplicates that differ only in case
+export const normalizeTags = (tags: string[]) => {
+  const seen = new Set<string>();
+  return tags
+    .map(tag => tag.trim().replace(/^#+/, '').trim())
+    .filter(tag => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+// Tidy the tags of a chat update
+export const prepareChatUpdates = (updates: ChatUpdates): ChatUpdates =>
+  updates.tags ? { ...updates, tags: normalizeTags(updates.tags) } : updates;
+
+// Fill in the defaults of a new todo
+export const prepareTodo = (todo: NewTodo, id: string): Todo => {
+  const timestamp = new Date().toISOString();
+  return {
+    id,
+    title: todo.title,
+    completed: todo.completed || false,
+    priority: todo.priority || 'medium',
+    due_date: todo.due_date || null,
+    created_at: timestamp,
+    updated_at: timestamp
+  };
+};
+
+// Text of stored message content, leaving out the parts made from attached files
+export const messageText = (content: string) => {
+  if (!content.trim().startsWith('[')) return content;
+  try {
+    const parts = JSON.parse(content);
+    return Array.isArray(parts)
+      ? parts.filter(part => part.text && !part.file).map(part => part.text).join('\n')
+      : content;
+  } catch {
+    return content;
+  }
+};
+
+// Stored message content with its text replaced, keeping the parts made from attached files
+export const replaceMessageText = (content: string, text: string) => {
+  if (!content.trim().startsWith('[')) return text;
+  try {
+    const parts = JSON.parse(content);
+    if (!Array.isArray(parts)) return text;
+    const fileParts = parts.filter(part => !(part.text && !part.file));
+    return JSON.stringify([{ text }, ...fileParts]);
+  } catch {
+    return text;
+  }
+};
+
+// The backend asked for in the environment, if it can be used
+export const resolveBackend = (): StorageBackend => {
+  const requested = import.meta.env.VITE_STORAGE_BACKEND as string | undefined;
+
+  if (requested === 'memory' || requested === 'indexeddb') {
+    return requested;
+  }
+  if (requested && requested !== 'supabase') {
+    console.warn(`[REPOSITORY] Unknown storage backend "${requested}", using the default`);
+  }
+  if (requested === 'supabase' && isOfflineMode) {
+    console.warn('[REPOSITORY] Supabase is not configured, storing data in IndexedDB instead');
+  }
+
+  return isOfflineMode ? 'indexeddb' : 'supabase';
+};
+
+export const createRepository = (backend: StorageBackend): Repository => {
+  switch (backend) {
+    case 'supabase':
+      return createSupabaseRepository();
+    case 'indexeddb':
+      return createIndexedDbRepository();
+    case 'memory':
+      return createMemoryRepository();
+  }
+};
+
+let repository: Repository | null = null;
+
+// The repository chosen at startup
+export const getRepository = (): Repository => {
+  if (!repository) {
+    const backend = resolveBackend();
+    console.log('[REPOSITORY] Using storage backend:', backend);
+    repository = createRepository(backend);
+  }
+  return repository;
+};
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { startMockGeminiServer, MockGeminiServer } from '../test/mockGeminiServer';
+import { geminiClient } from './geminiClient';
+import { clearLocalData, getEmbeddings } from './localDb';
+import {
+  createRetrievalIndex,
+  createMemoryEmbeddingStore,
+  localEmbeddingStore,
+  localEmbedder,
+  conceptCardRecord,
+  answerRecords,
+  buildRetrievalNote,
+  GEMINI_EMBEDDING_MODEL
+} from './retrieval';
+import type { Embedder } from './retrieval';
+import type { ChatMessage } from './repository';
+
+const newtonCard = conceptCardRecord({
+  id: 'card-newton',
+  title: "Newton's Second Law",
+  content: 'Force equals mass times acceleration (F = ma). A larger force gives a larger acceleration.',
+  category: 'Physics'
+});
+const cellCard = conceptCardRecord({
+  id: 'card-cells',
+  title: 'Cell Membranes',
+  content: 'The membrane controls what enters and leaves the cell through channels and pumps.',
+  category: 'Biology'
+});
+
+const physicsChat: ChatMessage[] = [
+  { id: 'q1', role: 'user', content: 'What happens to acceleration when the force doubles?', chat_id: 'chat-physics' },
+  { id: 'a1', role: 'assistant', content: 'With the mass unchanged, doubling the force doubles the acceleration, since acceleration is force divided by mass.', chat_id: 'chat-physics' }
+];
+
+// Counts the texts an embedder is asked to embed
+const counting = (embedder: Embedder) => {
+  const embedded: string[] = [];
+  return {
+    embedded,
+    embedder: { ...embedder, embed: (texts: string[], use: 'query' | 'document') => {
+      if (use === 'document') embedded.push(...texts);
+      return embedder.embed(texts, use);
+    } }
+  };
+};
+
+describe('retrieval', () => {
+  it('finds the concept cards and earlier answers related to a question', async () => {
+    const index = createRetrievalIndex(createMemoryEmbeddingStore(), [localEmbedder]);
+    await index.index([newtonCard, cellCard, ...answerRecords(physicsChat)]);
+
+    const results = await index.search('How are force, mass and acceleration related?');
+
+    expect(results.map(result => result.id)).toEqual(['card-newton', 'a1']);
+    expect(results[1]).toMatchObject({ kind: 'message', chat_id: 'chat-physics', title: 'What happens to acceleration when the force doubles?' });
+    expect(await index.search('Photosynthesis in leaves')).toEqual([]);
+  });
+
+  it('leaves out answers from the current chat and keeps to the limits', async () => {
+    const index = createRetrievalIndex(createMemoryEmbeddingStore(), [localEmbedder]);
+    await index.index([newtonCard, ...answerRecords(physicsChat)]);
+
+    const results = await index.search('force and acceleration', { excludeChatId: 'chat-physics' });
+    expect(results.map(result => result.id)).toEqual(['card-newton']);
+
+    const limited = await index.search('force and acceleration', { limits: { concept_card: 0, message: 1 } });
+    expect(limited.map(result => result.id)).toEqual(['a1']);
+  });
+
+  it('only embeds records that are new or changed, and drops removed ones', async () => {
+    const { embedder, embedded } = counting(localEmbedder);
+    const index = createRetrievalIndex(createMemoryEmbeddingStore(), [embedder]);
+
+    await index.index([newtonCard, cellCard], { replaceKind: 'concept_card' });
+    await index.index([newtonCard, { ...cellCard, text: `${cellCard.text} Proteins act as channels.` }], { replaceKind: 'concept_card' });
+    expect(embedded).toHaveLength(3);
+
+    await index.index([cellCard], { replaceKind: 'concept_card' });
+    expect(await index.search('force and acceleration')).toEqual([]);
+
+    await index.index(answerRecords(physicsChat));
+    await index.removeChat('chat-physics');
+    expect(await index.search('doubling the force')).toEqual([]);
+  });
+
+  it('keeps the index in IndexedDB across sessions', async () => {
+    await clearLocalData();
+    await createRetrievalIndex(localEmbeddingStore, [localEmbedder]).index([newtonCard]);
+
+    const { embedder, embedded } = counting(localEmbedder);
+    const nextSession = createRetrievalIndex(localEmbeddingStore, [embedder]);
+    const results = await nextSession.search('mass and acceleration');
+
+    expect(results.map(result => result.id)).toEqual(['card-newton']);
+    expect(embedded).toEqual([]);
+    expect((await getEmbeddings(localEmbedder.model)).map(entry => entry.id)).toEqual([`${localEmbedder.model}:concept_card:card-newton`]);
+  });
+
+  it('pairs answers with their question and skips short replies and attached files', () => {
+    const records = answerRecords([
+      { id: 'q', role: 'user', content: JSON.stringify([{ text: 'Summarize my notes' }, { text: 'Attached file "notes.md": secret', file: 'notes.md' }]), chat_id: 'c' },
+      { id: 'a', role: 'assistant', content: 'Your notes cover the three laws of motion, with worked examples for each law and a short quiz.', chat_id: 'c' },
+      { id: 'q2', role: 'user', content: 'Thanks', chat_id: 'c' },
+      { id: 'a2', role: 'assistant', content: "You're welcome!", chat_id: 'c' }
+    ]);
+
+    expect(records).toHaveLength(1);
+    expect(records[0].text).toBe('Question: Summarize my notes\n\nAnswer: Your notes cover the three laws of motion, with worked examples for each law and a short quiz.');
+  });
+
+  it('tells the model what it was given', () => {
+    const note = buildRetrievalNote([{ ...newtonCard, score: 0.9 }]);
+
+    expect(note).toContain(`Concept card "Newton's Second Law":`);
+    expect(note).toContain('Force equals mass times acceleration');
+  });
+
+  describe('with Gemini embeddings', () => {
+    let server: MockGeminiServer;
+
+    beforeAll(async () => {
+      server = await startMockGeminiServer();
+      vi.stubEnv('VITE_GEMINI_PROXY_URL', server.url);
+      geminiClient.setRetryPolicy({ baseDelayMs: 0, maxDelayMs: 0 });
+    });
+
+    afterAll(async () => {
+      vi.unstubAllEnvs();
+      await server.close();
+    });
+
+    beforeEach(() => {
+      server.reset();
+    });
+
+    it('embeds with Gemini, documents and queries each their own way', async () => {
+      // One dimension per topic
+      server.setEmbedHandler(texts => ({
+        embeddings: texts.map(text => [/force/i.test(text) ? 1 : 0, /cell/i.test(text) ? 1 : 0, 0.1])
+      }));
+      const index = createRetrievalIndex(createMemoryEmbeddingStore());
+
+      await index.index([newtonCard, cellCard]);
+      const results = await index.search('What is a force?');
+
+      expect(results.map(result => result.id)).toEqual(['card-newton']);
+      expect(server.requests.map(request => request.body.requests[0].taskType)).toEqual(['RETRIEVAL_DOCUMENT', 'RETRIEVAL_QUERY']);
+      expect(server.requests.every(request => request.model === GEMINI_EMBEDDING_MODEL)).toBe(true);
+    });
+
+    it('falls back to local embeddings when Gemini cannot embed', async () => {
+      const index = createRetrievalIndex(createMemoryEmbeddingStore());
+
+      await index.index([newtonCard, cellCard]);
+      const results = await index.search('How are force, mass and acceleration related?');
+
+      expect(results.map(result => result.id)).toEqual(['card-newton']);
+      // Gemini isn't tried again this session
+      expect(server.requests).toHaveLength(1);
+    });
+  });
+});
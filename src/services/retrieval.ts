@@ -0,0 +1,346 @@
+import { geminiClient, isAbortError } from './geminiClient';
+import * as credentials from './credentials';
+import * as localDb from './localDb';
+import type { EmbeddingEntry } from './localDb';
+import { messageText } from './repository';
+import type { ChatMessage, ConceptCard, MessageSource } from './repository';
+
+/**
+ * Retrieval over the user's concept cards and earlier answers.
+ *
+ * Cards and answers are embedded and kept in an index (IndexedDB, or memory
+ * with the memory backend). Before a question is answered, the closest ones
+ * are looked up and given to the model as context, and the answer records
+ * which ones it was given.
+ *
+ * Embeddings come from Gemini when it is reachable, otherwise from a local
+ * stand-in that hashes words into a vector. Vectors of different models can't
+ * be compared, so the index keeps them per model and embeds whatever the
+ * current model is missing.
+ */
+
+export type SourceKind = MessageSource['kind'];
+
+// Something the index can return: what links to it, and the text that is embedded
+export type IndexRecord = MessageSource & { text: string };
+
+export type RetrievedSource = IndexRecord & { score: number };
+
+export type Embedder = {
+  model: string;
+  // Records less similar to the question than this aren't considered related
+  minScore: number;
+  isAvailable: () => boolean;
+  embed: (texts: string[], use: 'query' | 'document', signal?: AbortSignal) => Promise<number[][]>;
+};
+
+export type EmbeddingStore = {
+  getAll: (model: string) => Promise<EmbeddingEntry[]>;
+  put: (entries: EmbeddingEntry[]) => Promise<void>;
+  delete: (ids: string[]) => Promise<void>;
+};
+
+export type SearchOptions = {
+  // How many of each kind to return at most
+  limits?: Record<SourceKind, number>;
+  // Answers from this chat are already in the conversation
+  excludeChatId?: string;
+  signal?: AbortSignal;
+};
+
+export const GEMINI_EMBEDDING_MODEL = 'gemini-embedding-001';
+const GEMINI_DIMENSIONS = 768;
+const GEMINI_BATCH_SIZE = 100;
+
+const LOCAL_EMBEDDING_MODEL = 'local-hashed-words';
+const LOCAL_DIMENSIONS = 512;
+
+// Longer cards and answers are embedded, and sent as context, up to here
+const MAX_TEXT_CHARS = 2000;
+
+const DEFAULT_LIMITS: Record<SourceKind, number> = { concept_card: 3, message: 2 };
+
+const normalize = (vector: number[]) => {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map(value => value / length) : vector;
+};
+
+// Both vectors are normalized, so the dot product is the cosine similarity
+const similarity = (a: number[], b: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) sum += a[i] * b[i];
+  return sum;
+};
+
+export const geminiEmbedder: Embedder = {
+  model: GEMINI_EMBEDDING_MODEL,
+  minScore: 0.65,
+  isAvailable: () => credentials.hasCredentials() && (typeof navigator === 'undefined' || navigator.onLine !== false),
+  embed: async (texts, use, signal) => {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += GEMINI_BATCH_SIZE) {
+      vectors.push(...await geminiClient.embedContents({
+        model: GEMINI_EMBEDDING_MODEL,
+        texts: texts.slice(i, i + GEMINI_BATCH_SIZE),
+        taskType: use === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT',
+        outputDimensionality: GEMINI_DIMENSIONS,
+        signal
+      }));
+    }
+    // Shortened embeddings aren't normalized by the API
+    return vectors.map(normalize);
+  }
+};
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'was', 'has', 'how', 'its', 'who', 'did', 'does',
+  'what', 'when', 'where', 'which', 'why', 'with', 'this', 'that', 'these', 'those', 'from', 'into', 'about', 'there',
+  'their', 'them', 'they', 'have', 'will', 'would', 'could', 'should', 'your', 'please', 'explain', 'tell', 'question',
+  'answer', 'generated', 'chat'
+]);
+
+const terms = (text: string) =>
+  (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter(term => term.length > 2 && !STOP_WORDS.has(term))
+    // Plurals match their singular
+    .map(term => term.length > 4 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term);
+
+// FNV-1a
+const hashTerm = (term: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < term.length; i++) {
+    hash ^= term.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// The words of a text hashed into a fixed-size vector, repeated words counting less each time
+export const embedLocally = (text: string): number[] => {
+  const counts = new Map<string, number>();
+  terms(text).forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+
+  const vector: number[] = new Array(LOCAL_DIMENSIONS).fill(0);
+  counts.forEach((count, term) => {
+    const hash = hashTerm(term);
+    vector[hash % LOCAL_DIMENSIONS] += (hash & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+  });
+  return normalize(vector);
+};
+
+export const localEmbedder: Embedder = {
+  model: LOCAL_EMBEDDING_MODEL,
+  minScore: 0.25,
+  isAvailable: () => true,
+  embed: async texts => texts.map(embedLocally)
+};
+
+export const localEmbeddingStore: EmbeddingStore = {
+  getAll: localDb.getEmbeddings,
+  put: localDb.putEmbeddings,
+  delete: localDb.deleteEmbeddings
+};
+
+export const createMemoryEmbeddingStore = (): EmbeddingStore => {
+  const entries = new Map<string, EmbeddingEntry>();
+  return {
+    getAll: async model => [...entries.values()].filter(entry => entry.model === model),
+    put: async added => added.forEach(entry => entries.set(entry.id, entry)),
+    delete: async ids => ids.forEach(id => entries.delete(id))
+  };
+};
+
+export const conceptCardRecord = (card: ConceptCard): IndexRecord => ({
+  kind: 'concept_card',
+  id: card.id!,
+  title: card.title,
+  text: `${card.title}\n\n${card.content}`.slice(0, MAX_TEXT_CHARS)
+});
+
+// A chat's answers, each with the question it answered; too short to be of use (greetings, errors) are skipped
+export const answerRecords = (messages: ChatMessage[]): IndexRecord[] => {
+  const records: IndexRecord[] = [];
+  let question = '';
+
+  for (const message of messages) {
+    if (message.role === 'user') {
+      question = messageText(message.content).trim();
+      continue;
+    }
+    const answer = messageText(message.content).trim();
+    if (!message.id || answer.length < 80) continue;
+
+    records.push({
+      kind: 'message',
+      id: message.id,
+      chat_id: message.chat_id,
+      title: (question || answer).replace(/\s+/g, ' ').slice(0, 80),
+      text: `Question: ${question}\n\nAnswer: ${answer}`.slice(0, MAX_TEXT_CHARS)
+    });
+  }
+
+  return records;
+};
+
+// What a message keeps of the sources it was given
+export const toMessageSources = (sources: RetrievedSource[]): MessageSource[] =>
+  sources.map(({ kind, id, title, chat_id }) => (chat_id ? { kind, id, title, chat_id } : { kind, id, title }));
+
+// The system note that gives the model the retrieved sources
+export const buildRetrievalNote = (sources: RetrievedSource[]): string => [
+  'The user has studied related material before. Use it where it helps the answer, stay consistent with it, and mention it briefly when you rely on it:',
+  ...sources.map(source => source.kind === 'concept_card'
+    ? `Concept card "${source.title}":\n${source.text}`
+    : `An earlier answer:\n${source.text}`)
+].join('\n\n');
+
+export type RetrievalIndex = {
+  // Embed records that are new or changed. With `replaceKind`, `records` are
+  // all there are of that kind, and any others are dropped from the index.
+  index: (records: IndexRecord[], options?: { replaceKind?: SourceKind }) => Promise<void>;
+  remove: (kind: SourceKind, ids: string[]) => Promise<void>;
+  removeChat: (chatId: string) => Promise<void>;
+  search: (query: string, options?: SearchOptions) => Promise<RetrievedSource[]>;
+};
+
+export const createRetrievalIndex = (
+  store: EmbeddingStore,
+  embedders: Embedder[] = [geminiEmbedder, localEmbedder]
+): RetrievalIndex => {
+  // Records indexed this session, so a change of embedder can embed them again
+  const records = new Map<string, IndexRecord>();
+  // Entries by model, loaded from the store once
+  const loaded = new Map<string, Promise<Map<string, EmbeddingEntry>>>();
+  // Embedders that failed this session, e.g. a key without access to the embedding model
+  const failed = new Set<string>();
+  // Index updates run one at a time
+  let queue: Promise<void> = Promise.resolve();
+
+  const recordKey = (record: { kind: SourceKind; id: string }) => `${record.kind}:${record.id}`;
+  const entryId = (model: string, record: IndexRecord) => `${model}:${recordKey(record)}`;
+
+  const entriesFor = (model: string) => {
+    if (!loaded.has(model)) {
+      loaded.set(model, store.getAll(model).then(entries => new Map(entries.map(entry => [entry.id, entry]))));
+    }
+    return loaded.get(model)!;
+  };
+
+  // Run with the first embedder that works, moving on when one fails
+  const withEmbedder = async <T>(run: (embedder: Embedder) => Promise<T>): Promise<T> => {
+    const candidates = embedders.filter(embedder => !failed.has(embedder.model) && embedder.isAvailable());
+    for (const [i, embedder] of candidates.entries()) {
+      try {
+        return await run(embedder);
+      } catch (error) {
+        if (isAbortError(error) || i === candidates.length - 1) throw error;
+        console.warn(`[RETRIEVAL] ${embedder.model} failed, using ${candidates[i + 1].model} for this session:`, error);
+        failed.add(embedder.model);
+      }
+    }
+    throw new Error('No embedding model is available');
+  };
+
+  // Embed the records the embedder has no current entry for
+  const embedMissing = async (embedder: Embedder) => {
+    const entries = await entriesFor(embedder.model);
+    const missing = [...records.values()].filter(record => entries.get(entryId(embedder.model, record))?.text !== record.text);
+    if (missing.length === 0) return;
+
+    const vectors = await embedder.embed(missing.map(record => record.text), 'document');
+    const added: EmbeddingEntry[] = missing.map((record, i) => ({
+      id: entryId(embedder.model, record),
+      model: embedder.model,
+      kind: record.kind,
+      record_id: record.id,
+      ...(record.chat_id ? { chat_id: record.chat_id } : {}),
+      title: record.title,
+      text: record.text,
+      vector: vectors[i]
+    }));
+    await store.put(added);
+    added.forEach(entry => entries.set(entry.id, entry));
+    console.log(`[RETRIEVAL] Embedded ${added.length} record(s) with ${embedder.model}`);
+  };
+
+  // Drop entries, of every model, matching `matches`
+  const removeWhere = async (matches: (entry: EmbeddingEntry) => boolean) => {
+    for (const embedder of embedders) {
+      const entries = await entriesFor(embedder.model);
+      const ids = [...entries.values()].filter(matches).map(entry => entry.id);
+      if (ids.length === 0) continue;
+      await store.delete(ids);
+      ids.forEach(id => entries.delete(id));
+    }
+  };
+
+  // Updates are best effort: a failure is logged, and the records are embedded again on the next update
+  const enqueue = (update: () => Promise<void>) => {
+    queue = queue.then(update).catch(error => console.error('[RETRIEVAL] Error updating the index:', error));
+    return queue;
+  };
+
+  return {
+    index: (added, options = {}) => enqueue(async () => {
+      if (options.replaceKind) {
+        const kept = new Set(added.map(recordKey));
+        [...records.values()]
+          .filter(record => record.kind === options.replaceKind && !kept.has(recordKey(record)))
+          .forEach(record => records.delete(recordKey(record)));
+        await removeWhere(entry => entry.kind === options.replaceKind && !kept.has(`${entry.kind}:${entry.record_id}`));
+      }
+      added.forEach(record => records.set(recordKey(record), record));
+      await withEmbedder(embedMissing);
+    }),
+
+    remove: (kind, ids) => enqueue(async () => {
+      const removed = new Set(ids);
+      ids.forEach(id => records.delete(`${kind}:${id}`));
+      await removeWhere(entry => entry.kind === kind && removed.has(entry.record_id));
+    }),
+
+    removeChat: chatId => enqueue(async () => {
+      [...records.values()]
+        .filter(record => record.chat_id === chatId)
+        .forEach(record => records.delete(recordKey(record)));
+      await removeWhere(entry => entry.chat_id === chatId);
+    }),
+
+    search: async (query, options = {}) => {
+      const limits = options.limits || DEFAULT_LIMITS;
+      await queue;
+
+      return withEmbedder(async embedder => {
+        await embedMissing(embedder);
+        const entries = [...(await entriesFor(embedder.model)).values()]
+          .filter(entry => !options.excludeChatId || entry.chat_id !== options.excludeChatId);
+        if (entries.length === 0) return [];
+
+        const [queryVector] = await embedder.embed([query], 'query', options.signal);
+        const ranked = entries
+          .map(entry => ({ entry, score: similarity(queryVector, entry.vector) }))
+          .filter(({ score }) => score >= embedder.minScore)
+          .sort((a, b) => b.score - a.score);
+
+        const taken: Record<SourceKind, number> = { concept_card: 0, message: 0 };
+        const results: RetrievedSource[] = [];
+        for (const { entry, score } of ranked) {
+          if (taken[entry.kind] >= limits[entry.kind]) continue;
+          taken[entry.kind]++;
+          results.push({
+            kind: entry.kind,
+            id: entry.record_id,
+            title: entry.title,
+            ...(entry.chat_id ? { chat_id: entry.chat_id } : {}),
+            text: entry.text,
+            score
+          });
+        }
+
+        console.log(`[RETRIEVAL] ${results.length} related record(s) found with ${embedder.model}`);
+        // Concept cards first, then answers, each closest first
+        return results.sort((a, b) => a.kind === b.kind ? b.score - a.score : a.kind === 'concept_card' ? -1 : 1);
+      });
+    }
+  };
+};
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { MATCH_END, MATCH_START, buildSnippet, searchLocally, splitSnippet } from './search';
+import type { Chat, ChatMessage } from './repository';
+
+const chat = (id: string, title: string, created_at = '2024-01-01T00:00:00.000Z'): Chat =>
+  ({ id, title, model: 'gemini-pro', created_at, updated_at: created_at });
+
+const chats = [chat('chem', 'Chemistry homework'), chat('bio', 'Cells', '2024-02-01T00:00:00.000Z')];
+const messages: ChatMessage[] = [
+  { id: 'm1', role: 'user', content: "Explain Le Châtelier's principle", chat_id: 'chem', created_at: '2024-01-01T00:00:01.000Z' },
+  { id: 'm2', role: 'assistant', content: 'When a system at equilibrium is disturbed, it shifts to oppose the change. Le Chatelier described this in 1884.', chat_id: 'chem', created_at: '2024-01-01T00:00:02.000Z' },
+  { id: 'm3', role: 'user', content: JSON.stringify([{ text: 'Summarize the membrane notes' }, { text: 'Attached file "notes.md": equilibrium', file: 'notes.md' }]), chat_id: 'bio', created_at: '2024-02-01T00:00:01.000Z' },
+  { id: 'orphan', role: 'user', content: 'Equilibrium in a deleted chat', chat_id: 'gone' }
+];
+
+const mark = (word: string) => `${MATCH_START}${word}${MATCH_END}`;
+
+describe('search', () => {
+  it('matches every word of the query as a prefix, ignoring case and accents', () => {
+    // Equally good matches, newest first
+    expect(searchLocally(chats, messages, 'chatelier').map(result => result.message_id)).toEqual(['m2', 'm1']);
+    expect(searchLocally(chats, messages, 'le chatel 1884').map(result => result.message_id)).toEqual(['m2']);
+    expect(searchLocally(chats, messages, 'chatelier membrane')).toEqual([]);
+    expect(searchLocally(chats, messages, '  ?! ')).toEqual([]);
+  });
+
+  it('finds chat titles, and leaves out attached files and deleted chats', () => {
+    const results = searchLocally(chats, messages, 'chem');
+    expect(results).toEqual([{ chat_id: 'chem', chat_title: 'Chemistry homework', created_at: '2024-01-01T00:00:00.000Z', snippet: `${mark('Chemistry')} homework` }]);
+
+    expect(searchLocally(chats, messages, 'equilibrium').map(result => result.message_id)).toEqual(['m2']);
+    expect(searchLocally(chats, messages, 'membrane')[0]).toMatchObject({ message_id: 'm3', chat_title: 'Cells', snippet: `Summarize the ${mark('membrane')} notes` });
+  });
+
+  it('cuts long snippets around the first match', () => {
+    const text = `${'Some words before. '.repeat(20)}The answer is osmosis, and osmosis again. ${'More words after. '.repeat(20)}`.trim();
+
+    const snippet = buildSnippet(text, ['osmo'], 100);
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain(`The answer is ${mark('osmosis')}, and ${mark('osmosis')} again.`);
+    expect(snippet.length).toBeLessThanOrEqual(100 + 2 + 4 * 2);
+  });
+
+  it('splits snippets into plain and matched parts', () => {
+    expect(splitSnippet(`Le ${mark('Chatelier')} and ${mark('equilibrium')}`)).toEqual([
+      { text: 'Le ', match: false },
+      { text: 'Chatelier', match: true },
+      { text: ' and ', match: false },
+      { text: 'equilibrium', match: true }
+    ]);
+  });
+});
@@ -0,0 +1,143 @@
+import { messageText } from './repository';
+import type { Chat, ChatMessage, SearchResult } from './repository';
+
+/**
+ * Full-text search over chat titles and messages.
+ *
+ * Supabase searches with Postgres full-text search (see
+ * `migrations/0007_message_search.sql`). Everywhere else, and when Supabase
+ * can't be reached, an inverted index is built from the local copy: every word
+ * maps to the chats and messages containing it. Every word of the query has to
+ * match, as a prefix, so results follow along while the user types.
+ *
+ * Snippets mark the matched words with MATCH_START and MATCH_END, which both
+ * backends use and `splitSnippet` turns into parts for rendering.
+ */
+
+export const MATCH_START = '\u0002';
+export const MATCH_END = '\u0003';
+
+export const SEARCH_LIMIT = 20;
+
+const SNIPPET_CHARS = 160;
+
+// A chat title or message, as indexed
+type SearchDocument = Omit<SearchResult, 'snippet'> & { text: string };
+
+export type SearchIndex = {
+  documents: SearchDocument[];
+  // Word → document → number of times it appears
+  postings: Map<string, Map<number, number>>;
+};
+
+// Lowercase, without accents, so "Châtelier" is found by "chatelier"
+const normalizeWord = (word: string) => word.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+// Words with where they start in the text
+const words = (text: string) =>
+  [...text.matchAll(/[\p{L}\p{N}]+/gu)].map(match => ({ word: normalizeWord(match[0]), start: match.index!, end: match.index! + match[0].length }));
+
+const queryWords = (query: string) => [...new Set(words(query).map(({ word }) => word))];
+
+export const buildSearchIndex = (chats: Chat[], messages: ChatMessage[]): SearchIndex => {
+  const documents: SearchDocument[] = [];
+  const titles = new Map(chats.map(chat => [chat.id, chat.title]));
+
+  chats.forEach(chat => documents.push({ chat_id: chat.id, chat_title: chat.title, created_at: chat.created_at, text: chat.title }));
+  messages.forEach(message => {
+    // Messages of deleted chats may still be in the local copy
+    if (!message.id || !titles.has(message.chat_id)) return;
+    documents.push({
+      chat_id: message.chat_id,
+      chat_title: titles.get(message.chat_id)!,
+      message_id: message.id,
+      role: message.role,
+      created_at: message.created_at,
+      text: messageText(message.content).replace(/\s+/g, ' ').trim()
+    });
+  });
+
+  const postings = new Map<string, Map<number, number>>();
+  documents.forEach((document, id) => {
+    words(document.text).forEach(({ word }) => {
+      const counts = postings.get(word) || new Map<number, number>();
+      counts.set(id, (counts.get(id) || 0) + 1);
+      postings.set(word, counts);
+    });
+  });
+
+  return { documents, postings };
+};
+
+// The text around the first match, with every matched word marked
+export const buildSnippet = (text: string, terms: string[], maxChars = SNIPPET_CHARS) => {
+  const found = words(text).filter(({ word }) => terms.some(term => word.startsWith(term)));
+  if (found.length === 0) return text.slice(0, maxChars);
+
+  let start = 0;
+  let end = text.length;
+  if (text.length > maxChars) {
+    // Some context before the first match, then cut at word boundaries
+    start = Math.max(0, found[0].start - Math.floor(maxChars / 3));
+    end = Math.min(text.length, start + maxChars);
+    const firstSpace = text.indexOf(' ', start);
+    if (start > 0 && firstSpace !== -1 && firstSpace < found[0].start) start = firstSpace + 1;
+    const lastSpace = text.lastIndexOf(' ', end);
+    if (end < text.length && lastSpace > found[0].end) end = lastSpace;
+  }
+
+  let snippet = '';
+  let position = start;
+  found.filter(match => match.start >= start && match.end <= end).forEach(match => {
+    snippet += text.slice(position, match.start) + MATCH_START + text.slice(match.start, match.end) + MATCH_END;
+    position = match.end;
+  });
+  snippet += text.slice(position, end);
+
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+};
+
+export const searchIndex = (index: SearchIndex, query: string, limit = SEARCH_LIMIT): SearchResult[] => {
+  const terms = queryWords(query);
+  if (terms.length === 0) return [];
+
+  // Every term has to match a word in the document, as a prefix
+  let scores: Map<number, number> | null = null;
+  for (const term of terms) {
+    const termScores = new Map<number, number>();
+    index.postings.forEach((counts, word) => {
+      if (!word.startsWith(term)) return;
+      // Rarer words count for more, whole words more than prefixes
+      const weight = Math.log(1 + index.documents.length / counts.size) * (word === term ? 1 : 0.5);
+      counts.forEach((count, id) => termScores.set(id, (termScores.get(id) || 0) + (1 + Math.log(count)) * weight));
+    });
+
+    const previous: Map<number, number> | null = scores;
+    scores = new Map<number, number>();
+    for (const [id, score] of termScores) {
+      if (previous === null) scores.set(id, score);
+      else if (previous.has(id)) scores.set(id, previous.get(id)! + score);
+    }
+    if (scores.size === 0) return [];
+  }
+
+  return [...scores!.entries()]
+    .map(([id, score]) => ({ document: index.documents[id], score: index.documents[id].message_id ? score : score * 2 }))
+    .sort((a, b) => b.score - a.score || String(b.document.created_at || '').localeCompare(String(a.document.created_at || '')))
+    .slice(0, limit)
+    .map(({ document: { text, ...result } }) => ({ ...result, snippet: buildSnippet(text, terms) }));
+};
+
+// Search chats and messages in one go, for backends that keep them locally
+export const searchLocally = (chats: Chat[], messages: ChatMessage[], query: string, limit = SEARCH_LIMIT) =>
+  searchIndex(buildSearchIndex(chats, messages), query, limit);
+
+// A snippet as plain and matched parts
+export const splitSnippet = (snippet: string) =>
+  snippet.split(MATCH_END).flatMap(piece => {
+    const [before, match] = piece.split(MATCH_START);
+    return [
+      ...(before ? [{ text: before, match: false }] : []),
+      ...(match ? [{ text: match, match: true }] : [])
+    ];
+  });
@@ -0,0 +1,36 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { createMemoryRepository } from './memoryRepository';
+import { createShareLink, isShareActive, shareExpiry, shareUrl } from './shares';
+
+describe('shares', () => {
+  it('is active until revoked or expired', () => {
+    const now = new Date('2024-06-01T12:00:00.000Z');
+    expect(isShareActive({ revoked_at: null, expires_at: null }, now)).toBe(true);
+    expect(isShareActive({ revoked_at: null, expires_at: '2024-06-02T00:00:00.000Z' }, now)).toBe(true);
+    expect(isShareActive({ revoked_at: null, expires_at: '2024-06-01T00:00:00.000Z' }, now)).toBe(false);
+    expect(isShareActive({ revoked_at: '2024-05-01T00:00:00.000Z', expires_at: null }, now)).toBe(false);
+
+    expect(shareExpiry(null, now)).toBeNull();
+    expect(shareExpiry(7, now)).toBe('2024-06-08T12:00:00.000Z');
+  });
+
+  it('makes links named after the chat or the cards', async () => {
+    const repository = createMemoryRepository();
+    const chat = await repository.createChat('Optics');
+    const lens = await repository.addConceptCard({ title: 'Lens', content: 'Bends light', category: 'Physics' });
+    const prism = await repository.addConceptCard({ title: 'Prism', content: 'Splits light', category: 'Physics' });
+
+    const chatLink = await createShareLink(repository, { chatId: chat.id });
+    expect(chatLink!.share).toMatchObject({ kind: 'chat', chat_id: chat.id, title: 'Optics', expires_at: null });
+    expect(chatLink!.url).toBe(shareUrl(chatLink!.share.token, 'http://localhost:3000'));
+
+    expect((await createShareLink(repository, { cardIds: [lens!.id!] }))!.share.title).toBe('Lens');
+    const deck = await createShareLink(repository, { cardIds: [lens!.id!, prism!.id!, 'deleted'] }, { expiresAt: '2999-01-01T00:00:00.000Z' });
+    expect(deck!.share).toMatchObject({ kind: 'cards', title: '2 concept cards', expires_at: '2999-01-01T00:00:00.000Z' });
+    expect(deck!.share.card_ids).toEqual([lens!.id, prism!.id]);
+
+    expect(await createShareLink(repository, { chatId: 'missing' })).toBeNull();
+    expect(await createShareLink(repository, { cardIds: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { activePath } from './messageTree';
+import { storedAttachments } from './attachments';
+import type { Chat, ChatMessage, ConceptCard, NewShare, Repository, Share, SharedContent } from './repository';
+
+/**
+ * Read-only public links to a chat or a deck of concept cards.
+ *
+ * A share is a row holding a random token, served at `/share/<token>` to
+ * anyone, signed in or not, until it is revoked or expires. With Supabase the
+ * content is read through the `get_shared_content` function (see
+ * `migrations/0011_shares.sql`), which checks the token; the local backends
+ * read it from the local copy, so their links only open in the same browser.
+ *
+ * Shared chats show their messages without the attached files, whose URLs
+ * only work for their owner.
+ */
+
+// What to share: a chat, or a deck of concept cards
+export type ShareTarget = { chatId: string } | { cardIds: string[] };
+
+// Choices for how long a link stays valid, in days; null never expires
+export const SHARE_EXPIRY_DAYS = [null, 1, 7, 30] as const;
+
+// 24 random bytes, URL-safe
+export const createShareToken = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+// Fill in the token and timestamps of a new share
+export const prepareShare = (share: NewShare, id: string): Share => {
+  const timestamp = new Date().toISOString();
+  return {
+    id,
+    token: createShareToken(),
+    kind: share.kind,
+    chat_id: share.chat_id ?? null,
+    card_ids: share.card_ids ?? null,
+    title: share.title.trim() || 'Shared',
+    expires_at: share.expires_at ?? null,
+    revoked_at: null,
+    created_at: timestamp,
+    updated_at: timestamp
+  };
+};
+
+export const isShareActive = (share: Pick<Share, 'revoked_at' | 'expires_at'>, now = new Date()) =>
+  !share.revoked_at && (!share.expires_at || new Date(share.expires_at) > now);
+
+// When a link made now for the given number of days expires
+export const shareExpiry = (days: number | null, now = new Date()) =>
+  days === null ? null : new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+
+export const shareUrl = (token: string, origin = window.location.origin) => `${origin}/share/${token}`;
+
+// A message as a shared link shows it: no owner, and attachments without URLs
+const sharedMessage = ({ user_id, attachments, ...message }: ChatMessage): ChatMessage => {
+  const files = storedAttachments(attachments);
+  return files ? { ...message, attachments: files } : message;
+};
+
+/**
+ * What a share shows, from its owner's records, or null once the link is
+ * revoked or expired, or its chat deleted. `messages` is every message of the
+ * chat; the link shows the path to the newest one.
+ */
+export const sharedContent = (
+  share: Share,
+  chat: Chat | null | undefined,
+  messages: ChatMessage[],
+  cards: ConceptCard[]
+): SharedContent | null => !isShareActive(share) || (share.kind === 'chat' && !chat) ? null : ({
+  share: { kind: share.kind, title: share.title, created_at: share.created_at, expires_at: share.expires_at ?? null },
+  chat: share.kind === 'chat' && chat ? { title: chat.title, model: chat.model, created_at: chat.created_at } : null,
+  messages: share.kind === 'chat' ? activePath(messages.filter(message => message.chat_id === share.chat_id)).map(sharedMessage) : [],
+  cards: share.kind === 'cards'
+    ? cards.filter(card => card.id && share.card_ids?.includes(card.id)).map(({ user_id, ...card }) => card)
+    : []
+});
+
+/**
+ * Make a link to a chat or a deck of cards. The title defaults to the chat's
+ * title, or the card's for a single card.
+ */
+export const createShareLink = async (
+  repository: Repository,
+  target: ShareTarget,
+  options: { expiresAt?: string | null; title?: string } = {}
+): Promise<{ share: Share; url: string } | null> => {
+  let share: NewShare;
+
+  if ('chatId' in target) {
+    const chat = (await repository.getChats()).find(c => c.id === target.chatId);
+    if (!chat) return null;
+    share = { kind: 'chat', chat_id: chat.id, title: options.title || chat.title, expires_at: options.expiresAt };
+  } else {
+    if (target.cardIds.length === 0) return null;
+    const cards = (await repository.getConceptCards()).filter(card => card.id && target.cardIds.includes(card.id));
+    const title = options.title || (cards.length === 1 ? cards[0].title : `${cards.length} concept cards`);
+    share = { kind: 'cards', card_ids: cards.map(card => card.id!), title, expires_at: options.expiresAt };
+  }
+
+  const created = await repository.createShare(share);
+  return created ? { share: created, url: shareUrl(created.token) } : null;
+};
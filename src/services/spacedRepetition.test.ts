@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { NEW_CARDS_PER_DAY, formatInterval, gradeReview, studyQueue } from './spacedRepetition';
+import type { CardReview, ConceptCard } from './repository';
+
+const card = (id: string, created_at = '2024-01-01T00:00:00.000Z'): ConceptCard => ({
+  id,
+  title: id,
+  content: `About ${id}`,
+  category: 'Physics',
+  created_at
+});
+
+const at = (iso: string) => new Date(iso);
+
+describe('gradeReview', () => {
+  it('spaces correct answers out by 1 day, 6 days, then the interval times the ease', () => {
+    const first = gradeReview('c', undefined, 'good', at('2024-01-01T09:00:00.000Z'));
+    expect(first).toMatchObject({ id: 'c', interval: 1, repetitions: 1, ease: 2.5, due_at: '2024-01-02T09:00:00.000Z' });
+
+    const second = gradeReview('c', first, 'good', at('2024-01-02T09:00:00.000Z'));
+    expect(second).toMatchObject({ interval: 6, repetitions: 2 });
+
+    const third = gradeReview('c', second, 'good', at('2024-01-08T09:00:00.000Z'));
+    expect(third).toMatchObject({ interval: 15, repetitions: 3, due_at: '2024-01-23T09:00:00.000Z' });
+    expect(third.created_at).toBe(first.created_at);
+  });
+
+  it('gives harder answers a lower ease and shorter intervals', () => {
+    const learned = gradeReview('c', gradeReview('c', undefined, 'good'), 'good');
+    const [hard, good, easy] = (['hard', 'good', 'easy'] as const).map(grade => gradeReview('c', learned, grade));
+    expect(hard.ease).toBeLessThan(good.ease);
+    expect(easy.ease).toBeGreaterThan(good.ease);
+    expect(hard.interval).toBeLessThan(good.interval);
+    expect(easy.interval).toBeGreaterThan(good.interval);
+  });
+
+  it('starts a forgotten card over, due again within the session', () => {
+    const learned = gradeReview('c', gradeReview('c', undefined, 'good'), 'good');
+    const forgotten = gradeReview('c', learned, 'again', at('2024-03-01T09:00:00.000Z'));
+    expect(forgotten).toMatchObject({ repetitions: 0, interval: 0, lapses: 1, ease: learned.ease, due_at: '2024-03-01T09:10:00.000Z' });
+    expect(formatInterval(forgotten, at('2024-03-01T09:00:00.000Z'))).toBe('10m');
+
+    // Failing a card never learned isn't a lapse
+    expect(gradeReview('d', undefined, 'again').lapses).toBe(0);
+  });
+
+  it('never lets the ease drop below 1.3', () => {
+    let review: CardReview | undefined;
+    for (let i = 0; i < 20; i++) review = gradeReview('c', review, 'hard');
+    expect(review!.ease).toBe(1.3);
+  });
+});
+
+describe('studyQueue', () => {
+  it('lists the reviews due today, most overdue first, then new cards', () => {
+    const now = at('2024-05-10T12:00:00');
+    const reviews: CardReview[] = [
+      { ...gradeReview('later', undefined, 'good', at('2024-05-10T08:00:00')) },
+      { ...gradeReview('overdue', undefined, 'good', at('2024-05-01T08:00:00')) },
+      { ...gradeReview('tonight', undefined, 'again', at('2024-05-10T20:00:00')) }
+    ];
+
+    const queue = studyQueue([card('new'), card('later'), card('overdue'), card('tonight')], reviews, now);
+    expect(queue.map(c => c.id)).toEqual(['overdue', 'tonight', 'new']);
+  });
+
+  it('introduces at most the daily allowance of new cards', () => {
+    const now = at('2024-05-10T12:00:00');
+    const cards = Array.from({ length: NEW_CARDS_PER_DAY + 5 }, (_, i) => card(`c${i}`, `2024-01-01T00:00:${String(i).padStart(2, '0')}.000Z`));
+    expect(studyQueue(cards, [], now)).toHaveLength(NEW_CARDS_PER_DAY);
+
+    // Three started this morning, and answered well enough to be done for today
+    const started = ['c0', 'c1', 'c2'].map(id => gradeReview(id, undefined, 'good', at('2024-05-10T09:00:00')));
+    const queue = studyQueue(cards, started, now);
+    expect(queue).toHaveLength(NEW_CARDS_PER_DAY - 3);
+    expect(queue[0].id).toBe('c3');
+  });
+});
@@ -0,0 +1,124 @@
+import type { CardReview, ConceptCard } from './repository';
+
+/**
+ * Spaced repetition of concept cards with SM-2.
+ *
+ * Each grade moves a card's next review further out the better it was known:
+ * one day after the first correct answer, six after the second, then the last
+ * interval times the card's ease, which grows with easy answers and shrinks
+ * with hard ones. A forgotten card ("Again") starts over and comes back in the
+ * same session. The day's queue is every review due by the end of today, then
+ * cards never studied, up to NEW_CARDS_PER_DAY of them.
+ */
+
+export type Grade = 'again' | 'hard' | 'good' | 'easy';
+
+export const GRADES: { grade: Grade; label: string }[] = [
+  { grade: 'again', label: 'Again' },
+  { grade: 'hard', label: 'Hard' },
+  { grade: 'good', label: 'Good' },
+  { grade: 'easy', label: 'Easy' }
+];
+
+// SM-2's response quality, from 0 to 5; below 3 counts as forgotten
+const QUALITY: Record<Grade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// How soon a forgotten card is shown again
+const RELEARN_MINUTES = 10;
+export const NEW_CARDS_PER_DAY = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const endOfDay = (now: Date) => {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
+
+const startOfDay = (now: Date) => {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  return start;
+};
+
+// The review of a card after answering it with the given grade
+export const gradeReview = (cardId: string, review: CardReview | undefined, grade: Grade, now = new Date()): CardReview => {
+  const timestamp = now.toISOString();
+  const previous = review || {
+    id: cardId,
+    ease: INITIAL_EASE,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    created_at: timestamp
+  };
+  const quality = QUALITY[grade];
+
+  if (quality < 3) {
+    // Forgotten: start over, keeping the ease
+    return {
+      ...previous,
+      id: cardId,
+      interval: 0,
+      repetitions: 0,
+      lapses: previous.repetitions > 0 ? previous.lapses + 1 : previous.lapses,
+      due_at: new Date(now.getTime() + RELEARN_MINUTES * 60 * 1000).toISOString(),
+      last_reviewed_at: timestamp,
+      updated_at: timestamp
+    };
+  }
+
+  // The ease is updated first, so harder answers also get shorter intervals
+  const ease = Math.round(Math.max(MIN_EASE, previous.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)) * 100) / 100;
+  const repetitions = previous.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.max(1, Math.round(previous.interval * ease));
+
+  return {
+    ...previous,
+    id: cardId,
+    ease,
+    interval,
+    repetitions,
+    due_at: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    last_reviewed_at: timestamp,
+    updated_at: timestamp
+  };
+};
+
+// Whether a card is still to be studied today
+export const isDueToday = (review: Pick<CardReview, 'due_at'>, now = new Date()) => new Date(review.due_at) <= endOfDay(now);
+
+/**
+ * The cards to study today: those due, the most overdue first, then new
+ * cards, oldest first, as many as are left of today's allowance
+ */
+export const studyQueue = (cards: ConceptCard[], reviews: CardReview[], now = new Date()): ConceptCard[] => {
+  const reviewsByCard = new Map(reviews.map(review => [review.id, review]));
+  const dueAt = (card: ConceptCard) => reviewsByCard.get(card.id!)!.due_at;
+
+  const due = cards
+    .filter(card => card.id && reviewsByCard.has(card.id) && isDueToday(reviewsByCard.get(card.id)!, now))
+    .sort((a, b) => dueAt(a).localeCompare(dueAt(b)));
+
+  const startedToday = reviews.filter(review => new Date(review.created_at) >= startOfDay(now)).length;
+  const fresh = cards
+    .filter(card => card.id && !reviewsByCard.has(card.id))
+    .sort((a, b) => String(a.created_at || '').localeCompare(String(b.created_at || '')))
+    .slice(0, Math.max(0, NEW_CARDS_PER_DAY - startedToday));
+
+  return [...due, ...fresh];
+};
+
+// How long until a review is due, e.g. "10m", "6d" or "3mo"
+export const formatInterval = (review: Pick<CardReview, 'due_at'>, now = new Date()) => {
+  const minutes = Math.max(1, Math.round((new Date(review.due_at).getTime() - now.getTime()) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h`;
+
+  const days = Math.round(minutes / (24 * 60));
+  if (days < 31) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${Math.round(days / 365 * 10) / 10}y`;
+};
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { parseStudyAnswer, studyAnswerMarkdown, supportsStructuredOutput } from './studyAnswer';
+
+const ANSWER = {
+  summary: 'Force equals mass times acceleration.',
+  subject: 'Physics',
+  topic: "Newton's Laws",
+  question: "What is Newton's second law?",
+  steps: ['Step 1: Write the law as **F = ma**', 'Identify the mass and the acceleration'],
+  tips: ['Think "Force Makes Acceleration"']
+};
+
+describe('study answers', () => {
+  it('parses the sections, dropping the numbering the model adds to steps', () => {
+    expect(parseStudyAnswer(JSON.stringify(ANSWER))).toEqual({
+      ...ANSWER,
+      steps: ['Write the law as **F = ma**', 'Identify the mass and the acceleration']
+    });
+  });
+
+  it('rejects answers without a question or steps, and responses that are not JSON', () => {
+    expect(parseStudyAnswer(JSON.stringify({ ...ANSWER, steps: [] }))).toBeNull();
+    expect(parseStudyAnswer(JSON.stringify({ ...ANSWER, question: ' ' }))).toBeNull();
+    expect(parseStudyAnswer('{"summary": "cut off')).toBeNull();
+    expect(parseStudyAnswer('F = ma')).toBeNull();
+  });
+
+  it('writes the answer as Markdown with the study template headings', () => {
+    const markdown = studyAnswerMarkdown(parseStudyAnswer(JSON.stringify(ANSWER))!);
+
+    expect(markdown).toBe(`*Force equals mass times acceleration.*
+
+## **Physics** | *Newton's Laws*
+
+### **Question:**
+What is Newton's second law?
+
+### **Solution:**
+1. Write the law as **F = ma**
+2. Identify the mass and the acceleration
+
+### **💡 Tricks & Tips:**
+- Think "Force Makes Acceleration"`);
+    expect(studyAnswerMarkdown({ ...ANSWER, tips: [] })).not.toContain('Tricks');
+  });
+
+  it('knows which models answer with a schema', () => {
+    expect(supportsStructuredOutput('gemini-1.5-flash')).toBe(true);
+    expect(supportsStructuredOutput('gemini-2.0-flash')).toBe(true);
+    expect(supportsStructuredOutput('gemini-pro')).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+import { SchemaType } from '@google/generative-ai';
+import type { ResponseSchema } from '@google/generative-ai';
+import type { MessageIntent, StudyAnswer } from './repository';
+
+/**
+ * Answers to educational questions in the study template.
+ *
+ * The model is asked for the answer as JSON matching STUDY_ANSWER_SCHEMA
+ * rather than as Markdown in a given layout, so the sections don't have to be
+ * found in the text afterwards. The structure is kept on the message and shown
+ * section by section; its Markdown (`studyAnswerMarkdown`) is the message's
+ * content, for search, exports and older clients.
+ */
+
+export const STUDY_ANSWER_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    summary: { type: SchemaType.STRING, description: 'The answer in one or two sentences' },
+    subject: { type: SchemaType.STRING, description: 'The school subject, e.g. Physics' },
+    topic: { type: SchemaType.STRING, description: 'The topic or chapter within the subject' },
+    question: { type: SchemaType.STRING, description: "The student's question, restated clearly" },
+    steps: {
+      type: SchemaType.ARRAY,
+      description: 'The solution or explanation, one step per entry, in order',
+      items: { type: SchemaType.STRING }
+    },
+    tips: {
+      type: SchemaType.ARRAY,
+      description: 'Tricks, mnemonics or shortcuts to remember the concept; may be empty',
+      items: { type: SchemaType.STRING }
+    }
+  },
+  required: ['summary', 'subject', 'topic', 'question', 'steps', 'tips']
+};
+
+// Used for study answers when the selected model can't answer with a schema
+export const STUDY_ANSWER_MODEL = 'gemini-1.5-flash';
+
+// Gemini 1.0 models don't support response schemas
+export const supportsStructuredOutput = (modelId: string) => /^gemini-(1\.5|[2-9])/.test(modelId);
+
+// The instruction sent in place of the question, naming its subject and topic when they are known
+export const studyAnswerPrompt = (question: string, intent?: Pick<MessageIntent, 'subject' | 'topic'>) => {
+  const about = intent?.subject ? `\nIt is about ${intent.subject}${intent.topic ? `, ${intent.topic}` : ''}.` : '';
+  return `Answer this educational question for a student: ${question}${about}
+
+Explain the solution step by step, with one step per entry. Write formulas and emphasis in Markdown.`;
+};
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Entries of a list, without the numbering the model sometimes adds itself
+const entries = (value: unknown) => (Array.isArray(value) ? value : [])
+  .map(entry => text(entry).replace(/^(\*\*)?step\s*\d+\s*[:.)]\s*(\*\*)?\s*/i, ''))
+  .filter(Boolean);
+
+// The answer in the model's JSON, or null when it isn't one
+export const parseStudyAnswer = (response: string): StudyAnswer | null => {
+  const json = response.match(/\{[\s\S]*\}/);
+  if (!json) return null;
+
+  let raw: any;
+  try {
+    raw = JSON.parse(json[0]);
+  } catch {
+    return null;
+  }
+
+  const answer: StudyAnswer = {
+    summary: text(raw?.summary),
+    subject: text(raw?.subject),
+    topic: text(raw?.topic),
+    question: text(raw?.question),
+    steps: entries(raw?.steps),
+    tips: entries(raw?.tips)
+  };
+  return answer.question && answer.steps.length > 0 ? answer : null;
+};
+
+// The answer as Markdown, with the headings of the study template
+export const studyAnswerMarkdown = (answer: StudyAnswer) => {
+  const sections = [
+    ...(answer.summary ? [`*${answer.summary}*`] : []),
+    `## **${answer.subject || 'General Knowledge'}** | *${answer.topic || 'Conceptual Understanding'}*`,
+    `### **Question:**\n${answer.question}`,
+    `### **Solution:**\n${answer.steps.map((step, i) => `${i + 1}. ${step}`).join('\n')}`,
+    ...(answer.tips.length > 0 ? [`### **💡 Tricks & Tips:**\n${answer.tips.map(tip => `- ${tip}`).join('\n')}`] : [])
+  ];
+  return sections.join('\n\n');
+};
@@ -0,0 +1,575 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase, verifyDatabaseTables } from './supabase';
+import * as localDb from './localDb';
+import * as sync from './sync';
+import { getCurrentUserId } from './auth';
+import { ATTACHMENTS_BUCKET, NO_OWNER, SIGNED_URL_TTL_SECONDS, withAttachmentUrls } from './attachments';
+import { SEARCH_LIMIT, searchLocally } from './search';
+import { activePath } from './messageTree';
+import { prepareShare } from './shares';
+import { prepareChatUpdates, prepareConceptCard, prepareTodo } from './repository';
+import type { CardReview, Chat, ChatFolder, ChatMessage, ConceptCard, QuizAttempt, Repository, SearchResult, Share, SharedContent, Todo } from './repository';
+
+// Local copies first; signed URLs from Storage for files only stored remotely
+const resolveAttachmentUrls = async (paths: string[]) => {
+  const urls = await localDb.getFileUrls(paths);
+  const remote = paths.filter(path => !urls[path]);
+  if (remote.length === 0) return urls;
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrls(remote, SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error('[SUPABASE] Could not sign attachment URLs:', error.message);
+    return urls;
+  }
+  (data || []).forEach(item => {
+    if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+  });
+  return urls;
+};
+
+const getLocalMessages = async (chatId: string) =>
+  withAttachmentUrls(await localDb.getChatMessages(chatId), resolveAttachmentUrls);
+
+// Every message of a chat, on every branch
+const getMessageTree = async (chatId: string): Promise<ChatMessage[]> => {
+  try {
+    console.log('========= GETTING CHAT MESSAGES ==========');
+    console.log('Querying Supabase for messages in chat:', chatId);
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('chat_id', chatId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Supabase error fetching messages, using the local copy:', error);
+      return await getLocalMessages(chatId);
+    }
+
+    console.log(`Found ${data?.length || 0} messages in database for chat ${chatId}`);
+    await sync.cacheRemoteRows<ChatMessage>('messages', data || [], message => message.chat_id === chatId);
+    return await getLocalMessages(chatId);
+  } catch (error) {
+    console.error('Error fetching messages:', error);
+    return [];
+  }
+};
+
+/**
+ * Stores data in Supabase, offline-first.
+ *
+ * Writes go to the local copy in IndexedDB and are queued in the sync outbox,
+ * which replays them to Supabase. Reads come from Supabase and refresh the
+ * local copy, which is used instead when Supabase can't be reached.
+ */
+export const createSupabaseRepository = (): Repository => ({
+  backend: 'supabase',
+
+  prepare: async () => {
+    // Tables are created by the migrations, not by the app
+    console.log('Checking the database schema...');
+    await verifyDatabaseTables();
+  },
+
+  // Chats
+  getChats: async () => {
+    try {
+      console.log('========= GETTING CHAT HISTORY ==========');
+      console.log('Querying Supabase for chats');
+      const { data, error } = await supabase
+        .from('chats')
+        .select('*')
+        .order('updated_at', { ascending: false });
+
+      if (error) {
+        console.error('Supabase error fetching chats, using the local copy:', error);
+        return await localDb.getChats();
+      }
+
+      console.log(`Found ${data?.length || 0} chats in database`);
+      // Keep a local copy, which also adds chats that haven't synced yet
+      await sync.cacheRemoteRows('chats', (data || []) as Chat[]);
+      return await localDb.getChats();
+    } catch (error) {
+      console.error('Error fetching chats:', error);
+      return [];
+    }
+  },
+
+  createChat: async (title, model = 'gemini-2.0-flash') => {
+    try {
+      console.log(`========= CREATING NEW CHAT ==========`);
+      console.log(`Title: "${title}", Model: ${model}`);
+
+      // Saved locally first, then queued for Supabase
+      const chat = await localDb.createChat(title, model);
+      await sync.queueUpsert('chats', chat);
+      return chat;
+    } catch (error) {
+      console.error('Error creating chat:', error);
+      // Fallback to local object if everything fails
+      const timestamp = new Date().toISOString();
+      return {
+        id: uuidv4(),
+        title,
+        model,
+        updated_at: timestamp,
+        created_at: timestamp,
+      };
+    }
+  },
+
+  renameChat: async (chatId, newTitle) => {
+    console.log(`[SUPABASE] Renaming chat ${chatId} to "${newTitle}"`);
+
+    if (!chatId || !newTitle) {
+      console.error('[SUPABASE] Cannot rename chat: Missing chat ID or title');
+      return null;
+    }
+
+    try {
+      const previous = await localDb.getRecord<Chat>('chats', chatId);
+      const renamed = await localDb.renameChat(chatId, newTitle);
+      if (renamed) {
+        await sync.queueUpsert('chats', renamed, previous?.updated_at);
+      }
+      return renamed;
+    } catch (err) {
+      console.error('[SUPABASE] Error in renameChat:', err);
+      return null;
+    }
+  },
+
+  updateChat: async (chatId, updates) => {
+    try {
+      const previous = await localDb.getRecord<Chat>('chats', chatId);
+      const updated = await localDb.updateChat(chatId, prepareChatUpdates(updates));
+      if (updated) {
+        await sync.queueUpsert('chats', updated, previous?.updated_at);
+      }
+      return updated;
+    } catch (err) {
+      console.error('[SUPABASE] Error updating chat:', err);
+      return null;
+    }
+  },
+
+  deleteChat: async chatId => {
+    try {
+      console.log(`Deleting chat ${chatId}`);
+
+      // Removes the chat's messages too, locally and in Supabase
+      const deleted = await localDb.deleteChat(chatId);
+      await sync.queueDelete('chats', chatId);
+      return deleted;
+    } catch (error) {
+      console.error('Error deleting chat:', error);
+      return false;
+    }
+  },
+
+  search: async (query, limit = SEARCH_LIMIT) => {
+    try {
+      // Postgres full-text search, limited to the user's rows by row-level security
+      const { data, error } = await supabase.rpc('search_messages', { search_query: query, result_limit: limit });
+
+      if (error) {
+        console.error('[SUPABASE] Search failed, searching the local copy:', error.message);
+        return searchLocally(await localDb.getChats(), await localDb.getAllMessages(), query, limit);
+      }
+
+      return ((data || []) as SearchResult[]).map(result => ({
+        ...result,
+        // Chat title matches come back without a message
+        message_id: result.message_id ?? undefined,
+        role: result.role ?? undefined
+      }));
+    } catch (error) {
+      console.error('[SUPABASE] Error searching:', error);
+      return [];
+    }
+  },
+
+  // Chat folders
+  getChatFolders: async () => {
+    try {
+      const { data, error } = await supabase
+        .from('chat_folders')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('[SUPABASE] Error fetching chat folders, using the local copy:', error.message);
+        return await localDb.getChatFolders();
+      }
+
+      await sync.cacheRemoteRows('chat_folders', (data || []) as ChatFolder[]);
+      return await localDb.getChatFolders();
+    } catch (error) {
+      console.error('[SUPABASE] Error fetching chat folders:', error);
+      return [];
+    }
+  },
+
+  createChatFolder: async name => {
+    try {
+      const folder = await localDb.createChatFolder(name.trim());
+      await sync.queueUpsert('chat_folders', folder);
+      return folder;
+    } catch (error) {
+      console.error('[SUPABASE] Error creating chat folder:', error);
+      return null;
+    }
+  },
+
+  renameChatFolder: async (folderId, name) => {
+    try {
+      const previous = await localDb.getRecord<ChatFolder>('chat_folders', folderId);
+      const renamed = await localDb.renameChatFolder(folderId, name.trim());
+      if (renamed) {
+        await sync.queueUpsert('chat_folders', renamed, previous?.updated_at);
+      }
+      return renamed;
+    } catch (error) {
+      console.error('[SUPABASE] Error renaming chat folder:', error);
+      return null;
+    }
+  },
+
+  deleteChatFolder: async folderId => {
+    try {
+      // The chats move out first, so the folder is never deleted from under them
+      const moved = await localDb.deleteChatFolder(folderId);
+      for (const previous of moved) {
+        const chat = await localDb.getRecord<Chat>('chats', previous.id);
+        if (chat) await sync.queueUpsert('chats', chat, previous.updated_at);
+      }
+      await sync.queueDelete('chat_folders', folderId);
+      return true;
+    } catch (error) {
+      console.error('[SUPABASE] Error deleting chat folder:', error);
+      return false;
+    }
+  },
+
+  // Chat Messages
+  getChatMessages: async (chatId, messageId) => activePath(await getMessageTree(chatId), messageId),
+  getMessageTree,
+
+  addChatMessage: async message => {
+    console.log('Adding message to chat', message.id);
+
+    try {
+      // Saved locally first, so the message survives a dropped connection
+      const stored = await localDb.addChatMessage(message);
+      await sync.queueUpsert('messages', stored);
+      return stored;
+    } catch (error) {
+      console.error('Error adding message:', error);
+      return null;
+    }
+  },
+
+  saveAttachment: async (chatId, file, thumbnail, name) => {
+    // Kept locally and uploaded through the outbox, ahead of the message that references it
+    const attachment = await localDb.saveAttachment(getCurrentUserId() || NO_OWNER, chatId, file, thumbnail, name);
+    await sync.queueUpload(attachment.path);
+    if (attachment.thumbnail_path) {
+      await sync.queueUpload(attachment.thumbnail_path);
+    }
+    return attachment;
+  },
+
+  // Concept Cards
+  getConceptCards: async category => {
+    try {
+      console.log('[SUPABASE] Fetching concept cards, category filter:', category || 'All');
+
+      // Query builder
+      let query = supabase
+        .from('concept_cards')
+        .select('*');
+
+      // Apply category filter if provided
+      const filtered = !!category && category !== 'All';
+      if (filtered) {
+        query = query.eq('category', category);
+      }
+
+      // Order by creation date, newest first
+      query = query.order('created_at', { ascending: false });
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('[SUPABASE] Error fetching concept cards, using the local copy:', error);
+        return await localDb.getConceptCards(category);
+      }
+
+      console.log(`[SUPABASE] Successfully fetched ${data?.length || 0} concept cards`);
+      await sync.cacheRemoteRows<ConceptCard>('concept_cards', data || [], card => !filtered || card.category === category);
+      return await localDb.getConceptCards(category);
+    } catch (error) {
+      console.error('[SUPABASE] Error fetching concept cards:', error);
+      return [];
+    }
+  },
+
+  addConceptCard: async card => {
+    try {
+      console.log('========= ADDING CONCEPT CARD ==========');
+      console.log('Card data:', card);
+
+      const prepared = prepareConceptCard(card);
+      if (!prepared) return null;
+
+      const newCard = await localDb.addConceptCard(prepared);
+      await sync.queueUpsert('concept_cards', newCard);
+      console.log('Saved concept card:', newCard.id);
+      return newCard;
+    } catch (error) {
+      console.error('Error adding concept card:', error);
+      return null;
+    }
+  },
+
+  updateConceptCard: async (cardId, updates) => {
+    try {
+      console.log('[SUPABASE] Updating concept card:', cardId, updates);
+
+      const previous = await localDb.getRecord<ConceptCard>('concept_cards', cardId);
+      const updated = await localDb.updateConceptCard(cardId, { ...updates, updated_at: new Date().toISOString() });
+      if (updated) {
+        await sync.queueUpsert('concept_cards', updated, previous?.updated_at);
+      }
+      return updated;
+    } catch (error) {
+      console.error('[SUPABASE] Exception in updateConceptCard:', error);
+      return null;
+    }
+  },
+
+  deleteConceptCard: async cardId => {
+    try {
+      console.log('[SUPABASE] Deleting concept card:', cardId);
+
+      const deleted = await localDb.deleteConceptCard(cardId);
+      if (deleted) {
+        // The database would drop the review with the card, but queueing its delete
+        // keeps it from being read back before the card's delete is sent
+        await sync.queueDelete('card_reviews', cardId);
+        await sync.queueDelete('concept_cards', cardId);
+      }
+      return deleted;
+    } catch (error) {
+      console.error('[SUPABASE] Exception in deleteConceptCard:', error);
+      return false;
+    }
+  },
+
+  getCardReviews: async () => {
+    try {
+      const { data, error } = await supabase
+        .from('card_reviews')
+        .select('*');
+
+      if (error) {
+        console.error('[SUPABASE] Error getting card reviews, using the local copy:', error);
+        return await localDb.getCardReviews();
+      }
+
+      await sync.cacheRemoteRows('card_reviews', (data || []) as CardReview[]);
+      return await localDb.getCardReviews();
+    } catch (error) {
+      console.error('[SUPABASE] Exception in getCardReviews:', error);
+      return [];
+    }
+  },
+
+  // The latest review wins: studying on two devices at once isn't treated as a conflict
+  saveCardReview: async review => {
+    try {
+      const saved = await localDb.putCardReview(review);
+      await sync.queueUpsert('card_reviews', saved);
+      return saved;
+    } catch (error) {
+      console.error('[SUPABASE] Exception in saveCardReview:', error);
+      return null;
+    }
+  },
+
+  // Quiz attempts
+  getQuizAttempts: async () => {
+    try {
+      const { data, error } = await supabase
+        .from('quiz_attempts')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('[SUPABASE] Error getting quiz attempts, using the local copy:', error);
+        return await localDb.getQuizAttempts();
+      }
+
+      await sync.cacheRemoteRows('quiz_attempts', (data || []) as QuizAttempt[]);
+      return await localDb.getQuizAttempts();
+    } catch (error) {
+      console.error('[SUPABASE] Exception in getQuizAttempts:', error);
+      return [];
+    }
+  },
+
+  addQuizAttempt: async attempt => {
+    try {
+      console.log('[SUPABASE] Saving quiz attempt:', attempt.title, `${attempt.score}/${attempt.total}`);
+
+      const saved = await localDb.addQuizAttempt({ ...attempt, id: uuidv4(), created_at: new Date().toISOString() });
+      await sync.queueUpsert('quiz_attempts', saved);
+      return saved;
+    } catch (error) {
+      console.error('[SUPABASE] Exception in addQuizAttempt:', error);
+      return null;
+    }
+  },
+
+  // Todos
+  getTodos: async () => {
+    try {
+      console.log('[SUPABASE] Getting todos');
+
+      const { data, error } = await supabase
+        .from('todos')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('[SUPABASE] Error getting todos, using the local copy:', error);
+        return await localDb.getTodos();
+      }
+
+      await sync.cacheRemoteRows('todos', (data || []) as Todo[]);
+      return await localDb.getTodos();
+    } catch (error) {
+      console.error('[SUPABASE] Exception in getTodos:', error);
+      return [];
+    }
+  },
+
+  addTodo: async todo => {
+    try {
+      console.log('[SUPABASE] Adding todo:', todo.title);
+
+      const saved = await localDb.addTodo(prepareTodo(todo, uuidv4()));
+      await sync.queueUpsert('todos', saved);
+      return saved;
+    } catch (error) {
+      console.error('[SUPABASE] Exception in addTodo:', error);
+      return null;
+    }
+  },
+
+  updateTodo: async (todoId, updates) => {
+    try {
+      console.log('[SUPABASE] Updating todo:', todoId);
+
+      const previous = await localDb.getRecord<Todo>('todos', todoId);
+      const updated = await localDb.updateTodo(todoId, { ...updates, updated_at: new Date().toISOString() });
+      if (updated) {
+        await sync.queueUpsert('todos', updated, previous?.updated_at);
+      }
+      return updated;
+    } catch (error) {
+      console.error('[SUPABASE] Exception in updateTodo:', error);
+      return null;
+    }
+  },
+
+  deleteTodo: async todoId => {
+    try {
+      console.log('[SUPABASE] Deleting todo:', todoId);
+
+      const deleted = await localDb.deleteTodo(todoId);
+      if (deleted) {
+        await sync.queueDelete('todos', todoId);
+      }
+      return deleted;
+    } catch (error) {
+      console.error('[SUPABASE] Exception in deleteTodo:', error);
+      return false;
+    }
+  },
+
+  // Share links
+  getShares: async () => {
+    try {
+      const { data, error } = await supabase
+        .from('shares')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('[SUPABASE] Error getting shares, using the local copy:', error);
+        return await localDb.getShares();
+      }
+
+      await sync.cacheRemoteRows('shares', (data || []) as Share[]);
+      return await localDb.getShares();
+    } catch (error) {
+      console.error('[SUPABASE] Exception in getShares:', error);
+      return [];
+    }
+  },
+
+  createShare: async share => {
+    try {
+      console.log('[SUPABASE] Creating a share link:', share.title);
+
+      // The link opens for others once the share has reached Supabase
+      const saved = await localDb.addShare(prepareShare(share, uuidv4()));
+      await sync.queueUpsert('shares', saved);
+      return saved;
+    } catch (error) {
+      console.error('[SUPABASE] Exception in createShare:', error);
+      return null;
+    }
+  },
+
+  revokeShare: async shareId => {
+    try {
+      console.log('[SUPABASE] Revoking share link:', shareId);
+
+      const previous = await localDb.getRecord<Share>('shares', shareId);
+      const timestamp = new Date().toISOString();
+      const revoked = await localDb.updateShare(shareId, { revoked_at: timestamp, updated_at: timestamp });
+      if (revoked) {
+        await sync.queueUpsert('shares', revoked, previous?.updated_at);
+      }
+      return revoked;
+    } catch (error) {
+      console.error('[SUPABASE] Exception in revokeShare:', error);
+      return null;
+    }
+  },
+
+  getSharedContent: async token => {
+    try {
+      // Checked by Postgres, so it works for visitors who aren't signed in
+      const { data, error } = await supabase.rpc('get_shared_content', { share_token: token });
+
+      if (error) {
+        console.error('[SUPABASE] Could not load shared content, looking in the local copy:', error.message);
+        return await localDb.getSharedContent(token);
+      }
+      if (!data) return null;
+
+      const content = data as SharedContent;
+      return { ...content, messages: activePath(content.messages || []), cards: content.cards || [] };
+    } catch (error) {
+      console.error('[SUPABASE] Exception in getSharedContent:', error);
+      return null;
+    }
+  }
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { memoryDb } from '../test/inMemorySupabase';
+import * as localDb from './localDb';
+import { createSupabaseRepository } from './supabaseRepository';
+import * as sync from './sync';
+
+describe('sync outbox', () => {
+  const repository = createSupabaseRepository();
+
+  beforeEach(async () => {
+    await sync.flushOutbox();
+    await localDb.clearLocalData();
+    memoryDb.reset();
+  });
+
+  it('saves writes locally and replays them to Supabase as upserts', async () => {
+    const chat = await repository.createChat('Synced chat', 'gemini-pro');
+    const message = await repository.addChatMessage({ role: 'user', content: 'Hello', chat_id: chat.id });
+
+    await sync.flushOutbox();
+
+    expect(memoryDb.rows('chats')).toEqual([chat]);
+    expect(memoryDb.rows('messages')).toEqual([message]);
+    expect(await localDb.getOutbox()).toEqual([]);
+    expect(sync.getSyncState(chat.id)).toBe('synced');
+  });
+
+  it('keeps writes made while Supabase is unreachable and sends them later', async () => {
+    memoryDb.setOffline(true);
+
+    const chat = await repository.createChat('Written offline');
+    const message = await repository.addChatMessage({ role: 'user', content: 'Still here', chat_id: chat.id });
+    await repository.renameChat(chat.id, 'Renamed offline');
+    await sync.flushOutbox();
+
+    expect(message).not.toBeNull();
+    expect(sync.getSyncState(message!.id!)).toBe('pending');
+    expect(memoryDb.rows('messages')).toEqual([]);
+    // Reads fall back to the local copy
+    expect((await repository.getChatMessages(chat.id)).map(m => m.content)).toEqual(['Still here']);
+
+    memoryDb.setOffline(false);
+    await sync.flushOutbox();
+
+    expect(memoryDb.rows('chats')).toHaveLength(1);
+    expect(memoryDb.rows('chats')[0].title).toBe('Renamed offline');
+    expect(memoryDb.rows('messages').map(m => m.content)).toEqual(['Still here']);
+    expect(sync.getSyncState(message!.id!)).toBe('synced');
+  });
+
+  it('uploads attachments ahead of their message and signs URLs for files only in Storage', async () => {
+    memoryDb.setOffline(true);
+    const chat = await repository.createChat('Photos');
+    const attachment = await repository.saveAttachment(chat.id, new Blob(['image'], { type: 'image/png' }), new Blob(['thumb'], { type: 'image/jpeg' }));
+    await repository.addChatMessage({ role: 'user', content: 'Look', chat_id: chat.id, attachments: [attachment] });
+    await sync.flushOutbox();
+    expect(memoryDb.storage.files('attachments')).toEqual([]);
+
+    memoryDb.setOffline(false);
+    await sync.flushOutbox();
+
+    expect(memoryDb.storage.files('attachments')).toEqual([attachment.path, attachment.thumbnail_path]);
+    expect(memoryDb.rows('messages')[0].attachments).toEqual([expect.objectContaining({ path: attachment.path })]);
+    expect(memoryDb.rows('messages')[0].attachments[0].url).toBeUndefined();
+
+    // Another device has no local copy of the files
+    await localDb.clearLocalData();
+    const [message] = await repository.getChatMessages(chat.id);
+    expect(message.attachments![0].url).toMatch(/^https:\/\/storage\.test\/attachments\//);
+
+    await repository.deleteChat(chat.id);
+    await sync.flushOutbox();
+    expect(memoryDb.storage.files('attachments')).toEqual([]);
+  });
+
+  it('holds back an edit to a record that changed remotely', async () => {
+    const card = await repository.addConceptCard({ title: 'Force', content: 'F = ma', category: 'Physics' });
+    await sync.flushOutbox();
+
+    // Edited on another device after this one last saw it
+    Object.assign(memoryDb.rows('concept_cards')[0], { title: 'Force (remote)', updated_at: '2999-01-01T00:00:00.000Z' });
+
+    await repository.updateConceptCard(card!.id!, { title: 'Force (local)' });
+    await sync.flushOutbox();
+
+    expect(sync.getSyncState(card!.id!)).toBe('conflict');
+    expect(memoryDb.rows('concept_cards')[0].title).toBe('Force (remote)');
+
+    await sync.resolveConflict(card!.id!, 'local');
+
+    expect(sync.getSyncState(card!.id!)).toBe('synced');
+    expect(memoryDb.rows('concept_cards')[0].title).toBe('Force (local)');
+  });
+
+  it('takes the remote version when the conflict is resolved that way', async () => {
+    const todo = await repository.addTodo({ title: 'Revise', completed: false, priority: 'low' });
+    await sync.flushOutbox();
+
+    Object.assign(memoryDb.rows('todos')[0], { completed: true, updated_at: '2999-01-01T00:00:00.000Z' });
+    await repository.updateTodo(todo!.id, { title: 'Revise chemistry' });
+    await sync.flushOutbox();
+
+    await sync.resolveConflict(todo!.id, 'remote');
+
+    expect(await localDb.getOutbox()).toEqual([]);
+    expect(await localDb.getTodos()).toEqual([expect.objectContaining({ title: 'Revise', completed: true })]);
+  });
+
+  it('keeps the flag on a stopped answer when the chat is loaded again from Supabase', async () => {
+    const chat = await repository.createChat('Stopped');
+    await repository.addChatMessage({ role: 'assistant', content: 'One, two', chat_id: chat.id, stopped: true });
+    await sync.flushOutbox();
+    await localDb.clearLocalData();
+
+    const [message] = await repository.getChatMessages(chat.id);
+
+    expect(message).toMatchObject({ content: 'One, two', stopped: true });
+  });
+
+  it('sends edits to chats read from Supabase without the columns it computes', async () => {
+    const chat = await repository.createChat('Gases');
+    await sync.flushOutbox();
+    // Supabase returns the generated search column with the row
+    memoryDb.tables.chats = [{ ...memoryDb.rows('chats')[0], search_vector: "'gase':1" }];
+    await localDb.clearLocalData();
+    await repository.getChats();
+
+    await repository.renameChat(chat.id, 'Ideal gases');
+    await sync.flushOutbox();
+
+    expect(await localDb.getOutbox()).toEqual([]);
+    expect(memoryDb.rows('chats')[0]).toMatchObject({ id: chat.id, title: 'Ideal gases' });
+    expect((await localDb.getChats())[0]).not.toHaveProperty('search_vector');
+  });
+
+  it('keeps the local copy in step with Supabase on reads', async () => {
+    const chat = await repository.createChat('Kept');
+    await sync.flushOutbox();
+
+    // One chat deleted and one added on another device
+    memoryDb.tables.chats = [{ ...chat, id: 'from-elsewhere', title: 'Elsewhere' }];
+    memoryDb.setOffline(true);
+    const unsynced = await repository.createChat('Not sent yet');
+    memoryDb.setOffline(false);
+
+    const chats = await repository.getChats();
+
+    expect(chats.map(c => c.title).sort()).toEqual(['Elsewhere', 'Not sent yet']);
+    expect((await localDb.getChats()).map(c => c.id)).toContain(unsynced.id);
+  });
+});
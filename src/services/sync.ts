@@ -0,0 +1,365 @@
+import { supabase, isOfflineMode } from './supabase';
+import * as localDb from './localDb';
+import { getCurrentUserId } from './auth';
+import { ATTACHMENTS_BUCKET, NO_OWNER, chatAttachmentFolder } from './attachments';
+import type { OutboxEntry, SyncedTable } from './localDb';
+
+/**
+ * Offline-first sync between the local store (IndexedDB) and Supabase.
+ *
+ * Every write is saved locally first and recorded in the outbox. The outbox is
+ * replayed to Supabase in order, as idempotent upserts keyed by id, so a write
+ * made while the connection is down is sent when it comes back instead of
+ * being lost. Before overwriting a chat, folder, card or todo, the remote
+ * `updated_at` is compared with the one the local edit was based on; if someone
+ * else changed the record in between, the write is held back as a conflict for
+ * the user to resolve. Attachment files go through the same outbox, uploaded to
+ * Storage from the local store ahead of the messages that reference them.
+ */
+
+export type SyncState = 'pending' | 'synced' | 'failed' | 'conflict';
+export type ConflictResolution = 'local' | 'remote';
+
+// Tables whose rows are edited after creation, and so can conflict
+const CONFLICT_CHECKED: SyncedTable[] = ['chats', 'chat_folders', 'concept_cards', 'todos'];
+
+// A write that keeps failing for reasons other than the network stops being retried
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+// Columns Postgres computes itself, which writes may not set (see 0007_message_search.sql)
+const GENERATED_COLUMNS = ['search_vector'];
+
+type SyncListener = (states: Record<string, SyncState>) => void;
+
+let states: Record<string, SyncState> = {};
+const listeners = new Set<SyncListener>();
+
+let flushing: Promise<void> | null = null;
+let flushRequested = false;
+let started = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryDelay = RETRY_BASE_DELAY_MS;
+
+// Supabase reports a dropped connection as an error result rather than a throw
+const isNetworkError = (error: any) => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  const message = String(error?.message || error || '');
+  return /failed to fetch|fetch failed|networkerror|network request failed|load failed/i.test(message);
+};
+
+const sameTime = (a: string | null | undefined, b: string | null | undefined) =>
+  !!a && !!b && new Date(a).getTime() === new Date(b).getTime();
+
+// The remote row changed since the local edit was made, by something other than this write
+const isConflict = (entry: OutboxEntry, remoteUpdatedAt: string | null) => {
+  if (!remoteUpdatedAt) return false;
+  if (sameTime(remoteUpdatedAt, entry.payload?.updated_at)) return false; // Already applied
+  if (sameTime(remoteUpdatedAt, entry.base_updated_at)) return false;
+  return !entry.base_updated_at || new Date(remoteUpdatedAt).getTime() > new Date(entry.base_updated_at).getTime();
+};
+
+// Recompute the per-record states from the outbox and tell the listeners
+const refreshStates = async () => {
+  const entries = await localDb.getOutbox();
+  const next: Record<string, SyncState> = {};
+  const rank: Record<SyncState, number> = { synced: 0, pending: 1, failed: 2, conflict: 3 };
+
+  entries.forEach(entry => {
+    const current = next[entry.record_id];
+    if (!current || rank[entry.status] > rank[current]) {
+      next[entry.record_id] = entry.status;
+    }
+  });
+
+  states = next;
+  listeners.forEach(listener => listener(states));
+};
+
+export const getSyncState = (recordId: string): SyncState => states[recordId] || 'synced';
+
+export const subscribeToSyncState = (listener: SyncListener) => {
+  listeners.add(listener);
+  listener(states);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const enqueue = async (entry: Omit<OutboxEntry, 'status' | 'attempts' | 'created_at'>) => {
+  // Without a Supabase project the local store is all there is
+  if (isOfflineMode) return;
+
+  await localDb.putOutboxEntry({
+    ...entry,
+    status: 'pending',
+    attempts: 0,
+    created_at: new Date().toISOString()
+  });
+  await refreshStates();
+  void flushOutbox();
+};
+
+// Record a created or updated record, already saved locally, owned by the signed-in user
+export const queueUpsert = (table: SyncedTable, record: { id?: string; user_id?: string }, baseUpdatedAt: string | null = null) => {
+  const userId = record.user_id || getCurrentUserId();
+  const payload = userId ? { ...record, user_id: userId } : record;
+  return enqueue({ table, op: 'upsert', record_id: record.id!, payload, base_updated_at: baseUpdatedAt });
+};
+
+// Record a deleted record, already removed locally
+export const queueDelete = (table: SyncedTable, recordId: string) =>
+  enqueue({ table, op: 'delete', record_id: recordId, payload: null, base_updated_at: null });
+
+// Record an attachment file, already saved locally, to be uploaded to Storage
+export const queueUpload = (path: string) =>
+  enqueue({ table: 'attachments', op: 'upsert', record_id: path, payload: null, base_updated_at: null });
+
+// A row without the columns Postgres computes, so it can be written back
+const writable = <T extends object>(row: T): T => {
+  const copy = { ...row } as Record<string, unknown>;
+  GENERATED_COLUMNS.forEach(column => delete copy[column]);
+  return copy as T;
+};
+
+// Store the rows just read from Supabase as the local copy
+export const cacheRemoteRows = <T extends { id?: string }>(table: SyncedTable, rows: T[], inScope?: (row: T) => boolean) =>
+  localDb.mergeRemoteRecords(table, rows.map(writable), inScope);
+
+const fetchRemoteUpdatedAt = async (table: SyncedTable, recordId: string) => {
+  const { data, error } = await supabase
+    .from(table)
+    .select('updated_at')
+    .eq('id', recordId)
+    .limit(1);
+
+  if (error) throw error;
+  return (data?.[0]?.updated_at as string | null) ?? null;
+};
+
+// Upload an attachment file from the local store
+const uploadFile = async (path: string) => {
+  const file = await localDb.getFile(path);
+  if (!file) return; // Its chat was deleted before it went out
+
+  const { error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(path, file.blob, { contentType: file.mime_type, upsert: true });
+  if (error) throw error;
+};
+
+// Remove the attachment files of a deleted chat from Storage
+const removeChatFiles = async (chatId: string) => {
+  const folder = chatAttachmentFolder(getCurrentUserId() || NO_OWNER, chatId);
+  const bucket = supabase.storage.from(ATTACHMENTS_BUCKET);
+  const { data, error } = await bucket.list(folder, { limit: 1000 });
+  if (error) throw error;
+  if (!data || data.length === 0) return;
+
+  const { error: removeError } = await bucket.remove(data.map(file => `${folder}/${file.name}`));
+  if (removeError) throw removeError;
+};
+
+// Send one outbox entry to Supabase
+const replayEntry = async (entry: OutboxEntry): Promise<'done' | 'conflict'> => {
+  if (entry.table === 'attachments') {
+    await uploadFile(entry.record_id);
+    return 'done';
+  }
+
+  if (entry.op === 'delete') {
+    // Deletes are idempotent and win over concurrent edits
+    if (entry.table === 'chats') {
+      const { error: messagesError } = await supabase.from('messages').delete().eq('chat_id', entry.record_id);
+      if (messagesError) throw messagesError;
+      await removeChatFiles(entry.record_id);
+    }
+    const { error } = await supabase.from(entry.table).delete().eq('id', entry.record_id);
+    if (error) throw error;
+    return 'done';
+  }
+
+  if (CONFLICT_CHECKED.includes(entry.table)) {
+    const remoteUpdatedAt = await fetchRemoteUpdatedAt(entry.table, entry.record_id);
+    if (isConflict(entry, remoteUpdatedAt)) {
+      return 'conflict';
+    }
+  }
+
+  // Local copies cached before generated columns were left out may still have them
+  const { error } = await supabase
+    .from(entry.table)
+    .upsert(writable(entry.payload!), { onConflict: 'id' });
+  if (error) throw error;
+  return 'done';
+};
+
+const scheduleRetry = () => {
+  if (!started || retryTimer) return;
+  console.log(`[SYNC] Retrying in ${Math.round(retryDelay / 1000)}s`);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    void flushOutbox();
+  }, retryDelay);
+  retryDelay = Math.min(retryDelay * 2, RETRY_MAX_DELAY_MS);
+};
+
+const replayOutbox = async () => {
+  const entries = await localDb.getOutbox();
+  if (entries.length === 0) return;
+
+  console.log(`[SYNC] Replaying ${entries.length} queued writes`);
+  // Later writes to a record wait until the earlier ones have gone through
+  const held = new Set<string>();
+  let needsRetry = false;
+
+  for (const entry of entries) {
+    if (entry.status !== 'pending' || held.has(entry.record_id)) {
+      held.add(entry.record_id);
+      continue;
+    }
+
+    try {
+      const outcome = await replayEntry(entry);
+      if (outcome === 'conflict') {
+        console.warn(`[SYNC] Conflict on ${entry.table}/${entry.record_id}, it was changed elsewhere`);
+        await localDb.putOutboxEntry({ ...entry, status: 'conflict' });
+        held.add(entry.record_id);
+      } else {
+        await localDb.deleteOutboxEntry(entry.id!);
+      }
+    } catch (error: any) {
+      if (isNetworkError(error)) {
+        console.log('[SYNC] Supabase is unreachable, keeping the queue for later');
+        needsRetry = true;
+        break;
+      }
+
+      const attempts = entry.attempts + 1;
+      const status = attempts >= MAX_ATTEMPTS ? 'failed' : 'pending';
+      console.error(`[SYNC] Failed to sync ${entry.table}/${entry.record_id} (attempt ${attempts}):`, error?.message || error);
+      await localDb.putOutboxEntry({ ...entry, attempts, status, last_error: error?.message || String(error) });
+      held.add(entry.record_id);
+      needsRetry = needsRetry || status === 'pending';
+    }
+  }
+
+  await refreshStates();
+
+  if (needsRetry) {
+    scheduleRetry();
+  } else {
+    retryDelay = RETRY_BASE_DELAY_MS;
+  }
+};
+
+/**
+ * Replay the outbox to Supabase. Calls made while a replay is running are
+ * folded into it, and the returned promise settles once the queue has been
+ * worked through.
+ */
+export const flushOutbox = (): Promise<void> => {
+  if (isOfflineMode) return Promise.resolve();
+
+  if (flushing) {
+    flushRequested = true;
+    return flushing;
+  }
+
+  flushing = (async () => {
+    do {
+      flushRequested = false;
+      await replayOutbox();
+    } while (flushRequested);
+  })()
+    .catch(error => console.error('[SYNC] Error replaying the outbox:', error))
+    .finally(() => {
+      flushing = null;
+    });
+
+  return flushing;
+};
+
+const entriesFor = async (recordId: string) =>
+  (await localDb.getOutbox()).filter(entry => entry.record_id === recordId);
+
+/**
+ * Settle a conflict: `local` overwrites the remote record with the local
+ * edits, `remote` drops them and takes the remote record.
+ */
+export const resolveConflict = async (recordId: string, resolution: ConflictResolution) => {
+  const entries = await entriesFor(recordId);
+  const conflicted = entries.find(entry => entry.status === 'conflict');
+  if (!conflicted) return;
+
+  console.log(`[SYNC] Resolving conflict on ${conflicted.table}/${recordId} with the ${resolution} version`);
+  // Only table rows are conflict-checked
+  const table = conflicted.table as SyncedTable;
+
+  if (resolution === 'local') {
+    // Base the edit on the remote version so it goes through
+    const remoteUpdatedAt = await fetchRemoteUpdatedAt(table, recordId);
+    await localDb.putOutboxEntry({ ...conflicted, status: 'pending', base_updated_at: remoteUpdatedAt });
+    await refreshStates();
+    await flushOutbox();
+    return;
+  }
+
+  const { data, error } = await supabase
+    .from(table)
+    .select('*')
+    .eq('id', recordId)
+    .limit(1);
+  if (error) throw error;
+
+  if (data?.[0]) {
+    await localDb.putRecord(table, data[0]);
+  } else {
+    await localDb.deleteRecord(table, recordId);
+  }
+  await Promise.all(entries.map(entry => localDb.deleteOutboxEntry(entry.id!)));
+  await refreshStates();
+};
+
+// Try writes that gave up again, for one record or all of them
+export const retryFailed = async (recordId?: string) => {
+  const entries = recordId ? await entriesFor(recordId) : await localDb.getOutbox();
+  await Promise.all(entries
+    .filter(entry => entry.status === 'failed')
+    .map(entry => localDb.putOutboxEntry({ ...entry, status: 'pending', attempts: 0 })));
+  await refreshStates();
+  await flushOutbox();
+};
+
+const handleOnline = () => {
+  console.log('[SYNC] Back online');
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  retryDelay = RETRY_BASE_DELAY_MS;
+  void flushOutbox();
+};
+
+/**
+ * Start replaying the outbox: now (for writes left from an earlier session),
+ * whenever the browser comes back online, and with a backoff while Supabase is
+ * unreachable. Returns a function that stops it.
+ */
+export const startSync = () => {
+  if (isOfflineMode || started) return () => {};
+
+  started = true;
+  window.addEventListener('online', handleOnline);
+  void refreshStates().then(() => flushOutbox());
+
+  return () => {
+    started = false;
+    window.removeEventListener('online', handleOnline);
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+};
@@ -0,0 +1,308 @@
+/**
+ * An in-memory stand-in for the Supabase client.
+ *
+ * It implements the subset of the query builder the services use
+ * (`select`, `insert`, `upsert`, `update`, `delete`, `eq`, `match`, `order`,
+ * `limit`, `single`) over plain arrays, so service and context code can run
+ * without a database. `storage` keeps uploaded files in a map, with fake
+ * signed URLs. Like Postgres, writes that set a generated column
+ * (`search_vector`) are rejected. `setOffline(true)` makes every query and upload fail the way
+ * supabase-js reports a dropped connection. `auth` fakes Supabase Auth: guests
+ * sign in straight away, and `signIn(email)` stands in for following a magic
+ * link. Tests replace `createClient` with it:
+ *
+ *   vi.mock('@supabase/supabase-js', async () => {
+ *     const { memoryDb } = await import('../../test/inMemorySupabase');
+ *     return { createClient: () => memoryDb.client };
+ *   });
+ */
+
+type Row = Record<string, any>;
+type Result = { data: any; error: { message: string; code?: string } | null };
+
+type Connection = { offline: boolean };
+
+// Columns Postgres computes itself (see migrations/0007_message_search.sql)
+const GENERATED_COLUMNS = ['search_vector'];
+
+class QueryBuilder implements PromiseLike<Result> {
+  private action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private payload: Row[] | Row | null = null;
+  private filters: ((row: Row) => boolean)[] = [];
+  private ordering: { column: string; ascending: boolean } | null = null;
+  private maxRows: number | null = null;
+  private returnRows = false;
+  private singleRow = false;
+
+  constructor(private tables: Record<string, Row[]>, private table: string, private connection: Connection) {}
+
+  select(_columns: string = '*') {
+    // After a mutation, `select()` asks for the affected rows back
+    this.returnRows = true;
+    return this;
+  }
+
+  insert(rows: Row[] | Row) {
+    this.action = 'insert';
+    this.payload = rows;
+    return this;
+  }
+
+  upsert(rows: Row[] | Row, _options: { onConflict?: string } = {}) {
+    this.action = 'upsert';
+    this.payload = rows;
+    return this;
+  }
+
+  update(values: Row) {
+    this.action = 'update';
+    this.payload = values;
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  match(query: Row) {
+    Object.entries(query).forEach(([column, value]) => this.eq(column, value));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.ordering = { column, ascending: options.ascending !== false };
+    return this;
+  }
+
+  limit(count: number) {
+    this.maxRows = count;
+    return this;
+  }
+
+  single() {
+    this.singleRow = true;
+    return this;
+  }
+
+  then<TResult1 = Result, TResult2 = never>(
+    onfulfilled?: ((value: Result) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private execute(): Result {
+    if (this.connection.offline) {
+      return { data: null, error: { message: 'TypeError: fetch failed' } };
+    }
+
+    const rows = this.tables[this.table] || (this.tables[this.table] = []);
+    const written = this.action === 'insert' || this.action === 'upsert' || this.action === 'update'
+      ? (Array.isArray(this.payload) ? this.payload : [this.payload])
+      : [];
+    const generated = GENERATED_COLUMNS.find(column => written.some(row => row && row[column] !== undefined));
+    if (generated) {
+      return { data: null, error: { message: `cannot insert a non-DEFAULT value into column "${generated}"`, code: '428C9' } };
+    }
+    const matches = (row: Row) => this.filters.every(filter => filter(row));
+    let affected: Row[] = [];
+
+    switch (this.action) {
+      case 'insert': {
+        const inserted = (Array.isArray(this.payload) ? this.payload : [this.payload]).map(row => ({ ...row }));
+        const duplicate = inserted.find(row => row.id && rows.some(existing => existing.id === row.id));
+        if (duplicate) {
+          return { data: null, error: { message: `duplicate key value violates unique constraint "${this.table}_pkey"`, code: '23505' } };
+        }
+        rows.push(...inserted);
+        affected = inserted;
+        break;
+      }
+      case 'upsert': {
+        // Merge into the row with the same id, or insert a new one
+        affected = (Array.isArray(this.payload) ? this.payload : [this.payload]).map(row => {
+          const existing = rows.find(candidate => candidate.id === row!.id);
+          if (existing) {
+            return Object.assign(existing, row);
+          }
+          const inserted = { ...row };
+          rows.push(inserted);
+          return inserted;
+        });
+        break;
+      }
+      case 'update':
+        affected = rows.filter(matches);
+        affected.forEach(row => Object.assign(row, this.payload));
+        break;
+      case 'delete':
+        affected = rows.filter(matches);
+        this.tables[this.table] = rows.filter(row => !matches(row));
+        break;
+      default:
+        affected = rows.filter(matches);
+        this.returnRows = true;
+    }
+
+    let data = affected.map(row => ({ ...row }));
+    if (this.ordering) {
+      const { column, ascending } = this.ordering;
+      data.sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+    }
+    if (this.maxRows !== null) {
+      data = data.slice(0, this.maxRows);
+    }
+
+    if (!this.returnRows) {
+      return { data: null, error: null };
+    }
+    if (this.singleRow) {
+      return data.length === 1
+        ? { data: data[0], error: null }
+        : { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned', code: 'PGRST116' } };
+    }
+    return { data, error: null };
+  }
+}
+
+type FakeSession = { access_token: string; user: { id: string; email?: string; is_anonymous: boolean } };
+type AuthListener = (event: string, session: FakeSession | null) => void;
+
+const createFakeAuth = () => {
+  let session: FakeSession | null = null;
+  let nextUser = 1;
+  const listeners = new Set<AuthListener>();
+  // Emails a magic link was requested for
+  const magicLinks: string[] = [];
+
+  const setSession = (next: FakeSession | null) => {
+    session = next;
+    listeners.forEach(listener => listener(next ? 'SIGNED_IN' : 'SIGNED_OUT', next));
+  };
+  const newSession = (email?: string): FakeSession => ({
+    access_token: `token-${nextUser}`,
+    user: { id: `user-${nextUser++}`, email, is_anonymous: !email }
+  });
+
+  return {
+    magicLinks,
+    // Sign in as if the magic link sent to `email` was followed
+    signIn: (email: string) => setSession(newSession(email)),
+    reset: () => {
+      session = null;
+      magicLinks.length = 0;
+    },
+    client: {
+      getSession: async () => ({ data: { session }, error: null }),
+      onAuthStateChange: (listener: AuthListener) => {
+        listeners.add(listener);
+        return { data: { subscription: { unsubscribe: () => listeners.delete(listener) } } };
+      },
+      signInWithOtp: async ({ email }: { email: string }) => {
+        magicLinks.push(email);
+        return { data: {}, error: null };
+      },
+      signInAnonymously: async () => {
+        setSession(newSession());
+        return { data: { session }, error: null };
+      },
+      signOut: async () => {
+        setSession(null);
+        return { error: null };
+      }
+    }
+  };
+};
+
+type StoredFile = { blob: Blob; contentType?: string };
+
+const createFakeStorage = (connection: Connection) => {
+  // Files by bucket, then by path
+  const buckets: Record<string, Map<string, StoredFile>> = {};
+  const bucket = (name: string) => buckets[name] || (buckets[name] = new Map());
+  const offlineError = () => ({ data: null, error: { message: 'TypeError: fetch failed' } });
+
+  return {
+    // Paths of the files stored in a bucket
+    files: (name: string) => [...bucket(name).keys()],
+    reset: () => {
+      Object.keys(buckets).forEach(name => delete buckets[name]);
+    },
+    client: {
+      from: (name: string) => ({
+        upload: async (path: string, blob: Blob, options: { contentType?: string; upsert?: boolean } = {}) => {
+          if (connection.offline) return offlineError();
+          if (bucket(name).has(path) && !options.upsert) {
+            return { data: null, error: { message: 'The resource already exists' } };
+          }
+          bucket(name).set(path, { blob, contentType: options.contentType });
+          return { data: { path }, error: null };
+        },
+        list: async (folder: string, _options: { limit?: number } = {}) => {
+          if (connection.offline) return offlineError();
+          const prefix = `${folder}/`;
+          const names = [...bucket(name).keys()]
+            .filter(path => path.startsWith(prefix) && !path.slice(prefix.length).includes('/'))
+            .map(path => ({ name: path.slice(prefix.length) }));
+          return { data: names, error: null };
+        },
+        remove: async (paths: string[]) => {
+          if (connection.offline) return offlineError();
+          paths.forEach(path => bucket(name).delete(path));
+          return { data: paths.map(path => ({ name: path })), error: null };
+        },
+        createSignedUrls: async (paths: string[], expiresIn: number) => {
+          if (connection.offline) return offlineError();
+          return {
+            data: paths.map(path => bucket(name).has(path)
+              ? { path, signedUrl: `https://storage.test/${name}/${path}?expires_in=${expiresIn}`, error: null }
+              : { path, signedUrl: '', error: 'Object not found' }),
+            error: null
+          };
+        }
+      })
+    }
+  };
+};
+
+export const createInMemorySupabase = () => {
+  const tables: Record<string, Row[]> = {};
+  const connection: Connection = { offline: false };
+  const auth = createFakeAuth();
+  const storage = createFakeStorage(connection);
+
+  const client = {
+    from: (table: string) => new QueryBuilder(tables, table, connection),
+    rpc: async (name: string) => ({ data: null, error: { message: `function ${name} does not exist` } }),
+    auth: auth.client,
+    storage: storage.client
+  };
+
+  return {
+    client,
+    tables,
+    // Rows currently stored in a table
+    rows: (table: string): Row[] => tables[table] || [],
+    // Simulate losing and regaining the connection
+    setOffline: (offline: boolean) => {
+      connection.offline = offline;
+    },
+    auth,
+    storage,
+    reset: () => {
+      Object.keys(tables).forEach(table => delete tables[table]);
+      connection.offline = false;
+      auth.reset();
+      storage.reset();
+    }
+  };
+};
+
+// Shared instance for tests that mock `@supabase/supabase-js`
+export const memoryDb = createInMemorySupabase();
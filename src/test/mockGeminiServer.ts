@@ -0,0 +1,175 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * A local stand-in for the Gemini REST API.
+ *
+ * It serves `GET /{version}/models`,
+ * `POST /{version}/models/{model}:generateContent|streamGenerateContent` and
+ * `POST /{version}/models/{model}:batchEmbedContents`.
+ * Each test decides what the server answers by setting a handler (embedding
+ * requests have their own, which answers 404 unless a test sets it), and every
+ * request is recorded so tests can check which models were tried and what
+ * was sent. Point the app at it with `VITE_GEMINI_PROXY_URL`.
+ */
+
+export type MockGeminiRequest = {
+  apiVersion: string;
+  model: string;
+  method: 'generateContent' | 'streamGenerateContent' | 'batchEmbedContents';
+  body: any;
+  headers: http.IncomingHttpHeaders;
+};
+
+export type MockGeminiReply =
+  | { text: string }                                  // A successful response with this text
+  | { chunks: string[] }                              // A streamed response, one event per chunk
+  | { status: number; message: string; apiStatus?: string; retryDelay?: string } // An API error
+  | { json: unknown };                                // Any raw response body
+
+export type MockGeminiHandler = (request: MockGeminiRequest) => MockGeminiReply;
+
+export type MockEmbedReply =
+  | { embeddings: number[][] }
+  | { status: number; message: string; apiStatus?: string; retryDelay?: string };
+
+// Called with the texts of a batchEmbedContents request
+export type MockEmbedHandler = (texts: string[], request: MockGeminiRequest) => MockEmbedReply;
+
+export type MockGeminiServer = {
+  url: string;
+  requests: MockGeminiRequest[];
+  models: string[];
+  setHandler: (handler: MockGeminiHandler) => void;
+  setEmbedHandler: (handler: MockEmbedHandler) => void;
+  reset: () => void;
+  close: () => Promise<void>;
+};
+
+const defaultHandler: MockGeminiHandler = () => ({ text: 'Mock response' });
+
+const defaultEmbedHandler: MockEmbedHandler = () => ({ status: 404, message: 'Embedding model not found', apiStatus: 'NOT_FOUND' });
+
+const candidateFor = (text: string) => ({
+  candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }]
+});
+
+const errorBodyFor = (reply: { status: number; message: string; apiStatus?: string; retryDelay?: string }) => ({
+  error: {
+    code: reply.status,
+    message: reply.message,
+    status: reply.apiStatus || '',
+    details: reply.retryDelay
+      ? [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: reply.retryDelay }]
+      : []
+  }
+});
+
+const readBody = (req: http.IncomingMessage): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+export const startMockGeminiServer = async (): Promise<MockGeminiServer> => {
+  let handler = defaultHandler;
+  let embedHandler = defaultEmbedHandler;
+  const requests: MockGeminiRequest[] = [];
+  const models = ['gemini-pro', 'gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-pro-vision'];
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    // Model listing
+    const listMatch = url.pathname.match(/^\/(v1|v1beta)\/models\/?$/);
+    if (req.method === 'GET' && listMatch) {
+      sendJson(res, 200, {
+        models: models.map(id => ({
+          name: `models/${id}`,
+          description: `Mock ${id}`,
+          inputTokenLimit: 30720,
+          outputTokenLimit: 2048,
+          supportedGenerationMethods: ['generateContent', 'countTokens']
+        }))
+      });
+      return;
+    }
+
+    const generateMatch = url.pathname.match(/^\/(v1|v1beta)\/models\/([^/:]+):(generateContent|streamGenerateContent|batchEmbedContents)$/);
+    if (req.method !== 'POST' || !generateMatch) {
+      sendJson(res, 404, errorBodyFor({ status: 404, message: `Unknown path ${url.pathname}`, apiStatus: 'NOT_FOUND' }));
+      return;
+    }
+
+    const [, apiVersion, model, method] = generateMatch;
+    const rawBody = await readBody(req);
+    const request: MockGeminiRequest = {
+      apiVersion,
+      model,
+      method: method as MockGeminiRequest['method'],
+      body: rawBody ? JSON.parse(rawBody) : null,
+      headers: req.headers
+    };
+    requests.push(request);
+
+    if (request.method === 'batchEmbedContents') {
+      const texts = request.body.requests.map((embedRequest: any) => embedRequest.content.parts[0].text);
+      const embedReply = embedHandler(texts, request);
+      if ('status' in embedReply) {
+        sendJson(res, embedReply.status, errorBodyFor(embedReply));
+      } else {
+        sendJson(res, 200, { embeddings: embedReply.embeddings.map(values => ({ values })) });
+      }
+      return;
+    }
+
+    const reply = handler(request);
+
+    if ('status' in reply) {
+      sendJson(res, reply.status, errorBodyFor(reply));
+      return;
+    }
+    if ('json' in reply) {
+      sendJson(res, 200, reply.json);
+      return;
+    }
+
+    const chunks = 'chunks' in reply ? reply.chunks : [reply.text];
+
+    if (request.method === 'streamGenerateContent') {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      for (const chunk of chunks) {
+        res.write(`data: ${JSON.stringify(candidateFor(chunk))}\r\n\r\n`);
+      }
+      res.end();
+      return;
+    }
+
+    sendJson(res, 200, candidateFor(chunks.join('')));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    models,
+    setHandler: (next) => { handler = next; },
+    setEmbedHandler: (next) => { embedHandler = next; },
+    reset: () => {
+      handler = defaultHandler;
+      embedHandler = defaultEmbedHandler;
+      requests.length = 0;
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())))
+  };
+};
@@ -0,0 +1,9 @@
+import 'fake-indexeddb/auto';
+import { vi } from 'vitest';
+
+// Every test runs against the in-memory database instead of a Supabase project,
+// with an in-memory IndexedDB for the local copy
+vi.mock('@supabase/supabase-js', async () => {
+  const { memoryDb } = await import('./inMemorySupabase');
+  return { createClient: () => memoryDb.client };
+});
@@ -1,26 +1,55 @@
+/// <reference types="vitest/config" />
 import path from "path";
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import { tempo } from "tempo-devtools/dist/vite";
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  base: process.env.NODE_ENV === "development" ? "/" : process.env.VITE_BASE_PATH || "/",
-  optimizeDeps: {
-    entries: ["src/main.tsx", "src/tempobook/**/*"],
-  },
-  plugins: [
-    react(),
-    tempo(),
-  ],
-  resolve: {
-    preserveSymlinks: true,
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
+export default defineConfig(({ mode }) => {
+  // Server-side Gemini key, never exposed to the client (no VITE_ prefix)
+  const env = loadEnv(mode, process.cwd(), "");
+
+  return {
+    base: process.env.NODE_ENV === "development" ? "/" : process.env.VITE_BASE_PATH || "/",
+    optimizeDeps: {
+      entries: ["src/main.tsx", "src/tempobook/**/*"],
+    },
+    plugins: [
+      react(),
+      // Tempo's dev tooling isn't needed when running the tests
+      ...(mode === "test" ? [] : [tempo()]),
+    ],
+    resolve: {
+      preserveSymlinks: true,
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
+      },
+    },
+    server: {
+      // @ts-ignore
+      allowedHosts: true,
+      proxy: {
+        // Set VITE_GEMINI_PROXY_URL=/gemini-api to keep the key on the dev server
+        "/gemini-api": {
+          target: "https://generativelanguage.googleapis.com",
+          changeOrigin: true,
+          rewrite: (p) => p.replace(/^\/gemini-api/, ""),
+          headers: env.GEMINI_API_KEY ? { "x-goog-api-key": env.GEMINI_API_KEY } : {},
+        },
+      },
+    },
+    test: {
+      include: ["src/**/*.test.{ts,tsx}"],
+      environment: "node",
+      setupFiles: ["src/test/setup.ts"],
+      // The services log every step; keep the test output readable
+      onConsoleLog: () => false,
+      // Point the Supabase client at a URL; the tests swap in an in-memory stand-in
+      env: {
+        VITE_SUPABASE_URL: "http://supabase.test",
+        VITE_SUPABASE_KEY: "test-key",
+        VITE_GOOGLE_API_KEY: "test-api-key",
+      },
     },
-  },
-  server: {
-    // @ts-ignore
-    allowedHosts: true,
-  }
+  };
 });